@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "inventory_movements" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "reason" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "inventory_movements_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "inventory" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "inventory_movements_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_orderId_idx" ON "inventory_movements"("orderId");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "ingredients" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unit" TEXT NOT NULL DEFAULT '個',
+    "quantity" REAL NOT NULL DEFAULT 0,
+    "minQuantity" REAL NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ingredients_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "recipe_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ingredientId" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "addonId" TEXT,
+    "quantity" REAL NOT NULL,
+    CONSTRAINT "recipe_items_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "ingredients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "recipe_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recipe_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recipe_items_addonId_fkey" FOREIGN KEY ("addonId") REFERENCES "product_addons" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ingredient_movements" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ingredientId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "type" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "balance" REAL NOT NULL,
+    "reason" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ingredient_movements_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "ingredients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ingredient_movements_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ingredients_storeId_name_key" ON "ingredients"("storeId", "name");
+
+-- CreateIndex
+CREATE INDEX "recipe_items_productId_idx" ON "recipe_items"("productId");
+
+-- CreateIndex
+CREATE INDEX "recipe_items_variantId_idx" ON "recipe_items"("variantId");
+
+-- CreateIndex
+CREATE INDEX "recipe_items_addonId_idx" ON "recipe_items"("addonId");
+
+-- CreateIndex
+CREATE INDEX "ingredient_movements_orderId_idx" ON "ingredient_movements"("orderId");
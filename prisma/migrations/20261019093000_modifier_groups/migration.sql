@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "modifier_groups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minSelect" INTEGER NOT NULL DEFAULT 0,
+    "maxSelect" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "modifier_groups_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "modifier_options" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "groupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priceDelta" REAL NOT NULL DEFAULT 0,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "modifier_options_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "modifier_groups" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_item_modifiers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderItemId" TEXT NOT NULL,
+    "optionId" TEXT,
+    "groupName" TEXT NOT NULL,
+    "optionName" TEXT NOT NULL,
+    "priceDelta" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "order_item_modifiers_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_item_modifiers_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "modifier_options" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
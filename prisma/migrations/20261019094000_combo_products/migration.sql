@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "combo_slots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "combo_slots_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "combo_slot_choices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slotId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "upcharge" REAL NOT NULL DEFAULT 0,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "combo_slot_choices_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "combo_slots" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "combo_slot_choices_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "combo_slot_choices_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_item_components" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderItemId" TEXT NOT NULL,
+    "slotName" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "upcharge" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "order_item_components_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_item_components_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_item_components_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_products" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "basePrice" REAL NOT NULL,
+    "image" TEXT,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "isCombo" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "products_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "products_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_products" ("basePrice", "categoryId", "createdAt", "description", "id", "image", "isAvailable", "name", "sortOrder", "storeId", "updatedAt") SELECT "basePrice", "categoryId", "createdAt", "description", "id", "image", "isAvailable", "name", "sortOrder", "storeId", "updatedAt" FROM "products";
+DROP TABLE "products";
+ALTER TABLE "new_products" RENAME TO "products";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "businessDate" TEXT;
+ALTER TABLE "orders" ADD COLUMN "pickupNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_sequences" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "businessDate" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "order_sequences_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_stores" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "address" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT,
+    "image" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "settings" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "businessHours" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Taipei',
+    "businessDayCutoff" TEXT NOT NULL DEFAULT '04:00',
+    "pickupPrefix" TEXT NOT NULL DEFAULT 'A',
+    CONSTRAINT "stores_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_stores" ("address", "businessHours", "createdAt", "description", "email", "id", "image", "name", "phone", "settings", "status", "tenantId", "updatedAt") SELECT "address", "businessHours", "createdAt", "description", "email", "id", "image", "name", "phone", "settings", "status", "tenantId", "updatedAt" FROM "stores";
+DROP TABLE "stores";
+ALTER TABLE "new_stores" RENAME TO "stores";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_sequences_storeId_businessDate_key" ON "order_sequences"("storeId", "businessDate");
+
+-- CreateIndex
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
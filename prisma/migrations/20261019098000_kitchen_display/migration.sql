@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "kitchen_stations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "kitchen_stations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "kitchen_station_categories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "stationId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    CONSTRAINT "kitchen_station_categories_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "kitchen_stations" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "kitchen_station_categories_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "kitchen_ticket_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "componentId" TEXT,
+    "stationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "bumpedAt" DATETIME,
+    "bumpedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "kitchen_ticket_items_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "kitchen_ticket_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "kitchen_ticket_items_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "order_item_components" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "kitchen_ticket_items_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "kitchen_stations" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kitchen_station_categories_stationId_categoryId_key" ON "kitchen_station_categories"("stationId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "kitchen_ticket_items_stationId_status_idx" ON "kitchen_ticket_items"("stationId", "status");
+
+-- CreateIndex
+CREATE INDEX "kitchen_ticket_items_orderId_idx" ON "kitchen_ticket_items"("orderId");
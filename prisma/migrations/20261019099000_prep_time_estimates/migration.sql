@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "prepTime" INTEGER;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_kitchen_stations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "kitchen_stations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_kitchen_stations" ("createdAt", "id", "isActive", "isDefault", "name", "sortOrder", "storeId") SELECT "createdAt", "id", "isActive", "isDefault", "name", "sortOrder", "storeId" FROM "kitchen_stations";
+DROP TABLE "kitchen_stations";
+ALTER TABLE "new_kitchen_stations" RENAME TO "kitchen_stations";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
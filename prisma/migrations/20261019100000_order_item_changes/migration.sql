@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "order_item_changes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "productName" TEXT NOT NULL,
+    "before" TEXT,
+    "after" TEXT,
+    "amountDelta" REAL NOT NULL,
+    "reason" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_item_changes_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalAmount" REAL NOT NULL,
+    "discountAmount" REAL NOT NULL DEFAULT 0,
+    "finalAmount" REAL NOT NULL,
+    "couponId" TEXT,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "estimatedTime" INTEGER,
+    "note" TEXT,
+    "tableNumber" TEXT,
+    "pickupNumber" TEXT,
+    "businessDate" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("branchId", "businessDate", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "status", "storeId", "tableNumber", "totalAmount", "updatedAt") SELECT "branchId", "businessDate", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "status", "storeId", "tableNumber", "totalAmount", "updatedAt" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "order_item_changes_orderId_idx" ON "order_item_changes"("orderId");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "payerName" TEXT;
+
+-- CreateTable
+CREATE TABLE "payment_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paymentId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" REAL NOT NULL,
+    CONSTRAINT "payment_items_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "payment_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
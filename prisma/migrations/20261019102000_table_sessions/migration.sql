@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "tables" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "name" TEXT NOT NULL,
+    "area" TEXT,
+    "seats" INTEGER NOT NULL DEFAULT 4,
+    "posX" INTEGER,
+    "posY" INTEGER,
+    "sessionId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "tables_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "tables_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tables_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "table_sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "tableId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "guestCount" INTEGER NOT NULL DEFAULT 1,
+    "mergedIntoId" TEXT,
+    "openedBy" TEXT,
+    "closedBy" TEXT,
+    "openedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" DATETIME,
+    CONSTRAINT "table_sessions_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "table_sessions_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "tables" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalAmount" REAL NOT NULL,
+    "discountAmount" REAL NOT NULL DEFAULT 0,
+    "finalAmount" REAL NOT NULL,
+    "couponId" TEXT,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "estimatedTime" INTEGER,
+    "note" TEXT,
+    "tableNumber" TEXT,
+    "tableSessionId" TEXT,
+    "pickupNumber" TEXT,
+    "businessDate" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableSessionId_fkey" FOREIGN KEY ("tableSessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("branchId", "businessDate", "couponId", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "status", "storeId", "tableNumber", "totalAmount", "updatedAt") SELECT "branchId", "businessDate", "couponId", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "status", "storeId", "tableNumber", "totalAmount", "updatedAt" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
+CREATE INDEX "orders_tableSessionId_idx" ON "orders"("tableSessionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tables_storeId_name_key" ON "tables"("storeId", "name");
+
+-- CreateIndex
+CREATE INDEX "table_sessions_storeId_status_idx" ON "table_sessions"("storeId", "status");
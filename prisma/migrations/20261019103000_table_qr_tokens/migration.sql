@@ -0,0 +1,28 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_tables" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "name" TEXT NOT NULL,
+    "area" TEXT,
+    "seats" INTEGER NOT NULL DEFAULT 4,
+    "posX" INTEGER,
+    "posY" INTEGER,
+    "sessionId" TEXT,
+    "qrVersion" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "tables_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "tables_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tables_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_tables" ("area", "branchId", "createdAt", "id", "isActive", "name", "posX", "posY", "seats", "sessionId", "sortOrder", "storeId", "updatedAt") SELECT "area", "branchId", "createdAt", "id", "isActive", "name", "posX", "posY", "seats", "sessionId", "sortOrder", "storeId", "updatedAt" FROM "tables";
+DROP TABLE "tables";
+ALTER TABLE "new_tables" RENAME TO "tables";
+CREATE UNIQUE INDEX "tables_storeId_name_key" ON "tables"("storeId", "name");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
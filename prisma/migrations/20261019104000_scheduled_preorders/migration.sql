@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "releasedAt" DATETIME;
+ALTER TABLE "orders" ADD COLUMN "scheduledFor" DATETIME;
+
+-- CreateTable
+CREATE TABLE "pickup_slot_configs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "slotMinutes" INTEGER NOT NULL DEFAULT 15,
+    "maxOrders" INTEGER,
+    "maxItems" INTEGER,
+    "leadMinutes" INTEGER NOT NULL DEFAULT 20,
+    "minAdvanceMinutes" INTEGER NOT NULL DEFAULT 30,
+    "maxAdvanceDays" INTEGER NOT NULL DEFAULT 3,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "pickup_slot_configs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pickup_slot_configs_storeId_key" ON "pickup_slot_configs"("storeId");
+
+-- CreateIndex
+CREATE INDEX "orders_storeId_scheduledFor_idx" ON "orders"("storeId", "scheduledFor");
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "availability_schedules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "productId" TEXT,
+    "daysOfWeek" TEXT NOT NULL DEFAULT '0,1,2,3,4,5,6',
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "availability_schedules_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "availability_schedules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "availability_schedules_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "price_rules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "productId" TEXT,
+    "adjustmentType" TEXT NOT NULL,
+    "value" REAL NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "daysOfWeek" TEXT NOT NULL DEFAULT '0,1,2,3,4,5,6',
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "validFrom" DATETIME,
+    "validUntil" DATETIME,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "price_rules_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "price_rules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "price_rules_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_order_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "totalPrice" REAL NOT NULL,
+    "note" TEXT,
+    "priceRuleId" TEXT,
+    "priceRuleName" TEXT,
+    "priceRuleDiscount" REAL NOT NULL DEFAULT 0,
+    CONSTRAINT "order_items_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "order_items_priceRuleId_fkey" FOREIGN KEY ("priceRuleId") REFERENCES "price_rules" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_order_items" ("id", "note", "orderId", "productId", "quantity", "totalPrice", "unitPrice", "variantId") SELECT "id", "note", "orderId", "productId", "quantity", "totalPrice", "unitPrice", "variantId" FROM "order_items";
+DROP TABLE "order_items";
+ALTER TABLE "new_order_items" RENAME TO "order_items";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "availability_schedules_storeId_idx" ON "availability_schedules"("storeId");
+
+-- CreateIndex
+CREATE INDEX "price_rules_storeId_idx" ON "price_rules"("storeId");
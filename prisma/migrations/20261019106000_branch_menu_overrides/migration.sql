@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "branch_product_overrides" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "branchId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "price" REAL,
+    "variantPrices" TEXT,
+    "isSoldOut" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "branch_product_overrides_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "branch_product_overrides_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_products" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "basePrice" REAL NOT NULL,
+    "image" TEXT,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "isCombo" BOOLEAN NOT NULL DEFAULT false,
+    "prepTime" INTEGER,
+    "branchId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "products_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "products_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "products_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_products" ("basePrice", "categoryId", "createdAt", "description", "id", "image", "isAvailable", "isCombo", "name", "prepTime", "sortOrder", "storeId", "updatedAt") SELECT "basePrice", "categoryId", "createdAt", "description", "id", "image", "isAvailable", "isCombo", "name", "prepTime", "sortOrder", "storeId", "updatedAt" FROM "products";
+DROP TABLE "products";
+ALTER TABLE "new_products" RENAME TO "products";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "branch_product_overrides_branchId_productId_key" ON "branch_product_overrides"("branchId", "productId");
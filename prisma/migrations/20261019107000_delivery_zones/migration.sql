@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "latitude" REAL;
+ALTER TABLE "stores" ADD COLUMN "longitude" REAL;
+
+-- CreateTable
+CREATE TABLE "delivery_zones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "radiusKm" REAL,
+    "polygon" TEXT,
+    "minOrderAmount" REAL NOT NULL DEFAULT 0,
+    "baseFee" REAL NOT NULL DEFAULT 0,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "delivery_zones_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "delivery_fee_tiers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "zoneId" TEXT NOT NULL,
+    "maxDistanceKm" REAL NOT NULL,
+    "fee" REAL NOT NULL,
+    CONSTRAINT "delivery_fee_tiers_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "delivery_zones" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalAmount" REAL NOT NULL,
+    "discountAmount" REAL NOT NULL DEFAULT 0,
+    "finalAmount" REAL NOT NULL,
+    "couponId" TEXT,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "estimatedTime" INTEGER,
+    "note" TEXT,
+    "tableNumber" TEXT,
+    "tableSessionId" TEXT,
+    "pickupNumber" TEXT,
+    "businessDate" TEXT,
+    "scheduledFor" DATETIME,
+    "releasedAt" DATETIME,
+    "deliveryAddress" TEXT,
+    "deliveryLatitude" REAL,
+    "deliveryLongitude" REAL,
+    "deliveryZoneId" TEXT,
+    "deliveryDistanceKm" REAL,
+    "deliveryFee" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableSessionId_fkey" FOREIGN KEY ("tableSessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_deliveryZoneId_fkey" FOREIGN KEY ("deliveryZoneId") REFERENCES "delivery_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("branchId", "businessDate", "couponId", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt") SELECT "branchId", "businessDate", "couponId", "createdAt", "customerId", "discountAmount", "estimatedTime", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
+CREATE INDEX "orders_tableSessionId_idx" ON "orders"("tableSessionId");
+CREATE INDEX "orders_storeId_scheduledFor_idx" ON "orders"("storeId", "scheduledFor");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "delivery_zones_storeId_idx" ON "delivery_zones"("storeId");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "delivery_jobs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ASSIGNED',
+    "etaMinutes" INTEGER,
+    "lastLatitude" REAL,
+    "lastLongitude" REAL,
+    "lastLocationAt" DATETIME,
+    "assignedBy" TEXT,
+    "assignedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" DATETIME,
+    "pickedUpAt" DATETIME,
+    "deliveredAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "delivery_jobs_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "delivery_jobs_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "driver_locations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "driverId" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "recordedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "driver_locations_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_jobs_orderId_key" ON "delivery_jobs"("orderId");
+
+-- CreateIndex
+CREATE INDEX "delivery_jobs_driverId_status_idx" ON "delivery_jobs"("driverId", "status");
+
+-- CreateIndex
+CREATE INDEX "delivery_jobs_storeId_status_idx" ON "delivery_jobs"("storeId", "status");
+
+-- CreateIndex
+CREATE INDEX "driver_locations_driverId_recordedAt_idx" ON "driver_locations"("driverId", "recordedAt");
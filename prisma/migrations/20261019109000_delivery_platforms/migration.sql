@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "externalDisplayId" TEXT;
+ALTER TABLE "orders" ADD COLUMN "externalOrderId" TEXT;
+ALTER TABLE "orders" ADD COLUMN "externalPlatform" TEXT;
+
+-- CreateTable
+CREATE TABLE "platform_integrations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "platform" TEXT NOT NULL,
+    "externalStoreId" TEXT NOT NULL,
+    "apiBaseUrl" TEXT NOT NULL,
+    "apiKey" TEXT NOT NULL,
+    "webhookSecret" TEXT NOT NULL,
+    "autoAccept" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "platform_integrations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "platform_menu_mappings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "integrationId" TEXT NOT NULL,
+    "externalItemId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    CONSTRAINT "platform_menu_mappings_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "platform_integrations" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "platform_menu_mappings_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_integrations_platform_externalStoreId_key" ON "platform_integrations"("platform", "externalStoreId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_integrations_storeId_platform_key" ON "platform_integrations"("storeId", "platform");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_menu_mappings_integrationId_externalItemId_key" ON "platform_menu_mappings"("integrationId", "externalItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_externalPlatform_externalOrderId_key" ON "orders"("externalPlatform", "externalOrderId");
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "coupon_campaigns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "value" REAL NOT NULL,
+    "minOrderAmount" REAL,
+    "maxDiscount" REAL,
+    "validFrom" DATETIME NOT NULL,
+    "validUntil" DATETIME NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "coupon_campaigns_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_coupons" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" REAL NOT NULL,
+    "minOrderAmount" REAL,
+    "maxDiscount" REAL,
+    "usageLimit" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" DATETIME NOT NULL,
+    "validUntil" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "coupons_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "coupon_campaigns" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_coupons" ("code", "createdAt", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "usageLimit", "usedCount", "validFrom", "validUntil", "value") SELECT "code", "createdAt", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "usageLimit", "usedCount", "validFrom", "validUntil", "value" FROM "coupons";
+DROP TABLE "coupons";
+ALTER TABLE "new_coupons" RENAME TO "coupons";
+CREATE UNIQUE INDEX "coupons_code_key" ON "coupons"("code");
+CREATE INDEX "coupons_storeId_idx" ON "coupons"("storeId");
+CREATE INDEX "coupons_campaignId_idx" ON "coupons"("campaignId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "coupon_campaigns_storeId_idx" ON "coupon_campaigns"("storeId");
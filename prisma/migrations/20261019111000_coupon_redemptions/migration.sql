@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "coupon_redemptions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "couponId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "discountAmount" REAL NOT NULL,
+    "reversedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "coupon_redemptions_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "coupon_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "coupon_redemptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "coupon_targets" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "couponId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "coupon_targets_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "coupon_targets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_coupons" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" REAL NOT NULL,
+    "minOrderAmount" REAL,
+    "maxDiscount" REAL,
+    "usageLimit" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "perCustomerLimit" INTEGER,
+    "newCustomersOnly" BOOLEAN NOT NULL DEFAULT false,
+    "eligibleTiers" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" DATETIME NOT NULL,
+    "validUntil" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "coupons_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "coupon_campaigns" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_coupons" ("campaignId", "code", "createdAt", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "usageLimit", "usedCount", "validFrom", "validUntil", "value") SELECT "campaignId", "code", "createdAt", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "usageLimit", "usedCount", "validFrom", "validUntil", "value" FROM "coupons";
+DROP TABLE "coupons";
+ALTER TABLE "new_coupons" RENAME TO "coupons";
+CREATE UNIQUE INDEX "coupons_code_key" ON "coupons"("code");
+CREATE INDEX "coupons_storeId_idx" ON "coupons"("storeId");
+CREATE INDEX "coupons_campaignId_idx" ON "coupons"("campaignId");
+CREATE TABLE "new_coupon_campaigns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "value" REAL NOT NULL,
+    "minOrderAmount" REAL,
+    "maxDiscount" REAL,
+    "perCustomerLimit" INTEGER,
+    "newCustomersOnly" BOOLEAN NOT NULL DEFAULT false,
+    "eligibleTiers" TEXT,
+    "validFrom" DATETIME NOT NULL,
+    "validUntil" DATETIME NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "coupon_campaigns_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_coupon_campaigns" ("createdAt", "description", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "updatedAt", "validFrom", "validUntil", "value") SELECT "createdAt", "description", "id", "isActive", "maxDiscount", "minOrderAmount", "name", "storeId", "type", "updatedAt", "validFrom", "validUntil", "value" FROM "coupon_campaigns";
+DROP TABLE "coupon_campaigns";
+ALTER TABLE "new_coupon_campaigns" RENAME TO "coupon_campaigns";
+CREATE INDEX "coupon_campaigns_storeId_idx" ON "coupon_campaigns"("storeId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_redemptions_orderId_key" ON "coupon_redemptions"("orderId");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemptions_couponId_userId_idx" ON "coupon_redemptions"("couponId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_targets_couponId_userId_key" ON "coupon_targets"("couponId", "userId");
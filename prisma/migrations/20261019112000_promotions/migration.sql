@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "promotions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "conditions" TEXT NOT NULL,
+    "actionType" TEXT NOT NULL,
+    "actionValue" REAL NOT NULL DEFAULT 0,
+    "rewardProductId" TEXT,
+    "rewardQuantity" INTEGER,
+    "maxApplications" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "stackable" BOOLEAN NOT NULL DEFAULT true,
+    "combinableWithCoupons" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" DATETIME,
+    "validUntil" DATETIME,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "promotions_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "promotions_rewardProductId_fkey" FOREIGN KEY ("rewardProductId") REFERENCES "products" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "order_promotions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "promotionId" TEXT,
+    "name" TEXT NOT NULL,
+    "discountAmount" REAL NOT NULL,
+    CONSTRAINT "order_promotions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "order_promotions_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "promotions_storeId_idx" ON "promotions"("storeId");
+
+-- CreateIndex
+CREATE INDEX "order_promotions_orderId_idx" ON "order_promotions"("orderId");
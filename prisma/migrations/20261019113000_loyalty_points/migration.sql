@@ -0,0 +1,103 @@
+-- CreateTable
+CREATE TABLE "member_point_usages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sourceId" TEXT NOT NULL,
+    "consumerId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    CONSTRAINT "member_point_usages_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "member_points" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "member_point_usages_consumerId_fkey" FOREIGN KEY ("consumerId") REFERENCES "member_points" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "loyalty_configs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tenantId" TEXT NOT NULL,
+    "earnRate" REAL NOT NULL DEFAULT 10,
+    "redeemValue" REAL NOT NULL DEFAULT 1,
+    "minRedeemPoints" INTEGER NOT NULL DEFAULT 0,
+    "maxRedeemPoints" INTEGER,
+    "maxRedeemPercent" REAL NOT NULL DEFAULT 50,
+    "pointsValidDays" INTEGER DEFAULT 365,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "loyalty_configs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalAmount" REAL NOT NULL,
+    "discountAmount" REAL NOT NULL DEFAULT 0,
+    "finalAmount" REAL NOT NULL,
+    "couponId" TEXT,
+    "pointsRedeemed" INTEGER NOT NULL DEFAULT 0,
+    "pointsDiscount" REAL NOT NULL DEFAULT 0,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "estimatedTime" INTEGER,
+    "note" TEXT,
+    "tableNumber" TEXT,
+    "tableSessionId" TEXT,
+    "pickupNumber" TEXT,
+    "businessDate" TEXT,
+    "scheduledFor" DATETIME,
+    "releasedAt" DATETIME,
+    "deliveryAddress" TEXT,
+    "deliveryLatitude" REAL,
+    "deliveryLongitude" REAL,
+    "deliveryZoneId" TEXT,
+    "deliveryDistanceKm" REAL,
+    "deliveryFee" REAL NOT NULL DEFAULT 0,
+    "externalPlatform" TEXT,
+    "externalOrderId" TEXT,
+    "externalDisplayId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableSessionId_fkey" FOREIGN KEY ("tableSessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_deliveryZoneId_fkey" FOREIGN KEY ("deliveryZoneId") REFERENCES "delivery_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("branchId", "businessDate", "couponId", "createdAt", "customerId", "deliveryAddress", "deliveryDistanceKm", "deliveryFee", "deliveryLatitude", "deliveryLongitude", "deliveryZoneId", "discountAmount", "estimatedTime", "externalDisplayId", "externalOrderId", "externalPlatform", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt") SELECT "branchId", "businessDate", "couponId", "createdAt", "customerId", "deliveryAddress", "deliveryDistanceKm", "deliveryFee", "deliveryLatitude", "deliveryLongitude", "deliveryZoneId", "discountAmount", "estimatedTime", "externalDisplayId", "externalOrderId", "externalPlatform", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
+CREATE INDEX "orders_tableSessionId_idx" ON "orders"("tableSessionId");
+CREATE INDEX "orders_storeId_scheduledFor_idx" ON "orders"("storeId", "scheduledFor");
+CREATE UNIQUE INDEX "orders_externalPlatform_externalOrderId_key" ON "orders"("externalPlatform", "externalOrderId");
+CREATE TABLE "new_member_points" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "expiresAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "member_points_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "member_points_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_member_points" ("amount", "createdAt", "description", "expiresAt", "id", "remaining", "type", "userId") SELECT "amount", "createdAt", "description", "expiresAt", "id", CASE WHEN "amount" > 0 THEN "amount" ELSE 0 END, "type", "userId" FROM "member_points";
+DROP TABLE "member_points";
+ALTER TABLE "new_member_points" RENAME TO "member_points";
+CREATE INDEX "member_points_userId_remaining_idx" ON "member_points"("userId", "remaining");
+CREATE INDEX "member_points_orderId_idx" ON "member_points"("orderId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "member_point_usages_consumerId_idx" ON "member_point_usages"("consumerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loyalty_configs_tenantId_key" ON "loyalty_configs"("tenantId");
@@ -0,0 +1,98 @@
+-- AlterTable
+ALTER TABLE "customer_profiles" ADD COLUMN "birthdayGiftYear" INTEGER;
+ALTER TABLE "customer_profiles" ADD COLUMN "tierUpdatedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "loyalty_configs" ADD COLUMN "tierWindowMonths" INTEGER;
+
+-- CreateTable
+CREATE TABLE "loyalty_tiers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minSpend" REAL NOT NULL,
+    "pointsMultiplier" REAL NOT NULL DEFAULT 1,
+    "discountPercent" REAL NOT NULL DEFAULT 0,
+    "birthdayGiftPoints" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "loyalty_tiers_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "loyalty_tier_changes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "fromTier" TEXT NOT NULL,
+    "toTier" TEXT NOT NULL,
+    "qualifyingSpend" REAL NOT NULL,
+    "notifiedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "loyalty_tier_changes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalAmount" REAL NOT NULL,
+    "discountAmount" REAL NOT NULL DEFAULT 0,
+    "finalAmount" REAL NOT NULL,
+    "couponId" TEXT,
+    "pointsRedeemed" INTEGER NOT NULL DEFAULT 0,
+    "pointsDiscount" REAL NOT NULL DEFAULT 0,
+    "tierDiscount" REAL NOT NULL DEFAULT 0,
+    "paymentStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "estimatedTime" INTEGER,
+    "note" TEXT,
+    "tableNumber" TEXT,
+    "tableSessionId" TEXT,
+    "pickupNumber" TEXT,
+    "businessDate" TEXT,
+    "scheduledFor" DATETIME,
+    "releasedAt" DATETIME,
+    "deliveryAddress" TEXT,
+    "deliveryLatitude" REAL,
+    "deliveryLongitude" REAL,
+    "deliveryZoneId" TEXT,
+    "deliveryDistanceKm" REAL,
+    "deliveryFee" REAL NOT NULL DEFAULT 0,
+    "externalPlatform" TEXT,
+    "externalOrderId" TEXT,
+    "externalDisplayId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "store_branches" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_tableSessionId_fkey" FOREIGN KEY ("tableSessionId") REFERENCES "table_sessions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "orders_deliveryZoneId_fkey" FOREIGN KEY ("deliveryZoneId") REFERENCES "delivery_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_orders" ("branchId", "businessDate", "couponId", "createdAt", "customerId", "deliveryAddress", "deliveryDistanceKm", "deliveryFee", "deliveryLatitude", "deliveryLongitude", "deliveryZoneId", "discountAmount", "estimatedTime", "externalDisplayId", "externalOrderId", "externalPlatform", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "pointsDiscount", "pointsRedeemed", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt") SELECT "branchId", "businessDate", "couponId", "createdAt", "customerId", "deliveryAddress", "deliveryDistanceKm", "deliveryFee", "deliveryLatitude", "deliveryLongitude", "deliveryZoneId", "discountAmount", "estimatedTime", "externalDisplayId", "externalOrderId", "externalPlatform", "finalAmount", "id", "note", "orderNumber", "orderType", "paymentStatus", "pickupNumber", "pointsDiscount", "pointsRedeemed", "releasedAt", "scheduledFor", "status", "storeId", "tableNumber", "tableSessionId", "totalAmount", "updatedAt" FROM "orders";
+DROP TABLE "orders";
+ALTER TABLE "new_orders" RENAME TO "orders";
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_storeId_businessDate_idx" ON "orders"("storeId", "businessDate");
+CREATE INDEX "orders_tableSessionId_idx" ON "orders"("tableSessionId");
+CREATE INDEX "orders_storeId_scheduledFor_idx" ON "orders"("storeId", "scheduledFor");
+CREATE UNIQUE INDEX "orders_externalPlatform_externalOrderId_key" ON "orders"("externalPlatform", "externalOrderId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loyalty_tiers_tenantId_code_key" ON "loyalty_tiers"("tenantId", "code");
+
+-- CreateIndex
+CREATE INDEX "loyalty_tier_changes_userId_createdAt_idx" ON "loyalty_tier_changes"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "loyalty_tier_changes_notifiedAt_idx" ON "loyalty_tier_changes"("notifiedAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "orderCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stores_orderCode_key" ON "stores"("orderCode");
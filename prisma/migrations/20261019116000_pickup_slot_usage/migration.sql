@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "pickup_slot_usages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "slotStart" DATETIME NOT NULL,
+    "orderCount" INTEGER NOT NULL DEFAULT 0,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "pickup_slot_usages_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pickup_slot_usages_storeId_slotStart_key" ON "pickup_slot_usages"("storeId", "slotStart");
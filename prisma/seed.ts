@@ -12,6 +12,7 @@ async function main() {
     { name: 'TENANT_ADMIN', description: '租戶管理員', permissions: '{"tenant": true}' },
     { name: 'STORE_MANAGER', description: '店鋪管理員', permissions: '{"store": true}' },
     { name: 'STAFF', description: '員工', permissions: '{"pos": true}' },
+    { name: 'DRIVER', description: '外送員', permissions: '{"delivery": true}' },
     { name: 'CUSTOMER', description: '顧客', permissions: '{"order": true}' },
   ];
 
@@ -0,0 +1,262 @@
+import express from 'express';
+import axios from 'axios';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { getPlatformAdapter, signPlatformPayload } from '../services/platformAdapters';
+
+/**
+ * 本機模擬外送平台（Uber Eats / foodpanda），離線測試串接用
+ * - 接收本系統回傳的訂單狀態並記錄
+ * - 產生帶簽章的webhook送到本系統
+ *
+ * 單獨執行: npm run fake-platform
+ */
+
+export interface FakeOrderInput {
+  externalStoreId: string;
+  externalOrderId?: string;
+  displayId?: string;
+  items: Array<{ id: string; quantity: number; note?: string }>;
+  note?: string;
+  customerName?: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+}
+
+export interface FakeStatusPush {
+  platform: string;
+  externalOrderId: string;
+  status: string;
+  reason?: string;
+  authorized: boolean;
+  receivedAt: Date;
+}
+
+export interface FakePlatformOptions {
+  apiKey?: string;        // 設定時檢查回傳狀態的Authorization
+  webhookSecret: string;
+  posBaseUrl?: string;    // 本系統位址，模擬送出webhook用
+}
+
+/**
+ * 產生平台webhook內容
+ */
+export const buildPlatformOrderPayload = (platform: string, input: FakeOrderInput) => {
+  const externalOrderId = input.externalOrderId || crypto.randomUUID();
+  const displayId = input.displayId || externalOrderId.slice(0, 5).toUpperCase();
+
+  if (platform === 'FOODPANDA') {
+    return {
+      event: 'order.created',
+      token: externalOrderId,
+      code: displayId,
+      createdAt: new Date().toISOString(),
+      platformRestaurant: { id: input.externalStoreId },
+      products: input.items.map(item => ({
+        remoteCode: item.id,
+        quantity: item.quantity,
+        comment: item.note,
+      })),
+      comments: { customerComment: input.note },
+      customer: { firstName: input.customerName, mobilePhone: input.customerPhone },
+      delivery: input.deliveryAddress ? { address: { street: input.deliveryAddress } } : undefined,
+    };
+  }
+
+  return {
+    event_type: 'orders.notification',
+    event_id: crypto.randomUUID(),
+    meta: { resource_id: externalOrderId, user_id: input.externalStoreId },
+    order: {
+      display_id: displayId,
+      cart: {
+        items: input.items.map(item => ({
+          id: item.id,
+          quantity: item.quantity,
+          special_instructions: item.note,
+        })),
+        special_instructions: input.note,
+      },
+      eater: { first_name: input.customerName, phone: input.customerPhone },
+      delivery: input.deliveryAddress ? { location: { address: input.deliveryAddress } } : undefined,
+    },
+  };
+};
+
+/**
+ * 產生平台取消訂單的webhook內容
+ */
+export const buildPlatformCancelPayload = (
+  platform: string,
+  externalStoreId: string,
+  externalOrderId: string,
+  reason?: string
+) => {
+  if (platform === 'FOODPANDA') {
+    return {
+      event: 'order.cancelled',
+      token: externalOrderId,
+      platformRestaurant: { id: externalStoreId },
+      reason,
+    };
+  }
+
+  return {
+    event_type: 'orders.cancel',
+    event_id: crypto.randomUUID(),
+    meta: { resource_id: externalOrderId, user_id: externalStoreId },
+    reason,
+  };
+};
+
+/**
+ * 序列化並簽章，回傳原始內容及需帶上的header
+ */
+export const signPlatformWebhook = (platform: string, payload: object, secret: string) => {
+  const rawBody = JSON.stringify(payload);
+  const adapter = getPlatformAdapter(platform);
+
+  return {
+    rawBody,
+    headers: {
+      'content-type': 'application/json',
+      [adapter.signatureHeader]: signPlatformPayload(rawBody, secret),
+    },
+  };
+};
+
+export const createFakeDeliveryPlatform = (options: FakePlatformOptions) => {
+  const app = express();
+  const pushes: FakeStatusPush[] = [];
+
+  app.use(express.json());
+
+  const isAuthorized = (req: express.Request) =>
+    !options.apiKey || req.headers.authorization === `Bearer ${options.apiKey}`;
+
+  const record = (req: express.Request, res: express.Response, push: Omit<FakeStatusPush, 'authorized' | 'receivedAt'>) => {
+    const authorized = isAuthorized(req);
+    pushes.push({ ...push, authorized, receivedAt: new Date() });
+
+    if (!authorized) {
+      return res.status(401).json({ error: 'unauthorized' });
+    }
+
+    res.status(204).end();
+  };
+
+  // Uber Eats: accept_pos_order / ready_for_pickup / cancel
+  app.post('/v1/eats/orders/:orderId/:action', (req, res) => {
+    const statuses: Record<string, string> = {
+      accept_pos_order: 'ACCEPTED',
+      ready_for_pickup: 'READY',
+      cancel: 'CANCELLED',
+    };
+
+    record(req, res, {
+      platform: 'UBER_EATS',
+      externalOrderId: req.params.orderId,
+      status: statuses[req.params.action] || req.params.action,
+      reason: req.body.reason,
+    });
+  });
+
+  // foodpanda: order_accepted / order_prepared / order_cancelled
+  app.post('/v2/orders/:token/status', (req, res) => {
+    const statuses: Record<string, string> = {
+      order_accepted: 'ACCEPTED',
+      order_prepared: 'READY',
+      order_cancelled: 'CANCELLED',
+    };
+
+    record(req, res, {
+      platform: 'FOODPANDA',
+      externalOrderId: req.params.token,
+      status: statuses[req.body.status] || req.body.status,
+      reason: req.body.reason,
+    });
+  });
+
+  app.get('/_pushes', (req, res) => {
+    res.json(pushes);
+  });
+
+  app.delete('/_pushes', (req, res) => {
+    pushes.length = 0;
+    res.status(204).end();
+  });
+
+  /**
+   * 模擬平台送出訂單或取消訂單到本系統
+   * POST /_simulate/:platform/orders
+   * POST /_simulate/:platform/orders/:externalOrderId/cancel
+   */
+  const sendWebhook = async (platform: string, payload: object) => {
+    if (!options.posBaseUrl) {
+      throw new Error('posBaseUrl is not configured');
+    }
+
+    const { rawBody, headers } = signPlatformWebhook(platform, payload, options.webhookSecret);
+    const response = await axios.post(`${options.posBaseUrl}/api/platforms/${platform}/webhook`, rawBody, {
+      headers,
+      validateStatus: () => true,
+    });
+
+    return { status: response.status, data: response.data };
+  };
+
+  app.post('/_simulate/:platform/orders', async (req, res) => {
+    try {
+      const platform = req.params.platform.toUpperCase();
+      const payload = buildPlatformOrderPayload(platform, req.body);
+      const response = await sendWebhook(platform, payload);
+
+      res.json({ payload, response });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post('/_simulate/:platform/orders/:externalOrderId/cancel', async (req, res) => {
+    try {
+      const platform = req.params.platform.toUpperCase();
+      const payload = buildPlatformCancelPayload(
+        platform,
+        req.body.externalStoreId,
+        req.params.externalOrderId,
+        req.body.reason
+      );
+      const response = await sendWebhook(platform, payload);
+
+      res.json({ payload, response });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * 啟動伺服器，port為0時使用隨機埠號
+   */
+  const listen = (port = 0) => new Promise<{ server: http.Server; baseUrl: string }>((resolve) => {
+    const server = app.listen(port, () => {
+      const address = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${address.port}` });
+    });
+  });
+
+  return { app, pushes, listen };
+};
+
+if (require.main === module) {
+  const platform = createFakeDeliveryPlatform({
+    apiKey: process.env.FAKE_PLATFORM_API_KEY,
+    webhookSecret: process.env.FAKE_PLATFORM_WEBHOOK_SECRET || 'fake-platform-webhook-secret',
+    posBaseUrl: process.env.POS_BASE_URL || 'http://localhost:3000',
+  });
+
+  platform.listen(Number(process.env.FAKE_PLATFORM_PORT) || 4010).then(({ baseUrl }) => {
+    console.log(`🛵 模擬外送平台啟動: ${baseUrl}`);
+    console.log('   串接設定的 apiBaseUrl 請填入此位址');
+  });
+}
\ No newline at end of file
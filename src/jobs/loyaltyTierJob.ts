@@ -0,0 +1,62 @@
+import cron from 'node-cron';
+import logger from '../utils/logger';
+import { LoyaltyTierService } from '../services/loyaltyTierService';
+import { SocketManager } from '../services/socketService';
+
+const loyaltyTierService = new LoyaltyTierService();
+
+/**
+ * 通知顧客尚未通知的等級異動（包含訂單完成時的即時升級）
+ */
+export const notifyTierChanges = async (socketManager: SocketManager, now: Date = new Date()) => {
+  const changes = await loyaltyTierService.getPendingChanges();
+
+  for (const change of changes) {
+    socketManager.sendLoyaltyTierChanged(change);
+  }
+
+  if (changes.length > 0) {
+    await loyaltyTierService.markNotified(changes.map(change => change.id), now);
+  }
+
+  return changes;
+};
+
+/**
+ * 依統計期間重新評估所有會員等級、發放當月生日禮，並通知等級異動
+ */
+export const evaluateLoyaltyTiers = async (socketManager: SocketManager, now: Date = new Date()) => {
+  const changes = await loyaltyTierService.evaluateAll(now);
+  await loyaltyTierService.grantBirthdayGifts(now);
+  await notifyTierChanges(socketManager, now);
+
+  return changes;
+};
+
+/**
+ * 啟動會員等級排程（每日凌晨4點評估等級，每10分鐘推送即時升級通知）
+ */
+export const startLoyaltyTierJob = (socketManager: SocketManager) => {
+  let running = false;
+
+  const run = async (task: () => Promise<unknown>) => {
+    // 上一輪尚未完成時跳過，避免重複通知
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error('會員等級排程執行失敗:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return [
+    cron.schedule('0 4 * * *', () => run(() => evaluateLoyaltyTiers(socketManager))),
+    cron.schedule('*/10 * * * *', () => run(() => notifyTierChanges(socketManager))),
+  ];
+};
\ No newline at end of file
@@ -0,0 +1,35 @@
+import cron from 'node-cron';
+import logger from '../utils/logger';
+import { LoyaltyService } from '../services/loyaltyService';
+
+const loyaltyService = new LoyaltyService();
+
+/**
+ * 扣除所有會員已到期的積分
+ */
+export const expireMemberPoints = async (now: Date = new Date()) => {
+  return await loyaltyService.expirePoints(now);
+};
+
+/**
+ * 啟動積分到期排程（每日凌晨3點執行）
+ * 查詢餘額時也會先處理該會員的到期積分，排程確保報表及帳本即時反映
+ */
+export const startPointExpiryJob = () => {
+  let running = false;
+
+  return cron.schedule('0 3 * * *', async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await expireMemberPoints();
+    } catch (error) {
+      logger.error('積分到期排程執行失敗:', error);
+    } finally {
+      running = false;
+    }
+  });
+};
\ No newline at end of file
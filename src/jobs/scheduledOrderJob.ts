@@ -0,0 +1,54 @@
+import cron from 'node-cron';
+import logger from '../utils/logger';
+import { ScheduleService } from '../services/scheduleService';
+import { PrintService } from '../services/printService';
+import { SocketManager } from '../services/socketService';
+
+const scheduleService = new ScheduleService();
+const printService = new PrintService();
+
+/**
+ * 送出到達備餐時間的預約訂單，並通知廚房、打印工作單
+ */
+export const releaseScheduledOrders = async (socketManager: SocketManager, now: Date = new Date()) => {
+  const released = await scheduleService.releaseDueOrders(now);
+  const storeIds = new Set<string>();
+
+  for (const { order, stationIds } of released) {
+    socketManager.sendScheduledOrderReleased(order, stationIds);
+    await printService.autoPrintOrder(order.id);
+    storeIds.add(order.storeId);
+  }
+
+  for (const storeId of storeIds) {
+    await socketManager.refreshQueueEstimates(storeId);
+  }
+
+  return released;
+};
+
+/**
+ * 啟動預約訂單排程（每分鐘檢查一次）
+ */
+export const startScheduledOrderJob = (socketManager: SocketManager) => {
+  let running = false;
+
+  return cron.schedule('* * * * *', async () => {
+    // 上一輪尚未完成時跳過，避免重複送出
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const released = await releaseScheduledOrders(socketManager);
+      if (released.length > 0) {
+        logger.info(`預約訂單排程: 送出${released.length}張訂單`);
+      }
+    } catch (error) {
+      logger.error('預約訂單排程執行失敗:', error);
+    } finally {
+      running = false;
+    }
+  });
+};
\ No newline at end of file
@@ -3,8 +3,18 @@ import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
+import { TableQrService, TableGuestScope, TABLE_GUEST_SCOPE } from '../services/tableQrService';
 
 const prisma = new PrismaClient();
+const tableQrService = new TableQrService();
+
+// 桌邊點餐訪客令牌只能使用菜單及點餐路由
+const TABLE_GUEST_ROUTES = ['/api/products', '/api/orders'];
+
+const isTableGuestRoute = (req: Request): boolean => {
+  const path = req.originalUrl.split('?')[0];
+  return TABLE_GUEST_ROUTES.some(route => path === route || path.startsWith(`${route}/`));
+};
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -13,6 +23,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     roles: string[];
   };
+  tableGuest?: TableGuestScope; // 掃描桌位QR Code的訪客，只能在該店鋪該桌點餐
 }
 
 /**
@@ -39,6 +50,10 @@ export const authMiddleware = async (
       userId: string;
       tenantId: string;
       email: string;
+      scope?: string;
+      tableId?: string;
+      qrVersion?: number;
+      sessionId?: string;
       iat: number;
       exp: number;
     };
@@ -72,6 +87,15 @@ export const authMiddleware = async (
       roles: user.roles.map((ur: any) => ur.role.name),
     };
 
+    // 桌邊點餐訪客令牌綁定店鋪及桌位，其他功能一律拒絕
+    if (decoded.scope === TABLE_GUEST_SCOPE) {
+      if (!isTableGuestRoute(req)) {
+        throw new AppError('桌邊點餐令牌無法使用此功能', 403);
+      }
+
+      req.tableGuest = await tableQrService.verifyGuestScope(decoded.tableId!, decoded.qrVersion!, decoded.sessionId!);
+    }
+
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -112,6 +136,35 @@ export const requireRoles = (...requiredRoles: string[]) => {
   };
 };
 
+/**
+ * 桌邊點餐範圍中間件
+ * 訪客令牌只能存取所屬店鋪，並預先帶入店鋪及內用訂單類型；一般用戶不受影響
+ */
+export const bindTableGuest = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (!req.tableGuest) {
+    return next();
+  }
+
+  const { storeId, branchId } = req.tableGuest;
+  const requestedStoreId = req.method === 'GET' ? req.query.storeId : req.body.storeId;
+
+  if (requestedStoreId && requestedStoreId !== storeId) {
+    return next(new AppError('此QR Code僅限於該店鋪點餐', 403));
+  }
+
+  // 桌位屬於分店時套用分店菜單
+  if (req.method === 'GET') {
+    req.query.storeId = storeId;
+    req.query.branchId = branchId || undefined;
+  } else {
+    req.body.storeId = storeId;
+    req.body.branchId = branchId || undefined;
+    req.body.orderType = 'DINE_IN';
+  }
+
+  next();
+};
+
 /**
  * 可選認證中間件
  * 如果提供Token則驗證，否則繼續但不注入用戶資訊
@@ -0,0 +1,140 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticatedRequest } from './auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// 冪等鍵保留時間：24小時
+const IDEMPOTENCY_KEY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * 冪等請求中間件
+ * 客戶端帶上 Idempotency-Key 時，相同鍵的重試會直接回傳第一次的結果；
+ * 相同鍵搭配不同請求內容則回傳409錯誤。未帶此Header的請求不受影響。
+ */
+export const idempotency = (scope: string) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const key = req.headers['idempotency-key'] as string | undefined;
+
+      if (!key || !req.user) {
+        return next();
+      }
+
+      if (key.length > 255) {
+        throw new AppError('Idempotency-Key 長度不能超過255字符', 400);
+      }
+
+      const scopeWhere = {
+        tenantId: req.user.tenantId,
+        userId: req.user.id,
+        scope,
+        key,
+      };
+      const fingerprint = createFingerprint(req.body);
+
+      // 清除已過期的同名鍵
+      await prisma.idempotencyKey.deleteMany({
+        where: {
+          ...scopeWhere,
+          expiresAt: { lt: new Date() },
+        },
+      });
+
+      let record;
+      try {
+        record = await prisma.idempotencyKey.create({
+          data: {
+            ...scopeWhere,
+            fingerprint,
+            expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL),
+          },
+        });
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        const existing = await prisma.idempotencyKey.findUnique({
+          where: { tenantId_userId_scope_key: scopeWhere },
+        });
+
+        if (!existing) {
+          throw new AppError('相同請求處理中，請稍後再試', 409);
+        }
+
+        if (existing.fingerprint !== fingerprint) {
+          throw new AppError('Idempotency-Key 已用於不同的請求內容', 409);
+        }
+
+        if (existing.status !== 'COMPLETED') {
+          throw new AppError('相同請求處理中，請稍後再試', 409);
+        }
+
+        logger.info(`重複請求回傳原結果: ${scope} (Idempotency-Key: ${key})`);
+
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus || 200).json(JSON.parse(existing.responseBody || '{}'));
+        return;
+      }
+
+      const recordId = record.id;
+      let settled = false;
+
+      // 成功的回應保存供重試使用；失敗則釋放此鍵，讓客戶端可以修正後重試
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => {
+        settled = true;
+        const persist = res.statusCode < 300
+          ? prisma.idempotencyKey.update({
+              where: { id: recordId },
+              data: {
+                status: 'COMPLETED',
+                responseStatus: res.statusCode,
+                responseBody: JSON.stringify(body),
+              },
+            })
+          : prisma.idempotencyKey.delete({ where: { id: recordId } });
+
+        persist.catch(error => logger.error('冪等鍵保存失敗:', error));
+
+        return originalJson(body);
+      };
+
+      // 連線中斷而未回應時同樣釋放此鍵
+      res.on('close', () => {
+        if (!settled) {
+          prisma.idempotencyKey.delete({ where: { id: recordId } })
+            .catch(error => logger.error('冪等鍵釋放失敗:', error));
+        }
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * 計算請求內容雜湊（物件鍵排序後再序列化，避免鍵順序不同造成誤判）
+ */
+const createFingerprint = (body: unknown): string => {
+  const normalize = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(normalize);
+    }
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((acc, key) => {
+        acc[key] = normalize(value[key]);
+        return acc;
+      }, {} as Record<string, any>);
+    }
+    return value;
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(normalize(body ?? {}))).digest('hex');
+};
\ No newline at end of file
@@ -0,0 +1,591 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { CouponService, COUPON_TYPES, MAX_GENERATED_CODES, CouponTermsInput } from '../services/couponService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const couponService = new CouponService();
+
+// 優惠券及優惠活動共用的折扣條件驗證
+const couponTermsValidators = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('名稱長度必須在1-100字符之間'),
+  body('type').isIn(COUPON_TYPES).withMessage('優惠券類型無效'),
+  body('value').isFloat({ min: 0 }).withMessage('折扣數值必須是非負數'),
+  body('minOrderAmount').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('最低消費金額必須是非負數'),
+  body('maxDiscount').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('最高折扣金額必須是非負數'),
+  body('validFrom').isISO8601().withMessage('開始時間格式無效'),
+  body('validUntil').isISO8601().withMessage('結束時間格式無效'),
+  body('isActive').optional().isBoolean().withMessage('isActive必須是布林值'),
+  body('perCustomerLimit').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('每人使用次數必須是正整數'),
+  body('newCustomersOnly').optional().isBoolean().withMessage('newCustomersOnly必須是布林值'),
+  body('eligibleTiers').optional({ values: 'null' }).isArray().withMessage('會員等級必須是數組'),
+  body('eligibleTiers.*').isString().trim().notEmpty().withMessage('會員等級無效'),
+];
+
+const couponValidators = [
+  ...couponTermsValidators,
+  body('code').trim().isLength({ min: 3, max: 32 }).withMessage('優惠券代碼長度必須在3-32字符之間'),
+  body('usageLimit').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('使用次數上限必須是正整數'),
+  body('customerIds').optional().isArray({ max: 1000 }).withMessage('指定顧客最多1000位'),
+  body('customerIds.*').isString().withMessage('顧客ID格式無效'),
+];
+
+const campaignValidators = [
+  ...couponTermsValidators,
+  body('description').optional({ values: 'null' }).isString().isLength({ max: 500 }).withMessage('活動說明不能超過500字符'),
+];
+
+const parseTerms = (reqBody: any): CouponTermsInput => ({
+  name: reqBody.name,
+  type: reqBody.type,
+  value: parseFloat(reqBody.value),
+  minOrderAmount: reqBody.minOrderAmount != null ? parseFloat(reqBody.minOrderAmount) : null,
+  maxDiscount: reqBody.maxDiscount != null ? parseFloat(reqBody.maxDiscount) : null,
+  validFrom: new Date(reqBody.validFrom),
+  validUntil: new Date(reqBody.validUntil),
+  isActive: reqBody.isActive,
+  perCustomerLimit: reqBody.perCustomerLimit != null ? parseInt(reqBody.perCustomerLimit) : null,
+  newCustomersOnly: reqBody.newCustomersOnly,
+  eligibleTiers: reqBody.eligibleTiers,
+});
+
+/**
+ * 查詢同租戶下的店鋪
+ */
+async function findTenantStore(req: AuthenticatedRequest, storeId: string) {
+  const store = await prisma.store.findFirst({
+    where: {
+      id: storeId,
+      tenantId: req.user!.tenantId,
+    },
+  });
+
+  if (!store) {
+    throw new AppError('店鋪不存在', 404);
+  }
+
+  return store;
+}
+
+/**
+ * 查詢同租戶下的優惠券
+ */
+async function findTenantCoupon(req: AuthenticatedRequest, couponId: string) {
+  const coupon = await prisma.coupon.findUnique({
+    where: { id: couponId },
+  });
+
+  const store = coupon && await prisma.store.findFirst({
+    where: {
+      id: coupon.storeId,
+      tenantId: req.user!.tenantId,
+    },
+  });
+
+  if (!coupon || !store) {
+    throw new AppError('優惠券不存在', 404);
+  }
+
+  return coupon;
+}
+
+/**
+ * 查詢同租戶下的優惠活動
+ */
+async function findTenantCampaign(req: AuthenticatedRequest, campaignId: string) {
+  const campaign = await prisma.couponCampaign.findFirst({
+    where: {
+      id: campaignId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!campaign) {
+    throw new AppError('優惠活動不存在', 404);
+  }
+
+  return campaign;
+}
+
+/**
+ * 獲取店鋪的優惠活動
+ * GET /api/coupons/campaigns?storeId=
+ */
+router.get(
+  '/campaigns',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.query.storeId as string);
+      const campaigns = await couponService.listCampaigns(store.id);
+
+      res.json({
+        message: '獲取優惠活動成功',
+        data: campaigns,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立優惠活動
+ * POST /api/coupons/campaigns
+ */
+router.post(
+  '/campaigns',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    ...campaignValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.body.storeId);
+      const campaign = await couponService.createCampaign(store.id, {
+        ...parseTerms(req.body),
+        description: req.body.description,
+      });
+
+      logger.info(`優惠活動建立: ${campaign.name} (操作者: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: '優惠活動建立成功',
+        data: campaign,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新優惠活動（同步到活動下所有代碼）
+ * PUT /api/coupons/campaigns/:campaignId
+ */
+router.put(
+  '/campaigns/:campaignId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('campaignId').isString().withMessage('優惠活動ID格式無效'),
+    ...campaignValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const campaign = await findTenantCampaign(req, req.params.campaignId);
+      const updated = await couponService.updateCampaign(campaign.id, {
+        ...parseTerms(req.body),
+        description: req.body.description,
+      });
+
+      res.json({
+        message: '優惠活動更新成功',
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 啟用或停用優惠活動
+ * PATCH /api/coupons/campaigns/:campaignId/status
+ */
+router.patch(
+  '/campaigns/:campaignId/status',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('campaignId').isString().withMessage('優惠活動ID格式無效'),
+    body('isActive').isBoolean().withMessage('isActive必須是布林值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const campaign = await findTenantCampaign(req, req.params.campaignId);
+      const updated = await couponService.setCampaignActive(campaign.id, req.body.isActive);
+
+      logger.info(`優惠活動${updated.isActive ? '啟用' : '停用'}: ${updated.name} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: updated.isActive ? '優惠活動已啟用' : '優惠活動已停用',
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 批量產生活動代碼（每組限用一次）
+ * POST /api/coupons/campaigns/:campaignId/codes
+ */
+router.post(
+  '/campaigns/:campaignId/codes',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('campaignId').isString().withMessage('優惠活動ID格式無效'),
+    body('count').isInt({ min: 1, max: MAX_GENERATED_CODES }).toInt()
+      .withMessage(`產生數量必須在1-${MAX_GENERATED_CODES}之間`),
+    body('prefix').optional().matches(/^[A-Za-z0-9]{0,8}$/).withMessage('代碼前綴只能是8個以內的英數字'),
+    body('length').optional().isInt({ min: 6, max: 16 }).toInt().withMessage('代碼長度必須在6-16之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const campaign = await findTenantCampaign(req, req.params.campaignId);
+      const generated = await couponService.generateCodes(campaign.id, {
+        count: req.body.count,
+        prefix: req.body.prefix,
+        length: req.body.length,
+      });
+
+      logger.info(`優惠活動代碼產生: ${campaign.name} ${generated}組 (操作者: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: `成功產生${generated}組優惠代碼`,
+        data: { generated },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 匯出活動代碼CSV
+ * GET /api/coupons/campaigns/:campaignId/export
+ */
+router.get(
+  '/campaigns/:campaignId/export',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('campaignId').isString().withMessage('優惠活動ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const campaign = await findTenantCampaign(req, req.params.campaignId);
+      const csv = await couponService.exportCampaignCsv(campaign.id);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="coupons-${campaign.id}.csv"`);
+      // 加上BOM讓Excel正確顯示中文
+      res.send('\uFEFF' + csv);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 優惠活動使用統計
+ * GET /api/coupons/campaigns/:campaignId/stats
+ */
+router.get(
+  '/campaigns/:campaignId/stats',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('campaignId').isString().withMessage('優惠活動ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const campaign = await findTenantCampaign(req, req.params.campaignId);
+      const stats = await couponService.getCampaignStats(campaign.id);
+
+      res.json({
+        message: '獲取優惠活動統計成功',
+        data: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取店鋪的優惠券
+ * GET /api/coupons?storeId=
+ */
+router.get(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    query('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    query('campaignId').optional().isString().withMessage('優惠活動ID格式無效'),
+    query('isActive').optional().isBoolean().withMessage('isActive必須是布林值'),
+    query('search').optional().isString().isLength({ max: 32 }).withMessage('搜尋字串不能超過32字符'),
+    query('page').optional().isInt({ min: 1 }).withMessage('頁碼必須是正整數'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('每頁數量必須在1-100之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { campaignId, isActive, search, page = '1', limit = '20' } = req.query;
+      const store = await findTenantStore(req, req.query.storeId as string);
+
+      const result = await couponService.listCoupons(store.id, {
+        campaignId: campaignId as string | undefined,
+        isActive: isActive === undefined ? undefined : isActive === 'true',
+        search: search as string | undefined,
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+      });
+
+      res.json({
+        message: '獲取優惠券列表成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立優惠券
+ * POST /api/coupons
+ */
+router.post(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    ...couponValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.body.storeId);
+      const coupon = await couponService.createCoupon(store.id, {
+        ...parseTerms(req.body),
+        code: req.body.code,
+        usageLimit: req.body.usageLimit != null ? parseInt(req.body.usageLimit) : null,
+        customerIds: req.body.customerIds,
+      });
+
+      logger.info(`優惠券建立: ${coupon.code} (操作者: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: '優惠券建立成功',
+        data: coupon,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新優惠券
+ * PUT /api/coupons/:id
+ */
+router.put(
+  '/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('優惠券ID格式無效'),
+    ...couponValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const coupon = await findTenantCoupon(req, req.params.id);
+      const updated = await couponService.updateCoupon(coupon.id, {
+        ...parseTerms(req.body),
+        code: req.body.code,
+        usageLimit: req.body.usageLimit != null ? parseInt(req.body.usageLimit) : null,
+        customerIds: req.body.customerIds,
+      });
+
+      res.json({
+        message: '優惠券更新成功',
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 啟用或停用優惠券
+ * PATCH /api/coupons/:id/status
+ */
+router.patch(
+  '/:id/status',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('優惠券ID格式無效'),
+    body('isActive').isBoolean().withMessage('isActive必須是布林值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const coupon = await findTenantCoupon(req, req.params.id);
+      const updated = await couponService.setCouponActive(coupon.id, req.body.isActive);
+
+      logger.info(`優惠券${updated.isActive ? '啟用' : '停用'}: ${updated.code} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: updated.isActive ? '優惠券已啟用' : '優惠券已停用',
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 優惠券使用統計
+ * GET /api/coupons/:id/stats
+ */
+router.get(
+  '/:id/stats',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('優惠券ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const coupon = await findTenantCoupon(req, req.params.id);
+      const stats = await couponService.getCouponStats(coupon.id);
+
+      res.json({
+        message: '獲取優惠券統計成功',
+        data: {
+          ...stats,
+          usedCount: coupon.usedCount,
+          usageLimit: coupon.usageLimit,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取優惠券指定的顧客
+ * GET /api/coupons/:id/targets
+ */
+router.get(
+  '/:id/targets',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('優惠券ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const coupon = await findTenantCoupon(req, req.params.id);
+      const targets = await couponService.getCouponTargets(coupon.id);
+
+      res.json({
+        message: '獲取優惠券指定顧客成功',
+        data: targets,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取優惠券使用紀錄
+ * GET /api/coupons/:id/redemptions
+ */
+router.get(
+  '/:id/redemptions',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('優惠券ID格式無效'),
+    query('page').optional().isInt({ min: 1 }).withMessage('頁碼必須是正整數'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('每頁數量必須在1-100之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { page = '1', limit = '20' } = req.query;
+      const coupon = await findTenantCoupon(req, req.params.id);
+      const result = await couponService.listRedemptions(
+        coupon.id,
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json({
+        message: '獲取優惠券使用紀錄成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,286 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { socketManager } from '../server';
+import { DispatchService, DRIVER_ROLE } from '../services/dispatchService';
+import { OrderService } from '../services/orderService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const dispatchService = new DispatchService();
+const orderService = new OrderService();
+
+/**
+ * 獲取外送員列表
+ * GET /api/dispatch/drivers
+ */
+router.get(
+  '/drivers',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const drivers = await dispatchService.listDrivers(req.user!.tenantId);
+
+      res.json({
+        message: '獲取外送員列表成功',
+        data: drivers,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 指派或改派外送員
+ * POST /api/dispatch/orders/:orderId/assign
+ */
+router.post(
+  '/orders/:orderId/assign',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('orderId').isUUID().withMessage('訂單ID格式無效'),
+    body('driverId').isString().notEmpty().withMessage('外送員ID不能為空'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const job = await dispatchService.assignDriver(
+        req.params.orderId,
+        req.body.driverId,
+        req.user!.tenantId,
+        req.user!.id
+      );
+
+      socketManager.sendDeliveryJobAssigned(job);
+      socketManager.sendDeliveryUpdate(job);
+
+      logger.info(`指派外送員: ${job.order.orderNumber} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '外送員指派成功',
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 查詢訂單外送進度（顧客只能查詢自己的訂單）
+ * GET /api/dispatch/orders/:orderId/tracking
+ */
+router.get(
+  '/orders/:orderId/tracking',
+  [param('orderId').isUUID().withMessage('訂單ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const whereClause: any = {
+        id: req.params.orderId,
+        store: {
+          tenantId: req.user!.tenantId,
+        },
+      };
+
+      if (!req.user!.roles.some(role => ['TENANT_ADMIN', 'STORE_MANAGER', 'STAFF', 'SUPER_ADMIN'].includes(role))) {
+        whereClause.customerId = req.user!.id;
+      }
+
+      const order = await prisma.order.findFirst({
+        where: whereClause,
+      });
+
+      if (!order) {
+        return next(new AppError('訂單不存在', 404));
+      }
+
+      const tracking = await dispatchService.getTracking(order.id);
+
+      res.json({
+        message: '獲取外送進度成功',
+        data: {
+          orderId: order.id,
+          orderStatus: order.status,
+          deliveryAddress: order.deliveryAddress,
+          delivery: tracking,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 外送員：獲取自己的外送單
+ * GET /api/dispatch/jobs
+ */
+router.get(
+  '/jobs',
+  requireRoles(DRIVER_ROLE),
+  [query('includeDelivered').optional().isBoolean().withMessage('includeDelivered必須是布林值')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const jobs = await dispatchService.getDriverJobs(req.user!.id, req.query.includeDelivered === 'true');
+
+      res.json({
+        message: '獲取外送單成功',
+        data: jobs,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 外送員：接單
+ * POST /api/dispatch/jobs/:id/accept
+ */
+router.post(
+  '/jobs/:id/accept',
+  requireRoles(DRIVER_ROLE),
+  [param('id').isString().notEmpty().withMessage('外送單ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const job = await dispatchService.acceptJob(req.params.id, req.user!.id);
+
+      socketManager.sendDeliveryUpdate(job);
+
+      res.json({
+        message: '接單成功',
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 外送員：取餐出發
+ * POST /api/dispatch/jobs/:id/pickup
+ */
+router.post(
+  '/jobs/:id/pickup',
+  requireRoles(DRIVER_ROLE),
+  [param('id').isString().notEmpty().withMessage('外送單ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const job = await dispatchService.pickUpJob(req.params.id, req.user!.id, req.user!.roles);
+
+      socketManager.sendOrderStatusUpdate({ ...job.order, status: 'OUT_FOR_DELIVERY' }, 'OUT_FOR_DELIVERY');
+      socketManager.sendDeliveryUpdate(job);
+      await socketManager.refreshQueueEstimates(job.storeId);
+
+      logger.info(`外送員取餐: ${job.order.orderNumber} (外送員: ${req.user!.email})`);
+
+      res.json({
+        message: '取餐成功',
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 外送員：送達
+ * POST /api/dispatch/jobs/:id/deliver
+ */
+router.post(
+  '/jobs/:id/deliver',
+  requireRoles(DRIVER_ROLE),
+  [param('id').isString().notEmpty().withMessage('外送單ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { job, order } = await dispatchService.completeJob(req.params.id, req.user!.id, req.user!.roles);
+
+      socketManager.sendOrderStatusUpdate(order, 'COMPLETED');
+      socketManager.sendDeliveryUpdate(job);
+
+      await orderService.handleOrderCompletion(order);
+
+      logger.info(`外送完成: ${order.orderNumber} (外送員: ${req.user!.email})`);
+
+      res.json({
+        message: '外送完成',
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 外送員：回報定位，推送位置及預估送達時間給顧客
+ * POST /api/dispatch/location
+ */
+router.post(
+  '/location',
+  requireRoles(DRIVER_ROLE),
+  [
+    body('latitude').isFloat({ min: -90, max: 90 }).toFloat().withMessage('緯度無效'),
+    body('longitude').isFloat({ min: -180, max: 180 }).toFloat().withMessage('經度無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { latitude, longitude } = req.body;
+      const jobs = await dispatchService.recordLocation(req.user!.id, { latitude, longitude });
+
+      for (const job of jobs) {
+        socketManager.sendDeliveryUpdate(job);
+      }
+
+      res.json({
+        message: '定位已更新',
+        data: jobs.map(job => dispatchService.formatTracking(job)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
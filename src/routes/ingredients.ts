@@ -0,0 +1,318 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { IngredientService } from '../services/ingredientService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const ingredientService = new IngredientService();
+
+/**
+ * 獲取原料列表
+ * GET /api/ingredients
+ */
+router.get(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    query('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    query('lowStock').optional().isBoolean().withMessage('低庫存篩選必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId, lowStock } = req.query;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId as string,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      let ingredients = await prisma.ingredient.findMany({
+        where: {
+          storeId: storeId as string,
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      if (lowStock === 'true') {
+        ingredients = ingredients.filter(ingredient => ingredient.quantity <= ingredient.minQuantity);
+      }
+
+      res.json({
+        message: '原料列表獲取成功',
+        data: { ingredients },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 創建原料
+ * POST /api/ingredients
+ */
+router.post(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('name').trim().isLength({ min: 1, max: 50 }).withMessage('原料名稱長度必須在1-50字符之間'),
+    body('unit').optional().isString().isLength({ max: 10 }).withMessage('單位不能超過10字符'),
+    body('quantity').optional().isFloat({ min: 0 }).withMessage('庫存數量必須是非負數'),
+    body('minQuantity').optional().isFloat({ min: 0 }).withMessage('安全庫存必須是非負數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId, name, unit, quantity, minQuantity } = req.body;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      // 檢查原料名稱是否重複
+      const existingIngredient = await prisma.ingredient.findFirst({
+        where: {
+          storeId,
+          name,
+        },
+      });
+
+      if (existingIngredient) {
+        return next(new AppError('原料名稱已存在', 409));
+      }
+
+      const ingredient = await prisma.ingredient.create({
+        data: {
+          storeId,
+          name,
+          unit: unit || '個',
+          minQuantity: minQuantity ? parseFloat(minQuantity) : 0,
+        },
+      });
+
+      // 期初庫存記入異動紀錄
+      if (quantity && parseFloat(quantity) > 0) {
+        await ingredientService.adjustStock(ingredient.id, parseFloat(quantity), 'RESTOCK', '期初庫存', req.user!.id);
+      }
+
+      logger.info(`原料創建成功: ${name} (店鋪ID: ${storeId})`);
+
+      res.status(201).json({
+        message: '原料創建成功',
+        data: {
+          ingredient: await prisma.ingredient.findUnique({ where: { id: ingredient.id } }),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新原料
+ * PUT /api/ingredients/:id
+ */
+router.put(
+  '/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('原料ID格式無效'),
+    body('name').optional().trim().isLength({ min: 1, max: 50 }).withMessage('原料名稱長度必須在1-50字符之間'),
+    body('unit').optional().isString().isLength({ max: 10 }).withMessage('單位不能超過10字符'),
+    body('minQuantity').optional().isFloat({ min: 0 }).withMessage('安全庫存必須是非負數'),
+    body('isActive').optional().isBoolean().withMessage('啟用狀態必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { name, unit, minQuantity, isActive } = req.body;
+
+      const existingIngredient = await prisma.ingredient.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existingIngredient) {
+        return next(new AppError('原料不存在', 404));
+      }
+
+      // 庫存數量只能透過調整API變更，以保留異動紀錄
+      const ingredient = await prisma.ingredient.update({
+        where: { id },
+        data: {
+          name,
+          unit,
+          minQuantity: minQuantity !== undefined ? parseFloat(minQuantity) : undefined,
+          isActive,
+        },
+      });
+
+      logger.info(`原料更新成功: ${ingredient.name} (ID: ${id})`);
+
+      res.json({
+        message: '原料更新成功',
+        data: { ingredient },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 調整原料庫存（進貨、盤點、報廢）
+ * POST /api/ingredients/:id/adjust
+ */
+router.post(
+  '/:id/adjust',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isUUID().withMessage('原料ID格式無效'),
+    body('quantity').isFloat().not().equals('0').withMessage('調整數量必須是非零數字'),
+    body('type').isIn(['RESTOCK', 'ADJUST', 'WASTE']).withMessage('調整類型無效'),
+    body('reason').optional().isString().isLength({ max: 200 }).withMessage('原因不能超過200字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { quantity, type, reason } = req.body;
+
+      const ingredient = await prisma.ingredient.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!ingredient) {
+        return next(new AppError('原料不存在', 404));
+      }
+
+      const movement = await ingredientService.adjustStock(
+        id,
+        parseFloat(quantity),
+        type,
+        reason,
+        req.user!.id
+      );
+
+      logger.info(`原料庫存調整: ${ingredient.name} ${quantity} (類型: ${type}, 操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '原料庫存調整成功',
+        data: { movement },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取原料異動紀錄
+ * GET /api/ingredients/:id/movements
+ */
+router.get(
+  '/:id/movements',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isUUID().withMessage('原料ID格式無效'),
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('查詢數量限制在1-200之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { limit = '50' } = req.query;
+
+      const ingredient = await prisma.ingredient.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!ingredient) {
+        return next(new AppError('原料不存在', 404));
+      }
+
+      const movements = await prisma.ingredientMovement.findMany({
+        where: { ingredientId: id },
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: parseInt(limit as string),
+      });
+
+      res.json({
+        message: '原料異動紀錄獲取成功',
+        data: {
+          ingredient,
+          movements,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
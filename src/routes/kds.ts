@@ -0,0 +1,412 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { socketManager } from '../server';
+import { KitchenService } from '../services/kitchenService';
+import { OrderService } from '../services/orderService';
+import { PlatformOrderService } from '../services/platformOrderService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const kitchenService = new KitchenService();
+const orderService = new OrderService();
+const platformOrderService = new PlatformOrderService();
+
+/**
+ * 獲取工作站列表
+ * GET /api/kds/stations
+ */
+router.get(
+  '/stations',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId } = req.query;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId as string,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const stations = await prisma.kitchenStation.findMany({
+        where: { storeId: storeId as string },
+        include: {
+          categories: {
+            include: {
+              category: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: {
+              ticketItems: {
+                where: { status: 'PENDING' },
+              },
+            },
+          },
+        },
+        orderBy: { sortOrder: 'asc' },
+      });
+
+      res.json({
+        message: '工作站列表獲取成功',
+        data: { stations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 創建工作站
+ * POST /api/kds/stations
+ */
+router.post(
+  '/stations',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('name').trim().isLength({ min: 1, max: 30 }).withMessage('工作站名稱長度必須在1-30字符之間'),
+    body('categoryIds').optional().isArray().withMessage('分類列表必須是數組'),
+    body('isDefault').optional().isBoolean().withMessage('預設工作站必須是布爾值'),
+    body('sortOrder').optional().isInt({ min: 0 }).withMessage('排序必須是非負整數'),
+    body('capacity').optional().isInt({ min: 1 }).withMessage('產能必須是正整數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId, name, categoryIds = [], isDefault, sortOrder, capacity } = req.body;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const categoryCount = await prisma.category.count({
+        where: {
+          id: { in: categoryIds },
+          storeId,
+        },
+      });
+
+      if (categoryCount !== categoryIds.length) {
+        return next(new AppError('部分分類不存在', 400));
+      }
+
+      const station = await prisma.kitchenStation.create({
+        data: {
+          storeId,
+          name,
+          isDefault: isDefault || false,
+          sortOrder: sortOrder || 0,
+          capacity: capacity || 1,
+          categories: {
+            create: categoryIds.map((categoryId: string) => ({ categoryId })),
+          },
+        },
+        include: {
+          categories: true,
+        },
+      });
+
+      logger.info(`工作站創建成功: ${name} (店鋪ID: ${storeId})`);
+
+      res.status(201).json({
+        message: '工作站創建成功',
+        data: { station },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新工作站
+ * PUT /api/kds/stations/:id
+ */
+router.put(
+  '/stations/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('工作站ID格式無效'),
+    body('name').optional().trim().isLength({ min: 1, max: 30 }).withMessage('工作站名稱長度必須在1-30字符之間'),
+    body('categoryIds').optional().isArray().withMessage('分類列表必須是數組'),
+    body('isDefault').optional().isBoolean().withMessage('預設工作站必須是布爾值'),
+    body('isActive').optional().isBoolean().withMessage('啟用狀態必須是布爾值'),
+    body('sortOrder').optional().isInt({ min: 0 }).withMessage('排序必須是非負整數'),
+    body('capacity').optional().isInt({ min: 1 }).withMessage('產能必須是正整數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { name, categoryIds, isDefault, isActive, sortOrder, capacity } = req.body;
+
+      const existingStation = await prisma.kitchenStation.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existingStation) {
+        return next(new AppError('工作站不存在', 404));
+      }
+
+      if (categoryIds) {
+        const categoryCount = await prisma.category.count({
+          where: {
+            id: { in: categoryIds },
+            storeId: existingStation.storeId,
+          },
+        });
+
+        if (categoryCount !== categoryIds.length) {
+          return next(new AppError('部分分類不存在', 400));
+        }
+      }
+
+      const station = await prisma.$transaction(async (tx) => {
+        if (categoryIds) {
+          await tx.kitchenStationCategory.deleteMany({
+            where: { stationId: id },
+          });
+        }
+
+        return await tx.kitchenStation.update({
+          where: { id },
+          data: {
+            name,
+            isDefault,
+            isActive,
+            sortOrder,
+            capacity,
+            categories: categoryIds ? {
+              create: categoryIds.map((categoryId: string) => ({ categoryId })),
+            } : undefined,
+          },
+          include: {
+            categories: true,
+          },
+        });
+      });
+
+      logger.info(`工作站更新成功: ${station.name} (ID: ${id})`);
+
+      res.json({
+        message: '工作站更新成功',
+        data: { station },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取工作站待製作項目
+ * GET /api/kds/stations/:id/items
+ */
+router.get(
+  '/stations/:id/items',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isString().withMessage('工作站ID格式無效'),
+    query('includeBumped').optional().isBoolean().withMessage('包含已出餐項目必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { includeBumped } = req.query;
+
+      const station = await prisma.kitchenStation.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!station) {
+        return next(new AppError('工作站不存在', 404));
+      }
+
+      const items = await kitchenService.getStationQueue(id, includeBumped === 'true');
+
+      res.json({
+        message: '工作站項目獲取成功',
+        data: {
+          station,
+          items,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 出餐
+ * PATCH /api/kds/items/:id/bump
+ */
+router.patch(
+  '/items/:id/bump',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isString().withMessage('項目ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const ticketItem = await prisma.kitchenTicketItem.findFirst({
+        where: {
+          id,
+          station: {
+            store: {
+              tenantId: req.user!.tenantId,
+            },
+          },
+        },
+      });
+
+      if (!ticketItem) {
+        return next(new AppError('工作站項目不存在', 404));
+      }
+
+      const { item, orderStatus } = await kitchenService.bumpItem(id, req.user!.id);
+
+      socketManager.sendStationItemUpdate(item);
+
+      // 全部出餐後通知店家及顧客取餐
+      if (orderStatus) {
+        const order = await prisma.order.findUniqueOrThrow({
+          where: { id: item.orderId },
+          include: {
+            customer: {
+              select: {
+                displayName: true,
+              },
+            },
+          },
+        });
+        socketManager.sendOrderStatusUpdate(order, orderStatus);
+        await platformOrderService.syncOrderStatus(order, orderStatus);
+      }
+
+      await socketManager.refreshQueueEstimates(item.order.storeId);
+
+      res.json({
+        message: '出餐成功',
+        data: {
+          item,
+          orderStatus,
+          statusMessage: orderStatus ? orderService.getStatusMessage(orderStatus) : undefined,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 召回已出餐項目
+ * PATCH /api/kds/items/:id/recall
+ */
+router.patch(
+  '/items/:id/recall',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isString().withMessage('項目ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const ticketItem = await prisma.kitchenTicketItem.findFirst({
+        where: {
+          id,
+          station: {
+            store: {
+              tenantId: req.user!.tenantId,
+            },
+          },
+        },
+      });
+
+      if (!ticketItem) {
+        return next(new AppError('工作站項目不存在', 404));
+      }
+
+      const item = await kitchenService.recallItem(id);
+
+      socketManager.sendStationItemUpdate(item);
+      await socketManager.refreshQueueEstimates(item.order.storeId);
+
+      logger.info(`工作站項目召回: ${item.order.orderNumber} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '項目已召回',
+        data: { item },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,281 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { LoyaltyService } from '../services/loyaltyService';
+import { LoyaltyTierService, LoyaltyTierInput } from '../services/loyaltyTierService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const loyaltyService = new LoyaltyService();
+const loyaltyTierService = new LoyaltyTierService();
+
+const historyValidators = [
+  query('page').optional().isInt({ min: 1 }).withMessage('頁數必須是正整數'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('每頁數量必須在1-100之間'),
+];
+
+/**
+ * 查詢同租戶下的會員
+ */
+async function findTenantMember(req: AuthenticatedRequest, userId: string) {
+  const member = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      tenantId: req.user!.tenantId,
+    },
+    select: {
+      id: true,
+      displayName: true,
+      phone: true,
+    },
+  });
+
+  if (!member) {
+    throw new AppError('會員不存在', 404);
+  }
+
+  return member;
+}
+
+/**
+ * 查詢自己的積分餘額及即將到期的積分
+ * GET /api/loyalty/balance
+ */
+router.get('/balance', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const balance = await loyaltyService.getBalance(req.user!.id);
+
+    res.json({
+      message: '獲取積分餘額成功',
+      data: balance,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * 查詢自己的積分異動紀錄
+ * GET /api/loyalty/history
+ */
+router.get(
+  '/history',
+  historyValidators,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const history = await loyaltyService.getHistory(req.user!.id, page, limit);
+
+      res.json({
+        message: '獲取積分紀錄成功',
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 查詢自己的會員等級、統計消費及升級進度
+ * GET /api/loyalty/tier
+ */
+router.get('/tier', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const status = await loyaltyTierService.getTierStatus(req.user!.id);
+
+    res.json({
+      message: '獲取會員等級成功',
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * 員工查詢會員積分及等級（結帳時確認可折抵點數及會員折扣）
+ * GET /api/loyalty/members/:userId
+ */
+router.get(
+  '/members/:userId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('userId').isUUID().withMessage('會員ID格式無效'),
+    ...historyValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const member = await findTenantMember(req, req.params.userId);
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const [balance, history, tier] = await Promise.all([
+        loyaltyService.getBalance(member.id),
+        loyaltyService.getHistory(member.id, page, limit),
+        loyaltyTierService.getCustomerTier(member.id),
+      ]);
+
+      res.json({
+        message: '獲取會員積分成功',
+        data: {
+          member,
+          tier,
+          ...balance,
+          history,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取積分設定
+ * GET /api/loyalty/config
+ */
+router.get(
+  '/config',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const config = await loyaltyService.getConfig(req.user!.tenantId);
+
+      res.json({
+        message: '獲取積分設定成功',
+        data: config,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新積分設定（獲得比例、折抵比例、使用上限、有效期限及等級統計期間）
+ * PUT /api/loyalty/config
+ */
+router.put(
+  '/config',
+  requireRoles('TENANT_ADMIN'),
+  [
+    body('earnRate').isFloat({ gt: 0 }).withMessage('每點消費金額必須大於0'),
+    body('redeemValue').isFloat({ gt: 0 }).withMessage('每點折抵金額必須大於0'),
+    body('minRedeemPoints').optional().isInt({ min: 0 }).withMessage('最少使用點數必須是非負整數'),
+    body('maxRedeemPoints').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('最多使用點數必須是正整數'),
+    body('maxRedeemPercent').optional().isFloat({ gt: 0, max: 100 }).withMessage('折抵上限必須在0-100%之間'),
+    body('pointsValidDays').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('積分有效天數必須是正整數'),
+    body('tierWindowMonths').optional({ values: 'null' }).isInt({ min: 1, max: 60 }).withMessage('等級統計月數必須在1-60之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const config = await loyaltyService.updateConfig(req.user!.tenantId, {
+        earnRate: parseFloat(req.body.earnRate),
+        redeemValue: parseFloat(req.body.redeemValue),
+        minRedeemPoints: req.body.minRedeemPoints !== undefined ? parseInt(req.body.minRedeemPoints) : undefined,
+        maxRedeemPoints: req.body.maxRedeemPoints != null ? parseInt(req.body.maxRedeemPoints) : null,
+        maxRedeemPercent: req.body.maxRedeemPercent !== undefined ? parseFloat(req.body.maxRedeemPercent) : undefined,
+        pointsValidDays: req.body.pointsValidDays != null ? parseInt(req.body.pointsValidDays) : null,
+        tierWindowMonths: req.body.tierWindowMonths != null ? parseInt(req.body.tierWindowMonths) : null,
+      });
+
+      logger.info(`積分設定更新: 租戶${req.user!.tenantId} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '積分設定更新成功',
+        data: config,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取會員等級設定
+ * GET /api/loyalty/tiers
+ */
+router.get(
+  '/tiers',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const tiers = await loyaltyTierService.getTiers(req.user!.tenantId);
+
+      res.json({
+        message: '獲取會員等級設定成功',
+        data: tiers,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新會員等級設定（整批覆寫門檻及權益）
+ * PUT /api/loyalty/tiers
+ */
+router.put(
+  '/tiers',
+  requireRoles('TENANT_ADMIN'),
+  [
+    body('tiers').isArray({ min: 1, max: 10 }).withMessage('會員等級必須是1-10個的數組'),
+    body('tiers.*.code').trim().matches(/^[A-Z0-9_]{1,20}$/).withMessage('等級代碼只能使用大寫英數字及底線'),
+    body('tiers.*.name').trim().isLength({ min: 1, max: 20 }).withMessage('等級名稱長度必須在1-20字符之間'),
+    body('tiers.*.minSpend').isFloat({ min: 0 }).withMessage('消費門檻必須是非負數'),
+    body('tiers.*.pointsMultiplier').optional().isFloat({ gt: 0 }).withMessage('積分倍數必須大於0'),
+    body('tiers.*.discountPercent').optional().isFloat({ min: 0, max: 99 }).withMessage('折扣百分比必須在0-99之間'),
+    body('tiers.*.birthdayGiftPoints').optional().isInt({ min: 0 }).withMessage('生日禮點數必須是非負整數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const inputs: LoyaltyTierInput[] = req.body.tiers.map((tier: any) => ({
+        code: tier.code,
+        name: tier.name,
+        minSpend: parseFloat(tier.minSpend),
+        pointsMultiplier: tier.pointsMultiplier !== undefined ? parseFloat(tier.pointsMultiplier) : undefined,
+        discountPercent: tier.discountPercent !== undefined ? parseFloat(tier.discountPercent) : undefined,
+        birthdayGiftPoints: tier.birthdayGiftPoints !== undefined ? parseInt(tier.birthdayGiftPoints) : undefined,
+      }));
+      const tiers = await loyaltyTierService.replaceTiers(req.user!.tenantId, inputs);
+
+      logger.info(`會員等級設定更新: 租戶${req.user!.tenantId} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '會員等級設定更新成功',
+        data: tiers,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
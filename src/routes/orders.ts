@@ -2,15 +2,38 @@ import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
-import { requireRoles } from '../middleware/auth';
+import { requireRoles, bindTableGuest } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
-import { io } from '../server';
+import { io, socketManager } from '../server';
 import { OrderService } from '../services/orderService';
+import { InventoryService } from '../services/inventoryService';
+import { KitchenService } from '../services/kitchenService';
+import { OrderEditService, OrderEditRequest } from '../services/orderEditService';
+import { PrintService } from '../services/printService';
+import { WorkflowService, ORDER_STATUSES, ORDER_TYPES } from '../services/workflowService';
+import { TableService } from '../services/tableService';
+import { ScheduleService } from '../services/scheduleService';
+import { PlatformOrderService } from '../services/platformOrderService';
+import { CouponService } from '../services/couponService';
+import { LoyaltyService } from '../services/loyaltyService';
+import { PAYMENT_STATUSES } from '../services/splitBillService';
+import { getBusinessDate } from '../utils/businessDay';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 const orderService = new OrderService();
+const inventoryService = new InventoryService();
+const workflowService = new WorkflowService();
+const kitchenService = new KitchenService();
+const orderEditService = new OrderEditService();
+const tableService = new TableService();
+const scheduleService = new ScheduleService();
+const printService = new PrintService();
+const platformOrderService = new PlatformOrderService();
+const couponService = new CouponService();
+const loyaltyService = new LoyaltyService();
 
 /**
  * 創建新訂單
@@ -18,9 +41,11 @@ const orderService = new OrderService();
  */
 router.post(
   '/',
+  bindTableGuest,
+  idempotency('orders.create'),
   [
     body('storeId').isUUID().withMessage('店鋪ID格式無效'),
-    body('branchId').optional().isUUID().withMessage('分店ID格式無效'),
+    body('branchId').optional().isString().withMessage('分店ID格式無效'),
     body('orderType').isIn(['DINE_IN', 'TAKEOUT', 'DELIVERY', 'UBER_EATS']).withMessage('訂單類型無效'),
     body('items').isArray({ min: 1 }).withMessage('訂單項目不能為空'),
     body('items.*.productId').isUUID().withMessage('商品ID格式無效'),
@@ -28,8 +53,19 @@ router.post(
     body('items.*.quantity').isInt({ min: 1 }).withMessage('數量必須大於0'),
     body('items.*.note').optional().isString().isLength({ max: 200 }).withMessage('備註不能超過200字符'),
     body('items.*.addons').optional().isArray().withMessage('加購項目必須是數組'),
+    body('items.*.modifiers').optional().isArray().withMessage('商品選項必須是數組'),
+    body('items.*.modifiers.*.optionId').optional().isString().withMessage('選項ID格式無效'),
+    body('items.*.comboSelections').optional().isArray().withMessage('套餐選擇必須是數組'),
     body('note').optional().isString().isLength({ max: 500 }).withMessage('訂單備註不能超過500字符'),
     body('couponCode').optional().isString().withMessage('優惠券代碼格式無效'),
+    body('pointsToRedeem').optional().isInt({ min: 1 }).toInt().withMessage('使用點數必須是正整數'),
+    body('scheduledFor').optional().isISO8601().withMessage('預約取餐時間格式無效'),
+    body('deliveryAddress').if(body('orderType').equals('DELIVERY'))
+      .trim().isLength({ min: 1, max: 200 }).withMessage('外送地址長度必須在1-200字符之間'),
+    body('deliveryLatitude').if(body('orderType').equals('DELIVERY'))
+      .isFloat({ min: -90, max: 90 }).withMessage('外送地址緯度無效'),
+    body('deliveryLongitude').if(body('orderType').equals('DELIVERY'))
+      .isFloat({ min: -180, max: 180 }).withMessage('外送地址經度無效'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -39,6 +75,16 @@ router.post(
       }
 
       const { storeId, branchId, orderType, items, note, couponCode } = req.body;
+      const delivery = orderType === 'DELIVERY' ? {
+        address: req.body.deliveryAddress as string,
+        latitude: parseFloat(req.body.deliveryLatitude),
+        longitude: parseFloat(req.body.deliveryLongitude),
+      } : null;
+      const scheduledFor = req.body.scheduledFor ? new Date(req.body.scheduledFor) : null;
+
+      if (scheduledFor && req.tableGuest) {
+        return next(new AppError('桌邊點餐不能預約取餐時間', 400));
+      }
 
       // 驗證店鋪權限
       const store = await prisma.store.findFirst({
@@ -67,121 +113,203 @@ router.post(
         }
       }
 
-      // 驗證商品和計算價格
-      const validatedItems = await orderService.validateOrderItems(items, storeId);
-      
-      // 計算總金額
-      const totalAmount = validatedItems.reduce((sum, item) => sum + item.totalPrice, 0);
-
-      // 處理優惠券（如果有）
-      let discountAmount = 0;
-      let coupon = null;
-      if (couponCode) {
-        coupon = await orderService.validateCoupon(couponCode, storeId, totalAmount);
-        discountAmount = orderService.calculateDiscount(coupon, totalAmount);
-      }
-
-      const finalAmount = totalAmount - discountAmount;
+      // 驗證商品、優惠券並計算金額
+      const quote = await orderService.quoteOrder(items, storeId, couponCode, {
+        pricedAt: scheduledFor ?? undefined,
+        branchId,
+        delivery: delivery ?? undefined,
+        customerId: req.user!.id,
+        pointsToRedeem: req.body.pointsToRedeem,
+      });
+      const validatedItems = quote.items;
+      const { totalAmount, discountAmount, finalAmount, coupon, promotions } = quote;
 
       // 生成訂單號碼
-      const orderNumber = await orderService.generateOrderNumber(storeId);
+      const { orderNumber, pickupNumber, businessDate } = await orderService.allocateOrderNumber(storeId);
+
+      // 創建訂單並扣減庫存（同一交易內完成，避免超賣）
+      const { order, stationIds } = await prisma.$transaction(async (tx) => {
+        // 桌邊掃碼點餐的訂單加入該桌目前的桌次
+        const table = req.tableGuest
+          ? await tableService.attachOrder(tx, storeId, req.tableGuest.tableId, req.user!.id)
+          : null;
+
+        // 預約訂單檢查並佔用時段名額
+        if (scheduledFor) {
+          const itemCount = validatedItems.reduce((sum, item) => sum + item.quantity, 0);
+          await scheduleService.reserveSlot(tx, storeId, scheduledFor, itemCount);
+        }
 
-      // 創建訂單
-      const order = await prisma.order.create({
-        data: {
-          orderNumber,
-          storeId,
-          branchId,
-          customerId: req.user!.id,
-          orderType,
-          status: 'PENDING',
-          totalAmount,
-          discountAmount,
-          finalAmount,
-          paymentStatus: 'PENDING',
-          note,
-          estimatedTime: orderService.calculateEstimatedTime(validatedItems),
-          items: {
-            create: validatedItems.map(item => ({
-              productId: item.productId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              totalPrice: item.totalPrice,
-              note: item.note,
-              addons: item.addons?.length ? {
-                create: item.addons.map(addon => ({
-                  addonId: addon.addonId,
-                  quantity: addon.quantity,
-                  price: addon.price,
-                })),
-              } : undefined,
-            })),
+        const createdOrder = await tx.order.create({
+          data: {
+            orderNumber,
+            pickupNumber,
+            businessDate,
+            storeId,
+            branchId,
+            customerId: req.user!.id,
+            orderType,
+            status: 'PENDING',
+            totalAmount,
+            discountAmount,
+            finalAmount,
+            couponId: coupon?.id,
+            tierDiscount: quote.tierDiscount,
+            pointsRedeemed: quote.pointsRedeemed,
+            pointsDiscount: quote.pointsDiscount,
+            paymentStatus: 'PENDING',
+            note,
+            tableNumber: table?.tableName,
+            tableSessionId: table?.sessionId,
+            scheduledFor,
+            deliveryAddress: delivery?.address,
+            deliveryLatitude: delivery?.latitude,
+            deliveryLongitude: delivery?.longitude,
+            deliveryZoneId: quote.delivery?.zoneId,
+            deliveryDistanceKm: quote.delivery?.distanceKm,
+            deliveryFee: quote.delivery?.fee ?? 0,
+            estimatedTime: quote.estimatedTime,
+            promotions: promotions.length ? {
+              create: promotions.map(promotion => ({
+                promotionId: promotion.promotionId,
+                name: promotion.name,
+                discountAmount: promotion.discountAmount,
+              })),
+            } : undefined,
+            items: {
+              create: validatedItems.map(item => ({
+                productId: item.productId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+                note: item.note,
+                priceRuleId: item.priceRuleId,
+                priceRuleName: item.priceRuleName,
+                priceRuleDiscount: item.priceRuleDiscount,
+                addons: item.addons?.length ? {
+                  create: item.addons.map(addon => ({
+                    addonId: addon.addonId,
+                    quantity: addon.quantity,
+                    price: addon.price,
+                  })),
+                } : undefined,
+                modifiers: item.modifiers?.length ? {
+                  create: item.modifiers.map(modifier => ({
+                    optionId: modifier.optionId,
+                    groupName: modifier.groupName,
+                    optionName: modifier.optionName,
+                    priceDelta: modifier.priceDelta,
+                  })),
+                } : undefined,
+                components: item.components?.length ? {
+                  create: item.components.map(component => ({
+                    slotName: component.slotName,
+                    productId: component.productId,
+                    variantId: component.variantId,
+                    quantity: component.quantity,
+                    upcharge: component.upcharge,
+                  })),
+                } : undefined,
+              })),
+            },
           },
-        },
-        include: {
-          items: {
-            include: {
-              product: {
-                select: {
-                  name: true,
-                  image: true,
+          include: {
+            items: {
+              include: {
+                product: {
+                  select: {
+                    name: true,
+                    image: true,
+                  },
                 },
-              },
-              variant: {
-                select: {
-                  name: true,
+                variant: {
+                  select: {
+                    name: true,
+                  },
                 },
-              },
-              addons: {
-                include: {
-                  addon: {
-                    select: {
-                      name: true,
+                modifiers: true,
+                components: {
+                  include: {
+                    product: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                    variant: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                  },
+                },
+                addons: {
+                  include: {
+                    addon: {
+                      select: {
+                        name: true,
+                      },
                     },
                   },
                 },
               },
             },
-          },
-          store: {
-            select: {
-              name: true,
-              address: true,
-              phone: true,
+            store: {
+              select: {
+                name: true,
+                address: true,
+                phone: true,
+              },
             },
-          },
-          branch: {
-            select: {
-              name: true,
-              address: true,
+            branch: {
+              select: {
+                name: true,
+                address: true,
+              },
             },
+            promotions: true,
           },
-        },
-      });
+        });
 
-      // 記錄訂單狀態歷史
-      await prisma.orderStatusHistory.create({
-        data: {
-          orderId: order.id,
-          status: 'PENDING',
-          note: '訂單已創建',
-        },
-      });
+        await inventoryService.reserveForOrder(tx, createdOrder.id, validatedItems, req.user!.id);
 
-      // 更新優惠券使用次數
-      if (coupon) {
-        await prisma.coupon.update({
-          where: { id: coupon.id },
-          data: { usedCount: { increment: 1 } },
+        // 記錄訂單狀態歷史
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: createdOrder.id,
+            status: 'PENDING',
+            note: '訂單已創建',
+          },
         });
+
+        // 記錄優惠券使用並更新使用次數
+        if (coupon) {
+          await couponService.redeemForOrder(tx, coupon, createdOrder.id, req.user!.id, quote.couponDiscountAmount);
+        }
+
+        // 扣除折抵使用的積分
+        if (quote.pointsRedeemed > 0) {
+          await loyaltyService.redeemForOrder(tx, req.user!.id, createdOrder.id, quote.pointsRedeemed);
+        }
+
+        // 派送到廚房工作站（預約訂單由排程在備餐時間送出）
+        const stationIds = scheduledFor ? [] : await kitchenService.routeOrder(tx, createdOrder.id);
+
+        return { order: createdOrder, stationIds };
+      });
+
+      socketManager.sendStationTickets(stationIds, order);
+      if (order.tableSessionId) {
+        await socketManager.refreshFloorStatus(storeId);
       }
 
       // 發送即時通知給店家
       io.to(`store:${storeId}`).emit('newOrder', {
         orderId: order.id,
         orderNumber: order.orderNumber,
+        pickupNumber: order.pickupNumber,
         orderType: order.orderType,
+        tableNumber: order.tableNumber,
         totalAmount: order.totalAmount,
         itemCount: order.items.length,
         customerName: req.user!.displayName,
@@ -199,6 +327,100 @@ router.post(
   }
 );
 
+/**
+ * 試算訂單金額（不建立訂單）
+ * POST /api/orders/quote
+ */
+router.post(
+  '/quote',
+  bindTableGuest,
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('branchId').optional().isString().withMessage('分店ID格式無效'),
+    body('orderType').optional().isIn(['DINE_IN', 'TAKEOUT', 'DELIVERY', 'UBER_EATS']).withMessage('訂單類型無效'),
+    body('items').isArray({ min: 1 }).withMessage('訂單項目不能為空'),
+    body('items.*.productId').isUUID().withMessage('商品ID格式無效'),
+    body('items.*.variantId').optional().isUUID().withMessage('規格ID格式無效'),
+    body('items.*.quantity').isInt({ min: 1 }).withMessage('數量必須大於0'),
+    body('items.*.addons').optional().isArray().withMessage('加購項目必須是數組'),
+    body('items.*.modifiers').optional().isArray().withMessage('商品選項必須是數組'),
+    body('items.*.comboSelections').optional().isArray().withMessage('套餐選擇必須是數組'),
+    body('couponCode').optional().isString().withMessage('優惠券代碼格式無效'),
+    body('pointsToRedeem').optional().isInt({ min: 1 }).toInt().withMessage('使用點數必須是正整數'),
+    body('scheduledFor').optional().isISO8601().withMessage('預約取餐時間格式無效'),
+    body('deliveryLatitude').optional().isFloat({ min: -90, max: 90 }).withMessage('外送地址緯度無效'),
+    body('deliveryLongitude').optional().isFloat({ min: -180, max: 180 }).withMessage('外送地址經度無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId, branchId, orderType, items, couponCode, deliveryLatitude, deliveryLongitude } = req.body;
+      const scheduledFor = req.body.scheduledFor ? new Date(req.body.scheduledFor) : undefined;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId,
+          tenantId: req.user!.tenantId,
+          status: 'ACTIVE',
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或已停用', 404));
+      }
+
+      // 驗證分店（如果提供）
+      if (branchId) {
+        const branch = await prisma.storeBranch.findFirst({
+          where: {
+            id: branchId,
+            storeId,
+          },
+        });
+
+        if (!branch) {
+          return next(new AppError('分店不存在', 404));
+        }
+      }
+
+      // 外送訂單提供送達位置時一併試算外送費
+      const delivery = orderType === 'DELIVERY' && deliveryLatitude !== undefined && deliveryLongitude !== undefined
+        ? { latitude: parseFloat(deliveryLatitude), longitude: parseFloat(deliveryLongitude) }
+        : undefined;
+
+      const { coupon, ...quote } = await orderService.quoteOrder(items, storeId, couponCode, {
+        pricedAt: scheduledFor,
+        branchId,
+        delivery,
+        customerId: req.user!.id,
+        pointsToRedeem: req.body.pointsToRedeem,
+      });
+
+      res.json({
+        message: '訂單試算成功',
+        data: {
+          quote: {
+            ...quote,
+            coupon: coupon ? {
+              code: coupon.code,
+              name: coupon.name,
+              type: coupon.type,
+              value: coupon.value,
+            } : null,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 獲取訂單列表
  * GET /api/orders
@@ -207,9 +429,9 @@ router.get(
   '/',
   [
     query('storeId').optional().isUUID().withMessage('店鋪ID格式無效'),
-    query('status').optional().isIn(['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'COMPLETED', 'CANCELLED']).withMessage('狀態值無效'),
-    query('orderType').optional().isIn(['DINE_IN', 'TAKEOUT', 'DELIVERY', 'UBER_EATS']).withMessage('訂單類型無效'),
-    query('paymentStatus').optional().isIn(['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED']).withMessage('付款狀態無效'),
+    query('status').optional().isIn(ORDER_STATUSES).withMessage('狀態值無效'),
+    query('orderType').optional().isIn(ORDER_TYPES).withMessage('訂單類型無效'),
+    query('paymentStatus').optional().isIn(PAYMENT_STATUSES).withMessage('付款狀態無效'),
     query('page').optional().isInt({ min: 1 }).withMessage('頁碼必須是正整數'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('每頁數量必須在1-100之間'),
     query('startDate').optional().isISO8601().withMessage('開始日期格式無效'),
@@ -293,6 +515,21 @@ router.get(
                     name: true,
                   },
                 },
+                modifiers: true,
+                components: {
+                  include: {
+                    product: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                    variant: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                  },
+                },
                 addons: {
                   include: {
                     addon: {
@@ -356,6 +593,67 @@ router.get(
   }
 );
 
+/**
+ * 叫號看板
+ * GET /api/orders/calling-board
+ */
+router.get(
+  '/calling-board',
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId } = req.query;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId as string,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const businessDate = getBusinessDate(new Date(), {
+        timezone: store.timezone,
+        cutoff: store.businessDayCutoff,
+      });
+
+      const orders = await prisma.order.findMany({
+        where: {
+          storeId: storeId as string,
+          businessDate,
+          status: { in: ['CONFIRMED', 'PREPARING', 'READY'] },
+        },
+        select: {
+          id: true,
+          pickupNumber: true,
+          status: true,
+          updatedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      res.json({
+        message: '叫號看板獲取成功',
+        data: {
+          businessDate,
+          preparing: orders.filter(order => order.status !== 'READY'),
+          ready: orders.filter(order => order.status === 'READY'),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 獲取單個訂單詳細資訊
  * GET /api/orders/:id
@@ -401,6 +699,21 @@ router.get(
                   name: true,
                 },
               },
+              modifiers: true,
+              components: {
+                include: {
+                  product: {
+                    select: {
+                      name: true,
+                    },
+                  },
+                  variant: {
+                    select: {
+                      name: true,
+                    },
+                  },
+                },
+              },
               addons: {
                 include: {
                   addon: {
@@ -449,6 +762,12 @@ router.get(
               createdAt: true,
             },
           },
+          promotions: {
+            select: {
+              name: true,
+              discountAmount: true,
+            },
+          },
         },
       });
 
@@ -475,7 +794,7 @@ router.patch(
   requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
   [
     param('id').isUUID().withMessage('訂單ID格式無效'),
-    body('status').isIn(['CONFIRMED', 'PREPARING', 'READY', 'COMPLETED', 'CANCELLED']).withMessage('狀態值無效'),
+    body('status').isIn(ORDER_STATUSES.filter(status => status !== 'PENDING')).withMessage('狀態值無效'),
     body('note').optional().isString().isLength({ max: 200 }).withMessage('備註不能超過200字符'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
@@ -511,37 +830,43 @@ router.patch(
         return next(new AppError('訂單不存在', 404));
       }
 
-      // 驗證狀態轉換合法性
-      const isValidTransition = orderService.validateStatusTransition(order.status, status);
-      if (!isValidTransition) {
-        return next(new AppError(`無法從${order.status}轉換為${status}`, 400));
-      }
+      // 依店鋪流程驗證狀態轉換及操作者角色
+      await workflowService.assertTransition(order, status, req.user!.roles);
 
       // 更新訂單狀態
-      const updatedOrder = await prisma.order.update({
-        where: { id },
-        data: {
-          status,
-          updatedAt: new Date(),
-        },
-        include: {
-          customer: {
-            select: {
-              displayName: true,
-              email: true,
+      const updatedOrder = await prisma.$transaction(async (tx) => {
+        const result = await tx.order.update({
+          where: { id },
+          data: {
+            status,
+            updatedAt: new Date(),
+          },
+          include: {
+            customer: {
+              select: {
+                displayName: true,
+                email: true,
+              },
             },
           },
-        },
-      });
+        });
 
-      // 記錄狀態變更歷史
-      await prisma.orderStatusHistory.create({
-        data: {
-          orderId: id,
-          status,
-          note: note || `狀態更新為${status}`,
-          createdBy: req.user!.id,
-        },
+        // 記錄狀態變更歷史
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: id,
+            status,
+            note: note || `狀態更新為${status}`,
+            createdBy: req.user!.id,
+          },
+        });
+
+        // 取消訂單時歸還庫存、時段名額、優惠券及積分
+        if (status === 'CANCELLED') {
+          await orderService.releaseCancelledOrder(tx, id, note || '訂單取消', req.user!.id);
+        }
+
+        return result;
       });
 
       // 發送即時通知
@@ -562,11 +887,17 @@ router.patch(
         message: orderService.getStatusMessage(status),
       });
 
+      // 外送平台訂單回傳接單、備餐完成或取消
+      await platformOrderService.syncOrderStatus(order, status, note);
+
       // 如果訂單完成，發送感謝郵件等後續處理
       if (status === 'COMPLETED') {
         await orderService.handleOrderCompletion(order);
       }
 
+      // 排隊狀況改變，重新推送其他訂單的預估時間
+      await socketManager.refreshQueueEstimates(order.storeId);
+
       logger.info(`訂單狀態更新: ${order.orderNumber} -> ${status} (操作者: ${req.user!.email})`);
 
       res.json({
@@ -625,9 +956,14 @@ router.post(
         return next(new AppError('訂單不存在或無權限', 404));
       }
 
-      // 檢查訂單是否可以取消
-      if (!['PENDING', 'CONFIRMED', 'PREPARING'].includes(order.status)) {
-        return next(new AppError('該訂單狀態不允許取消', 400));
+      // 依店鋪流程檢查訂單是否可以取消
+      try {
+        await workflowService.assertTransition(order, 'CANCELLED', req.user!.roles);
+      } catch (error) {
+        if (error instanceof AppError && error.statusCode === 400) {
+          return next(new AppError('該訂單狀態不允許取消', 400));
+        }
+        throw error;
       }
 
       // 如果已付款，需要處理退款
@@ -637,24 +973,27 @@ router.post(
         logger.info(`訂單${order.orderNumber}需要退款處理`);
       }
 
-      // 取消訂單
-      await Promise.all([
-        prisma.order.update({
+      // 取消訂單並歸還庫存、時段名額、優惠券及積分
+      await prisma.$transaction(async (tx) => {
+        await tx.order.update({
           where: { id },
           data: {
             status: 'CANCELLED',
             updatedAt: new Date(),
           },
-        }),
-        prisma.orderStatusHistory.create({
+        });
+
+        await tx.orderStatusHistory.create({
           data: {
             orderId: id,
             status: 'CANCELLED',
             note: reason || '訂單已取消',
             createdBy: req.user!.id,
           },
-        }),
-      ]);
+        });
+
+        await orderService.releaseCancelledOrder(tx, id, `訂單取消: ${reason || '未提供原因'}`, req.user!.id);
+      });
 
       // 發送通知
       io.to(`store:${order.storeId}`).emit('orderCancelled', {
@@ -664,6 +1003,9 @@ router.post(
         cancelledBy: req.user!.displayName,
       });
 
+      await platformOrderService.syncOrderStatus(order, 'CANCELLED', reason);
+      await socketManager.refreshQueueEstimates(order.storeId);
+
       logger.info(`訂單取消: ${order.orderNumber} (操作者: ${req.user!.email})`);
 
       res.json({
@@ -679,6 +1021,211 @@ router.post(
   }
 );
 
+/**
+ * 查找可修改的訂單並檢查權限
+ * 店家員工可修改待確認及已確認的訂單，顧客只能修改自己尚未確認的訂單
+ */
+const findEditableOrder = async (req: AuthenticatedRequest, orderId: string) => {
+  const order = await prisma.order.findFirst({
+    where: {
+      id: orderId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  const isStaff = req.user!.roles.some(role => ['TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'].includes(role));
+
+  if (!order || (!isStaff && order.customerId !== req.user!.id)) {
+    throw new AppError('訂單不存在或無權限', 404);
+  }
+
+  if (!isStaff && order.status !== 'PENDING') {
+    throw new AppError('訂單已確認，請洽店家修改', 403);
+  }
+
+  return order;
+};
+
+/**
+ * 套用訂單修改並通知廚房、店家
+ */
+const applyOrderEdit = async (req: AuthenticatedRequest, orderId: string, edit: OrderEditRequest) => {
+  const result = await orderEditService.editOrder(orderId, edit, req.user!.id);
+
+  socketManager.sendOrderModified(result.order, result.changes, result.stationIds);
+  await printService.printModifiedKitchenTicket(orderId, result.changes);
+  await socketManager.refreshQueueEstimates(result.order.storeId);
+
+  return result;
+};
+
+/**
+ * 新增訂單項目
+ * POST /api/orders/:id/items
+ */
+router.post(
+  '/:id/items',
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    body('items').isArray({ min: 1 }).withMessage('訂單項目不能為空'),
+    body('items.*.productId').isUUID().withMessage('商品ID格式無效'),
+    body('items.*.variantId').optional().isUUID().withMessage('規格ID格式無效'),
+    body('items.*.quantity').isInt({ min: 1 }).withMessage('數量必須大於0'),
+    body('items.*.note').optional().isString().isLength({ max: 200 }).withMessage('備註不能超過200字符'),
+    body('items.*.addons').optional().isArray().withMessage('加購項目必須是數組'),
+    body('items.*.modifiers').optional().isArray().withMessage('商品選項必須是數組'),
+    body('items.*.comboSelections').optional().isArray().withMessage('套餐選擇必須是數組'),
+    body('reason').optional().isString().isLength({ max: 200 }).withMessage('修改原因不能超過200字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { items, reason } = req.body;
+
+      await findEditableOrder(req, id);
+      const result = await applyOrderEdit(req, id, { add: items, reason });
+
+      res.status(201).json({
+        message: '訂單項目新增成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 修改訂單項目數量或選項
+ * PATCH /api/orders/:id/items/:itemId
+ */
+router.patch(
+  '/:id/items/:itemId',
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    param('itemId').isString().withMessage('訂單項目ID格式無效'),
+    body('quantity').optional().isInt({ min: 1 }).withMessage('數量必須大於0'),
+    body('note').optional().isString().isLength({ max: 200 }).withMessage('備註不能超過200字符'),
+    body('modifiers').optional().isArray().withMessage('商品選項必須是數組'),
+    body('modifiers.*.optionId').optional().isString().withMessage('選項ID格式無效'),
+    body('comboSelections').optional().isArray().withMessage('套餐選擇必須是數組'),
+    body('reason').optional().isString().isLength({ max: 200 }).withMessage('修改原因不能超過200字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, itemId } = req.params;
+      const { quantity, note, modifiers, comboSelections, reason } = req.body;
+
+      await findEditableOrder(req, id);
+      const result = await applyOrderEdit(req, id, {
+        update: [{ orderItemId: itemId, quantity, note, modifiers, comboSelections }],
+        reason,
+      });
+
+      res.json({
+        message: '訂單項目修改成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 刪除訂單項目
+ * DELETE /api/orders/:id/items/:itemId
+ */
+router.delete(
+  '/:id/items/:itemId',
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    param('itemId').isString().withMessage('訂單項目ID格式無效'),
+    body('reason').optional().isString().isLength({ max: 200 }).withMessage('修改原因不能超過200字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, itemId } = req.params;
+      const { reason } = req.body;
+
+      await findEditableOrder(req, id);
+      const result = await applyOrderEdit(req, id, { remove: [itemId], reason });
+
+      res.json({
+        message: '訂單項目刪除成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取訂單項目異動紀錄
+ * GET /api/orders/:id/changes
+ */
+router.get(
+  '/:id/changes',
+  [param('id').isUUID().withMessage('訂單ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const whereClause: any = {
+        id,
+        store: {
+          tenantId: req.user!.tenantId,
+        },
+      };
+
+      // 一般用戶只能查看自己的訂單
+      if (!req.user!.roles.some(role => ['TENANT_ADMIN', 'STORE_MANAGER', 'STAFF', 'SUPER_ADMIN'].includes(role))) {
+        whereClause.customerId = req.user!.id;
+      }
+
+      const order = await prisma.order.findFirst({
+        where: whereClause,
+      });
+
+      if (!order) {
+        return next(new AppError('訂單不存在', 404));
+      }
+
+      const changes = await orderEditService.getItemChanges(id);
+
+      res.json({
+        message: '訂單異動紀錄獲取成功',
+        data: { changes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 即時訂單追蹤
  * GET /api/orders/track/:orderNumber
@@ -705,6 +1252,7 @@ router.get(
         select: {
           id: true,
           orderNumber: true,
+          pickupNumber: true,
           status: true,
           paymentStatus: true,
           orderType: true,
@@ -761,7 +1309,7 @@ router.patch(
   [
     body('orderIds').isArray({ min: 1 }).withMessage('訂單ID列表不能為空'),
     body('orderIds.*').isUUID().withMessage('訂單ID格式無效'),
-    body('status').isIn(['CONFIRMED', 'PREPARING', 'READY', 'COMPLETED', 'CANCELLED']).withMessage('狀態值無效'),
+    body('status').isIn(ORDER_STATUSES.filter(status => status !== 'PENDING')).withMessage('狀態值無效'),
     body('note').optional().isString().isLength({ max: 200 }).withMessage('備註不能超過200字符'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
@@ -787,9 +1335,21 @@ router.patch(
         return next(new AppError('部分訂單不存在或無權限', 404));
       }
 
+      // 每筆訂單依其店鋪及訂單類型的流程驗證
+      for (const order of orders) {
+        try {
+          await workflowService.assertTransition(order, status, req.user!.roles);
+        } catch (error) {
+          if (error instanceof AppError) {
+            return next(new AppError(`訂單${order.orderNumber}: ${error.message}`, error.statusCode));
+          }
+          throw error;
+        }
+      }
+
       // 批量更新
-      const [updateResult] = await Promise.all([
-        prisma.order.updateMany({
+      const updateResult = await prisma.$transaction(async (tx) => {
+        const result = await tx.order.updateMany({
           where: {
             id: { in: orderIds },
           },
@@ -797,17 +1357,39 @@ router.patch(
             status,
             updatedAt: new Date(),
           },
-        }),
-        // 批量創建狀態歷史記錄  
-        prisma.orderStatusHistory.createMany({
-          data: orderIds.map(orderId => ({
+        });
+
+        // 批量創建狀態歷史記錄
+        await tx.orderStatusHistory.createMany({
+          data: orderIds.map((orderId: string) => ({
             orderId,
             status,
             note: note || `批量更新狀態為${status}`,
             createdBy: req.user!.id,
           })),
-        }),
-      ]);
+        });
+
+        // 取消訂單時歸還庫存、時段名額、優惠券及積分
+        if (status === 'CANCELLED') {
+          for (const orderId of orderIds) {
+            await orderService.releaseCancelledOrder(tx, orderId, note || '批量取消訂單', req.user!.id);
+          }
+        }
+
+        return result;
+      });
+
+      for (const order of orders) {
+        await platformOrderService.syncOrderStatus(order, status, note);
+
+        if (status === 'COMPLETED') {
+          await orderService.handleOrderCompletion({ ...order, status });
+        }
+      }
+
+      for (const storeId of new Set(orders.map(order => order.storeId))) {
+        await socketManager.refreshQueueEstimates(storeId);
+      }
 
       logger.info(`批量更新訂單狀態: ${updateResult.count}個訂單更新為${status}`);
 
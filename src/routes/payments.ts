@@ -2,14 +2,19 @@ import express from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
 import { LinePayService } from '../services/linePayService';
-import { io } from '../server';
+import { OrderService } from '../services/orderService';
+import { WorkflowService } from '../services/workflowService';
+import { io, socketManager } from '../server';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 const linePayService = new LinePayService();
+const orderService = new OrderService();
+const workflowService = new WorkflowService();
 
 /**
  * LINE Pay付款請求
@@ -17,6 +22,7 @@ const linePayService = new LinePayService();
  */
 router.post(
   '/line-pay/request',
+  idempotency('payments.line-pay.request'),
   [
     body('orderId').isUUID().withMessage('訂單ID格式無效'),
     body('amount').isFloat({ min: 1 }).withMessage('金額必須大於0'),
@@ -187,9 +193,9 @@ router.get('/line-pay/confirm', async (req, res, next) => {
     }
 
     // 付款成功，更新記錄
-    await Promise.all([
+    const orderStatus = await prisma.$transaction(async (tx) => {
       // 更新付款記錄
-      prisma.payment.update({
+      await tx.payment.update({
         where: { id: payment.id },
         data: {
           status: 'COMPLETED',
@@ -199,34 +205,36 @@ router.get('/line-pay/confirm', async (req, res, next) => {
             confirmResponse: confirmResponse.data,
           },
         },
-      }),
-      // 更新訂單狀態
-      prisma.order.update({
+      });
+
+      // 更新訂單付款狀態
+      await tx.order.update({
         where: { id: payment.orderId },
         data: {
           paymentStatus: 'COMPLETED',
-          status: 'CONFIRMED',
           updatedAt: new Date(),
         },
-      }),
-      // 記錄訂單狀態變更
-      prisma.orderStatusHistory.create({
-        data: {
-          orderId: payment.orderId,
-          status: 'CONFIRMED',
-          note: 'LINE Pay付款完成',
-        },
-      }),
-    ]);
+      });
+
+      // 依店鋪流程自動轉換訂單狀態（預設為付款後自動確認）
+      return await workflowService.applyAutoTransitions(tx, payment.order, 'PAYMENT_COMPLETED', 'LINE Pay付款完成');
+    });
 
     // 發送即時通知
     io.to(`store:${payment.order.storeId}`).emit('orderUpdate', {
       orderId: payment.orderId,
-      status: 'CONFIRMED',
+      status: orderStatus,
       paymentStatus: 'COMPLETED',
       message: '新訂單已付款確認',
     });
 
+    // 店鋪流程可設定付款後直接完成
+    if (orderStatus === 'COMPLETED' && payment.order.status !== 'COMPLETED') {
+      await orderService.handleOrderCompletion({ ...payment.order, status: orderStatus });
+    }
+
+    await socketManager.refreshQueueEstimates(payment.order.storeId);
+
     logger.info(`LINE Pay付款完成: 訂單${payment.order.orderNumber}, 金額: ${payment.amount}`);
 
     // 重定向到成功頁面
@@ -388,25 +396,31 @@ router.post(
         },
       });
 
-      // 更新訂單狀態
-      await Promise.all([
-        prisma.order.update({
+      // 更新訂單狀態並歸還庫存、優惠券及積分
+      await prisma.$transaction(async (tx) => {
+        await tx.order.update({
           where: { id: payment.orderId },
           data: {
             status: 'CANCELLED',
             paymentStatus: 'REFUNDED',
             updatedAt: new Date(),
           },
-        }),
-        prisma.orderStatusHistory.create({
+        });
+
+        await tx.orderStatusHistory.create({
           data: {
             orderId: payment.orderId,
             status: 'CANCELLED',
             note: `退款完成: ${reason || '系統退款'}`,
             createdBy: req.user!.id,
           },
-        }),
-      ]);
+        });
+
+        // 已取消的訂單先前已歸還過庫存、時段名額、優惠券及積分
+        if (payment.order.status !== 'CANCELLED') {
+          await orderService.releaseCancelledOrder(tx, payment.orderId, `退款: ${reason || '系統退款'}`, req.user!.id);
+        }
+      });
 
       logger.info(`退款完成: 訂單${payment.order.orderNumber}, 金額: ${refundAmount}`);
 
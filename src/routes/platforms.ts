@@ -0,0 +1,275 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { socketManager } from '../server';
+import { PlatformOrderService } from '../services/platformOrderService';
+import { DELIVERY_PLATFORMS } from '../services/platformAdapters';
+import { PrintService } from '../services/printService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const platformOrderService = new PlatformOrderService();
+const printService = new PrintService();
+
+/**
+ * 查詢同租戶下的店鋪
+ */
+async function findTenantStore(req: AuthenticatedRequest, storeId: string) {
+  const store = await prisma.store.findFirst({
+    where: {
+      id: storeId,
+      tenantId: req.user!.tenantId,
+    },
+  });
+
+  if (!store) {
+    throw new AppError('店鋪不存在', 404);
+  }
+
+  return store;
+}
+
+/**
+ * 查詢同租戶下的平台串接設定
+ */
+async function findTenantIntegration(req: AuthenticatedRequest, integrationId: string) {
+  const integration = await prisma.platformIntegration.findFirst({
+    where: {
+      id: integrationId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!integration) {
+    throw new AppError('平台串接設定不存在', 404);
+  }
+
+  return integration;
+}
+
+/**
+ * 接收外送平台webhook（平台呼叫，以簽章驗證）
+ * POST /api/platforms/:platform/webhook
+ * platform 接受 UBER_EATS、uber-eats 等寫法
+ */
+router.post(
+  '/:platform/webhook',
+  async (req, res, next) => {
+    try {
+      const platform = req.params.platform.toUpperCase().replace(/-/g, '_');
+
+      // 簽章必須以平台送出的原始內容驗證，重新序列化的JSON可能與原文不同
+      if (!req.rawBody) {
+        return next(new AppError('無法取得原始請求內容，請以JSON格式傳送', 400));
+      }
+
+      const result = await platformOrderService.handleWebhook(
+        platform,
+        req.rawBody,
+        req.headers,
+        req.body
+      );
+      const { order } = result;
+
+      if (result.created) {
+        socketManager.sendStationTickets(result.stationIds, order);
+        socketManager.sendNewOrderNotification(order);
+        await printService.autoPrintOrder(order.id);
+        await socketManager.refreshQueueEstimates(order.storeId);
+      }
+
+      if (result.cancelled) {
+        socketManager.sendOrderStatusUpdate(order, 'CANCELLED');
+        await socketManager.refreshQueueEstimates(order.storeId);
+      }
+
+      res.json({
+        message: '平台通知已處理',
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+        },
+      });
+    } catch (error) {
+      logger.warn(`外送平台webhook處理失敗 (${req.params.platform}):`, error);
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取店鋪的平台串接設定
+ * GET /api/platforms/integrations?storeId=
+ */
+router.get(
+  '/integrations',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.query.storeId as string);
+      const integrations = await platformOrderService.listIntegrations(store.id);
+
+      res.json({
+        message: '獲取平台串接設定成功',
+        data: integrations,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立或更新店鋪的平台串接設定
+ * PUT /api/platforms/integrations
+ */
+router.put(
+  '/integrations',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('platform').isIn(DELIVERY_PLATFORMS).withMessage('外送平台無效'),
+    body('externalStoreId').isString().trim().notEmpty().withMessage('平台店家編號不能為空'),
+    body('branchId').optional({ values: 'null' }).isString().withMessage('分店ID格式無效'),
+    body('apiBaseUrl').isURL({ require_tld: false }).withMessage('平台API位址無效'),
+    body('apiKey').isString().notEmpty().withMessage('平台API憑證不能為空'),
+    body('webhookSecret').isString().isLength({ min: 16 }).withMessage('webhook密鑰至少需要16個字符'),
+    body('autoAccept').optional().isBoolean().withMessage('autoAccept必須是布林值'),
+    body('isActive').optional().isBoolean().withMessage('isActive必須是布林值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.body.storeId);
+      const integration = await platformOrderService.saveIntegration(store.id, {
+        platform: req.body.platform,
+        externalStoreId: req.body.externalStoreId,
+        branchId: req.body.branchId,
+        apiBaseUrl: req.body.apiBaseUrl,
+        apiKey: req.body.apiKey,
+        webhookSecret: req.body.webhookSecret,
+        autoAccept: req.body.autoAccept,
+        isActive: req.body.isActive,
+      });
+
+      logger.info(`平台串接設定更新: ${store.name} ${integration.platform} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '平台串接設定已儲存',
+        data: integration,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 刪除平台串接設定
+ * DELETE /api/platforms/integrations/:id
+ */
+router.delete(
+  '/integrations/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('平台串接設定ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const integration = await findTenantIntegration(req, req.params.id);
+      await platformOrderService.deleteIntegration(integration.id);
+
+      logger.info(`平台串接設定刪除: ${integration.platform} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '平台串接設定已刪除',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取平台菜單對應
+ * GET /api/platforms/integrations/:id/mappings
+ */
+router.get(
+  '/integrations/:id/mappings',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('平台串接設定ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const integration = await findTenantIntegration(req, req.params.id);
+      const mappings = await platformOrderService.getMenuMappings(integration.id);
+
+      res.json({
+        message: '獲取平台菜單對應成功',
+        data: mappings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 覆寫平台菜單對應
+ * PUT /api/platforms/integrations/:id/mappings
+ */
+router.put(
+  '/integrations/:id/mappings',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('平台串接設定ID格式無效'),
+    body('mappings').isArray().withMessage('菜單對應必須是數組'),
+    body('mappings.*.externalItemId').isString().trim().notEmpty().withMessage('平台品項編號不能為空'),
+    body('mappings.*.productId').isUUID().withMessage('商品ID格式無效'),
+    body('mappings.*.variantId').optional({ values: 'null' }).isUUID().withMessage('規格ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const integration = await findTenantIntegration(req, req.params.id);
+      const mappings = await platformOrderService.replaceMenuMappings(integration.id, req.body.mappings);
+
+      res.json({
+        message: '平台菜單對應已更新',
+        data: mappings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
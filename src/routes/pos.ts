@@ -3,16 +3,33 @@ import { body, param, query, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { requireRoles } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
 import { OrderService } from '../services/orderService';
 import { PrintService } from '../services/printService';
-import { io } from '../server';
+import { InventoryService } from '../services/inventoryService';
+import { KitchenService } from '../services/kitchenService';
+import { WorkflowService } from '../services/workflowService';
+import { SplitBillService, TENDER_METHODS, PaymentResult } from '../services/splitBillService';
+import { TableService } from '../services/tableService';
+import { MenuScheduleService } from '../services/menuScheduleService';
+import { BranchMenuService } from '../services/branchMenuService';
+import { LoyaltyService } from '../services/loyaltyService';
+import { io, socketManager } from '../server';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 const orderService = new OrderService();
 const printService = new PrintService();
+const inventoryService = new InventoryService();
+const workflowService = new WorkflowService();
+const kitchenService = new KitchenService();
+const splitBillService = new SplitBillService();
+const tableService = new TableService();
+const menuScheduleService = new MenuScheduleService();
+const branchMenuService = new BranchMenuService();
+const loyaltyService = new LoyaltyService();
 
 /**
  * 員工POS - 創建現場訂單
@@ -21,16 +38,24 @@ const printService = new PrintService();
 router.post(
   '/orders',
   requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  idempotency('pos.orders.create'),
   [
     body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('branchId').optional().isString().withMessage('分店ID格式無效'),
     body('customerId').optional().isUUID().withMessage('顧客ID格式無效'),
     body('customerPhone').optional().isMobilePhone('zh-TW').withMessage('請提供有效的台灣手機號碼'),
     body('customerName').optional().isString().withMessage('顧客姓名格式無效'),
     body('orderType').isIn(['DINE_IN', 'TAKEOUT']).withMessage('現場訂單類型無效'),
     body('items').isArray({ min: 1 }).withMessage('訂單項目不能為空'),
-    body('paymentMethod').isIn(['CASH', 'CARD', 'LINE_PAY']).withMessage('付款方式無效'),
+    body('paymentMethod').if(body('payments').not().exists()).isIn(TENDER_METHODS).withMessage('付款方式無效'),
+    body('payments').optional().isArray({ min: 1 }).withMessage('分開付款資料格式無效'),
+    body('payments.*.method').isIn(TENDER_METHODS).withMessage('付款方式無效'),
+    body('payments.*.amount').isFloat({ gt: 0 }).withMessage('付款金額必須大於0'),
+    body('payments.*.payerName').optional().isString().isLength({ max: 50 }).withMessage('付款人名稱不能超過50字符'),
     body('tableNumber').optional().isString().withMessage('桌號格式無效'),
+    body('tableId').optional().isString().withMessage('桌位ID格式無效'),
     body('note').optional().isString().isLength({ max: 500 }).withMessage('備註不能超過500字符'),
+    body('pointsToRedeem').optional().isInt({ min: 1 }).toInt().withMessage('使用點數必須是正整數'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -41,15 +66,27 @@ router.post(
 
       const {
         storeId,
+        branchId,
         customerId,
         customerPhone,
         customerName,
         orderType,
         items,
         paymentMethod,
-        tableNumber,
+        payments,
+        tableId,
         note,
+        pointsToRedeem,
       } = req.body;
+      let { tableNumber } = req.body;
+
+      if (tableId && orderType !== 'DINE_IN') {
+        return next(new AppError('只有內用訂單可以指定桌位', 400));
+      }
+
+      if (pointsToRedeem && !customerId && !customerPhone) {
+        return next(new AppError('使用積分折抵需提供會員資料', 400));
+      }
 
       // 驗證店鋪權限
       const store = await prisma.store.findFirst({
@@ -64,6 +101,20 @@ router.post(
         return next(new AppError('店鋪不存在或已停用', 404));
       }
 
+      // 驗證分店（如果提供）
+      if (branchId) {
+        const branch = await prisma.storeBranch.findFirst({
+          where: {
+            id: branchId,
+            storeId,
+          },
+        });
+
+        if (!branch) {
+          return next(new AppError('分店不存在', 404));
+        }
+      }
+
       // 處理顧客資訊
       let customer = null;
       if (customerId) {
@@ -125,110 +176,220 @@ router.post(
         });
       }
 
-      // 驗證商品和計算價格
-      const validatedItems = await orderService.validateOrderItems(items, storeId);
-      const totalAmount = validatedItems.reduce((sum, item) => sum + item.totalPrice, 0);
+      if (pointsToRedeem && !customer) {
+        return next(new AppError('顧客不存在', 404));
+      }
+
+      // 驗證商品並計算金額（自動促銷、會員等級折扣及積分折抵與線上點餐相同）
+      const quote = await orderService.quoteOrder(items, storeId, undefined, {
+        branchId,
+        customerId: customer?.id,
+        pointsToRedeem,
+      });
+      const validatedItems = quote.items;
+      const { totalAmount, discountAmount, finalAmount, promotions } = quote;
 
       // 生成訂單號碼
-      const orderNumber = await orderService.generateOrderNumber(storeId);
+      const { orderNumber, pickupNumber, businessDate } = await orderService.allocateOrderNumber(storeId);
 
-      // 創建訂單
-      const order = await prisma.order.create({
-        data: {
-          orderNumber,
-          storeId,
-          customerId: customer.id,
-          orderType,
-          status: 'CONFIRMED', // POS訂單直接確認
-          totalAmount,
-          discountAmount: 0,
-          finalAmount: totalAmount,
-          paymentStatus: paymentMethod === 'CASH' ? 'COMPLETED' : 'PENDING',
-          paymentMethod,
-          note: tableNumber ? `桌號: ${tableNumber}${note ? ` | ${note}` : ''}` : note,
-          estimatedTime: orderService.calculateEstimatedTime(validatedItems),
-          items: {
-            create: validatedItems.map(item => ({
-              productId: item.productId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              totalPrice: item.totalPrice,
-              note: item.note,
-              addons: item.addons?.length ? {
-                create: item.addons.map(addon => ({
-                  addonId: addon.addonId,
-                  quantity: addon.quantity,
-                  price: addon.price,
-                })),
-              } : undefined,
-            })),
+      // 創建訂單並扣減庫存（同一交易內完成，避免超賣）
+      const { order, stationIds, paymentResult } = await prisma.$transaction(async (tx) => {
+        // 內用指定桌位時加入該桌目前的桌次，多張訂單最後一起結帳
+        const table = tableId ? await tableService.attachOrder(tx, storeId, tableId, req.user!.id) : null;
+        if (table) {
+          tableNumber = table.tableName;
+        }
+
+        const createdOrder = await tx.order.create({
+          data: {
+            orderNumber,
+            pickupNumber,
+            businessDate,
+            storeId,
+            branchId,
+            customerId: customer.id,
+            orderType,
+            status: 'PENDING', // 付款完成後依店鋪流程自動確認（或直接完成）
+            totalAmount,
+            discountAmount,
+            finalAmount,
+            tierDiscount: quote.tierDiscount,
+            pointsRedeemed: quote.pointsRedeemed,
+            pointsDiscount: quote.pointsDiscount,
+            paymentStatus: !payments && paymentMethod === 'CASH' ? 'COMPLETED' : 'PENDING',
+            paymentMethod: payments ? undefined : paymentMethod,
+            note: tableNumber ? `桌號: ${tableNumber}${note ? ` | ${note}` : ''}` : note,
+            tableNumber,
+            tableSessionId: table?.sessionId,
+            estimatedTime: quote.estimatedTime,
+            promotions: promotions.length ? {
+              create: promotions.map(promotion => ({
+                promotionId: promotion.promotionId,
+                name: promotion.name,
+                discountAmount: promotion.discountAmount,
+              })),
+            } : undefined,
+            items: {
+              create: validatedItems.map(item => ({
+                productId: item.productId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+                note: item.note,
+                priceRuleId: item.priceRuleId,
+                priceRuleName: item.priceRuleName,
+                priceRuleDiscount: item.priceRuleDiscount,
+                addons: item.addons?.length ? {
+                  create: item.addons.map(addon => ({
+                    addonId: addon.addonId,
+                    quantity: addon.quantity,
+                    price: addon.price,
+                  })),
+                } : undefined,
+                modifiers: item.modifiers?.length ? {
+                  create: item.modifiers.map(modifier => ({
+                    optionId: modifier.optionId,
+                    groupName: modifier.groupName,
+                    optionName: modifier.optionName,
+                    priceDelta: modifier.priceDelta,
+                  })),
+                } : undefined,
+                components: item.components?.length ? {
+                  create: item.components.map(component => ({
+                    slotName: component.slotName,
+                    productId: component.productId,
+                    variantId: component.variantId,
+                    quantity: component.quantity,
+                    upcharge: component.upcharge,
+                  })),
+                } : undefined,
+              })),
+            },
           },
-        },
-        include: {
-          items: {
-            include: {
-              product: {
-                select: {
-                  name: true,
-                  image: true,
+          include: {
+            items: {
+              include: {
+                product: {
+                  select: {
+                    name: true,
+                    image: true,
+                  },
                 },
-              },
-              variant: {
-                select: {
-                  name: true,
+                variant: {
+                  select: {
+                    name: true,
+                  },
                 },
-              },
-              addons: {
-                include: {
-                  addon: {
-                    select: {
-                      name: true,
+                modifiers: true,
+                components: {
+                  include: {
+                    product: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                    variant: {
+                      select: {
+                        name: true,
+                      },
+                    },
+                  },
+                },
+                addons: {
+                  include: {
+                    addon: {
+                      select: {
+                        name: true,
+                      },
                     },
                   },
                 },
               },
             },
-          },
-          customer: {
-            select: {
-              displayName: true,
-              phone: true,
+            customer: {
+              select: {
+                displayName: true,
+                phone: true,
+              },
             },
+            promotions: true,
           },
-        },
-      });
+        });
+
+        await inventoryService.reserveForOrder(tx, createdOrder.id, validatedItems, req.user!.id);
+
+        if (quote.pointsRedeemed > 0) {
+          await loyaltyService.redeemForOrder(tx, createdOrder.customerId, createdOrder.id, quote.pointsRedeemed);
+        }
+
+        // 創建付款記錄
+        if (!payments && paymentMethod === 'CASH') {
+          await tx.payment.create({
+            data: {
+              orderId: createdOrder.id,
+              amount: finalAmount,
+              method: 'CASH',
+              status: 'COMPLETED',
+              paidAt: new Date(),
+            },
+          });
+        }
 
-      // 創建付款記錄
-      if (paymentMethod === 'CASH') {
-        await prisma.payment.create({
+        // 記錄訂單狀態歷史
+        await tx.orderStatusHistory.create({
           data: {
-            orderId: order.id,
-            amount: totalAmount,
-            method: 'CASH',
-            status: 'COMPLETED',
-            paidAt: new Date(),
+            orderId: createdOrder.id,
+            status: 'PENDING',
+            note: `POS訂單創建 (員工: ${req.user!.displayName})`,
+            createdBy: req.user!.id,
           },
         });
-      }
 
-      // 記錄訂單狀態歷史
-      await prisma.orderStatusHistory.create({
-        data: {
-          orderId: order.id,
-          status: 'CONFIRMED',
-          note: `POS訂單創建 (員工: ${req.user!.displayName})`,
-          createdBy: req.user!.id,
-        },
+        // 現金當場收款，店鋪流程可設定付款後直接完成（現金快速結帳）
+        let paymentResult: PaymentResult | null = null;
+        if (payments) {
+          // 多種付款方式或多人分攤，未付清的餘額可稍後再收
+          paymentResult = await splitBillService.recordPayments(tx, createdOrder.id, payments, req.user!.id);
+          createdOrder.paymentStatus = paymentResult.paymentStatus;
+          createdOrder.status = paymentResult.orderStatus;
+        } else if (paymentMethod === 'CASH') {
+          createdOrder.status = await workflowService.applyAutoTransitions(
+            tx,
+            createdOrder,
+            'PAYMENT_COMPLETED',
+            '現金付款完成',
+            req.user!.id
+          );
+        }
+
+        // 派送到廚房工作站
+        const stationIds = await kitchenService.routeOrder(tx, createdOrder.id);
+
+        return { order: createdOrder, stationIds, paymentResult };
       });
 
+      if (order.status === 'COMPLETED') {
+        await orderService.handleOrderCompletion(order);
+      }
+
+      socketManager.sendStationTickets(stationIds, order);
+      await socketManager.refreshQueueEstimates(storeId);
+      if (order.tableSessionId) {
+        await socketManager.refreshFloorStatus(storeId);
+      }
+
       // 自動打印
       await printService.autoPrintOrder(order.id);
+      if (paymentResult && paymentResult.payments.length > 1) {
+        await printService.printPayerReceipts(order.id, paymentResult.payments.map(payment => payment.id));
+      }
 
       // 發送即時通知
       io.to(`store:${storeId}`).emit('posOrderCreated', {
         orderId: order.id,
         orderNumber: order.orderNumber,
+        pickupNumber: order.pickupNumber,
         orderType: order.orderType,
         totalAmount: order.totalAmount,
         tableNumber,
@@ -247,6 +408,193 @@ router.post(
   }
 );
 
+/**
+ * 查詢同租戶下的訂單（分開付款用）
+ */
+async function findTenantOrder(req: AuthenticatedRequest, orderId: string) {
+  const order = await prisma.order.findFirst({
+    where: {
+      id: orderId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!order) {
+    throw new AppError('訂單不存在或無權限', 404);
+  }
+
+  return order;
+}
+
+/**
+ * 分開付款完成後的後續處理：完成訂單、打印個人收據及即時通知
+ */
+async function afterSplitPayment(orderId: string, previousStatus: string, result: PaymentResult) {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      items: true,
+      customer: {
+        select: {
+          displayName: true,
+        },
+      },
+    },
+  });
+
+  if (result.orderStatus === 'COMPLETED' && previousStatus !== 'COMPLETED') {
+    await orderService.handleOrderCompletion(order);
+  }
+
+  await printService.printPayerReceipts(orderId, result.payments.map(payment => payment.id));
+
+  io.to(`store:${order.storeId}`).emit('order-payment-updated', {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    paymentStatus: result.paymentStatus,
+    paidAmount: result.paidAmount,
+    outstanding: result.outstanding,
+  });
+
+  if (result.orderStatus !== previousStatus) {
+    socketManager.sendOrderStatusUpdate(order, result.orderStatus);
+    await socketManager.refreshQueueEstimates(order.storeId);
+  }
+
+  if (order.tableSessionId) {
+    await socketManager.refreshFloorStatus(order.storeId);
+  }
+}
+
+/**
+ * 員工POS - 查詢訂單付款餘額
+ * GET /api/pos/orders/:id/balance
+ */
+router.get(
+  '/orders/:id/balance',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    query('parts').optional().isInt({ min: 1, max: 50 }).withMessage('分攤人數限制在1-50之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      await findTenantOrder(req, id);
+
+      const balance = await splitBillService.getBalance(id);
+      const shares = req.query.parts
+        ? splitBillService.splitEvenly(balance.outstanding, parseInt(req.query.parts as string))
+        : undefined;
+
+      res.json({
+        message: '付款餘額獲取成功',
+        data: {
+          ...balance,
+          shares,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 員工POS - 依金額分開付款（多種付款方式或平均分攤）
+ * POST /api/pos/orders/:id/payments
+ */
+router.post(
+  '/orders/:id/payments',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  idempotency('pos.orders.payments'),
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    body('payments').isArray({ min: 1 }).withMessage('付款資料不能為空'),
+    body('payments.*.method').isIn(TENDER_METHODS).withMessage('付款方式無效'),
+    body('payments.*.amount').isFloat({ gt: 0 }).withMessage('付款金額必須大於0'),
+    body('payments.*.payerName').optional().isString().isLength({ max: 50 }).withMessage('付款人名稱不能超過50字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const existing = await findTenantOrder(req, id);
+
+      const result = await prisma.$transaction(async (tx) => {
+        return await splitBillService.recordPayments(tx, id, req.body.payments, req.user!.id);
+      });
+
+      await afterSplitPayment(id, existing.status, result);
+
+      logger.info(`分開付款: ${existing.orderNumber} 共${result.payments.length}筆 (員工: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: result.outstanding > 0 ? '部分付款成功' : '付款完成',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 員工POS - 依項目分開付款
+ * POST /api/pos/orders/:id/payments/items
+ */
+router.post(
+  '/orders/:id/payments/items',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  idempotency('pos.orders.payments.items'),
+  [
+    param('id').isUUID().withMessage('訂單ID格式無效'),
+    body('method').isIn(TENDER_METHODS).withMessage('付款方式無效'),
+    body('payerName').optional().isString().isLength({ max: 50 }).withMessage('付款人名稱不能超過50字符'),
+    body('items').isArray({ min: 1 }).withMessage('請選擇要付款的項目'),
+    body('items.*.orderItemId').isString().withMessage('訂單項目ID格式無效'),
+    body('items.*.quantity').isInt({ min: 1 }).withMessage('數量必須大於0'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { method, payerName, items } = req.body;
+      const existing = await findTenantOrder(req, id);
+
+      const result = await prisma.$transaction(async (tx) => {
+        return await splitBillService.recordItemPayment(tx, id, { method, payerName, items }, req.user!.id);
+      });
+
+      await afterSplitPayment(id, existing.status, result);
+
+      logger.info(`依項目付款: ${existing.orderNumber} ${payerName || ''} $${result.payments[0].amount} (員工: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: result.outstanding > 0 ? '部分付款成功' : '付款完成',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 員工POS - 快速商品搜尋
  * GET /api/pos/products/search
@@ -256,6 +604,7 @@ router.get(
   requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
   [
     query('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    query('branchId').optional().isString().withMessage('分店ID格式無效'),
     query('keyword').isString().isLength({ min: 1 }).withMessage('搜尋關鍵字不能為空'),
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('查詢數量限制在1-50之間'),
   ],
@@ -266,7 +615,7 @@ router.get(
         return next(new AppError('輸入數據無效', 400, errors.array()));
       }
 
-      const { storeId, keyword, limit = '20' } = req.query;
+      const { storeId, branchId, keyword, limit = '20' } = req.query;
 
       // 驗證店鋪權限
       const store = await prisma.store.findFirst({
@@ -280,10 +629,16 @@ router.get(
         return next(new AppError('店鋪不存在或無權限', 404));
       }
 
+      // 只搜尋分店目前供應中的商品，並顯示分店售價及時段價格
+      const menuContext = await menuScheduleService.getContext(storeId as string);
+      const branchMenu = await branchMenuService.getBranchMenu(storeId as string, branchId as string | undefined);
+
       const products = await prisma.product.findMany({
         where: {
           storeId: storeId as string,
           isAvailable: true,
+          ...menuScheduleService.availableWhere(menuContext),
+          ...branchMenuService.productWhere(branchMenu, true),
           OR: [
             { name: { contains: keyword as string } },
             { description: { contains: keyword as string } },
@@ -297,6 +652,30 @@ router.get(
           },
           variants: true,
           addons: true,
+          modifierGroups: {
+            include: {
+              options: {
+                orderBy: { sortOrder: 'asc' },
+              },
+            },
+            orderBy: { sortOrder: 'asc' },
+          },
+          comboSlots: {
+            include: {
+              choices: {
+                include: {
+                  product: {
+                    select: {
+                      name: true,
+                      isAvailable: true,
+                    },
+                  },
+                },
+                orderBy: { sortOrder: 'asc' },
+              },
+            },
+            orderBy: { sortOrder: 'asc' },
+          },
           inventory: {
             select: {
               quantity: true,
@@ -310,7 +689,12 @@ router.get(
 
       res.json({
         message: '商品搜尋成功',
-        data: { products },
+        data: {
+          products: products.map(product => menuScheduleService.decorateProduct(
+            menuContext,
+            branchMenuService.applyToProduct(branchMenu, product)
+          )),
+        },
       });
     } catch (error) {
       next(error);
@@ -2,13 +2,72 @@ import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
-import { requireRoles } from '../middleware/auth';
+import { requireRoles, bindTableGuest } from '../middleware/auth';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
 import { uploadMiddleware } from '../middleware/upload';
+import { InventoryService } from '../services/inventoryService';
+import { IngredientService } from '../services/ingredientService';
+import { ModifierService } from '../services/modifierService';
+import { ComboService } from '../services/comboService';
+import { MenuScheduleService } from '../services/menuScheduleService';
+import { BranchMenuService } from '../services/branchMenuService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const inventoryService = new InventoryService();
+const ingredientService = new IngredientService();
+const modifierService = new ModifierService();
+const comboService = new ComboService();
+const menuScheduleService = new MenuScheduleService();
+const branchMenuService = new BranchMenuService();
+
+// 供應時段的驗證規則（分類與商品共用）
+const scheduleValidators = [
+  body('schedules').isArray().withMessage('供應時段必須是數組'),
+  body('schedules.*.daysOfWeek').optional().isArray().withMessage('星期必須是數組'),
+  body('schedules.*.daysOfWeek.*').isInt({ min: 0, max: 6 }).withMessage('星期必須是0-6'),
+  body('schedules.*.startTime').optional({ values: 'null' }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('開始時間格式必須是HH:mm'),
+  body('schedules.*.endTime').optional({ values: 'null' }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('結束時間格式必須是HH:mm'),
+];
+
+// 價格規則的驗證規則（建立與更新共用）
+const priceRuleValidators = [
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('規則名稱長度必須在1-50字符之間'),
+  body('categoryId').optional({ values: 'null' }).isUUID().withMessage('分類ID格式無效'),
+  body('productId').optional({ values: 'null' }).isUUID().withMessage('商品ID格式無效'),
+  body('adjustmentType').isIn(['PERCENTAGE', 'FIXED_AMOUNT', 'FIXED_PRICE']).withMessage('價格調整類型無效'),
+  body('value').isFloat({ min: 0 }).withMessage('調整數值必須是非負數'),
+  body('priority').optional().isInt().withMessage('優先度必須是整數'),
+  body('daysOfWeek').optional().isArray().withMessage('星期必須是數組'),
+  body('daysOfWeek.*').isInt({ min: 0, max: 6 }).withMessage('星期必須是0-6'),
+  body('startTime').optional({ values: 'null' }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('開始時間格式必須是HH:mm'),
+  body('endTime').optional({ values: 'null' }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('結束時間格式必須是HH:mm'),
+  body('validFrom').optional({ values: 'null' }).isISO8601().withMessage('開始日期格式無效'),
+  body('validUntil').optional({ values: 'null' }).isISO8601().withMessage('結束日期格式無效'),
+  body('isActive').optional().isBoolean().withMessage('狀態值必須是布爾值'),
+];
+
+const parseScheduleInputs = (schedules: any[]) => schedules.map(schedule => ({
+  daysOfWeek: schedule.daysOfWeek?.map((day: any) => parseInt(day)),
+  startTime: schedule.startTime,
+  endTime: schedule.endTime,
+}));
+
+const parsePriceRuleInput = (input: any) => ({
+  name: input.name,
+  categoryId: input.categoryId,
+  productId: input.productId,
+  adjustmentType: input.adjustmentType,
+  value: parseFloat(input.value),
+  priority: input.priority !== undefined ? parseInt(input.priority) : undefined,
+  daysOfWeek: input.daysOfWeek?.map((day: any) => parseInt(day)),
+  startTime: input.startTime,
+  endTime: input.endTime,
+  validFrom: input.validFrom ? new Date(input.validFrom) : null,
+  validUntil: input.validUntil ? new Date(input.validUntil) : null,
+  isActive: input.isActive,
+});
 
 /**
  * 獲取商品分類列表
@@ -16,9 +75,11 @@ const prisma = new PrismaClient();
  */
 router.get(
   '/categories',
+  bindTableGuest,
   [
     query('storeId').isUUID().withMessage('店鋪ID格式無效'),
     query('isActive').optional().isBoolean().withMessage('狀態值必須是布爾值'),
+    query('availableNow').optional().isBoolean().withMessage('供應狀態必須是布爾值'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -27,7 +88,7 @@ router.get(
         return next(new AppError('輸入數據無效', 400, errors.array()));
       }
 
-      const { storeId, isActive } = req.query;
+      const { storeId, isActive, availableNow } = req.query;
 
       // 驗證店鋪權限
       const store = await prisma.store.findFirst({
@@ -64,9 +125,20 @@ router.get(
         ],
       });
 
+      // 桌邊點餐只顯示目前供應中的分類
+      const menuContext = await menuScheduleService.getContext(storeId as string);
+      const onlyAvailableNow = availableNow === 'true' || !!req.tableGuest;
+
       res.json({
         message: '商品分類列表獲取成功',
-        data: { categories },
+        data: {
+          categories: categories
+            .map(category => ({
+              ...category,
+              isAvailableNow: !menuContext.closedCategoryIds.has(category.id),
+            }))
+            .filter(category => !onlyAvailableNow || category.isAvailableNow),
+        },
       });
     } catch (error) {
       next(error);
@@ -153,16 +225,111 @@ router.post(
   }
 );
 
+/**
+ * 獲取分類供應時段
+ * GET /api/products/categories/:id/availability
+ */
+router.get(
+  '/categories/:id/availability',
+  [param('id').isUUID().withMessage('分類ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const category = await prisma.category.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!category) {
+        return next(new AppError('分類不存在', 404));
+      }
+
+      const schedules = await menuScheduleService.getSchedules({ categoryId: id });
+
+      res.json({
+        message: '分類供應時段獲取成功',
+        data: { schedules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定分類供應時段（如早餐類只供應至10:30），空數組表示全天供應
+ * PUT /api/products/categories/:id/availability
+ */
+router.put(
+  '/categories/:id/availability',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('分類ID格式無效'),
+    ...scheduleValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const category = await prisma.category.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!category) {
+        return next(new AppError('分類不存在', 404));
+      }
+
+      const schedules = await menuScheduleService.replaceSchedules(
+        category.storeId,
+        { categoryId: id },
+        parseScheduleInputs(req.body.schedules)
+      );
+
+      logger.info(`分類供應時段更新成功: ${category.name} (ID: ${id})`);
+
+      res.json({
+        message: '分類供應時段更新成功',
+        data: { schedules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 獲取商品列表
  * GET /api/products
  */
 router.get(
   '/',
+  bindTableGuest,
   [
     query('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    query('branchId').optional().isString().withMessage('分店ID格式無效'),
     query('categoryId').optional().isUUID().withMessage('分類ID格式無效'),
     query('isAvailable').optional().isBoolean().withMessage('可用狀態必須是布爾值'),
+    query('availableNow').optional().isBoolean().withMessage('供應狀態必須是布爾值'),
     query('page').optional().isInt({ min: 1 }).withMessage('頁碼必須是正整數'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('每頁數量必須在1-100之間'),
     query('search').optional().isString().withMessage('搜尋關鍵字必須是字符串'),
@@ -176,8 +343,10 @@ router.get(
 
       const {
         storeId,
+        branchId,
         categoryId,
         isAvailable,
+        availableNow,
         page = '1',
         limit = '20',
         search,
@@ -218,6 +387,16 @@ router.get(
         ];
       }
 
+      // 桌邊點餐只顯示目前供應時段內的商品
+      const menuContext = await menuScheduleService.getContext(storeId as string);
+      if (availableNow === 'true' || req.tableGuest) {
+        Object.assign(whereClause, menuScheduleService.availableWhere(menuContext));
+      }
+
+      // 指定分店時疊加分店菜單（分店限定商品、售完狀態及分店售價）
+      const branchMenu = await branchMenuService.getBranchMenu(storeId as string, branchId as string | undefined);
+      Object.assign(whereClause, branchMenuService.productWhere(branchMenu, isAvailable === 'true' || !!req.tableGuest));
+
       const [products, total] = await Promise.all([
         prisma.product.findMany({
           where: whereClause,
@@ -230,6 +409,30 @@ router.get(
             },
             variants: true,
             addons: true,
+            modifierGroups: {
+              include: {
+                options: {
+                  orderBy: { sortOrder: 'asc' },
+                },
+              },
+              orderBy: { sortOrder: 'asc' },
+            },
+            comboSlots: {
+              include: {
+                choices: {
+                  include: {
+                    product: {
+                      select: {
+                        name: true,
+                        isAvailable: true,
+                      },
+                    },
+                  },
+                  orderBy: { sortOrder: 'asc' },
+                },
+              },
+              orderBy: { sortOrder: 'asc' },
+            },
             inventory: true,
           },
           skip: offset,
@@ -245,7 +448,10 @@ router.get(
       res.json({
         message: '商品列表獲取成功',
         data: {
-          products,
+          products: products.map(product => menuScheduleService.decorateProduct(
+            menuContext,
+            branchMenuService.applyToProduct(branchMenu, product)
+          )),
           pagination: {
             page: pageNum,
             limit: limitNum,
@@ -260,6 +466,183 @@ router.get(
   }
 );
 
+/**
+ * 獲取時段價格規則
+ * GET /api/products/price-rules
+ */
+router.get(
+  '/price-rules',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId } = req.query;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId as string,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const priceRules = await menuScheduleService.listPriceRules(store.id);
+
+      res.json({
+        message: '價格規則獲取成功',
+        data: { priceRules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立時段價格規則（如14:00-17:00飲料8折）
+ * POST /api/products/price-rules
+ */
+router.post(
+  '/price-rules',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    ...priceRuleValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId } = req.body;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const priceRule = await menuScheduleService.createPriceRule(store.id, parsePriceRuleInput(req.body));
+
+      logger.info(`價格規則創建成功: ${priceRule.name} (店鋪ID: ${storeId})`);
+
+      res.status(201).json({
+        message: '價格規則創建成功',
+        data: { priceRule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新時段價格規則
+ * PUT /api/products/price-rules/:ruleId
+ */
+router.put(
+  '/price-rules/:ruleId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('ruleId').isString().withMessage('規則ID格式無效'),
+    ...priceRuleValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { ruleId } = req.params;
+
+      const existing = await prisma.priceRule.findFirst({
+        where: {
+          id: ruleId,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existing) {
+        return next(new AppError('價格規則不存在', 404));
+      }
+
+      const priceRule = await menuScheduleService.updatePriceRule(ruleId, parsePriceRuleInput(req.body));
+
+      logger.info(`價格規則更新成功: ${priceRule.name} (ID: ${ruleId})`);
+
+      res.json({
+        message: '價格規則更新成功',
+        data: { priceRule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 刪除時段價格規則
+ * DELETE /api/products/price-rules/:ruleId
+ */
+router.delete(
+  '/price-rules/:ruleId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('ruleId').isString().withMessage('規則ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { ruleId } = req.params;
+
+      const existing = await prisma.priceRule.findFirst({
+        where: {
+          id: ruleId,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existing) {
+        return next(new AppError('價格規則不存在', 404));
+      }
+
+      await menuScheduleService.deletePriceRule(ruleId);
+
+      logger.info(`價格規則刪除成功: ${existing.name} (ID: ${ruleId})`);
+
+      res.json({
+        message: '價格規則刪除成功',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 獲取單個商品詳細資訊
  * GET /api/products/:id
@@ -289,6 +672,35 @@ router.get(
             orderBy: { isDefault: 'desc' },
           },
           addons: true,
+          modifierGroups: {
+            include: {
+              options: {
+                orderBy: { sortOrder: 'asc' },
+              },
+            },
+            orderBy: { sortOrder: 'asc' },
+          },
+          comboSlots: {
+            include: {
+              choices: {
+                include: {
+                  product: {
+                    select: {
+                      name: true,
+                      isAvailable: true,
+                    },
+                  },
+                  variant: {
+                    select: {
+                      name: true,
+                    },
+                  },
+                },
+                orderBy: { sortOrder: 'asc' },
+              },
+            },
+            orderBy: { sortOrder: 'asc' },
+          },
           inventory: true,
           store: {
             select: {
@@ -330,6 +742,8 @@ router.post(
     body('variants').optional().isArray().withMessage('規格變化必須是數組'),
     body('addons').optional().isArray().withMessage('加購選項必須是數組'),
     body('inventory').optional().isObject().withMessage('庫存資訊必須是對象'),
+    body('prepTime').optional().isInt({ min: 0 }).withMessage('製作時間必須是非負整數'),
+    body('branchId').optional().isString().withMessage('分店ID格式無效'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -347,6 +761,8 @@ router.post(
         variants,
         addons,
         inventory,
+        prepTime,
+        branchId,
       } = req.body;
       const imageFile = req.file;
 
@@ -374,6 +790,20 @@ router.post(
         return next(new AppError('商品分類不存在', 404));
       }
 
+      // 分店限定商品
+      if (branchId) {
+        const branch = await prisma.storeBranch.findFirst({
+          where: {
+            id: branchId,
+            storeId,
+          },
+        });
+
+        if (!branch) {
+          return next(new AppError('分店不存在', 404));
+        }
+      }
+
       // 檢查商品名稱是否重複
       const existingProduct = await prisma.product.findFirst({
         where: {
@@ -402,6 +832,8 @@ router.post(
           basePrice: parseFloat(basePrice),
           image: imageUrl,
           isAvailable: true,
+          prepTime: prepTime !== undefined ? parseInt(prepTime) : undefined,
+          branchId: branchId || undefined,
           variants: variants ? {
             create: variants.map((variant: any) => ({
               name: variant.name,
@@ -458,6 +890,8 @@ router.put(
     body('description').optional().isString().isLength({ max: 500 }).withMessage('描述不能超過500字符'),
     body('basePrice').optional().isFloat({ min: 0 }).withMessage('基礎價格必須是非負數'),
     body('isAvailable').optional().isBoolean().withMessage('可用狀態必須是布爾值'),
+    body('prepTime').optional({ nullable: true }).isInt({ min: 0 }).withMessage('製作時間必須是非負整數'),
+    body('branchId').optional({ nullable: true }).isString().withMessage('分店ID格式無效'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -499,6 +933,20 @@ router.put(
         }
       }
 
+      // 設為分店限定商品（null表示改回全店供應）
+      if (updateData.branchId) {
+        const branch = await prisma.storeBranch.findFirst({
+          where: {
+            id: updateData.branchId,
+            storeId: existingProduct.storeId,
+          },
+        });
+
+        if (!branch) {
+          return next(new AppError('分店不存在', 404));
+        }
+      }
+
       // 處理圖片上傳
       if (imageFile) {
         updateData.image = `/uploads/products/${imageFile.filename}`;
@@ -508,6 +956,9 @@ router.put(
       if (updateData.basePrice) {
         updateData.basePrice = parseFloat(updateData.basePrice);
       }
+      if (updateData.prepTime !== undefined && updateData.prepTime !== null) {
+        updateData.prepTime = parseInt(updateData.prepTime);
+      }
 
       const updatedProduct = await prisma.product.update({
         where: { id },
@@ -607,6 +1058,787 @@ router.delete(
   }
 );
 
+/**
+ * 調整商品庫存（進貨、盤點）
+ * POST /api/products/:id/inventory/adjust
+ */
+router.post(
+  '/:id/inventory/adjust',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    body('quantity').isInt().not().equals('0').withMessage('調整數量必須是非零整數'),
+    body('type').isIn(['RESTOCK', 'ADJUST']).withMessage('調整類型無效'),
+    body('reason').optional().isString().isLength({ max: 200 }).withMessage('原因不能超過200字符'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { quantity, type, reason } = req.body;
+
+      // 檢查商品是否存在及權限
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const movement = await inventoryService.adjustStock(
+        id,
+        parseInt(quantity),
+        type,
+        reason,
+        req.user!.id
+      );
+
+      logger.info(`商品庫存調整: ${product.name} ${quantity > 0 ? '+' : ''}${quantity} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '庫存調整成功',
+        data: { movement },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取商品庫存異動紀錄
+ * GET /api/products/:id/inventory/movements
+ */
+router.get(
+  '/:id/inventory/movements',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('查詢數量限制在1-200之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { limit = '50' } = req.query;
+
+      // 檢查商品是否存在及權限
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+        include: {
+          inventory: true,
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const movements = await inventoryService.getMovements(id, parseInt(limit as string));
+
+      res.json({
+        message: '庫存異動紀錄獲取成功',
+        data: {
+          inventory: product.inventory,
+          movements,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取商品配方
+ * GET /api/products/:id/recipe
+ */
+router.get(
+  '/:id/recipe',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isUUID().withMessage('商品ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const recipe = await ingredientService.getProductRecipe(id);
+
+      res.json({
+        message: '商品配方獲取成功',
+        data: { recipe },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定商品配方（含規格與加購項目）
+ * PUT /api/products/:id/recipe
+ */
+router.put(
+  '/:id/recipe',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    body('items').isArray().withMessage('配方項目必須是數組'),
+    body('items.*.ingredientId').isUUID().withMessage('原料ID格式無效'),
+    body('items.*.quantity').isFloat({ gt: 0 }).withMessage('原料用量必須大於0'),
+    body('items.*.variantId').optional().isUUID().withMessage('規格ID格式無效'),
+    body('items.*.addonId').optional().isUUID().withMessage('加購項目ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { items } = req.body;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const recipe = await ingredientService.replaceProductRecipe(
+        id,
+        items.map((item: any) => ({
+          ingredientId: item.ingredientId,
+          quantity: parseFloat(item.quantity),
+          variantId: item.variantId,
+          addonId: item.addonId,
+        }))
+      );
+
+      logger.info(`商品配方更新成功: ${product.name} (ID: ${id})`);
+
+      res.json({
+        message: '商品配方更新成功',
+        data: { recipe },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取商品選項群組
+ * GET /api/products/:id/modifier-groups
+ */
+router.get(
+  '/:id/modifier-groups',
+  [param('id').isUUID().withMessage('商品ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const modifierGroups = await modifierService.getProductModifierGroups(id);
+
+      res.json({
+        message: '商品選項群組獲取成功',
+        data: { modifierGroups },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定商品選項群組（如辣度、切法）
+ * PUT /api/products/:id/modifier-groups
+ */
+router.put(
+  '/:id/modifier-groups',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    body('groups').isArray().withMessage('選項群組必須是數組'),
+    body('groups.*.name').trim().isLength({ min: 1, max: 30 }).withMessage('群組名稱長度必須在1-30字符之間'),
+    body('groups.*.minSelect').isInt({ min: 0 }).withMessage('最少選擇數量必須是非負整數'),
+    body('groups.*.maxSelect').isInt({ min: 1 }).withMessage('最多選擇數量必須大於0'),
+    body('groups.*.options').isArray({ min: 1 }).withMessage('群組至少需要一個選項'),
+    body('groups.*.options.*.name').trim().isLength({ min: 1, max: 30 }).withMessage('選項名稱長度必須在1-30字符之間'),
+    body('groups.*.options.*.priceDelta').optional().isFloat().withMessage('選項價差必須是數字'),
+    body('groups.*.options.*.isDefault').optional().isBoolean().withMessage('預設選項必須是布爾值'),
+    body('groups.*.options.*.isAvailable').optional().isBoolean().withMessage('供應狀態必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { groups } = req.body;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const modifierGroups = await modifierService.replaceProductModifierGroups(
+        id,
+        groups.map((group: any) => ({
+          name: group.name,
+          minSelect: parseInt(group.minSelect),
+          maxSelect: parseInt(group.maxSelect),
+          options: group.options.map((option: any) => ({
+            name: option.name,
+            priceDelta: option.priceDelta !== undefined ? parseFloat(option.priceDelta) : 0,
+            isDefault: option.isDefault,
+            isAvailable: option.isAvailable,
+          })),
+        }))
+      );
+
+      logger.info(`商品選項群組更新成功: ${product.name} (ID: ${id})`);
+
+      res.json({
+        message: '商品選項群組更新成功',
+        data: { modifierGroups },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新選項供應狀態
+ * PATCH /api/products/modifier-options/:optionId
+ */
+router.patch(
+  '/modifier-options/:optionId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('optionId').isString().withMessage('選項ID格式無效'),
+    body('isAvailable').isBoolean().withMessage('供應狀態必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { optionId } = req.params;
+      const { isAvailable } = req.body;
+
+      const option = await prisma.modifierOption.findFirst({
+        where: {
+          id: optionId,
+          group: {
+            product: {
+              store: {
+                tenantId: req.user!.tenantId,
+              },
+            },
+          },
+        },
+      });
+
+      if (!option) {
+        return next(new AppError('商品選項不存在', 404));
+      }
+
+      const updatedOption = await modifierService.setOptionAvailability(optionId, isAvailable);
+
+      res.json({
+        message: '選項供應狀態更新成功',
+        data: { option: updatedOption },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取套餐內容設定
+ * GET /api/products/:id/combo-slots
+ */
+router.get(
+  '/:id/combo-slots',
+  [param('id').isUUID().withMessage('商品ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const comboSlots = await comboService.getComboSlots(id);
+
+      res.json({
+        message: '套餐內容獲取成功',
+        data: { comboSlots },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定套餐內容（欄位與可選商品、升級差價）
+ * PUT /api/products/:id/combo-slots
+ */
+router.put(
+  '/:id/combo-slots',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    body('slots').isArray().withMessage('套餐欄位必須是數組'),
+    body('slots.*.name').trim().isLength({ min: 1, max: 30 }).withMessage('欄位名稱長度必須在1-30字符之間'),
+    body('slots.*.quantity').optional().isInt({ min: 1 }).withMessage('欄位數量必須大於0'),
+    body('slots.*.choices').isArray({ min: 1 }).withMessage('欄位至少需要一個可選商品'),
+    body('slots.*.choices.*.productId').isUUID().withMessage('商品ID格式無效'),
+    body('slots.*.choices.*.variantId').optional().isUUID().withMessage('規格ID格式無效'),
+    body('slots.*.choices.*.upcharge').optional().isFloat({ min: 0 }).withMessage('升級差價必須是非負數'),
+    body('slots.*.choices.*.isDefault').optional().isBoolean().withMessage('預設選項必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { slots } = req.body;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const comboSlots = await comboService.replaceComboSlots(
+        id,
+        slots.map((slot: any) => ({
+          name: slot.name,
+          quantity: slot.quantity ? parseInt(slot.quantity) : 1,
+          choices: slot.choices.map((choice: any) => ({
+            productId: choice.productId,
+            variantId: choice.variantId,
+            upcharge: choice.upcharge !== undefined ? parseFloat(choice.upcharge) : 0,
+            isDefault: choice.isDefault,
+          })),
+        }))
+      );
+
+      logger.info(`套餐內容更新成功: ${product.name} (ID: ${id})`);
+
+      res.json({
+        message: '套餐內容更新成功',
+        data: { comboSlots },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取商品供應時段
+ * GET /api/products/:id/availability
+ */
+router.get(
+  '/:id/availability',
+  [param('id').isUUID().withMessage('商品ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const schedules = await menuScheduleService.getSchedules({ productId: id });
+
+      res.json({
+        message: '商品供應時段獲取成功',
+        data: { schedules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定商品供應時段（如假日限定），空數組表示依分類設定供應
+ * PUT /api/products/:id/availability
+ */
+router.put(
+  '/:id/availability',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    ...scheduleValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const schedules = await menuScheduleService.replaceSchedules(
+        product.storeId,
+        { productId: id },
+        parseScheduleInputs(req.body.schedules)
+      );
+
+      logger.info(`商品供應時段更新成功: ${product.name} (ID: ${id})`);
+
+      res.json({
+        message: '商品供應時段更新成功',
+        data: { schedules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取分店菜單覆寫設定
+ * GET /api/products/branches/:branchId/overrides
+ */
+router.get(
+  '/branches/:branchId/overrides',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('branchId').isString().withMessage('分店ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { branchId } = req.params;
+
+      const branch = await prisma.storeBranch.findFirst({
+        where: {
+          id: branchId,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!branch) {
+        return next(new AppError('分店不存在', 404));
+      }
+
+      const overrides = await branchMenuService.listOverrides(branchId);
+
+      res.json({
+        message: '分店菜單設定獲取成功',
+        data: { overrides },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 批量設定分店售完狀態
+ * PATCH /api/products/branches/:branchId/sold-out
+ */
+router.patch(
+  '/branches/:branchId/sold-out',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('branchId').isString().withMessage('分店ID格式無效'),
+    body('productIds').isArray({ min: 1 }).withMessage('商品ID列表不能為空'),
+    body('productIds.*').isUUID().withMessage('商品ID格式無效'),
+    body('isSoldOut').isBoolean().withMessage('售完狀態必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { branchId } = req.params;
+      const { productIds, isSoldOut } = req.body;
+
+      const branch = await prisma.storeBranch.findFirst({
+        where: {
+          id: branchId,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!branch) {
+        return next(new AppError('分店不存在', 404));
+      }
+
+      // 只能設定該分店販售的商品
+      const products = await prisma.product.findMany({
+        where: {
+          id: { in: productIds },
+          storeId: branch.storeId,
+          OR: [{ branchId: null }, { branchId }],
+        },
+      });
+
+      if (products.length !== productIds.length) {
+        return next(new AppError('部分商品不存在或不在此分店販售', 404));
+      }
+
+      const updatedCount = await branchMenuService.setSoldOut(branchId, productIds, isSoldOut);
+
+      logger.info(`分店售完狀態更新: ${branch.name} ${updatedCount}個商品設為${isSoldOut ? '售完' : '供應中'}`);
+
+      res.json({
+        message: `成功更新${updatedCount}個商品狀態`,
+        data: { updatedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定商品的分店售價或售完狀態
+ * PUT /api/products/:id/branches/:branchId
+ */
+router.put(
+  '/:id/branches/:branchId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    param('branchId').isString().withMessage('分店ID格式無效'),
+    body('price').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('分店售價必須是非負數'),
+    body('variantPrices').optional({ values: 'null' }).isObject().withMessage('規格售價必須是對象'),
+    body('variantPrices.*').isFloat({ min: 0 }).withMessage('規格售價必須是非負數'),
+    body('isSoldOut').optional().isBoolean().withMessage('售完狀態必須是布爾值'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, branchId } = req.params;
+      const { price, variantPrices, isSoldOut } = req.body;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      const override = await branchMenuService.upsertOverride(branchId, id, {
+        price: price === undefined ? undefined : price === null ? null : parseFloat(price),
+        variantPrices: variantPrices === undefined ? undefined : variantPrices === null ? null : Object.fromEntries(
+          Object.entries(variantPrices).map(([variantId, value]) => [variantId, parseFloat(value as string)])
+        ),
+        isSoldOut,
+      });
+
+      logger.info(`分店菜單設定更新成功: ${product.name} (分店ID: ${branchId})`);
+
+      res.json({
+        message: '分店菜單設定更新成功',
+        data: { override },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 移除商品的分店設定，恢復為主菜單售價
+ * DELETE /api/products/:id/branches/:branchId
+ */
+router.delete(
+  '/:id/branches/:branchId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('商品ID格式無效'),
+    param('branchId').isString().withMessage('分店ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, branchId } = req.params;
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!product) {
+        return next(new AppError('商品不存在', 404));
+      }
+
+      await branchMenuService.removeOverride(branchId, id);
+
+      logger.info(`分店菜單設定已移除: ${product.name} (分店ID: ${branchId})`);
+
+      res.json({
+        message: '分店菜單設定已移除',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * 批量更新商品狀態
  * PATCH /api/products/batch-status
@@ -0,0 +1,221 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { PromotionService, PromotionInput, PROMOTION_ACTION_TYPES } from '../services/promotionService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const promotionService = new PromotionService();
+
+// 促銷活動的驗證規則（建立與更新共用）
+const promotionValidators = [
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('促銷名稱長度必須在1-50字符之間'),
+  body('description').optional({ values: 'null' }).isString().isLength({ max: 200 }).withMessage('促銷說明不能超過200字符'),
+  body('conditions').optional().isObject().withMessage('促銷條件格式無效'),
+  body('conditions.productIds').optional().isArray().withMessage('商品必須是數組'),
+  body('conditions.productIds.*').isUUID().withMessage('商品ID格式無效'),
+  body('conditions.categoryIds').optional().isArray().withMessage('分類必須是數組'),
+  body('conditions.categoryIds.*').isUUID().withMessage('分類ID格式無效'),
+  body('conditions.minQuantity').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('最低件數必須是正整數'),
+  body('conditions.minSpend').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('最低消費金額必須是非負數'),
+  body('actionType').isIn(PROMOTION_ACTION_TYPES).withMessage('促銷類型無效'),
+  body('actionValue').optional().isFloat({ min: 0 }).withMessage('促銷數值必須是非負數'),
+  body('rewardProductId').optional({ values: 'null' }).isUUID().withMessage('贈品商品ID格式無效'),
+  body('rewardQuantity').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('折扣件數必須是正整數'),
+  body('maxApplications').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('套用組數上限必須是正整數'),
+  body('priority').optional().isInt().withMessage('優先度必須是整數'),
+  body('stackable').optional().isBoolean().withMessage('stackable必須是布林值'),
+  body('combinableWithCoupons').optional().isBoolean().withMessage('combinableWithCoupons必須是布林值'),
+  body('validFrom').optional({ values: 'null' }).isISO8601().withMessage('開始日期格式無效'),
+  body('validUntil').optional({ values: 'null' }).isISO8601().withMessage('結束日期格式無效'),
+  body('isActive').optional().isBoolean().withMessage('isActive必須是布林值'),
+];
+
+const parsePromotionInput = (input: any): PromotionInput => ({
+  name: input.name,
+  description: input.description,
+  conditions: {
+    productIds: input.conditions?.productIds,
+    categoryIds: input.conditions?.categoryIds,
+    minQuantity: input.conditions?.minQuantity != null ? parseInt(input.conditions.minQuantity) : undefined,
+    minSpend: input.conditions?.minSpend != null ? parseFloat(input.conditions.minSpend) : undefined,
+  },
+  actionType: input.actionType,
+  actionValue: input.actionValue !== undefined ? parseFloat(input.actionValue) : undefined,
+  rewardProductId: input.rewardProductId,
+  rewardQuantity: input.rewardQuantity != null ? parseInt(input.rewardQuantity) : null,
+  maxApplications: input.maxApplications != null ? parseInt(input.maxApplications) : null,
+  priority: input.priority !== undefined ? parseInt(input.priority) : undefined,
+  stackable: input.stackable,
+  combinableWithCoupons: input.combinableWithCoupons,
+  validFrom: input.validFrom ? new Date(input.validFrom) : null,
+  validUntil: input.validUntil ? new Date(input.validUntil) : null,
+  isActive: input.isActive,
+});
+
+/**
+ * 查詢同租戶下的店鋪
+ */
+async function findTenantStore(req: AuthenticatedRequest, storeId: string) {
+  const store = await prisma.store.findFirst({
+    where: {
+      id: storeId,
+      tenantId: req.user!.tenantId,
+    },
+  });
+
+  if (!store) {
+    throw new AppError('店鋪不存在', 404);
+  }
+
+  return store;
+}
+
+/**
+ * 查詢同租戶下的促銷活動
+ */
+async function findTenantPromotion(req: AuthenticatedRequest, promotionId: string) {
+  const promotion = await prisma.promotion.findFirst({
+    where: {
+      id: promotionId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!promotion) {
+    throw new AppError('促銷活動不存在', 404);
+  }
+
+  return promotion;
+}
+
+/**
+ * 獲取店鋪的促銷活動
+ * GET /api/promotions?storeId=
+ */
+router.get(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.query.storeId as string);
+      const promotions = await promotionService.listPromotions(store.id);
+
+      res.json({
+        message: '獲取促銷活動成功',
+        data: promotions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立促銷活動（如買兩份雞排送紅茶、第二件半價、滿300折30）
+ * POST /api/promotions
+ */
+router.post(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    ...promotionValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const store = await findTenantStore(req, req.body.storeId);
+      const promotion = await promotionService.createPromotion(store.id, parsePromotionInput(req.body));
+
+      logger.info(`促銷活動建立: ${promotion.name} (操作者: ${req.user!.email})`);
+
+      res.status(201).json({
+        message: '促銷活動建立成功',
+        data: promotion,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新促銷活動
+ * PUT /api/promotions/:id
+ */
+router.put(
+  '/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('促銷活動ID格式無效'),
+    ...promotionValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const existing = await findTenantPromotion(req, req.params.id);
+      const promotion = await promotionService.updatePromotion(existing.id, parsePromotionInput(req.body));
+
+      logger.info(`促銷活動更新: ${promotion.name} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '促銷活動更新成功',
+        data: promotion,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 刪除促銷活動
+ * DELETE /api/promotions/:id
+ */
+router.delete(
+  '/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('促銷活動ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const promotion = await findTenantPromotion(req, req.params.id);
+      await promotionService.deletePromotion(promotion.id);
+
+      logger.info(`促銷活動刪除: ${promotion.name} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '促銷活動已刪除',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
@@ -6,9 +6,47 @@ import { requireRoles } from '../middleware/auth';
 import AppError from '../utils/AppError';
 import logger from '../utils/logger';
 import { uploadMiddleware } from '../middleware/upload';
+import { WorkflowService, ORDER_STATUSES, ORDER_TYPES } from '../services/workflowService';
+import { ScheduleService } from '../services/scheduleService';
+import { DeliveryService, DELIVERY_ZONE_TYPES } from '../services/deliveryService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const workflowService = new WorkflowService();
+const scheduleService = new ScheduleService();
+const deliveryService = new DeliveryService();
+
+// 外送區域的驗證規則（建立與更新共用）
+const deliveryZoneValidators = [
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('區域名稱長度必須在1-50字符之間'),
+  body('type').isIn(DELIVERY_ZONE_TYPES).withMessage('外送區域類型無效'),
+  body('radiusKm').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('半徑必須大於0'),
+  body('polygon').optional({ values: 'null' }).isArray({ min: 3 }).withMessage('多邊形至少需要3個座標點'),
+  body('minOrderAmount').optional().isFloat({ min: 0 }).withMessage('最低消費金額必須是非負數'),
+  body('baseFee').optional().isFloat({ min: 0 }).withMessage('外送費必須是非負數'),
+  body('sortOrder').optional().isInt({ min: 0 }).withMessage('排序值必須是非負整數'),
+  body('isActive').optional().isBoolean().withMessage('狀態值必須是布爾值'),
+  body('feeTiers').optional().isArray().withMessage('費用級距必須是數組'),
+  body('feeTiers.*.maxDistanceKm').isFloat({ gt: 0 }).withMessage('級距距離必須大於0'),
+  body('feeTiers.*.fee').isFloat({ min: 0 }).withMessage('級距外送費必須是非負數'),
+];
+
+const parseDeliveryZoneInput = (input: any) => ({
+  name: input.name,
+  type: input.type,
+  radiusKm: input.radiusKm !== undefined && input.radiusKm !== null ? parseFloat(input.radiusKm) : null,
+  polygon: input.polygon
+    ? input.polygon.map((point: any) => [parseFloat(point[0]), parseFloat(point[1])] as [number, number])
+    : null,
+  minOrderAmount: input.minOrderAmount !== undefined ? parseFloat(input.minOrderAmount) : undefined,
+  baseFee: input.baseFee !== undefined ? parseFloat(input.baseFee) : undefined,
+  sortOrder: input.sortOrder !== undefined ? parseInt(input.sortOrder) : undefined,
+  isActive: input.isActive,
+  feeTiers: (input.feeTiers || []).map((tier: any) => ({
+    maxDistanceKm: parseFloat(tier.maxDistanceKm),
+    fee: parseFloat(tier.fee),
+  })),
+});
 
 /**
  * 獲取店鋪列表
@@ -245,6 +283,14 @@ router.put(
     body('email').optional().isEmail().withMessage('請提供有效的電子郵件'),
     body('status').optional().isIn(['ACTIVE', 'INACTIVE', 'MAINTENANCE']).withMessage('狀態值無效'),
     body('businessHours').optional().isObject().withMessage('營業時間必須是對象格式'),
+    body('timezone').optional().custom((value) => {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    }).withMessage('時區無效'),
+    body('businessDayCutoff').optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('營業日切換時間格式必須是HH:mm'),
+    body('pickupPrefix').optional().matches(/^[A-Z]{1,2}$/).withMessage('取餐號碼前綴必須是1-2個大寫英文字母'),
+    body('latitude').optional({ values: 'null' }).isFloat({ min: -90, max: 90 }).toFloat().withMessage('緯度無效'),
+    body('longitude').optional({ values: 'null' }).isFloat({ min: -180, max: 180 }).toFloat().withMessage('經度無效'),
   ],
   async (req: AuthenticatedRequest, res, next) => {
     try {
@@ -502,6 +548,73 @@ router.get(
         })
       );
 
+      // 套餐銷售統計
+      const comboSales = await prisma.orderItem.groupBy({
+        by: ['productId'],
+        where: {
+          product: {
+            isCombo: true,
+          },
+          order: {
+            storeId: id,
+            createdAt: {
+              gte: startDate,
+            },
+          },
+        },
+        _sum: {
+          quantity: true,
+          totalPrice: true,
+        },
+        orderBy: {
+          _sum: {
+            quantity: 'desc',
+          },
+        },
+      });
+
+      // 套餐組成項目統計（數量為每份套餐數量乘以套餐份數）
+      const comboComponents = await prisma.orderItemComponent.findMany({
+        where: {
+          orderItem: {
+            order: {
+              storeId: id,
+              createdAt: {
+                gte: startDate,
+              },
+            },
+          },
+        },
+        select: {
+          productId: true,
+          quantity: true,
+          orderItem: {
+            select: {
+              quantity: true,
+            },
+          },
+        },
+      });
+
+      const componentTotals = new Map<string, number>();
+      for (const component of comboComponents) {
+        componentTotals.set(
+          component.productId,
+          (componentTotals.get(component.productId) || 0) + component.quantity * component.orderItem.quantity
+        );
+      }
+
+      const comboProducts = await prisma.product.findMany({
+        where: {
+          id: { in: [...comboSales.map(item => item.productId), ...componentTotals.keys()] },
+        },
+        select: {
+          id: true,
+          name: true,
+        },
+      });
+      const productNames = new Map(comboProducts.map(product => [product.id, product.name]));
+
       res.json({
         message: '店鋪統計數據獲取成功',
         data: {
@@ -521,8 +634,510 @@ router.get(
             total: productStats,
             popular: popularProductsWithDetails,
           },
+          combos: {
+            sales: comboSales.map(item => ({
+              id: item.productId,
+              name: productNames.get(item.productId),
+              totalSold: item._sum.quantity,
+              revenue: item._sum.totalPrice || 0,
+            })),
+            components: [...componentTotals.entries()]
+              .map(([productId, totalSold]) => ({
+                id: productId,
+                name: productNames.get(productId),
+                totalSold,
+              }))
+              .sort((a, b) => b.totalSold - a.totalSold),
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取店鋪訂單流程
+ * GET /api/stores/:id/workflows
+ */
+router.get(
+  '/:id/workflows',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+        include: {
+          orderWorkflows: {
+            select: { orderType: true },
+          },
         },
       });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const customized = store.orderWorkflows.map(workflow => workflow.orderType);
+      const workflows = await Promise.all(
+        ORDER_TYPES.map(async (orderType) => ({
+          orderType,
+          isCustom: customized.includes(orderType),
+          definition: await workflowService.getWorkflow(id, orderType),
+        }))
+      );
+
+      res.json({
+        message: '訂單流程獲取成功',
+        data: { workflows },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定店鋪訂單流程
+ * PUT /api/stores/:id/workflows/:orderType
+ */
+router.put(
+  '/:id/workflows/:orderType',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    param('orderType').isIn([...ORDER_TYPES]).withMessage('訂單類型無效'),
+    body('states').isArray({ min: 1 }).withMessage('流程狀態不能為空'),
+    body('states.*').isIn([...ORDER_STATUSES]).withMessage('訂單狀態無效'),
+    body('transitions').isArray({ min: 1 }).withMessage('狀態轉換不能為空'),
+    body('transitions.*.from').isIn([...ORDER_STATUSES]).withMessage('轉換起始狀態無效'),
+    body('transitions.*.to').isIn([...ORDER_STATUSES]).withMessage('轉換目標狀態無效'),
+    body('transitions.*.roles').optional().isArray().withMessage('轉換角色必須是數組'),
+    body('autoTransitions').optional().isArray().withMessage('自動轉換必須是數組'),
+    body('autoTransitions.*.event').optional().isIn(['PAYMENT_COMPLETED']).withMessage('自動轉換事件無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, orderType } = req.params;
+      const { states, transitions, autoTransitions } = req.body;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const definition = await workflowService.saveWorkflow(id, orderType, {
+        states,
+        transitions,
+        autoTransitions,
+      });
+
+      logger.info(`訂單流程更新: ${store.name} ${orderType} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '訂單流程更新成功',
+        data: {
+          orderType,
+          definition,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 恢復預設訂單流程
+ * DELETE /api/stores/:id/workflows/:orderType
+ */
+router.delete(
+  '/:id/workflows/:orderType',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    param('orderType').isIn([...ORDER_TYPES]).withMessage('訂單類型無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, orderType } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const definition = await workflowService.resetWorkflow(id, orderType);
+
+      logger.info(`訂單流程恢復預設: ${store.name} ${orderType} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '訂單流程已恢復預設',
+        data: {
+          orderType,
+          definition,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取預約時段設定
+ * GET /api/stores/:id/pickup-slot-config
+ */
+router.get(
+  '/:id/pickup-slot-config',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+        include: {
+          pickupSlotConfig: true,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      res.json({
+        message: '預約時段設定獲取成功',
+        data: { config: store.pickupSlotConfig },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 設定預約時段
+ * PUT /api/stores/:id/pickup-slot-config
+ */
+router.put(
+  '/:id/pickup-slot-config',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    body('isEnabled').optional().isBoolean().withMessage('啟用狀態必須是布爾值'),
+    body('slotMinutes').optional().isInt({ min: 5, max: 120 }).withMessage('時段長度限制在5-120分鐘之間'),
+    body('maxOrders').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('每時段訂單上限必須是正整數'),
+    body('maxItems').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('每時段份數上限必須是正整數'),
+    body('leadMinutes').optional().isInt({ min: 0, max: 240 }).withMessage('備餐提前時間限制在0-240分鐘之間'),
+    body('minAdvanceMinutes').optional().isInt({ min: 0 }).withMessage('最少提前預約時間必須是非負整數'),
+    body('maxAdvanceDays').optional().isInt({ min: 1, max: 30 }).withMessage('最多可預約天數限制在1-30天之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { isEnabled, slotMinutes, maxOrders, maxItems, leadMinutes, minAdvanceMinutes, maxAdvanceDays } = req.body;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const data = { isEnabled, slotMinutes, maxOrders, maxItems, leadMinutes, minAdvanceMinutes, maxAdvanceDays };
+
+      const config = await prisma.pickupSlotConfig.upsert({
+        where: { storeId: id },
+        create: { storeId: id, ...data },
+        update: data,
+      });
+
+      logger.info(`預約時段設定更新: ${store.name} (操作者: ${req.user!.email})`);
+
+      res.json({
+        message: '預約時段設定更新成功',
+        data: { config },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 查詢可預約的取餐時段
+ * GET /api/stores/:id/pickup-slots
+ */
+router.get(
+  '/:id/pickup-slots',
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    query('date').isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('日期格式必須是YYYY-MM-DD'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+          status: 'ACTIVE',
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或已停用', 404));
+      }
+
+      const slots = await scheduleService.getAvailableSlots(id, req.query.date as string);
+
+      res.json({
+        message: '預約時段獲取成功',
+        data: {
+          date: req.query.date,
+          slots,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取外送區域
+ * GET /api/stores/:id/delivery-zones
+ */
+router.get(
+  '/:id/delivery-zones',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const zones = await deliveryService.listZones(id);
+
+      res.json({
+        message: '外送區域獲取成功',
+        data: { zones },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 建立外送區域（半徑或多邊形，含距離費用級距及最低消費）
+ * POST /api/stores/:id/delivery-zones
+ */
+router.post(
+  '/:id/delivery-zones',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    ...deliveryZoneValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+
+      const store = await prisma.store.findFirst({
+        where: {
+          id,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在', 404));
+      }
+
+      const zone = await deliveryService.createZone(id, parseDeliveryZoneInput(req.body));
+
+      logger.info(`外送區域創建成功: ${zone.name} (店鋪: ${store.name})`);
+
+      res.status(201).json({
+        message: '外送區域創建成功',
+        data: { zone },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新外送區域
+ * PUT /api/stores/:id/delivery-zones/:zoneId
+ */
+router.put(
+  '/:id/delivery-zones/:zoneId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    param('zoneId').isString().withMessage('區域ID格式無效'),
+    ...deliveryZoneValidators,
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, zoneId } = req.params;
+
+      const existing = await prisma.deliveryZone.findFirst({
+        where: {
+          id: zoneId,
+          storeId: id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existing) {
+        return next(new AppError('外送區域不存在', 404));
+      }
+
+      const zone = await deliveryService.updateZone(zoneId, parseDeliveryZoneInput(req.body));
+
+      logger.info(`外送區域更新成功: ${zone.name} (ID: ${zoneId})`);
+
+      res.json({
+        message: '外送區域更新成功',
+        data: { zone },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 刪除外送區域
+ * DELETE /api/stores/:id/delivery-zones/:zoneId
+ */
+router.delete(
+  '/:id/delivery-zones/:zoneId',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isUUID().withMessage('店鋪ID格式無效'),
+    param('zoneId').isString().withMessage('區域ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id, zoneId } = req.params;
+
+      const existing = await prisma.deliveryZone.findFirst({
+        where: {
+          id: zoneId,
+          storeId: id,
+          store: {
+            tenantId: req.user!.tenantId,
+          },
+        },
+      });
+
+      if (!existing) {
+        return next(new AppError('外送區域不存在', 404));
+      }
+
+      await deliveryService.deleteZone(zoneId);
+
+      logger.info(`外送區域刪除成功: ${existing.name} (ID: ${zoneId})`);
+
+      res.json({
+        message: '外送區域刪除成功',
+      });
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,577 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireRoles } from '../middleware/auth';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { socketManager } from '../server';
+import { TableService } from '../services/tableService';
+import { OrderService } from '../services/orderService';
+import { TENDER_METHODS } from '../services/splitBillService';
+import { TableQrService } from '../services/tableQrService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const tableService = new TableService();
+const orderService = new OrderService();
+const tableQrService = new TableQrService();
+
+/**
+ * 查詢同租戶下的桌位
+ */
+async function findTenantTable(req: AuthenticatedRequest, tableId: string) {
+  const table = await prisma.table.findFirst({
+    where: {
+      id: tableId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!table) {
+    throw new AppError('桌位不存在', 404);
+  }
+
+  return table;
+}
+
+/**
+ * 查詢同租戶下的桌次
+ */
+async function findTenantSession(req: AuthenticatedRequest, sessionId: string) {
+  const session = await prisma.tableSession.findFirst({
+    where: {
+      id: sessionId,
+      store: {
+        tenantId: req.user!.tenantId,
+      },
+    },
+  });
+
+  if (!session) {
+    throw new AppError('桌次不存在', 404);
+  }
+
+  return session;
+}
+
+/**
+ * 獲取桌位平面圖及狀態
+ * GET /api/tables
+ */
+router.get(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [query('storeId').isUUID().withMessage('店鋪ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId } = req.query;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId as string,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const tables = await tableService.getFloorPlan(storeId as string);
+
+      res.json({
+        message: '桌位狀態獲取成功',
+        data: { tables },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 創建桌位
+ * POST /api/tables
+ */
+router.post(
+  '/',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    body('storeId').isUUID().withMessage('店鋪ID格式無效'),
+    body('branchId').optional().isUUID().withMessage('分店ID格式無效'),
+    body('name').trim().isLength({ min: 1, max: 20 }).withMessage('桌號長度必須在1-20字符之間'),
+    body('area').optional().trim().isLength({ max: 30 }).withMessage('區域名稱不能超過30字符'),
+    body('seats').optional().isInt({ min: 1, max: 50 }).withMessage('座位數限制在1-50之間'),
+    body('posX').optional().isInt({ min: 0 }).withMessage('平面圖座標必須是非負整數'),
+    body('posY').optional().isInt({ min: 0 }).withMessage('平面圖座標必須是非負整數'),
+    body('sortOrder').optional().isInt({ min: 0 }).withMessage('排序必須是非負整數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { storeId, branchId, name, area, seats, posX, posY, sortOrder } = req.body;
+
+      // 驗證店鋪權限
+      const store = await prisma.store.findFirst({
+        where: {
+          id: storeId,
+          tenantId: req.user!.tenantId,
+        },
+      });
+
+      if (!store) {
+        return next(new AppError('店鋪不存在或無權限', 404));
+      }
+
+      const existingTable = await prisma.table.findUnique({
+        where: {
+          storeId_name: { storeId, name },
+        },
+      });
+
+      if (existingTable) {
+        return next(new AppError('桌號已存在', 400));
+      }
+
+      const table = await prisma.table.create({
+        data: {
+          storeId,
+          branchId,
+          name,
+          area,
+          seats: seats || 4,
+          posX,
+          posY,
+          sortOrder: sortOrder || 0,
+        },
+      });
+
+      logger.info(`桌位創建成功: ${name} (店鋪ID: ${storeId})`);
+
+      await socketManager.refreshFloorStatus(storeId);
+
+      res.status(201).json({
+        message: '桌位創建成功',
+        data: { table },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 更新桌位
+ * PUT /api/tables/:id
+ */
+router.put(
+  '/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [
+    param('id').isString().withMessage('桌位ID格式無效'),
+    body('name').optional().trim().isLength({ min: 1, max: 20 }).withMessage('桌號長度必須在1-20字符之間'),
+    body('area').optional().trim().isLength({ max: 30 }).withMessage('區域名稱不能超過30字符'),
+    body('seats').optional().isInt({ min: 1, max: 50 }).withMessage('座位數限制在1-50之間'),
+    body('posX').optional().isInt({ min: 0 }).withMessage('平面圖座標必須是非負整數'),
+    body('posY').optional().isInt({ min: 0 }).withMessage('平面圖座標必須是非負整數'),
+    body('isActive').optional().isBoolean().withMessage('啟用狀態必須是布爾值'),
+    body('sortOrder').optional().isInt({ min: 0 }).withMessage('排序必須是非負整數'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { name, area, seats, posX, posY, isActive, sortOrder } = req.body;
+
+      const existingTable = await findTenantTable(req, id);
+
+      if (isActive === false && existingTable.sessionId) {
+        return next(new AppError('桌位使用中，無法停用', 400));
+      }
+
+      if (name && name !== existingTable.name) {
+        const duplicate = await prisma.table.findUnique({
+          where: {
+            storeId_name: { storeId: existingTable.storeId, name },
+          },
+        });
+
+        if (duplicate) {
+          return next(new AppError('桌號已存在', 400));
+        }
+      }
+
+      const table = await prisma.table.update({
+        where: { id },
+        data: {
+          name,
+          area,
+          seats,
+          posX,
+          posY,
+          isActive,
+          sortOrder,
+        },
+      });
+
+      logger.info(`桌位更新成功: ${table.name} (ID: ${id})`);
+
+      await socketManager.refreshFloorStatus(table.storeId);
+
+      res.json({
+        message: '桌位更新成功',
+        data: { table },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 桌邊掃碼點餐 - 以QR Code換取訪客令牌（不需登入）
+ * POST /api/tables/qr/session
+ */
+router.post(
+  '/qr/session',
+  [body('token').isString().isLength({ min: 1 }).withMessage('QR Code令牌不能為空')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const session = await tableQrService.openGuestSession(req.body.token);
+
+      res.status(201).json({
+        message: '歡迎使用桌邊點餐',
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取桌位QR Code
+ * GET /api/tables/:id/qr
+ */
+router.get(
+  '/:id/qr',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('桌位ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const table = await findTenantTable(req, req.params.id);
+      const token = tableQrService.generateToken(table);
+
+      res.json({
+        message: '桌位QR Code獲取成功',
+        data: {
+          tableId: table.id,
+          tableName: table.name,
+          token,
+          url: tableQrService.getOrderUrl(token),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 重新產生桌位QR Code（舊的QR Code立即失效）
+ * POST /api/tables/:id/qr/rotate
+ */
+router.post(
+  '/:id/qr/rotate',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER'),
+  [param('id').isString().withMessage('桌位ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const table = await findTenantTable(req, req.params.id);
+      const token = await tableQrService.rotateToken(table.id);
+
+      logger.info(`桌位QR Code重新產生: ${table.name} (員工: ${req.user!.email})`);
+
+      res.json({
+        message: '桌位QR Code已重新產生',
+        data: {
+          tableId: table.id,
+          tableName: table.name,
+          token,
+          url: tableQrService.getOrderUrl(token),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 開桌
+ * POST /api/tables/:id/sessions
+ */
+router.post(
+  '/:id/sessions',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isString().withMessage('桌位ID格式無效'),
+    body('guestCount').optional().isInt({ min: 1, max: 100 }).withMessage('用餐人數限制在1-100之間'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const table = await findTenantTable(req, id);
+
+      const session = await tableService.openSession(id, req.body.guestCount || 1, req.user!.id);
+
+      await socketManager.refreshFloorStatus(table.storeId);
+
+      res.status(201).json({
+        message: '開桌成功',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 併桌
+ * POST /api/tables/:id/merge
+ */
+router.post(
+  '/:id/merge',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isString().withMessage('桌位ID格式無效'),
+    body('sourceTableId').isString().withMessage('來源桌位ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { sourceTableId } = req.body;
+
+      const table = await findTenantTable(req, id);
+      await findTenantTable(req, sourceTableId);
+
+      const session = await tableService.mergeTables(id, sourceTableId);
+
+      logger.info(`併桌成功: ${table.name} (員工: ${req.user!.email})`);
+
+      await socketManager.refreshFloorStatus(table.storeId);
+
+      res.json({
+        message: '併桌成功',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 獲取桌次明細
+ * GET /api/tables/sessions/:id
+ */
+router.get(
+  '/sessions/:id',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isString().withMessage('桌次ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      await findTenantSession(req, id);
+
+      const session = await tableService.getSession(id);
+
+      res.json({
+        message: '桌次明細獲取成功',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 換桌
+ * POST /api/tables/sessions/:id/transfer
+ */
+router.post(
+  '/sessions/:id/transfer',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isString().withMessage('桌次ID格式無效'),
+    body('toTableId').isString().withMessage('目標桌位ID格式無效'),
+    body('fromTableId').optional().isString().withMessage('原桌位ID格式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const { toTableId, fromTableId } = req.body;
+
+      const existingSession = await findTenantSession(req, id);
+      await findTenantTable(req, toTableId);
+
+      const session = await tableService.transferSession(id, toTableId, fromTableId);
+
+      await socketManager.refreshFloorStatus(existingSession.storeId);
+
+      res.json({
+        message: '換桌成功',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 請求結帳
+ * POST /api/tables/sessions/:id/bill
+ */
+router.post(
+  '/sessions/:id/bill',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [param('id').isString().withMessage('桌次ID格式無效')],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const existingSession = await findTenantSession(req, id);
+
+      const session = await tableService.requestBill(id);
+
+      await socketManager.refreshFloorStatus(existingSession.storeId);
+
+      res.json({
+        message: '已請求結帳',
+        data: { session },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * 桌次結帳
+ * POST /api/tables/sessions/:id/checkout
+ */
+router.post(
+  '/sessions/:id/checkout',
+  requireRoles('TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'),
+  [
+    param('id').isString().withMessage('桌次ID格式無效'),
+    body('paymentMethod').isIn(TENDER_METHODS).withMessage('付款方式無效'),
+  ],
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return next(new AppError('輸入數據無效', 400, errors.array()));
+      }
+
+      const { id } = req.params;
+      const existingSession = await findTenantSession(req, id);
+
+      const result = await tableService.checkout(id, req.body.paymentMethod, req.user!.id);
+
+      // 付清後自動完成的訂單
+      for (const orderId of result.completedOrderIds) {
+        const order = await prisma.order.findUniqueOrThrow({
+          where: { id: orderId },
+          include: {
+            items: true,
+            customer: {
+              select: {
+                displayName: true,
+              },
+            },
+          },
+        });
+
+        await orderService.handleOrderCompletion(order);
+        socketManager.sendOrderStatusUpdate(order, order.status);
+      }
+
+      if (result.completedOrderIds.length > 0) {
+        await socketManager.refreshQueueEstimates(existingSession.storeId);
+      }
+
+      await socketManager.refreshFloorStatus(existingSession.storeId);
+
+      logger.info(`桌次結帳成功: ${id} (員工: ${req.user!.email})`);
+
+      res.json({
+        message: '結帳成功',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
\ No newline at end of file
@@ -19,6 +19,18 @@ import orderRoutes from './routes/orders';
 import paymentRoutes from './routes/payments';
 import posRoutes from './routes/pos';
 import adminRoutes from './routes/admin';
+import ingredientRoutes from './routes/ingredients';
+import kdsRoutes from './routes/kds';
+import tableRoutes from './routes/tables';
+import dispatchRoutes from './routes/dispatch';
+import platformRoutes from './routes/platforms';
+import couponRoutes from './routes/coupons';
+import promotionRoutes from './routes/promotions';
+import loyaltyRoutes from './routes/loyalty';
+import { SocketManager } from './services/socketService';
+import { startScheduledOrderJob } from './jobs/scheduledOrderJob';
+import { startPointExpiryJob } from './jobs/pointExpiryJob';
+import { startLoyaltyTierJob } from './jobs/loyaltyTierJob';
 
 const app = express();
 const server = http.createServer(app);
@@ -29,7 +41,10 @@ const io = new Server(server, {
   }
 });
 
-export { io };
+// Socket.IO連接處理（認證、房間及即時通知）
+const socketManager = new SocketManager(io);
+
+export { io, socketManager };
 
 const prisma = new PrismaClient();
 
@@ -37,13 +52,23 @@ const prisma = new PrismaClient();
 app.use(helmet());
 app.use(cors());
 app.use(compression());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // 外送平台webhook需以原始內容驗證簽章
+  verify: (req, res, buf) => {
+    if (req.url?.startsWith('/api/platforms/')) {
+      req.rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // 速率限制
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15分鐘
-  max: 100 // 限制每個IP最多100個請求
+  max: 100, // 限制每個IP最多100個請求
+  // 外送平台webhook由平台少數IP集中送出，改以簽章驗證來源，不套用每IP限制
+  skip: (req) => /^\/api\/platforms\/[^/]+\/webhook$/.test(req.path),
 });
 app.use(limiter);
 
@@ -64,6 +89,14 @@ app.use('/api/orders', orderRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/pos', posRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/ingredients', ingredientRoutes);
+app.use('/api/kds', kdsRoutes);
+app.use('/api/tables', tableRoutes);
+app.use('/api/dispatch', dispatchRoutes);
+app.use('/api/platforms', platformRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/promotions', promotionRoutes);
+app.use('/api/loyalty', loyaltyRoutes);
 
 // 根路由
 app.get('/', (req, res) => {
@@ -79,7 +112,15 @@ app.get('/', (req, res) => {
       orders: '/api/orders',
       payments: '/api/payments',
       pos: '/api/pos',
-      admin: '/api/admin'
+      admin: '/api/admin',
+      ingredients: '/api/ingredients',
+      kds: '/api/kds',
+      tables: '/api/tables',
+      dispatch: '/api/dispatch',
+      platforms: '/api/platforms',
+      coupons: '/api/coupons',
+      promotions: '/api/promotions',
+      loyalty: '/api/loyalty'
     }
   });
 });
@@ -109,27 +150,6 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   });
 });
 
-// Socket.IO連接處理
-io.on('connection', (socket) => {
-  console.log(`用戶連接: ${socket.id}`);
-
-  // 加入租戶房間
-  socket.on('join-tenant', (tenantId: string) => {
-    socket.join(`tenant:${tenantId}`);
-    console.log(`用戶 ${socket.id} 加入租戶房間: ${tenantId}`);
-  });
-
-  // 加入店鋪房間
-  socket.on('join-store', (storeId: string) => {
-    socket.join(`store:${storeId}`);
-    console.log(`用戶 ${socket.id} 加入店鋪房間: ${storeId}`);
-  });
-
-  socket.on('disconnect', () => {
-    console.log(`用戶斷開連接: ${socket.id}`);
-  });
-});
-
 // 啟動服務器
 const PORT = process.env.PORT || 3000;
 
@@ -143,6 +163,16 @@ server.listen(PORT, () => {
   prisma.$connect()
     .then(() => console.log('✅ 資料庫連接成功'))
     .catch((error) => console.error('❌ 資料庫連接失敗:', error));
+
+  // 背景排程（測試環境不啟動）
+  if (process.env.NODE_ENV !== 'test') {
+    startScheduledOrderJob(socketManager);
+    console.log('⏰ 預約訂單排程已啟動');
+    startPointExpiryJob();
+    console.log('⏰ 積分到期排程已啟動');
+    startLoyaltyTierJob(socketManager);
+    console.log('⏰ 會員等級排程已啟動');
+  }
 });
 
 // 優雅關閉處理
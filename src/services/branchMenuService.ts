@@ -0,0 +1,224 @@
+import { PrismaClient, Prisma, BranchProductOverride } from '@prisma/client';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export interface BranchOverrideInput {
+  price?: number | null;
+  variantPrices?: Record<string, number> | null;
+  isSoldOut?: boolean;
+}
+
+/**
+ * 分店菜單：未指定分店時為店鋪主菜單（不含分店限定商品）
+ */
+export interface BranchMenu {
+  storeId: string;
+  branchId: string | null;
+  overrides: Map<string, BranchProductOverride>;
+}
+
+interface BranchProduct {
+  id: string;
+  basePrice: number;
+  branchId: string | null;
+}
+
+export class BranchMenuService {
+  /**
+   * 載入分店菜單覆寫設定
+   */
+  async getBranchMenu(
+    storeId: string,
+    branchId?: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<BranchMenu> {
+    if (!branchId) {
+      return { storeId, branchId: null, overrides: new Map() };
+    }
+
+    await this.getBranch(storeId, branchId, client);
+
+    const overrides = await client.branchProductOverride.findMany({
+      where: { branchId },
+    });
+
+    return {
+      storeId,
+      branchId,
+      overrides: new Map(overrides.map(override => [override.productId, override])),
+    };
+  }
+
+  /**
+   * 查詢條件：只包含該分店販售的商品
+   * onlyAvailable 為 true 時排除分店已售完的商品
+   */
+  productWhere(menu: BranchMenu, onlyAvailable = false): Prisma.ProductWhereInput {
+    const conditions: Prisma.ProductWhereInput[] = [
+      menu.branchId
+        ? { OR: [{ branchId: null }, { branchId: menu.branchId }] }
+        : { branchId: null },
+    ];
+
+    if (onlyAvailable && menu.branchId) {
+      conditions.push({
+        NOT: { branchOverrides: { some: { branchId: menu.branchId, isSoldOut: true } } },
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * 商品是否在該分店販售（分店限定商品只在所屬分店販售）
+   */
+  isOffered(menu: BranchMenu, product: BranchProduct): boolean {
+    return !product.branchId || product.branchId === menu.branchId;
+  }
+
+  isSoldOut(menu: BranchMenu, productId: string): boolean {
+    return menu.overrides.get(productId)?.isSoldOut ?? false;
+  }
+
+  /**
+   * 取得商品在分店的售價，指定規格時回傳規格售價
+   */
+  getPrice(menu: BranchMenu, product: BranchProduct, variant?: { id: string; price: number }): number {
+    const override = menu.overrides.get(product.id);
+
+    if (variant) {
+      const variantPrices = override?.variantPrices ? JSON.parse(override.variantPrices) as Record<string, number> : {};
+      return variantPrices[variant.id] ?? variant.price;
+    }
+
+    return override?.price ?? product.basePrice;
+  }
+
+  /**
+   * 將分店售價及售完狀態套用到商品資料，保留主菜單價格供對照
+   */
+  applyToProduct<T extends BranchProduct & { variants?: Array<{ id: string; price: number }> }>(
+    menu: BranchMenu,
+    product: T
+  ) {
+    return {
+      ...product,
+      masterPrice: product.basePrice,
+      basePrice: this.getPrice(menu, product),
+      isSoldOut: this.isSoldOut(menu, product.id),
+      variants: product.variants?.map(variant => ({
+        ...variant,
+        price: this.getPrice(menu, product, variant),
+      })),
+    };
+  }
+
+  /**
+   * 獲取分店的菜單覆寫設定
+   */
+  async listOverrides(branchId: string) {
+    const overrides = await prisma.branchProductOverride.findMany({
+      where: { branchId },
+      include: {
+        product: {
+          select: { id: true, name: true, basePrice: true, variants: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return overrides.map(override => this.formatOverride(override));
+  }
+
+  /**
+   * 設定商品在分店的售價或售完狀態
+   */
+  async upsertOverride(branchId: string, productId: string, input: BranchOverrideInput) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { variants: true },
+    });
+
+    if (!product) {
+      throw new AppError('商品不存在', 404);
+    }
+
+    await this.getBranch(product.storeId, branchId);
+
+    if (product.branchId && product.branchId !== branchId) {
+      throw new AppError('此商品為其他分店限定商品', 400);
+    }
+
+    if (input.variantPrices) {
+      for (const variantId of Object.keys(input.variantPrices)) {
+        if (!product.variants.some(variant => variant.id === variantId)) {
+          throw new AppError(`商品規格不存在: ${variantId}`, 400);
+        }
+      }
+    }
+
+    const data = {
+      price: input.price,
+      variantPrices: input.variantPrices === undefined
+        ? undefined
+        : input.variantPrices && Object.keys(input.variantPrices).length > 0
+          ? JSON.stringify(input.variantPrices)
+          : null,
+      isSoldOut: input.isSoldOut,
+    };
+
+    const override = await prisma.branchProductOverride.upsert({
+      where: { branchId_productId: { branchId, productId } },
+      create: { branchId, productId, ...data },
+      update: data,
+    });
+
+    return this.formatOverride(override);
+  }
+
+  /**
+   * 移除分店覆寫，恢復為主菜單設定
+   */
+  async removeOverride(branchId: string, productId: string): Promise<void> {
+    await prisma.branchProductOverride.deleteMany({
+      where: { branchId, productId },
+    });
+  }
+
+  /**
+   * 批量設定分店售完狀態（如今日雞排已售完）
+   */
+  async setSoldOut(branchId: string, productIds: string[], isSoldOut: boolean): Promise<number> {
+    return await prisma.$transaction(async (tx) => {
+      for (const productId of productIds) {
+        await tx.branchProductOverride.upsert({
+          where: { branchId_productId: { branchId, productId } },
+          create: { branchId, productId, isSoldOut },
+          update: { isSoldOut },
+        });
+      }
+
+      return productIds.length;
+    });
+  }
+
+  private async getBranch(storeId: string, branchId: string, client: Prisma.TransactionClient = prisma) {
+    const branch = await client.storeBranch.findFirst({
+      where: { id: branchId, storeId },
+    });
+
+    if (!branch) {
+      throw new AppError('分店不存在', 404);
+    }
+
+    return branch;
+  }
+
+  private formatOverride<T extends BranchProductOverride>(override: T) {
+    return {
+      ...override,
+      variantPrices: override.variantPrices ? JSON.parse(override.variantPrices) as Record<string, number> : null,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export interface ComboSlotInput {
+  name: string;
+  quantity: number;
+  choices: Array<{
+    productId: string;
+    variantId?: string;
+    upcharge?: number;
+    isDefault?: boolean;
+  }>;
+}
+
+export class ComboService {
+  /**
+   * 覆寫套餐欄位及可選商品
+   * 設定欄位後商品即成為套餐，清空欄位則恢復為一般商品
+   */
+  async replaceComboSlots(productId: string, slots: ComboSlotInput[]) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) {
+      throw new AppError('商品不存在', 404);
+    }
+
+    const choiceProductIds = [...new Set(slots.flatMap(slot => slot.choices.map(choice => choice.productId)))];
+    const choiceProducts = await prisma.product.findMany({
+      where: {
+        id: { in: choiceProductIds },
+        storeId: product.storeId,
+      },
+      include: {
+        variants: { select: { id: true } },
+      },
+    });
+
+    for (const slot of slots) {
+      if (slot.choices.filter(choice => choice.isDefault).length > 1) {
+        throw new AppError(`套餐欄位只能有一個預設選項: ${slot.name}`, 400);
+      }
+
+      for (const choice of slot.choices) {
+        const choiceProduct = choiceProducts.find(p => p.id === choice.productId);
+
+        // 套餐內容只能是同店鋪的一般商品，避免套餐巢狀
+        if (!choiceProduct || choiceProduct.isCombo || choiceProduct.id === productId) {
+          throw new AppError(`套餐選項商品無效: ${choice.productId}`, 400);
+        }
+
+        if (choice.variantId && !choiceProduct.variants.some(variant => variant.id === choice.variantId)) {
+          throw new AppError(`商品規格不存在: ${choice.variantId}`, 400);
+        }
+      }
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.comboSlot.deleteMany({
+        where: { productId },
+      });
+
+      for (const [slotIndex, slot] of slots.entries()) {
+        await tx.comboSlot.create({
+          data: {
+            productId,
+            name: slot.name,
+            quantity: slot.quantity,
+            sortOrder: slotIndex,
+            choices: {
+              create: slot.choices.map((choice, choiceIndex) => ({
+                productId: choice.productId,
+                variantId: choice.variantId,
+                upcharge: choice.upcharge || 0,
+                isDefault: choice.isDefault || false,
+                sortOrder: choiceIndex,
+              })),
+            },
+          },
+        });
+      }
+
+      await tx.product.update({
+        where: { id: productId },
+        data: { isCombo: slots.length > 0 },
+      });
+
+      return await this.getComboSlots(productId, tx);
+    });
+  }
+
+  /**
+   * 獲取套餐欄位及可選商品
+   */
+  async getComboSlots(productId: string, client: Prisma.TransactionClient = prisma) {
+    return await client.comboSlot.findMany({
+      where: { productId },
+      include: {
+        choices: {
+          include: {
+            product: {
+              select: {
+                name: true,
+                image: true,
+                isAvailable: true,
+              },
+            },
+            variant: {
+              select: {
+                name: true,
+              },
+            },
+          },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+      orderBy: { sortOrder: 'asc' },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,671 @@
+import { PrismaClient, Prisma, Coupon } from '@prisma/client';
+import crypto from 'crypto';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const COUPON_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING'];
+
+// 一次最多產生的代碼數量
+export const MAX_GENERATED_CODES = 10000;
+
+// 排除容易混淆的 0/O、1/I/L
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const INSERT_BATCH_SIZE = 1000;
+
+export interface CouponTermsInput {
+  name: string;
+  type: string;
+  value: number;
+  minOrderAmount?: number | null;
+  maxDiscount?: number | null;
+  validFrom: Date;
+  validUntil: Date;
+  isActive?: boolean;
+  perCustomerLimit?: number | null;
+  newCustomersOnly?: boolean;
+  eligibleTiers?: string[] | null;
+}
+
+export interface CouponInput extends CouponTermsInput {
+  code: string;
+  usageLimit?: number | null;
+  customerIds?: string[]; // 指定可使用的顧客，未提供時不變更
+}
+
+export interface CouponCampaignInput extends CouponTermsInput {
+  description?: string | null;
+}
+
+export interface CouponListFilters {
+  campaignId?: string;
+  isActive?: boolean;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export interface CodeGenerationOptions {
+  count: number;
+  prefix?: string;
+  length?: number; // 不含前綴的隨機碼長度
+}
+
+export interface CouponStats {
+  redemptions: number;   // 使用次數（不含已取消訂單）
+  discountGiven: number; // 優惠券折抵金額
+  revenue: number;       // 帶動營業額（已完成訂單的實收金額）
+}
+
+// 檢查使用資格所需的優惠券欄位
+type CouponEligibility = Pick<Coupon, 'id' | 'perCustomerLimit' | 'newCustomersOnly' | 'eligibleTiers'>;
+
+export class CouponService {
+  /**
+   * 獲取店鋪的優惠券
+   */
+  async listCoupons(storeId: string, filters: CouponListFilters) {
+    const where: Prisma.CouponWhereInput = {
+      storeId,
+      campaignId: filters.campaignId,
+      isActive: filters.isActive,
+      code: filters.search ? { contains: filters.search } : undefined,
+    };
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        include: {
+          campaign: {
+            select: { id: true, name: true },
+          },
+        },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.coupon.count({ where }),
+    ]);
+
+    return {
+      coupons,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+
+  /**
+   * 建立單一優惠券代碼
+   */
+  async createCoupon(storeId: string, input: CouponInput) {
+    this.validateTerms(input);
+
+    const code = input.code.trim();
+    await this.assertCodeAvailable(code);
+
+    const customerIds = await this.resolveTargets(storeId, input.customerIds);
+
+    return await prisma.coupon.create({
+      data: {
+        storeId,
+        code,
+        usageLimit: input.usageLimit ?? null,
+        ...this.toTermsData(input),
+        targets: {
+          create: customerIds.map(userId => ({ userId })),
+        },
+      },
+    });
+  }
+
+  /**
+   * 更新優惠券，已使用的次數保留
+   */
+  async updateCoupon(couponId: string, input: CouponInput) {
+    this.validateTerms(input);
+
+    const coupon = await prisma.coupon.findUniqueOrThrow({
+      where: { id: couponId },
+    });
+
+    const code = input.code.trim();
+    if (code !== coupon.code) {
+      if (coupon.usedCount > 0) {
+        throw new AppError('優惠券已被使用，不能修改代碼', 400);
+      }
+      await this.assertCodeAvailable(code);
+    }
+
+    if (input.usageLimit && input.usageLimit < coupon.usedCount) {
+      throw new AppError(`使用次數上限不能低於已使用次數 ${coupon.usedCount}`, 400);
+    }
+
+    const customerIds = input.customerIds
+      ? await this.resolveTargets(coupon.storeId, input.customerIds)
+      : null;
+
+    return await prisma.$transaction(async (tx) => {
+      if (customerIds) {
+        await tx.couponTarget.deleteMany({
+          where: { couponId },
+        });
+        await tx.couponTarget.createMany({
+          data: customerIds.map(userId => ({ couponId, userId })),
+        });
+      }
+
+      return await tx.coupon.update({
+        where: { id: couponId },
+        data: {
+          code,
+          usageLimit: input.usageLimit ?? null,
+          ...this.toTermsData(input),
+        },
+      });
+    });
+  }
+
+  /**
+   * 獲取優惠券指定的顧客
+   */
+  async getCouponTargets(couponId: string) {
+    return await prisma.couponTarget.findMany({
+      where: { couponId },
+      include: {
+        user: {
+          select: { id: true, displayName: true, email: true, phone: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * 啟用或停用優惠券
+   */
+  async setCouponActive(couponId: string, isActive: boolean) {
+    return await prisma.coupon.update({
+      where: { id: couponId },
+      data: { isActive },
+    });
+  }
+
+  /**
+   * 獲取店鋪的優惠活動及代碼數量
+   */
+  async listCampaigns(storeId: string) {
+    const campaigns = await prisma.couponCampaign.findMany({
+      where: { storeId },
+      include: {
+        _count: {
+          select: { coupons: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return campaigns.map(({ _count, ...campaign }) => ({
+      ...campaign,
+      codeCount: _count.coupons,
+    }));
+  }
+
+  /**
+   * 建立優惠活動
+   */
+  async createCampaign(storeId: string, input: CouponCampaignInput) {
+    this.validateTerms(input);
+
+    return await prisma.couponCampaign.create({
+      data: {
+        storeId,
+        description: input.description ?? null,
+        ...this.toTermsData(input),
+      },
+    });
+  }
+
+  /**
+   * 更新優惠活動，並同步到活動下所有代碼
+   */
+  async updateCampaign(campaignId: string, input: CouponCampaignInput) {
+    this.validateTerms(input);
+
+    const data = this.toTermsData(input);
+
+    return await prisma.$transaction(async (tx) => {
+      const campaign = await tx.couponCampaign.update({
+        where: { id: campaignId },
+        data: {
+          description: input.description ?? null,
+          ...data,
+        },
+      });
+
+      await tx.coupon.updateMany({
+        where: { campaignId },
+        data,
+      });
+
+      return campaign;
+    });
+  }
+
+  /**
+   * 啟用或停用優惠活動及其所有代碼
+   */
+  async setCampaignActive(campaignId: string, isActive: boolean) {
+    return await prisma.$transaction(async (tx) => {
+      const campaign = await tx.couponCampaign.update({
+        where: { id: campaignId },
+        data: { isActive },
+      });
+
+      await tx.coupon.updateMany({
+        where: { campaignId },
+        data: { isActive },
+      });
+
+      return campaign;
+    });
+  }
+
+  /**
+   * 批量產生單次使用的唯一代碼
+   */
+  async generateCodes(campaignId: string, options: CodeGenerationOptions): Promise<number> {
+    const length = options.length ?? 8;
+    const prefix = (options.prefix || '').toUpperCase();
+
+    if (!Number.isInteger(options.count) || options.count < 1 || options.count > MAX_GENERATED_CODES) {
+      throw new AppError(`產生數量必須在1-${MAX_GENERATED_CODES}之間`, 400);
+    }
+
+    // 代碼空間至少為數量的1000倍，避免大量碰撞
+    if (Math.pow(CODE_ALPHABET.length, length) < options.count * 1000) {
+      throw new AppError('代碼長度不足以產生此數量的唯一代碼', 400);
+    }
+
+    const campaign = await prisma.couponCampaign.findUniqueOrThrow({
+      where: { id: campaignId },
+    });
+
+    let generated = 0;
+
+    while (generated < options.count) {
+      const batchSize = Math.min(INSERT_BATCH_SIZE, options.count - generated);
+      const candidates = new Set<string>();
+
+      while (candidates.size < batchSize) {
+        candidates.add(prefix + this.randomCode(length));
+      }
+
+      // 排除已存在的代碼，不足的部分下一輪補上
+      const existing = await prisma.coupon.findMany({
+        where: { code: { in: [...candidates] } },
+        select: { code: true },
+      });
+      for (const { code } of existing) {
+        candidates.delete(code);
+      }
+
+      const result = await prisma.coupon.createMany({
+        data: [...candidates].map(code => ({
+          storeId: campaign.storeId,
+          campaignId,
+          code,
+          name: campaign.name,
+          type: campaign.type,
+          value: campaign.value,
+          minOrderAmount: campaign.minOrderAmount,
+          maxDiscount: campaign.maxDiscount,
+          perCustomerLimit: campaign.perCustomerLimit,
+          newCustomersOnly: campaign.newCustomersOnly,
+          eligibleTiers: campaign.eligibleTiers,
+          usageLimit: 1,
+          isActive: campaign.isActive,
+          validFrom: campaign.validFrom,
+          validUntil: campaign.validUntil,
+        })),
+      });
+
+      generated += result.count;
+    }
+
+    logger.info(`優惠活動產生代碼: ${campaign.name} ${generated}組`);
+
+    return generated;
+  }
+
+  /**
+   * 匯出活動代碼CSV（印製傳單用）
+   */
+  async exportCampaignCsv(campaignId: string): Promise<string> {
+    const coupons = await prisma.coupon.findMany({
+      where: { campaignId },
+      orderBy: { code: 'asc' },
+    });
+
+    const rows = [
+      ['code', 'name', 'type', 'value', 'minOrderAmount', 'validFrom', 'validUntil', 'used'],
+      ...coupons.map(coupon => [
+        coupon.code,
+        coupon.name,
+        coupon.type,
+        coupon.value,
+        coupon.minOrderAmount ?? '',
+        coupon.validFrom.toISOString(),
+        coupon.validUntil.toISOString(),
+        coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit ? 'Y' : 'N',
+      ]),
+    ];
+
+    return rows.map(row => row.map(cell => this.toCsvCell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * 單一優惠券的使用統計
+   */
+  async getCouponStats(couponId: string): Promise<CouponStats> {
+    return await this.aggregateRedemptions({ couponId });
+  }
+
+  /**
+   * 優惠活動的使用統計，含代碼兌換率
+   */
+  async getCampaignStats(campaignId: string) {
+    const [stats, totalCodes, redeemedCodes] = await Promise.all([
+      this.aggregateRedemptions({ coupon: { campaignId } }),
+      prisma.coupon.count({ where: { campaignId } }),
+      prisma.coupon.count({ where: { campaignId, usedCount: { gt: 0 } } }),
+    ]);
+
+    return {
+      ...stats,
+      totalCodes,
+      redeemedCodes,
+      redemptionRate: totalCodes > 0 ? Math.round(redeemedCodes / totalCodes * 10000) / 100 : 0,
+    };
+  }
+
+  /**
+   * 檢查顧客是否符合優惠券使用資格
+   */
+  async assertEligible(coupon: CouponEligibility, customerId: string): Promise<void> {
+    const targets = await prisma.couponTarget.findMany({
+      where: { couponId: coupon.id },
+      select: { userId: true },
+    });
+    if (targets.length > 0 && !targets.some(target => target.userId === customerId)) {
+      throw new AppError('此優惠券不適用於您的帳號', 400);
+    }
+
+    const tiers: string[] = coupon.eligibleTiers ? JSON.parse(coupon.eligibleTiers) : [];
+    if (tiers.length > 0) {
+      const profile = await prisma.customerProfile.findUnique({
+        where: { userId: customerId },
+      });
+      if (!profile || !tiers.includes(profile.loyaltyTier)) {
+        throw new AppError(`此優惠券限${tiers.join('、')}會員使用`, 400);
+      }
+    }
+
+    if (coupon.newCustomersOnly) {
+      const previousOrders = await prisma.order.count({
+        where: {
+          customerId,
+          status: { not: 'CANCELLED' },
+        },
+      });
+      if (previousOrders > 0) {
+        throw new AppError('此優惠券限首次消費的新顧客使用', 400);
+      }
+    }
+
+    await this.assertCustomerLimit(prisma, coupon, customerId);
+  }
+
+  /**
+   * 記錄訂單使用優惠券（在建立訂單的交易內呼叫）
+   * 在交易內重新檢查次數上限，避免同時下單超用
+   */
+  async redeemForOrder(
+    tx: Prisma.TransactionClient,
+    coupon: Pick<Coupon, 'id' | 'usageLimit' | 'perCustomerLimit'>,
+    orderId: string,
+    customerId: string,
+    discountAmount: number
+  ): Promise<void> {
+    await this.assertCustomerLimit(tx, coupon, customerId);
+
+    const result = await tx.coupon.updateMany({
+      where: {
+        id: coupon.id,
+        usedCount: coupon.usageLimit ? { lt: coupon.usageLimit } : undefined,
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('優惠券使用次數已達上限', 400);
+    }
+
+    await tx.couponRedemption.create({
+      data: {
+        couponId: coupon.id,
+        userId: customerId,
+        orderId,
+        discountAmount,
+      },
+    });
+  }
+
+  /**
+   * 訂單取消時退回優惠券使用次數
+   */
+  async releaseForOrder(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const redemption = await tx.couponRedemption.findUnique({
+      where: { orderId },
+    });
+
+    if (!redemption || redemption.reversedAt) {
+      return;
+    }
+
+    await tx.couponRedemption.update({
+      where: { id: redemption.id },
+      data: { reversedAt: new Date() },
+    });
+
+    await tx.coupon.update({
+      where: { id: redemption.couponId },
+      data: { usedCount: { decrement: 1 } },
+    });
+  }
+
+  /**
+   * 獲取優惠券使用紀錄
+   */
+  async listRedemptions(couponId: string, page: number, limit: number) {
+    const where: Prisma.CouponRedemptionWhereInput = { couponId };
+
+    const [redemptions, total] = await Promise.all([
+      prisma.couponRedemption.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, displayName: true, email: true },
+          },
+          order: {
+            select: { id: true, orderNumber: true, status: true, finalAmount: true },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.couponRedemption.count({ where }),
+    ]);
+
+    return {
+      redemptions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async assertCustomerLimit(
+    client: PrismaClient | Prisma.TransactionClient,
+    coupon: Pick<Coupon, 'id' | 'perCustomerLimit'>,
+    customerId: string
+  ): Promise<void> {
+    if (!coupon.perCustomerLimit) {
+      return;
+    }
+
+    const used = await client.couponRedemption.count({
+      where: {
+        couponId: coupon.id,
+        userId: customerId,
+        reversedAt: null,
+      },
+    });
+
+    if (used >= coupon.perCustomerLimit) {
+      throw new AppError('您已達此優惠券的使用次數上限', 400);
+    }
+  }
+
+  /**
+   * 統計未退回的使用紀錄；折抵金額只計優惠券本身，不含同單的促銷、會員及積分折扣
+   * 營業額只計已完成的訂單，處理中的訂單仍可能取消
+   */
+  private async aggregateRedemptions(where: Prisma.CouponRedemptionWhereInput): Promise<CouponStats> {
+    const activeWhere: Prisma.CouponRedemptionWhereInput = {
+      ...where,
+      reversedAt: null,
+    };
+
+    const [redemptions, orders] = await Promise.all([
+      prisma.couponRedemption.aggregate({
+        where: activeWhere,
+        _count: { _all: true },
+        _sum: { discountAmount: true },
+      }),
+      prisma.order.aggregate({
+        where: {
+          status: 'COMPLETED',
+          couponRedemption: { is: activeWhere },
+        },
+        _sum: { finalAmount: true },
+      }),
+    ]);
+
+    return {
+      redemptions: redemptions._count._all,
+      discountGiven: redemptions._sum.discountAmount ?? 0,
+      revenue: orders._sum.finalAmount ?? 0,
+    };
+  }
+
+  /**
+   * 檢查指定顧客屬於店鋪的租戶，回傳去重後的顧客ID
+   */
+  private async resolveTargets(storeId: string, customerIds?: string[]): Promise<string[]> {
+    const ids = [...new Set(customerIds || [])];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const store = await prisma.store.findUniqueOrThrow({
+      where: { id: storeId },
+    });
+
+    const found = await prisma.user.count({
+      where: {
+        id: { in: ids },
+        tenantId: store.tenantId,
+      },
+    });
+
+    if (found !== ids.length) {
+      throw new AppError('指定的顧客不存在', 400);
+    }
+
+    return ids;
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await prisma.coupon.findUnique({
+      where: { code },
+    });
+
+    if (existing) {
+      throw new AppError('優惠券代碼已存在', 400);
+    }
+  }
+
+  /**
+   * 檢查折扣條件
+   */
+  private validateTerms(input: CouponTermsInput): void {
+    if (!COUPON_TYPES.includes(input.type)) {
+      throw new AppError(`優惠券類型無效: ${input.type}`, 400);
+    }
+
+    if (input.type === 'PERCENTAGE' && (input.value <= 0 || input.value > 100)) {
+      throw new AppError('折扣百分比必須在0-100之間', 400);
+    }
+
+    if (input.type === 'FIXED_AMOUNT' && input.value <= 0) {
+      throw new AppError('折扣金額必須大於0', 400);
+    }
+
+    if (input.validUntil <= input.validFrom) {
+      throw new AppError('結束時間必須晚於開始時間', 400);
+    }
+
+    if (input.perCustomerLimit != null && input.perCustomerLimit < 1) {
+      throw new AppError('每人使用次數必須是正整數', 400);
+    }
+  }
+
+  private toTermsData(input: CouponTermsInput) {
+    return {
+      name: input.name,
+      type: input.type,
+      value: input.value,
+      minOrderAmount: input.minOrderAmount ?? null,
+      maxDiscount: input.maxDiscount ?? null,
+      validFrom: input.validFrom,
+      validUntil: input.validUntil,
+      isActive: input.isActive ?? true,
+      perCustomerLimit: input.perCustomerLimit ?? null,
+      newCustomersOnly: input.newCustomersOnly ?? false,
+      eligibleTiers: input.eligibleTiers?.length ? JSON.stringify(input.eligibleTiers) : null,
+    };
+  }
+
+  private randomCode(length: number): string {
+    let code = '';
+    for (let i = 0; i < length; i++) {
+      code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private toCsvCell(value: string | number): string {
+    // 避免試算表將內容當作公式執行
+    const text = /^[=+\-@]/.test(String(value)) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
\ No newline at end of file
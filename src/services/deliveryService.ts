@@ -0,0 +1,260 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export const DELIVERY_ZONE_TYPES = ['RADIUS', 'POLYGON'];
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DeliveryAddress extends GeoPoint {
+  address: string;
+}
+
+export interface DeliveryZoneInput {
+  name: string;
+  type: string;
+  radiusKm?: number | null;
+  polygon?: Array<[number, number]> | null;
+  minOrderAmount?: number;
+  baseFee?: number;
+  sortOrder?: number;
+  isActive?: boolean;
+  feeTiers?: Array<{ maxDistanceKm: number; fee: number }>;
+}
+
+export interface DeliveryQuote {
+  zoneId: string;
+  zoneName: string;
+  distanceKm: number;
+  fee: number;
+  minOrderAmount: number;
+}
+
+const zoneInclude = {
+  feeTiers: {
+    orderBy: { maxDistanceKm: 'asc' },
+  },
+} satisfies Prisma.DeliveryZoneInclude;
+
+type ZoneWithTiers = Prisma.DeliveryZoneGetPayload<{ include: typeof zoneInclude }>;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * 兩點間的球面距離（公里）
+ */
+export const getDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * 判斷點是否在多邊形內（射線法）
+ */
+const isInPolygon = (point: GeoPoint, polygon: Array<[number, number]>): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+
+    const crosses = (lngI > point.longitude) !== (lngJ > point.longitude) &&
+      point.latitude < (latJ - latI) * (point.longitude - lngI) / (lngJ - lngI) + latI;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+export class DeliveryService {
+  /**
+   * 計算外送費
+   * 依排序找出地址所在的第一個外送區域，再依與店鋪的距離套用費用級距
+   */
+  async quoteDelivery(storeId: string, location: GeoPoint, orderAmount: number): Promise<DeliveryQuote> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { latitude: true, longitude: true },
+    });
+
+    if (!store) {
+      throw new AppError('店鋪不存在', 404);
+    }
+
+    if (store.latitude === null || store.longitude === null) {
+      throw new AppError('店鋪尚未設定位置，暫不提供外送', 400);
+    }
+
+    const zones = await prisma.deliveryZone.findMany({
+      where: { storeId, isActive: true },
+      include: zoneInclude,
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const distanceKm = Math.round(
+      getDistanceKm({ latitude: store.latitude, longitude: store.longitude }, location) * 100
+    ) / 100;
+
+    const zone = zones.find(candidate => this.contains(candidate, location, distanceKm));
+
+    if (!zone) {
+      throw new AppError('外送地址不在配送範圍內', 400);
+    }
+
+    if (orderAmount < zone.minOrderAmount) {
+      throw new AppError(`此外送區域最低消費金額為 ${zone.minOrderAmount}`, 400);
+    }
+
+    const tier = zone.feeTiers.find(feeTier => distanceKm <= feeTier.maxDistanceKm);
+
+    return {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      distanceKm,
+      fee: tier ? tier.fee : zone.baseFee,
+      minOrderAmount: zone.minOrderAmount,
+    };
+  }
+
+  /**
+   * 獲取店鋪的外送區域
+   */
+  async listZones(storeId: string) {
+    const zones = await prisma.deliveryZone.findMany({
+      where: { storeId },
+      include: zoneInclude,
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return zones.map(zone => this.formatZone(zone));
+  }
+
+  /**
+   * 建立外送區域
+   */
+  async createZone(storeId: string, input: DeliveryZoneInput) {
+    this.validateZone(input);
+
+    const zone = await prisma.deliveryZone.create({
+      data: {
+        storeId,
+        ...this.toZoneData(input),
+        feeTiers: {
+          create: input.feeTiers || [],
+        },
+      },
+      include: zoneInclude,
+    });
+
+    return this.formatZone(zone);
+  }
+
+  /**
+   * 更新外送區域（整筆覆寫，含費用級距）
+   */
+  async updateZone(zoneId: string, input: DeliveryZoneInput) {
+    this.validateZone(input);
+
+    const zone = await prisma.$transaction(async (tx) => {
+      await tx.deliveryFeeTier.deleteMany({
+        where: { zoneId },
+      });
+
+      return await tx.deliveryZone.update({
+        where: { id: zoneId },
+        data: {
+          ...this.toZoneData(input),
+          feeTiers: {
+            create: input.feeTiers || [],
+          },
+        },
+        include: zoneInclude,
+      });
+    });
+
+    return this.formatZone(zone);
+  }
+
+  /**
+   * 刪除外送區域，歷史訂單保留地址及外送費
+   */
+  async deleteZone(zoneId: string): Promise<void> {
+    await prisma.deliveryZone.delete({
+      where: { id: zoneId },
+    });
+  }
+
+  private contains(zone: ZoneWithTiers, location: GeoPoint, distanceKm: number): boolean {
+    if (zone.type === 'RADIUS') {
+      return zone.radiusKm !== null && distanceKm <= zone.radiusKm;
+    }
+
+    if (zone.type === 'POLYGON' && zone.polygon) {
+      return isInPolygon(location, JSON.parse(zone.polygon));
+    }
+
+    return false;
+  }
+
+  private toZoneData(input: DeliveryZoneInput) {
+    return {
+      name: input.name,
+      type: input.type,
+      radiusKm: input.type === 'RADIUS' ? input.radiusKm : null,
+      polygon: input.type === 'POLYGON' ? JSON.stringify(input.polygon) : null,
+      minOrderAmount: input.minOrderAmount ?? 0,
+      baseFee: input.baseFee ?? 0,
+      sortOrder: input.sortOrder ?? 0,
+      isActive: input.isActive ?? true,
+    };
+  }
+
+  /**
+   * 檢查外送區域設定
+   */
+  private validateZone(input: DeliveryZoneInput): void {
+    if (!DELIVERY_ZONE_TYPES.includes(input.type)) {
+      throw new AppError(`外送區域類型無效: ${input.type}`, 400);
+    }
+
+    if (input.type === 'RADIUS' && !(input.radiusKm && input.radiusKm > 0)) {
+      throw new AppError('半徑區域必須設定大於0的公里數', 400);
+    }
+
+    if (input.type === 'POLYGON') {
+      const valid = input.polygon && input.polygon.length >= 3 && input.polygon.every(point =>
+        Array.isArray(point) && point.length === 2 &&
+        Math.abs(point[0]) <= 90 && Math.abs(point[1]) <= 180
+      );
+
+      if (!valid) {
+        throw new AppError('多邊形區域至少需要3個有效的座標點', 400);
+      }
+    }
+
+    const distances = (input.feeTiers || []).map(tier => tier.maxDistanceKm);
+    if (new Set(distances).size !== distances.length) {
+      throw new AppError('費用級距的距離不能重複', 400);
+    }
+  }
+
+  private formatZone(zone: ZoneWithTiers) {
+    return {
+      ...zone,
+      polygon: zone.polygon ? JSON.parse(zone.polygon) as Array<[number, number]> : null,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,430 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { WorkflowService } from './workflowService';
+import { GeoPoint, getDistanceKm } from './deliveryService';
+
+const prisma = new PrismaClient();
+const workflowService = new WorkflowService();
+
+export const DRIVER_ROLE = 'DRIVER';
+
+export const DELIVERY_JOB_STATUSES = ['ASSIGNED', 'ACCEPTED', 'PICKED_UP', 'DELIVERED'];
+
+// 尚未送達的外送單
+const ACTIVE_JOB_STATUSES = ['ASSIGNED', 'ACCEPTED', 'PICKED_UP'];
+
+// 市區機車平均時速，估算送達時間用
+const DRIVER_SPEED_KMH = 20;
+
+const jobInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      pickupNumber: true,
+      storeId: true,
+      customerId: true,
+      orderType: true,
+      status: true,
+      finalAmount: true,
+      paymentStatus: true,
+      note: true,
+      deliveryAddress: true,
+      deliveryLatitude: true,
+      deliveryLongitude: true,
+      deliveryDistanceKm: true,
+      store: {
+        select: { name: true, address: true, phone: true, latitude: true, longitude: true },
+      },
+      customer: {
+        select: { displayName: true, phone: true },
+      },
+    },
+  },
+  driver: {
+    select: { id: true, displayName: true, phone: true },
+  },
+} satisfies Prisma.DeliveryJobInclude;
+
+export type DeliveryJobWithOrder = Prisma.DeliveryJobGetPayload<{ include: typeof jobInclude }>;
+
+export class DispatchService {
+  /**
+   * 獲取租戶下的外送員及進行中的外送單數
+   */
+  async listDrivers(tenantId: string) {
+    const drivers = await prisma.user.findMany({
+      where: {
+        tenantId,
+        status: 'ACTIVE',
+        roles: { some: { role: { name: DRIVER_ROLE } } },
+      },
+      select: {
+        id: true,
+        displayName: true,
+        phone: true,
+        _count: {
+          select: {
+            deliveryJobs: { where: { status: { in: ACTIVE_JOB_STATUSES } } },
+          },
+        },
+        driverLocations: {
+          orderBy: { recordedAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { displayName: 'asc' },
+    });
+
+    return drivers.map(({ _count, driverLocations, ...driver }) => ({
+      ...driver,
+      activeJobs: _count.deliveryJobs,
+      lastLocation: driverLocations[0] || null,
+    }));
+  }
+
+  /**
+   * 指派外送員，尚未取餐前可改派其他外送員
+   */
+  async assignDriver(orderId: string, driverId: string, tenantId: string, assignedBy: string) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, store: { tenantId } },
+      include: { deliveryJob: true },
+    });
+
+    if (!order) {
+      throw new AppError('訂單不存在', 404);
+    }
+
+    if (order.orderType !== 'DELIVERY') {
+      throw new AppError('只有外送訂單可以指派外送員', 400);
+    }
+
+    if (['COMPLETED', 'CANCELLED'].includes(order.status)) {
+      throw new AppError('訂單已完成或已取消，無法指派外送員', 400);
+    }
+
+    if (order.deliveryJob && ['PICKED_UP', 'DELIVERED'].includes(order.deliveryJob.status)) {
+      throw new AppError('外送員已取餐，無法改派', 400);
+    }
+
+    const driver = await prisma.user.findFirst({
+      where: {
+        id: driverId,
+        tenantId,
+        status: 'ACTIVE',
+        roles: { some: { role: { name: DRIVER_ROLE } } },
+      },
+    });
+
+    if (!driver) {
+      throw new AppError('外送員不存在或已停用', 404);
+    }
+
+    const job = await prisma.deliveryJob.upsert({
+      where: { orderId },
+      create: {
+        orderId,
+        storeId: order.storeId,
+        driverId,
+        assignedBy,
+      },
+      update: {
+        driverId,
+        assignedBy,
+        status: 'ASSIGNED',
+        assignedAt: new Date(),
+        acceptedAt: null,
+        etaMinutes: null,
+        lastLatitude: null,
+        lastLongitude: null,
+        lastLocationAt: null,
+      },
+      include: jobInclude,
+    });
+
+    logger.info(`外送單指派: ${order.orderNumber} -> ${driver.displayName}`);
+
+    return job;
+  }
+
+  /**
+   * 獲取外送員的外送單（預設只含尚未送達者）
+   */
+  async getDriverJobs(driverId: string, includeDelivered = false) {
+    return await prisma.deliveryJob.findMany({
+      where: {
+        driverId,
+        status: includeDelivered ? undefined : { in: ACTIVE_JOB_STATUSES },
+        order: { status: { not: 'CANCELLED' } },
+      },
+      include: jobInclude,
+      orderBy: { assignedAt: 'asc' },
+    });
+  }
+
+  /**
+   * 外送員接單
+   */
+  async acceptJob(jobId: string, driverId: string) {
+    const job = await this.getDriverJob(jobId, driverId);
+
+    if (job.status !== 'ASSIGNED') {
+      throw new AppError(`外送單狀態為${job.status}，無法接單`, 400);
+    }
+
+    return await prisma.deliveryJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'ACCEPTED',
+        acceptedAt: new Date(),
+      },
+      include: jobInclude,
+    });
+  }
+
+  /**
+   * 外送員取餐，訂單轉為外送中
+   */
+  async pickUpJob(jobId: string, driverId: string, roles: string[]) {
+    const job = await this.getDriverJob(jobId, driverId);
+
+    if (job.status !== 'ACCEPTED') {
+      throw new AppError('請先接單再取餐', 400);
+    }
+
+    await workflowService.assertTransition(job.order, 'OUT_FOR_DELIVERY', roles);
+
+    return await prisma.$transaction(async (tx) => {
+      // 從店鋪出發的剩餘距離
+      const remainingKm = this.getRemainingKm(job, job.order.store);
+
+      // 以接單狀態為條件更新，重複送出的取餐請求不會再次變更訂單狀態
+      const result = await tx.deliveryJob.updateMany({
+        where: { id: jobId, status: 'ACCEPTED' },
+        data: {
+          status: 'PICKED_UP',
+          pickedUpAt: new Date(),
+          etaMinutes: remainingKm === null ? null : this.toEtaMinutes(remainingKm),
+        },
+      });
+
+      if (result.count === 0) {
+        throw new AppError('外送單狀態已變更，請重新整理', 409);
+      }
+
+      await this.updateOrderStatus(tx, job, 'OUT_FOR_DELIVERY', '外送員已取餐');
+
+      return await tx.deliveryJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: jobInclude,
+      });
+    });
+  }
+
+  /**
+   * 外送員送達，訂單完成
+   * 回傳含訂單項目的訂單供後續處理（扣原料、積分等）
+   */
+  async completeJob(jobId: string, driverId: string, roles: string[]) {
+    const job = await this.getDriverJob(jobId, driverId);
+
+    if (job.status !== 'PICKED_UP') {
+      throw new AppError('尚未取餐，無法完成外送', 400);
+    }
+
+    await workflowService.assertTransition(job.order, 'COMPLETED', roles);
+
+    return await prisma.$transaction(async (tx) => {
+      // 以取餐狀態為條件更新，避免重複送達時訂單完成處理（扣原料、積分等）執行兩次
+      const result = await tx.deliveryJob.updateMany({
+        where: { id: jobId, status: 'PICKED_UP' },
+        data: {
+          status: 'DELIVERED',
+          deliveredAt: new Date(),
+          etaMinutes: 0,
+        },
+      });
+
+      if (result.count === 0) {
+        throw new AppError('外送單狀態已變更，請重新整理', 409);
+      }
+
+      const order = await this.updateOrderStatus(tx, job, 'COMPLETED', '外送已送達');
+
+      const updatedJob = await tx.deliveryJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: jobInclude,
+      });
+
+      return { job: updatedJob, order };
+    });
+  }
+
+  /**
+   * 記錄外送員定位，並更新進行中外送單的位置及預估送達時間
+   * 回傳有更新的外送單供推播
+   */
+  async recordLocation(driverId: string, location: GeoPoint, recordedAt: Date = new Date()) {
+    await prisma.driverLocation.create({
+      data: {
+        driverId,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        recordedAt,
+      },
+    });
+
+    const jobs = await prisma.deliveryJob.findMany({
+      where: {
+        driverId,
+        status: { in: ['ACCEPTED', 'PICKED_UP'] },
+        order: { status: { not: 'CANCELLED' } },
+      },
+      include: jobInclude,
+    });
+
+    const updated: DeliveryJobWithOrder[] = [];
+
+    for (const job of jobs) {
+      const remainingKm = this.getRemainingKm(job, location);
+
+      updated.push(await prisma.deliveryJob.update({
+        where: { id: job.id },
+        data: {
+          lastLatitude: location.latitude,
+          lastLongitude: location.longitude,
+          lastLocationAt: recordedAt,
+          etaMinutes: remainingKm === null ? job.etaMinutes : this.toEtaMinutes(remainingKm),
+        },
+        include: jobInclude,
+      }));
+    }
+
+    return updated;
+  }
+
+  /**
+   * 獲取訂單的外送追蹤資訊，尚未指派外送員時回傳null
+   */
+  async getTracking(orderId: string) {
+    const job = await prisma.deliveryJob.findUnique({
+      where: { orderId },
+      include: jobInclude,
+    });
+
+    return job ? this.formatTracking(job) : null;
+  }
+
+  /**
+   * 顧客端顯示的外送資訊（不含顧客個資）
+   */
+  formatTracking(job: DeliveryJobWithOrder) {
+    return {
+      orderId: job.orderId,
+      orderNumber: job.order.orderNumber,
+      status: job.status,
+      driver: {
+        displayName: job.driver.displayName,
+        phone: job.driver.phone,
+      },
+      latitude: job.lastLatitude,
+      longitude: job.lastLongitude,
+      lastLocationAt: job.lastLocationAt,
+      etaMinutes: job.etaMinutes,
+      pickedUpAt: job.pickedUpAt,
+      deliveredAt: job.deliveredAt,
+    };
+  }
+
+  /**
+   * 外送員只能操作指派給自己的外送單
+   */
+  private async getDriverJob(jobId: string, driverId: string) {
+    const job = await prisma.deliveryJob.findFirst({
+      where: { id: jobId, driverId },
+      include: jobInclude,
+    });
+
+    if (!job) {
+      throw new AppError('外送單不存在', 404);
+    }
+
+    if (job.order.status === 'CANCELLED') {
+      throw new AppError('訂單已取消', 400);
+    }
+
+    return job;
+  }
+
+  private async updateOrderStatus(
+    tx: Prisma.TransactionClient,
+    job: DeliveryJobWithOrder,
+    status: string,
+    note: string
+  ) {
+    const order = await tx.order.update({
+      where: { id: job.orderId },
+      data: {
+        status,
+        updatedAt: new Date(),
+      },
+      include: {
+        items: true,
+        customer: {
+          select: {
+            displayName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: job.orderId,
+        status,
+        note,
+        createdBy: job.driverId,
+      },
+    });
+
+    return order;
+  }
+
+  /**
+   * 剩餘距離：已取餐時為到顧客的距離，未取餐時加上回店取餐的距離
+   * 缺少座標時無法估算
+   */
+  private getRemainingKm(
+    job: DeliveryJobWithOrder,
+    location: { latitude: number | null; longitude: number | null }
+  ): number | null {
+    const { order } = job;
+
+    if (location.latitude === null || location.longitude === null ||
+      order.deliveryLatitude === null || order.deliveryLongitude === null) {
+      return null;
+    }
+
+    const from = { latitude: location.latitude, longitude: location.longitude };
+    const destination = { latitude: order.deliveryLatitude, longitude: order.deliveryLongitude };
+
+    if (job.status === 'PICKED_UP') {
+      return getDistanceKm(from, destination);
+    }
+
+    const { latitude, longitude } = order.store;
+    if (latitude === null || longitude === null) {
+      return null;
+    }
+
+    const store = { latitude, longitude };
+    return getDistanceKm(from, store) + (order.deliveryDistanceKm ?? getDistanceKm(store, destination));
+  }
+
+  private toEtaMinutes(distanceKm: number): number {
+    return Math.ceil(distanceKm / DRIVER_SPEED_KMH * 60);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,309 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export type IngredientMovementType = 'CONSUME' | 'RESTOCK' | 'ADJUST' | 'WASTE';
+
+export interface RecipeLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  addons?: Array<{
+    addonId: string;
+    quantity: number;
+  }>;
+  components?: Array<{
+    productId: string;
+    variantId?: string | null;
+    quantity: number;
+  }>;
+}
+
+export interface RecipeItemInput {
+  ingredientId: string;
+  quantity: number;
+  variantId?: string;
+  addonId?: string;
+}
+
+export class IngredientService {
+  /**
+   * 計算訂單項目所需的原料總量
+   * 規格配方覆蓋商品配方中相同原料的用量，加購項目配方另外累加
+   * 套餐組成項目展開為獨立項目計算
+   */
+  async calculateRequirements(orderLines: RecipeLine[]): Promise<Map<string, number>> {
+    const requirements = new Map<string, number>();
+
+    const lines = orderLines.flatMap((line): RecipeLine[] => [
+      line,
+      ...(line.components || []).map(component => ({
+        productId: component.productId,
+        variantId: component.variantId,
+        quantity: component.quantity * line.quantity,
+      })),
+    ]);
+
+    if (lines.length === 0) {
+      return requirements;
+    }
+
+    const productIds = [...new Set(lines.map(line => line.productId))];
+    const variantIds = [...new Set(lines.filter(line => line.variantId).map(line => line.variantId!))];
+    const addonIds = [...new Set(lines.flatMap(line => (line.addons || []).map(addon => addon.addonId)))];
+
+    const recipeItems = await prisma.recipeItem.findMany({
+      where: {
+        OR: [
+          { productId: { in: productIds }, variantId: null, addonId: null },
+          { variantId: { in: variantIds } },
+          { addonId: { in: addonIds } },
+        ],
+      },
+    });
+
+    const add = (ingredientId: string, quantity: number) => {
+      requirements.set(ingredientId, (requirements.get(ingredientId) || 0) + quantity);
+    };
+
+    for (const line of lines) {
+      // 商品基本配方
+      const perUnit = new Map<string, number>();
+      for (const recipe of recipeItems) {
+        if (recipe.productId === line.productId && !recipe.variantId && !recipe.addonId) {
+          perUnit.set(recipe.ingredientId, recipe.quantity);
+        }
+      }
+
+      // 規格配方覆蓋
+      if (line.variantId) {
+        for (const recipe of recipeItems) {
+          if (recipe.variantId === line.variantId) {
+            perUnit.set(recipe.ingredientId, recipe.quantity);
+          }
+        }
+      }
+
+      // 加購項目配方
+      for (const addon of line.addons || []) {
+        for (const recipe of recipeItems) {
+          if (recipe.addonId === addon.addonId) {
+            perUnit.set(recipe.ingredientId, (perUnit.get(recipe.ingredientId) || 0) + recipe.quantity * addon.quantity);
+          }
+        }
+      }
+
+      for (const [ingredientId, quantity] of perUnit) {
+        add(ingredientId, quantity * line.quantity);
+      }
+    }
+
+    return requirements;
+  }
+
+  /**
+   * 檢查原料庫存是否足夠製作訂單項目
+   */
+  async assertAvailable(lines: RecipeLine[], storeId: string): Promise<void> {
+    const requirements = await this.calculateRequirements(lines);
+
+    if (requirements.size === 0) {
+      return;
+    }
+
+    const ingredients = await prisma.ingredient.findMany({
+      where: {
+        id: { in: [...requirements.keys()] },
+        storeId,
+      },
+    });
+
+    for (const ingredient of ingredients) {
+      const required = requirements.get(ingredient.id) || 0;
+      if (!ingredient.isActive || ingredient.quantity < required) {
+        throw new AppError(`原料不足: ${ingredient.name}`, 400);
+      }
+    }
+  }
+
+  /**
+   * 訂單完成時扣減原料
+   * 已扣減過的訂單不會重複扣減
+   */
+  async consumeForOrder(orderId: string, createdBy?: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const consumed = await tx.ingredientMovement.count({
+        where: { orderId, type: 'CONSUME' },
+      });
+
+      if (consumed > 0) {
+        return;
+      }
+
+      const items = await tx.orderItem.findMany({
+        where: { orderId },
+        include: { addons: true, components: true },
+      });
+
+      const requirements = await this.calculateRequirements(items);
+
+      for (const [ingredientId, quantity] of requirements) {
+        const ingredient = await tx.ingredient.update({
+          where: { id: ingredientId },
+          data: {
+            quantity: { decrement: quantity },
+          },
+        });
+
+        await tx.ingredientMovement.create({
+          data: {
+            ingredientId,
+            orderId,
+            type: 'CONSUME',
+            quantity: -quantity,
+            balance: ingredient.quantity,
+            reason: '訂單完成扣減原料',
+            createdBy,
+          },
+        });
+
+        if (ingredient.quantity <= ingredient.minQuantity) {
+          logger.warn(`原料低於安全庫存: ${ingredient.name} (剩餘: ${ingredient.quantity}${ingredient.unit})`);
+        }
+      }
+    });
+  }
+
+  /**
+   * 手動調整原料庫存（進貨、盤點、報廢）
+   */
+  async adjustStock(
+    ingredientId: string,
+    quantity: number,
+    type: Exclude<IngredientMovementType, 'CONSUME'>,
+    reason?: string,
+    createdBy?: string
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      const ingredient = await tx.ingredient.findUnique({
+        where: { id: ingredientId },
+      });
+
+      if (!ingredient) {
+        throw new AppError('原料不存在', 404);
+      }
+
+      if (ingredient.quantity + quantity < 0) {
+        throw new AppError('調整後庫存不可小於0', 400);
+      }
+
+      const updated = await tx.ingredient.update({
+        where: { id: ingredientId },
+        data: {
+          quantity: { increment: quantity },
+        },
+      });
+
+      return await tx.ingredientMovement.create({
+        data: {
+          ingredientId,
+          type,
+          quantity,
+          balance: updated.quantity,
+          reason,
+          createdBy,
+        },
+      });
+    });
+  }
+
+  /**
+   * 覆寫商品配方（含該商品所有規格與加購項目的配方）
+   */
+  async replaceProductRecipe(productId: string, items: RecipeItemInput[]) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        variants: { select: { id: true } },
+        addons: { select: { id: true } },
+      },
+    });
+
+    if (!product) {
+      throw new AppError('商品不存在', 404);
+    }
+
+    const variantIds = product.variants.map(variant => variant.id);
+    const addonIds = product.addons.map(addon => addon.id);
+
+    for (const item of items) {
+      if (item.variantId && !variantIds.includes(item.variantId)) {
+        throw new AppError(`商品規格不存在: ${item.variantId}`, 400);
+      }
+      if (item.addonId && !addonIds.includes(item.addonId)) {
+        throw new AppError(`加購項目不存在: ${item.addonId}`, 400);
+      }
+    }
+
+    const ingredientCount = await prisma.ingredient.count({
+      where: {
+        id: { in: [...new Set(items.map(item => item.ingredientId))] },
+        storeId: product.storeId,
+      },
+    });
+
+    if (ingredientCount !== new Set(items.map(item => item.ingredientId)).size) {
+      throw new AppError('部分原料不存在', 400);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.recipeItem.deleteMany({
+        where: {
+          OR: [
+            { productId },
+            { variantId: { in: variantIds } },
+            { addonId: { in: addonIds } },
+          ],
+        },
+      });
+
+      await tx.recipeItem.createMany({
+        data: items.map(item => ({
+          ingredientId: item.ingredientId,
+          quantity: item.quantity,
+          // 規格及加購配方只掛在規格或加購項目上，避免被當作商品基本配方
+          productId: item.variantId || item.addonId ? null : productId,
+          variantId: item.variantId,
+          addonId: item.addonId,
+        })),
+      });
+
+      return await this.getProductRecipe(productId, tx);
+    });
+  }
+
+  /**
+   * 獲取商品配方
+   */
+  async getProductRecipe(productId: string, client: Prisma.TransactionClient = prisma) {
+    return await client.recipeItem.findMany({
+      where: {
+        OR: [
+          { productId },
+          { variant: { productId } },
+          { addon: { productId } },
+        ],
+      },
+      include: {
+        ingredient: {
+          select: {
+            name: true,
+            unit: true,
+          },
+        },
+      },
+    });
+  }
+}
\ No newline at end of file
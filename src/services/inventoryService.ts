@@ -0,0 +1,289 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export type InventoryMovementType = 'RESERVE' | 'RELEASE' | 'RESTOCK' | 'ADJUST';
+
+export interface InventoryRequirement {
+  productId: string;
+  quantity: number;
+  components?: Array<{
+    productId: string;
+    quantity: number;
+  }>;
+}
+
+export class InventoryService {
+  /**
+   * 訂單成立時扣減庫存
+   * 必須在建立訂單的交易中呼叫，庫存不足時拋出錯誤使整筆交易回滾
+   */
+  async reserveForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    items: InventoryRequirement[],
+    createdBy?: string
+  ): Promise<void> {
+    const requirements = this.mergeRequirements(items);
+
+    for (const [productId, quantity] of requirements) {
+      await this.reserveProduct(tx, orderId, productId, quantity, '訂單扣減庫存', createdBy);
+    }
+  }
+
+  /**
+   * 訂單修改時依前後差異調整庫存
+   * 增加的數量扣減庫存（不足時拋出錯誤），減少的數量歸還庫存
+   */
+  async adjustForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    before: InventoryRequirement[],
+    after: InventoryRequirement[],
+    reason: string,
+    createdBy?: string
+  ): Promise<void> {
+    const previous = this.mergeRequirements(before);
+    const next = this.mergeRequirements(after);
+    const productIds = new Set([...previous.keys(), ...next.keys()]);
+
+    for (const productId of productIds) {
+      const difference = (next.get(productId) || 0) - (previous.get(productId) || 0);
+
+      if (difference > 0) {
+        await this.reserveProduct(tx, orderId, productId, difference, reason, createdBy);
+        continue;
+      }
+
+      if (difference < 0) {
+        const inventory = await tx.inventory.findUnique({
+          where: { productId },
+        });
+
+        if (!inventory) {
+          continue;
+        }
+
+        await tx.inventory.update({
+          where: { id: inventory.id },
+          data: {
+            quantity: { increment: -difference },
+          },
+        });
+
+        await this.recordMovement(tx, inventory.id, {
+          orderId,
+          type: 'RELEASE',
+          quantity: -difference,
+          reason,
+          createdBy,
+        });
+      }
+    }
+  }
+
+  /**
+   * 訂單取消或退款時歸還庫存
+   * 依訂單的異動紀錄計算尚未歸還的數量，重複呼叫不會重複歸還
+   */
+  async releaseForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    reason: string,
+    createdBy?: string
+  ): Promise<void> {
+    const movements = await tx.inventoryMovement.groupBy({
+      by: ['inventoryId'],
+      where: { orderId },
+      _sum: { quantity: true },
+    });
+
+    for (const movement of movements) {
+      const outstanding = -(movement._sum.quantity || 0);
+      if (outstanding <= 0) {
+        continue;
+      }
+
+      await tx.inventory.update({
+        where: { id: movement.inventoryId },
+        data: {
+          quantity: { increment: outstanding },
+        },
+      });
+
+      await this.recordMovement(tx, movement.inventoryId, {
+        orderId,
+        type: 'RELEASE',
+        quantity: outstanding,
+        reason,
+        createdBy,
+      });
+    }
+  }
+
+  /**
+   * 手動調整庫存（進貨、盤點）
+   */
+  async adjustStock(
+    productId: string,
+    quantity: number,
+    type: 'RESTOCK' | 'ADJUST',
+    reason?: string,
+    createdBy?: string
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      const inventory = await tx.inventory.findUnique({
+        where: { productId },
+      });
+
+      if (!inventory) {
+        throw new AppError('商品未設定庫存', 404);
+      }
+
+      if (inventory.quantity + quantity < 0) {
+        throw new AppError('調整後庫存不可小於0', 400);
+      }
+
+      await tx.inventory.update({
+        where: { id: inventory.id },
+        data: {
+          quantity: { increment: quantity },
+        },
+      });
+
+      const movement = await this.recordMovement(tx, inventory.id, {
+        type,
+        quantity,
+        reason,
+        createdBy,
+      });
+
+      logger.info(`庫存調整: 商品${productId}, 數量: ${quantity}, 結餘: ${movement.balance}`);
+
+      return movement;
+    });
+  }
+
+  /**
+   * 獲取庫存異動紀錄
+   */
+  async getMovements(productId: string, limit = 50) {
+    return await prisma.inventoryMovement.findMany({
+      where: {
+        inventory: {
+          productId,
+        },
+      },
+      include: {
+        order: {
+          select: {
+            orderNumber: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * 寫入庫存異動紀錄（含異動後結餘）
+   */
+  private async recordMovement(
+    tx: Prisma.TransactionClient,
+    inventoryId: string,
+    data: {
+      orderId?: string;
+      type: InventoryMovementType;
+      quantity: number;
+      reason?: string;
+      createdBy?: string;
+    }
+  ) {
+    const inventory = await tx.inventory.findUniqueOrThrow({
+      where: { id: inventoryId },
+    });
+
+    return await tx.inventoryMovement.create({
+      data: {
+        inventoryId,
+        orderId: data.orderId,
+        type: data.type,
+        quantity: data.quantity,
+        balance: inventory.quantity,
+        reason: data.reason,
+        createdBy: data.createdBy,
+      },
+    });
+  }
+
+  /**
+   * 扣減單一商品庫存並記錄異動
+   */
+  private async reserveProduct(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    productId: string,
+    quantity: number,
+    reason: string,
+    createdBy?: string
+  ): Promise<void> {
+    const inventory = await tx.inventory.findUnique({
+      where: { productId },
+      include: {
+        product: {
+          select: { name: true },
+        },
+      },
+    });
+
+    // 未設定庫存的商品不做控管
+    if (!inventory) {
+      return;
+    }
+
+    // 以條件式更新確保併發下不會超賣
+    const result = await tx.inventory.updateMany({
+      where: {
+        id: inventory.id,
+        quantity: { gte: quantity },
+      },
+      data: {
+        quantity: { decrement: quantity },
+      },
+    });
+
+    if (result.count === 0) {
+      throw new AppError(`商品庫存不足: ${inventory.product.name}`, 400);
+    }
+
+    await this.recordMovement(tx, inventory.id, {
+      orderId,
+      type: 'RESERVE',
+      quantity: -quantity,
+      reason,
+      createdBy,
+    });
+  }
+
+  /**
+   * 合併同商品的需求數量
+   * 套餐組成項目依每份套餐的數量展開計算
+   */
+  private mergeRequirements(items: InventoryRequirement[]): Map<string, number> {
+    const requirements = new Map<string, number>();
+    const add = (productId: string, quantity: number) => {
+      requirements.set(productId, (requirements.get(productId) || 0) + quantity);
+    };
+
+    for (const item of items) {
+      add(item.productId, item.quantity);
+      for (const component of item.components || []) {
+        add(component.productId, component.quantity * item.quantity);
+      }
+    }
+    return requirements;
+  }
+}
\ No newline at end of file
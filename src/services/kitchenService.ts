@@ -0,0 +1,296 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+import { WorkflowService } from './workflowService';
+
+const prisma = new PrismaClient();
+const workflowService = new WorkflowService();
+
+export interface KitchenBumpResult {
+  item: Awaited<ReturnType<KitchenService['getTicketItem']>>;
+  orderStatus: string | null; // 訂單因全部出餐而轉換的狀態，未轉換時為null
+}
+
+export class KitchenService {
+  /**
+   * 將訂單項目派送到各工作站
+   * 依商品分類對應工作站，未對應的項目送到預設工作站；套餐依組成項目分別派送
+   * 必須在建立或修改訂單的交易中呼叫；修改訂單時只派送指定的項目
+   */
+  async routeOrder(tx: Prisma.TransactionClient, orderId: string, orderItemIds?: string[]): Promise<string[]> {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        items: {
+          where: orderItemIds ? { id: { in: orderItemIds } } : undefined,
+          include: {
+            product: { select: { categoryId: true } },
+            components: {
+              include: {
+                product: { select: { categoryId: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const stations = await tx.kitchenStation.findMany({
+      where: {
+        storeId: order.storeId,
+        isActive: true,
+      },
+      include: { categories: true },
+    });
+
+    // 店鋪未設定工作站則不使用KDS
+    if (stations.length === 0) {
+      return [];
+    }
+
+    const stationsFor = (categoryId: string) => {
+      const matched = stations.filter(station => station.categories.some(c => c.categoryId === categoryId));
+      return matched.length > 0 ? matched : stations.filter(station => station.isDefault);
+    };
+
+    const ticketItems: Prisma.KitchenTicketItemCreateManyInput[] = [];
+
+    for (const item of order.items) {
+      if (item.components.length > 0) {
+        for (const component of item.components) {
+          for (const station of stationsFor(component.product.categoryId)) {
+            ticketItems.push({
+              orderId,
+              orderItemId: item.id,
+              componentId: component.id,
+              stationId: station.id,
+              quantity: component.quantity * item.quantity,
+            });
+          }
+        }
+        continue;
+      }
+
+      for (const station of stationsFor(item.product.categoryId)) {
+        ticketItems.push({
+          orderId,
+          orderItemId: item.id,
+          stationId: station.id,
+          quantity: item.quantity,
+        });
+      }
+    }
+
+    if (ticketItems.length > 0) {
+      await tx.kitchenTicketItem.createMany({ data: ticketItems });
+    }
+
+    return [...new Set(ticketItems.map(ticketItem => ticketItem.stationId))];
+  }
+
+  /**
+   * 移除訂單項目在工作站上的製作項目（訂單修改時使用）
+   * 回傳受影響的工作站
+   */
+  async removeTicketItems(tx: Prisma.TransactionClient, orderItemIds: string[]): Promise<string[]> {
+    const ticketItems = await tx.kitchenTicketItem.findMany({
+      where: { orderItemId: { in: orderItemIds } },
+      select: { stationId: true },
+    });
+
+    await tx.kitchenTicketItem.deleteMany({
+      where: { orderItemId: { in: orderItemIds } },
+    });
+
+    return [...new Set(ticketItems.map(ticketItem => ticketItem.stationId))];
+  }
+
+  /**
+   * 獲取工作站待製作項目
+   * 只顯示已確認或製作中的訂單
+   */
+  async getStationQueue(stationId: string, includeBumped = false) {
+    return await prisma.kitchenTicketItem.findMany({
+      where: {
+        stationId,
+        ...(includeBumped ? {} : { status: 'PENDING' }),
+        order: {
+          status: { in: ['CONFIRMED', 'PREPARING'] },
+        },
+      },
+      include: this.ticketItemInclude(),
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * 出餐（單一項目完成）
+   * 訂單所有項目都出餐後，依店鋪流程自動轉為READY
+   */
+  async bumpItem(ticketItemId: string, userId: string): Promise<KitchenBumpResult> {
+    const orderStatus = await prisma.$transaction(async (tx) => {
+      const ticketItem = await tx.kitchenTicketItem.findUnique({
+        where: { id: ticketItemId },
+      });
+
+      if (!ticketItem) {
+        throw new AppError('工作站項目不存在', 404);
+      }
+
+      if (ticketItem.status === 'BUMPED') {
+        throw new AppError('此項目已出餐', 400);
+      }
+
+      await tx.kitchenTicketItem.update({
+        where: { id: ticketItemId },
+        data: {
+          status: 'BUMPED',
+          bumpedAt: new Date(),
+          bumpedBy: userId,
+        },
+      });
+
+      return await this.advanceOrderWhenComplete(tx, ticketItem.orderId, userId);
+    });
+
+    return {
+      item: await this.getTicketItem(ticketItemId),
+      orderStatus,
+    };
+  }
+
+  /**
+   * 召回已出餐的項目
+   */
+  async recallItem(ticketItemId: string) {
+    const ticketItem = await prisma.kitchenTicketItem.findUnique({
+      where: { id: ticketItemId },
+    });
+
+    if (!ticketItem) {
+      throw new AppError('工作站項目不存在', 404);
+    }
+
+    if (ticketItem.status !== 'BUMPED') {
+      throw new AppError('此項目尚未出餐', 400);
+    }
+
+    await prisma.kitchenTicketItem.update({
+      where: { id: ticketItemId },
+      data: {
+        status: 'PENDING',
+        bumpedAt: null,
+        bumpedBy: null,
+      },
+    });
+
+    return await this.getTicketItem(ticketItemId);
+  }
+
+  /**
+   * 獲取工作站項目詳細資訊
+   */
+  async getTicketItem(ticketItemId: string) {
+    return await prisma.kitchenTicketItem.findUniqueOrThrow({
+      where: { id: ticketItemId },
+      include: this.ticketItemInclude(),
+    });
+  }
+
+  /**
+   * 所有項目出餐後推進訂單狀態至READY
+   * 只走店鋪流程允許的轉換（如 CONFIRMED -> PREPARING -> READY）
+   */
+  private async advanceOrderWhenComplete(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    userId: string
+  ): Promise<string | null> {
+    const pending = await tx.kitchenTicketItem.count({
+      where: { orderId, status: 'PENDING' },
+    });
+
+    if (pending > 0) {
+      return null;
+    }
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+    const workflow = await workflowService.getWorkflow(order.storeId, order.orderType, tx);
+    const canTransition = (from: string, to: string) =>
+      workflow.transitions.some(transition => transition.from === from && transition.to === to);
+
+    const path: string[] = [];
+    let status = order.status;
+
+    if (status === 'CONFIRMED' && !canTransition('CONFIRMED', 'READY') && canTransition('CONFIRMED', 'PREPARING')) {
+      path.push('PREPARING');
+      status = 'PREPARING';
+    }
+
+    if (!canTransition(status, 'READY')) {
+      return null;
+    }
+    path.push('READY');
+
+    for (const nextStatus of path) {
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          status: nextStatus,
+          note: '廚房全部出餐',
+          createdBy: userId,
+        },
+      });
+    }
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        status: 'READY',
+        updatedAt: new Date(),
+      },
+    });
+
+    logger.info(`訂單全部出餐，自動轉為READY: ${order.orderNumber}`);
+
+    return 'READY';
+  }
+
+  private ticketItemInclude() {
+    return {
+      order: {
+        select: {
+          id: true,
+          storeId: true,
+          orderNumber: true,
+          pickupNumber: true,
+          orderType: true,
+          status: true,
+          note: true,
+          tableNumber: true,
+          createdAt: true,
+        },
+      },
+      orderItem: {
+        include: {
+          product: { select: { name: true } },
+          variant: { select: { name: true } },
+          modifiers: true,
+          addons: {
+            include: {
+              addon: { select: { name: true } },
+            },
+          },
+        },
+      },
+      component: {
+        include: {
+          product: { select: { name: true } },
+          variant: { select: { name: true } },
+        },
+      },
+    } satisfies Prisma.KitchenTicketItemInclude;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,500 @@
+import { PrismaClient, Prisma, LoyaltyConfig } from '@prisma/client';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const MEMBER_POINT_TYPES = ['EARN', 'REDEEM', 'EXPIRE', 'ADMIN_ADJUST', 'REDEEM_REVERSAL', 'EARN_REVERSAL', 'BIRTHDAY_GIFT'];
+
+// 未設定時的預設值，與資料表預設相同
+export const DEFAULT_LOYALTY_CONFIG = {
+  earnRate: 10,
+  redeemValue: 1,
+  minRedeemPoints: 0,
+  maxRedeemPoints: null as number | null,
+  maxRedeemPercent: 50,
+  pointsValidDays: 365 as number | null,
+  tierWindowMonths: null as number | null,
+};
+
+export type LoyaltySettings = typeof DEFAULT_LOYALTY_CONFIG;
+
+export interface LoyaltyConfigInput {
+  earnRate: number;
+  redeemValue: number;
+  minRedeemPoints?: number;
+  maxRedeemPoints?: number | null;
+  maxRedeemPercent?: number;
+  pointsValidDays?: number | null;
+  tierWindowMonths?: number | null;
+}
+
+export interface PointRedemption {
+  points: number;
+  discount: number;
+}
+
+export interface PointBalance {
+  balance: number;
+  expiring: Array<{ points: number; expiresAt: Date }>; // 依到期日排序的可用批次
+}
+
+// 目前仍可使用的批次
+const availableLotsWhere = (userId: string, now: Date): Prisma.MemberPointWhereInput => ({
+  userId,
+  remaining: { gt: 0 },
+  OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+});
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class LoyaltyService {
+  /**
+   * 獲取租戶的積分設定，未設定時使用預設值
+   */
+  async getConfig(tenantId: string, client: Prisma.TransactionClient = prisma): Promise<LoyaltySettings> {
+    const config = await client.loyaltyConfig.findUnique({
+      where: { tenantId },
+    });
+
+    return config ? this.toSettings(config) : { ...DEFAULT_LOYALTY_CONFIG };
+  }
+
+  /**
+   * 依店鋪所屬租戶獲取積分設定
+   */
+  async getStoreConfig(storeId: string): Promise<LoyaltySettings> {
+    const store = await prisma.store.findUniqueOrThrow({
+      where: { id: storeId },
+      select: { tenantId: true },
+    });
+
+    return await this.getConfig(store.tenantId);
+  }
+
+  /**
+   * 更新租戶的積分設定
+   */
+  async updateConfig(tenantId: string, input: LoyaltyConfigInput): Promise<LoyaltySettings> {
+    if (input.earnRate <= 0 || input.redeemValue <= 0) {
+      throw new AppError('積分獲得及折抵比例必須大於0', 400);
+    }
+
+    if (input.maxRedeemPercent !== undefined && (input.maxRedeemPercent <= 0 || input.maxRedeemPercent > 100)) {
+      throw new AppError('積分折抵上限必須在0-100%之間', 400);
+    }
+
+    if (input.maxRedeemPoints != null && input.maxRedeemPoints < (input.minRedeemPoints ?? 0)) {
+      throw new AppError('單筆最多使用點數不能低於最少使用點數', 400);
+    }
+
+    const data = {
+      earnRate: input.earnRate,
+      redeemValue: input.redeemValue,
+      minRedeemPoints: input.minRedeemPoints ?? DEFAULT_LOYALTY_CONFIG.minRedeemPoints,
+      maxRedeemPoints: input.maxRedeemPoints ?? null,
+      maxRedeemPercent: input.maxRedeemPercent ?? DEFAULT_LOYALTY_CONFIG.maxRedeemPercent,
+      pointsValidDays: input.pointsValidDays ?? null,
+      tierWindowMonths: input.tierWindowMonths ?? null,
+    };
+
+    const config = await prisma.loyaltyConfig.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    });
+
+    return this.toSettings(config);
+  }
+
+  /**
+   * 計算消費可獲得的積分，multiplier 為會員等級的積分倍數
+   */
+  calculateEarnedPoints(config: LoyaltySettings, amount: number, multiplier: number = 1): number {
+    return Math.max(0, Math.floor(amount / config.earnRate * multiplier));
+  }
+
+  /**
+   * 查詢積分餘額
+   * 只讀取不寫入：已到期但排程尚未處理的點數直接從餘額扣除
+   */
+  async getBalance(userId: string, now: Date = new Date()): Promise<PointBalance> {
+    const [sum, overdue, lots] = await Promise.all([
+      prisma.memberPoint.aggregate({
+        where: { userId },
+        _sum: { amount: true },
+      }),
+      prisma.memberPoint.aggregate({
+        where: {
+          userId,
+          remaining: { gt: 0 },
+          expiresAt: { lte: now },
+        },
+        _sum: { remaining: true },
+      }),
+      prisma.memberPoint.findMany({
+        where: {
+          ...availableLotsWhere(userId, now),
+          expiresAt: { not: null, gt: now },
+        },
+        orderBy: { expiresAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      balance: (sum._sum.amount ?? 0) - (overdue._sum.remaining ?? 0),
+      expiring: lots.map(lot => ({ points: lot.remaining, expiresAt: lot.expiresAt! })),
+    };
+  }
+
+  /**
+   * 獲取積分異動紀錄
+   */
+  async getHistory(userId: string, page: number, limit: number) {
+    const where: Prisma.MemberPointWhereInput = { userId };
+
+    const [records, total] = await Promise.all([
+      prisma.memberPoint.findMany({
+        where,
+        include: {
+          order: {
+            select: { id: true, orderNumber: true },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.memberPoint.count({ where }),
+    ]);
+
+    return {
+      records,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * 試算積分折抵，檢查餘額及租戶設定的上限
+   */
+  async quoteRedemption(userId: string, points: number, orderAmount: number): Promise<PointRedemption> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { tenantId: true },
+    });
+    const config = await this.getConfig(user.tenantId);
+
+    if (!Number.isInteger(points) || points <= 0) {
+      throw new AppError('使用點數必須是正整數', 400);
+    }
+
+    if (points < config.minRedeemPoints) {
+      throw new AppError(`每筆訂單至少需使用${config.minRedeemPoints}點`, 400);
+    }
+
+    if (config.maxRedeemPoints && points > config.maxRedeemPoints) {
+      throw new AppError(`每筆訂單最多使用${config.maxRedeemPoints}點`, 400);
+    }
+
+    const { balance } = await this.getBalance(userId);
+    if (points > balance) {
+      throw new AppError(`積分餘額不足，目前剩餘${balance}點`, 400);
+    }
+
+    const discount = roundAmount(points * config.redeemValue);
+    if (discount > roundAmount(orderAmount * config.maxRedeemPercent / 100)) {
+      throw new AppError(`積分最多折抵訂單金額的${config.maxRedeemPercent}%`, 400);
+    }
+
+    return { points, discount };
+  }
+
+  /**
+   * 扣除訂單使用的積分（在建立訂單的交易內呼叫）
+   */
+  async redeemForOrder(tx: Prisma.TransactionClient, userId: string, orderId: string, points: number): Promise<void> {
+    const record = await tx.memberPoint.create({
+      data: {
+        userId,
+        orderId,
+        type: 'REDEEM',
+        amount: -points,
+        description: '訂單積分折抵',
+      },
+    });
+
+    const consumed = await this.consumeLots(tx, userId, record.id, points);
+    if (consumed < points) {
+      throw new AppError('積分餘額不足', 400);
+    }
+  }
+
+  /**
+   * 訂單完成後發放積分，同一訂單只發放一次
+   * 以商品實付金額計算，不含外送費
+   */
+  async earnForOrder(
+    order: { id: string; customerId: string; finalAmount: number; deliveryFee?: number },
+    multiplier: number = 1,
+    now: Date = new Date()
+  ): Promise<number> {
+    const existing = await prisma.memberPoint.findFirst({
+      where: { orderId: order.id, type: 'EARN' },
+    });
+    if (existing) {
+      return 0;
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: order.customerId },
+      select: { tenantId: true },
+    });
+    const config = await this.getConfig(user.tenantId);
+    const points = this.calculateEarnedPoints(config, await this.getItemAmount(order), multiplier);
+
+    if (points <= 0) {
+      return 0;
+    }
+
+    await prisma.memberPoint.create({
+      data: {
+        userId: order.customerId,
+        orderId: order.id,
+        type: 'EARN',
+        amount: points,
+        remaining: points,
+        description: '訂單消費獲得積分',
+        expiresAt: this.getExpiresAt(config, now),
+      },
+    });
+
+    return points;
+  }
+
+  /**
+   * 發放非訂單的積分（如生日禮），有效期限同消費積分
+   */
+  async grantPoints(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    tenantId: string,
+    points: number,
+    type: string,
+    description: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const config = await this.getConfig(tenantId, tx);
+
+    await tx.memberPoint.create({
+      data: {
+        userId,
+        type,
+        amount: points,
+        remaining: points,
+        description,
+        expiresAt: this.getExpiresAt(config, now),
+      },
+    });
+  }
+
+  /**
+   * 訂單取消或退款時退回使用的積分，並扣回已發放的積分
+   * 重複呼叫不會重複退回
+   */
+  async reverseForOrder(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const records = await tx.memberPoint.findMany({
+      where: { orderId },
+      include: { usages: true },
+    });
+
+    const redeem = records.find(record => record.type === 'REDEEM');
+    if (redeem && !records.some(record => record.type === 'REDEEM_REVERSAL')) {
+      // 歸還到原本扣除的批次，已過期的批次由到期處理扣除
+      for (const usage of redeem.usages) {
+        await tx.memberPoint.update({
+          where: { id: usage.sourceId },
+          data: { remaining: { increment: usage.amount } },
+        });
+      }
+
+      await tx.memberPoint.create({
+        data: {
+          userId: redeem.userId,
+          orderId,
+          type: 'REDEEM_REVERSAL',
+          amount: -redeem.amount,
+          description: '訂單取消退回積分',
+        },
+      });
+    }
+
+    const earn = records.find(record => record.type === 'EARN');
+    if (earn && !records.some(record => record.type === 'EARN_REVERSAL')) {
+      const reversal = await tx.memberPoint.create({
+        data: {
+          userId: earn.userId,
+          orderId,
+          type: 'EARN_REVERSAL',
+          amount: 0,
+          description: '訂單取消扣回積分',
+        },
+      });
+
+      // 優先扣回該訂單發放的批次，已使用的部分再由其他批次扣除，餘額不足時不扣成負數
+      let fromOwnLot = Math.min(earn.remaining, earn.amount);
+      if (fromOwnLot > 0) {
+        const result = await tx.memberPoint.updateMany({
+          where: { id: earn.id, remaining: { gte: fromOwnLot } },
+          data: { remaining: { decrement: fromOwnLot } },
+        });
+
+        if (result.count === 0) {
+          fromOwnLot = 0; // 批次已被同時進行的折抵使用，改由其他批次扣除
+        } else {
+          await tx.memberPointUsage.create({
+            data: { sourceId: earn.id, consumerId: reversal.id, amount: fromOwnLot },
+          });
+        }
+      }
+      const fromOtherLots = await this.consumeLots(tx, earn.userId, reversal.id, earn.amount - fromOwnLot);
+
+      await tx.memberPoint.update({
+        where: { id: reversal.id },
+        data: { amount: -(fromOwnLot + fromOtherLots) },
+      });
+    }
+  }
+
+  /**
+   * 處理到期積分，未指定會員時處理全部會員
+   */
+  async expirePoints(now: Date = new Date(), userId?: string): Promise<number> {
+    const lots = await prisma.memberPoint.findMany({
+      where: {
+        userId,
+        remaining: { gt: 0 },
+        expiresAt: { lte: now },
+      },
+    });
+
+    let expired = 0;
+    for (const lot of lots) {
+      await prisma.$transaction(async (tx) => {
+        // 以剩餘點數為條件更新，避免與同時進行的折抵重複扣除
+        const result = await tx.memberPoint.updateMany({
+          where: { id: lot.id, remaining: lot.remaining },
+          data: { remaining: 0 },
+        });
+        if (result.count === 0) {
+          return;
+        }
+
+        await tx.memberPoint.create({
+          data: {
+            userId: lot.userId,
+            type: 'EXPIRE',
+            amount: -lot.remaining,
+            description: '積分到期',
+          },
+        });
+        expired += lot.remaining;
+      });
+    }
+
+    if (expired > 0 && !userId) {
+      logger.info(`積分到期處理: ${lots.length}批共${expired}點`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * 訂單實付金額扣除顧客實際支付的外送費（免運券折抵的部分不重複扣除）
+   */
+  private async getItemAmount(order: { id: string; finalAmount: number; deliveryFee?: number }): Promise<number> {
+    if (!order.deliveryFee) {
+      return order.finalAmount;
+    }
+
+    const redemption = await prisma.couponRedemption.findFirst({
+      where: { orderId: order.id, reversedAt: null },
+      include: { coupon: { select: { type: true } } },
+    });
+    const shippingDiscount = redemption?.coupon.type === 'FREE_SHIPPING' ? redemption.discountAmount : 0;
+
+    return Math.max(0, order.finalAmount - order.deliveryFee + shippingDiscount);
+  }
+
+  /**
+   * 依到期日先進先出扣除可用批次，回傳實際扣除的點數
+   */
+  private async consumeLots(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    consumerId: string,
+    points: number
+  ): Promise<number> {
+    if (points <= 0) {
+      return 0;
+    }
+
+    const lots = await tx.memberPoint.findMany({
+      where: availableLotsWhere(userId, new Date()),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // 有到期日的先扣，到期日相同時先扣較早獲得的
+    lots.sort((a, b) => {
+      const aTime = a.expiresAt?.getTime() ?? Infinity;
+      const bTime = b.expiresAt?.getTime() ?? Infinity;
+      return aTime - bTime;
+    });
+
+    let consumed = 0;
+    for (const lot of lots) {
+      if (consumed >= points) {
+        break;
+      }
+
+      const amount = Math.min(lot.remaining, points - consumed);
+      // 以讀取時的餘額為條件扣除，批次已被同時進行的扣除使用時略過，由呼叫端依實際扣除點數判斷
+      const result = await tx.memberPoint.updateMany({
+        where: { id: lot.id, remaining: { gte: amount } },
+        data: { remaining: { decrement: amount } },
+      });
+      if (result.count === 0) {
+        continue;
+      }
+
+      await tx.memberPointUsage.create({
+        data: { sourceId: lot.id, consumerId, amount },
+      });
+      consumed += amount;
+    }
+
+    return consumed;
+  }
+
+  private getExpiresAt(config: LoyaltySettings, now: Date): Date | null {
+    return config.pointsValidDays
+      ? new Date(now.getTime() + config.pointsValidDays * 24 * 60 * 60 * 1000)
+      : null;
+  }
+
+  private toSettings(config: LoyaltyConfig): LoyaltySettings {
+    return {
+      earnRate: config.earnRate,
+      redeemValue: config.redeemValue,
+      minRedeemPoints: config.minRedeemPoints,
+      maxRedeemPoints: config.maxRedeemPoints,
+      maxRedeemPercent: config.maxRedeemPercent,
+      pointsValidDays: config.pointsValidDays,
+      tierWindowMonths: config.tierWindowMonths,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,409 @@
+import { PrismaClient, Prisma, LoyaltyTierChange } from '@prisma/client';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { LoyaltyService } from './loyaltyService';
+
+const prisma = new PrismaClient();
+const loyaltyService = new LoyaltyService();
+
+export interface LoyaltyTierInput {
+  code: string;
+  name: string;
+  minSpend: number;
+  pointsMultiplier?: number;
+  discountPercent?: number;
+  birthdayGiftPoints?: number;
+}
+
+export type LoyaltyTierSettings = Required<LoyaltyTierInput>;
+
+// 推送給顧客的等級異動通知
+export interface TierChangeNotification extends LoyaltyTierChange {
+  fromName: string;
+  toName: string;
+  upgraded: boolean;
+}
+
+export interface TierEvaluationOptions {
+  now?: Date;
+  allowDowngrade?: boolean; // 訂單完成時只升級，降級由排程統一處理
+}
+
+// 未設定時沿用原本的等級門檻（累計消費）
+export const DEFAULT_LOYALTY_TIERS: LoyaltyTierSettings[] = [
+  { code: 'BRONZE', name: '銅卡會員', minSpend: 0, pointsMultiplier: 1, discountPercent: 0, birthdayGiftPoints: 0 },
+  { code: 'SILVER', name: '銀卡會員', minSpend: 1000, pointsMultiplier: 1, discountPercent: 0, birthdayGiftPoints: 0 },
+  { code: 'GOLD', name: '金卡會員', minSpend: 5000, pointsMultiplier: 1, discountPercent: 0, birthdayGiftPoints: 0 },
+  { code: 'PLATINUM', name: '白金會員', minSpend: 10000, pointsMultiplier: 1, discountPercent: 0, birthdayGiftPoints: 0 },
+];
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class LoyaltyTierService {
+  /**
+   * 獲取租戶的會員等級（依門檻由低到高），未設定時使用預設等級
+   */
+  async getTiers(tenantId: string, client: Prisma.TransactionClient = prisma): Promise<LoyaltyTierSettings[]> {
+    const tiers = await client.loyaltyTier.findMany({
+      where: { tenantId },
+      orderBy: { minSpend: 'asc' },
+    });
+
+    if (tiers.length === 0) {
+      return DEFAULT_LOYALTY_TIERS.map(tier => ({ ...tier }));
+    }
+
+    return tiers.map(tier => ({
+      code: tier.code,
+      name: tier.name,
+      minSpend: tier.minSpend,
+      pointsMultiplier: tier.pointsMultiplier,
+      discountPercent: tier.discountPercent,
+      birthdayGiftPoints: tier.birthdayGiftPoints,
+    }));
+  }
+
+  /**
+   * 整批更新租戶的會員等級，顧客的等級於下次評估時依新門檻調整
+   */
+  async replaceTiers(tenantId: string, inputs: LoyaltyTierInput[]): Promise<LoyaltyTierSettings[]> {
+    if (inputs.length === 0) {
+      throw new AppError('至少需設定一個會員等級', 400);
+    }
+
+    const codes = inputs.map(input => input.code);
+    if (new Set(codes).size !== codes.length) {
+      throw new AppError('會員等級代碼不能重複', 400);
+    }
+
+    if (!inputs.some(input => input.minSpend === 0)) {
+      throw new AppError('需有一個消費門檻為0的基本等級', 400);
+    }
+
+    const minSpends = inputs.map(input => input.minSpend);
+    if (new Set(minSpends).size !== minSpends.length) {
+      throw new AppError('會員等級的消費門檻不能重複', 400);
+    }
+
+    for (const input of inputs) {
+      if ((input.pointsMultiplier ?? 1) <= 0) {
+        throw new AppError(`積分倍數必須大於0: ${input.name}`, 400);
+      }
+      if ((input.discountPercent ?? 0) < 0 || (input.discountPercent ?? 0) >= 100) {
+        throw new AppError(`折扣百分比必須在0-100之間: ${input.name}`, 400);
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.loyaltyTier.deleteMany({ where: { tenantId } });
+      await tx.loyaltyTier.createMany({
+        data: inputs.map(input => ({
+          tenantId,
+          code: input.code,
+          name: input.name,
+          minSpend: input.minSpend,
+          pointsMultiplier: input.pointsMultiplier ?? 1,
+          discountPercent: input.discountPercent ?? 0,
+          birthdayGiftPoints: input.birthdayGiftPoints ?? 0,
+        })),
+      });
+    });
+
+    return await this.getTiers(tenantId);
+  }
+
+  /**
+   * 獲取顧客目前的等級及權益，非會員（沒有顧客資料）回傳 null
+   * 等級代碼已不在設定中時視為最低等級
+   */
+  async getCustomerTier(userId: string): Promise<LoyaltyTierSettings | null> {
+    const profile = await prisma.customerProfile.findUnique({
+      where: { userId },
+      include: { user: { select: { tenantId: true } } },
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const tiers = await this.getTiers(profile.user.tenantId);
+    return tiers.find(tier => tier.code === profile.loyaltyTier) ?? tiers[0];
+  }
+
+  /**
+   * 查詢顧客的等級、統計消費及升級進度
+   */
+  async getTierStatus(userId: string, now: Date = new Date()) {
+    const profile = await prisma.customerProfile.findUnique({
+      where: { userId },
+      include: { user: { select: { tenantId: true } } },
+    });
+
+    if (!profile) {
+      throw new AppError('會員資料不存在', 404);
+    }
+
+    const tenantId = profile.user.tenantId;
+    const [tiers, config, changes] = await Promise.all([
+      this.getTiers(tenantId),
+      loyaltyService.getConfig(tenantId),
+      prisma.loyaltyTierChange.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+    const qualifyingSpend = await this.getQualifyingSpend(userId, profile.totalSpent, config.tierWindowMonths, now);
+    const current = tiers.find(tier => tier.code === profile.loyaltyTier) ?? tiers[0];
+    const next = tiers.find(tier => tier.minSpend > current.minSpend) ?? null;
+
+    return {
+      tier: current,
+      qualifyingSpend,
+      windowMonths: config.tierWindowMonths,
+      nextTier: next ? {
+        ...next,
+        remainingSpend: roundAmount(Math.max(0, next.minSpend - qualifyingSpend)),
+      } : null,
+      tiers,
+      changes,
+    };
+  }
+
+  /**
+   * 依統計期間內的消費重新評估顧客等級，有變動時更新並記錄待通知的異動
+   */
+  async evaluateCustomer(userId: string, options: TierEvaluationOptions = {}): Promise<LoyaltyTierChange | null> {
+    const { now = new Date(), allowDowngrade = true } = options;
+
+    const profile = await prisma.customerProfile.findUnique({
+      where: { userId },
+      include: { user: { select: { tenantId: true } } },
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const tenantId = profile.user.tenantId;
+    const [tiers, config] = await Promise.all([
+      this.getTiers(tenantId),
+      loyaltyService.getConfig(tenantId),
+    ]);
+
+    return await this.applyTier(profile, tiers, config.tierWindowMonths, now, allowDowngrade);
+  }
+
+  /**
+   * 重新評估所有會員的等級（排程使用），回傳有變動的紀錄
+   */
+  async evaluateAll(now: Date = new Date()): Promise<LoyaltyTierChange[]> {
+    const profiles = await prisma.customerProfile.findMany({
+      include: { user: { select: { tenantId: true } } },
+    });
+
+    // 同租戶的設定只查詢一次
+    const settings = new Map<string, { tiers: LoyaltyTierSettings[]; windowMonths: number | null }>();
+    const changes: LoyaltyTierChange[] = [];
+
+    for (const profile of profiles) {
+      const tenantId = profile.user.tenantId;
+      if (!settings.has(tenantId)) {
+        const [tiers, config] = await Promise.all([
+          this.getTiers(tenantId),
+          loyaltyService.getConfig(tenantId),
+        ]);
+        settings.set(tenantId, { tiers, windowMonths: config.tierWindowMonths });
+      }
+
+      const { tiers, windowMonths } = settings.get(tenantId)!;
+      const change = await this.applyTier(profile, tiers, windowMonths, now, true);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    if (changes.length > 0) {
+      logger.info(`會員等級評估: ${changes.length}位會員等級變動`);
+    }
+
+    return changes;
+  }
+
+  /**
+   * 發放當月壽星的生日禮點數，每年只發放一次
+   */
+  async grantBirthdayGifts(now: Date = new Date()): Promise<number> {
+    const profiles = await prisma.customerProfile.findMany({
+      where: {
+        birthday: { not: null },
+        OR: [{ birthdayGiftYear: null }, { birthdayGiftYear: { lt: now.getFullYear() } }],
+      },
+      include: { user: { select: { tenantId: true } } },
+    });
+
+    const tiersByTenant = new Map<string, LoyaltyTierSettings[]>();
+    let granted = 0;
+
+    for (const profile of profiles) {
+      if (profile.birthday!.getMonth() !== now.getMonth()) {
+        continue;
+      }
+
+      const tenantId = profile.user.tenantId;
+      if (!tiersByTenant.has(tenantId)) {
+        tiersByTenant.set(tenantId, await this.getTiers(tenantId));
+      }
+      const tiers = tiersByTenant.get(tenantId)!;
+      const tier = tiers.find(item => item.code === profile.loyaltyTier) ?? tiers[0];
+      if (tier.birthdayGiftPoints <= 0) {
+        continue;
+      }
+
+      await prisma.$transaction(async (tx) => {
+        // 以發放年份為條件更新，避免重複發放
+        const result = await tx.customerProfile.updateMany({
+          where: { id: profile.id, birthdayGiftYear: profile.birthdayGiftYear },
+          data: { birthdayGiftYear: now.getFullYear() },
+        });
+        if (result.count === 0) {
+          return;
+        }
+
+        await loyaltyService.grantPoints(
+          tx,
+          profile.userId,
+          tenantId,
+          tier.birthdayGiftPoints,
+          'BIRTHDAY_GIFT',
+          `${tier.name}生日禮`,
+          now
+        );
+        granted += 1;
+      });
+    }
+
+    if (granted > 0) {
+      logger.info(`會員生日禮: 發放${granted}位會員`);
+    }
+
+    return granted;
+  }
+
+  /**
+   * 獲取尚未通知顧客的等級異動，附上等級名稱及升降級
+   */
+  async getPendingChanges(): Promise<TierChangeNotification[]> {
+    const changes = await prisma.loyaltyTierChange.findMany({
+      where: { notifiedAt: null },
+      include: { user: { select: { tenantId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const tiersByTenant = new Map<string, LoyaltyTierSettings[]>();
+    const notifications: TierChangeNotification[] = [];
+
+    for (const { user, ...change } of changes) {
+      if (!tiersByTenant.has(user.tenantId)) {
+        tiersByTenant.set(user.tenantId, await this.getTiers(user.tenantId));
+      }
+      const tiers = tiersByTenant.get(user.tenantId)!;
+      const from = tiers.find(tier => tier.code === change.fromTier);
+      const to = tiers.find(tier => tier.code === change.toTier);
+
+      notifications.push({
+        ...change,
+        fromName: from?.name ?? change.fromTier,
+        toName: to?.name ?? change.toTier,
+        upgraded: (to?.minSpend ?? 0) > (from?.minSpend ?? 0),
+      });
+    }
+
+    return notifications;
+  }
+
+  /**
+   * 標記等級異動已通知
+   */
+  async markNotified(changeIds: string[], now: Date = new Date()): Promise<void> {
+    await prisma.loyaltyTierChange.updateMany({
+      where: { id: { in: changeIds } },
+      data: { notifiedAt: now },
+    });
+  }
+
+  /**
+   * 找出消費金額符合的最高等級
+   */
+  resolveTier(tiers: LoyaltyTierSettings[], spend: number): LoyaltyTierSettings {
+    return tiers.reduce((matched, tier) => (spend >= tier.minSpend ? tier : matched), tiers[0]);
+  }
+
+  /**
+   * 計算等級的統計消費，未設定期間時使用累計消費
+   */
+  private async getQualifyingSpend(
+    userId: string,
+    totalSpent: number,
+    windowMonths: number | null,
+    now: Date
+  ): Promise<number> {
+    if (!windowMonths) {
+      return totalSpent;
+    }
+
+    const since = new Date(now);
+    since.setMonth(since.getMonth() - windowMonths);
+
+    const result = await prisma.order.aggregate({
+      where: {
+        customerId: userId,
+        status: 'COMPLETED',
+        createdAt: { gte: since, lte: now },
+      },
+      _sum: { finalAmount: true },
+    });
+
+    return roundAmount(result._sum.finalAmount ?? 0);
+  }
+
+  private async applyTier(
+    profile: { id: string; userId: string; loyaltyTier: string; totalSpent: number },
+    tiers: LoyaltyTierSettings[],
+    windowMonths: number | null,
+    now: Date,
+    allowDowngrade: boolean
+  ): Promise<LoyaltyTierChange | null> {
+    const qualifyingSpend = await this.getQualifyingSpend(profile.userId, profile.totalSpent, windowMonths, now);
+    const target = this.resolveTier(tiers, qualifyingSpend);
+    const currentIndex = tiers.findIndex(tier => tier.code === profile.loyaltyTier);
+    const targetIndex = tiers.indexOf(target);
+
+    if (target.code === profile.loyaltyTier || (!allowDowngrade && targetIndex < currentIndex)) {
+      return null;
+    }
+
+    const change = await prisma.$transaction(async (tx) => {
+      await tx.customerProfile.update({
+        where: { id: profile.id },
+        data: {
+          loyaltyTier: target.code,
+          tierUpdatedAt: now,
+        },
+      });
+
+      return await tx.loyaltyTierChange.create({
+        data: {
+          userId: profile.userId,
+          fromTier: profile.loyaltyTier,
+          toTier: target.code,
+          qualifyingSpend,
+        },
+      });
+    });
+
+    logger.info(`會員等級變動: ${profile.userId} ${profile.loyaltyTier} -> ${target.code}`);
+
+    return change;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,431 @@
+import { PrismaClient, Prisma, AvailabilitySchedule, PriceRule } from '@prisma/client';
+import AppError from '../utils/AppError';
+import { getZonedClock } from '../utils/businessDay';
+
+const prisma = new PrismaClient();
+
+export const PRICE_ADJUSTMENT_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT', 'FIXED_PRICE'];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface TimeWindowInput {
+  daysOfWeek?: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+export interface PriceRuleInput extends TimeWindowInput {
+  name: string;
+  categoryId?: string | null;
+  productId?: string | null;
+  adjustmentType: string;
+  value: number;
+  priority?: number;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  isActive?: boolean;
+}
+
+/**
+ * 某一時間點的菜單狀態，同一張訂單的所有項目共用
+ */
+export interface MenuContext {
+  at: Date;
+  closedCategoryIds: Set<string>;
+  closedProductIds: Set<string>;
+  priceRules: PriceRule[]; // 目前生效中的價格規則
+}
+
+export interface AppliedPriceRule {
+  priceRuleId: string;
+  priceRuleName: string;
+  originalPrice: number;
+  price: number;
+  discount: number; // 每份折抵金額
+}
+
+interface MenuProduct {
+  id: string;
+  categoryId: string;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const parseMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value, 10));
+  return hours * 60 + minutes;
+};
+
+const parseDays = (daysOfWeek: string): number[] => {
+  return daysOfWeek.split(',').filter(Boolean).map(day => parseInt(day, 10));
+};
+
+/**
+ * 判斷時間是否落在時段內，結束時間早於開始時間時視為跨夜
+ */
+const matchesWindow = (
+  window: { daysOfWeek: string; startTime: string | null; endTime: string | null },
+  weekday: number,
+  minutes: number
+): boolean => {
+  if (!parseDays(window.daysOfWeek).includes(weekday)) {
+    return false;
+  }
+
+  if (!window.startTime || !window.endTime) {
+    return true;
+  }
+
+  const start = parseMinutes(window.startTime);
+  const end = parseMinutes(window.endTime);
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+export class MenuScheduleService {
+  /**
+   * 計算指定時間的菜單狀態
+   * 分類或商品設有供應時段時，需符合其中任一時段才供應；兩者皆設定時需同時符合
+   */
+  async getContext(storeId: string, at: Date = new Date(), client: Prisma.TransactionClient = prisma): Promise<MenuContext> {
+    const store = await client.store.findUnique({
+      where: { id: storeId },
+      select: { timezone: true },
+    });
+
+    if (!store) {
+      throw new AppError('店鋪不存在', 404);
+    }
+
+    const { weekday, minutes } = getZonedClock(at, store.timezone);
+
+    const [schedules, priceRules] = await Promise.all([
+      client.availabilitySchedule.findMany({
+        where: { storeId },
+      }),
+      client.priceRule.findMany({
+        where: {
+          storeId,
+          isActive: true,
+          AND: [
+            { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+            { OR: [{ validUntil: null }, { validUntil: { gte: at } }] },
+          ],
+        },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    const openTargets = new Set<string>();
+    const scheduledTargets = new Set<string>();
+
+    for (const schedule of schedules) {
+      const target = schedule.productId ? `product:${schedule.productId}` : `category:${schedule.categoryId}`;
+      scheduledTargets.add(target);
+      if (matchesWindow(schedule, weekday, minutes)) {
+        openTargets.add(target);
+      }
+    }
+
+    const closedCategoryIds = new Set<string>();
+    const closedProductIds = new Set<string>();
+    for (const target of scheduledTargets) {
+      if (openTargets.has(target)) {
+        continue;
+      }
+
+      const [type, id] = target.split(':');
+      (type === 'product' ? closedProductIds : closedCategoryIds).add(id);
+    }
+
+    return {
+      at,
+      closedCategoryIds,
+      closedProductIds,
+      priceRules: priceRules.filter(rule => matchesWindow(rule, weekday, minutes)),
+    };
+  }
+
+  /**
+   * 商品目前是否在供應時段內（不含手動上下架狀態）
+   */
+  isAvailable(context: MenuContext, product: MenuProduct): boolean {
+    return !context.closedProductIds.has(product.id) && !context.closedCategoryIds.has(product.categoryId);
+  }
+
+  /**
+   * 查詢條件：排除目前不在供應時段的商品
+   */
+  availableWhere(context: MenuContext): Prisma.ProductWhereInput {
+    return {
+      NOT: [
+        { id: { in: [...context.closedProductIds] } },
+        { categoryId: { in: [...context.closedCategoryIds] } },
+      ],
+    };
+  }
+
+  /**
+   * 套用目前生效的價格規則
+   * 僅調整商品（或規格）本身的價格，加購、選項及套餐升級價不受影響
+   */
+  applyPriceRule(context: MenuContext, product: MenuProduct, price: number): AppliedPriceRule | null {
+    const candidates = context.priceRules.filter(rule =>
+      rule.productId
+        ? rule.productId === product.id
+        : rule.categoryId
+          ? rule.categoryId === product.categoryId
+          : true
+    );
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const topPriority = candidates[0].priority;
+    let applied: AppliedPriceRule | null = null;
+
+    for (const rule of candidates.filter(candidate => candidate.priority === topPriority)) {
+      const adjusted = this.adjustPrice(rule, price);
+      if (adjusted < price && (!applied || adjusted < applied.price)) {
+        applied = {
+          priceRuleId: rule.id,
+          priceRuleName: rule.name,
+          originalPrice: price,
+          price: adjusted,
+          discount: roundAmount(price - adjusted),
+        };
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * 在商品資料中加上目前的供應狀態及時段價格，供菜單列表顯示
+   */
+  decorateProduct<T extends MenuProduct & { basePrice: number; variants?: Array<{ price: number }> }>(
+    context: MenuContext,
+    product: T
+  ) {
+    const basePriceRule = this.applyPriceRule(context, product, product.basePrice);
+
+    return {
+      ...product,
+      isAvailableNow: this.isAvailable(context, product),
+      currentPrice: basePriceRule ? basePriceRule.price : product.basePrice,
+      priceRule: basePriceRule ? { id: basePriceRule.priceRuleId, name: basePriceRule.priceRuleName } : null,
+      variants: product.variants?.map(variant => {
+        const variantRule = this.applyPriceRule(context, product, variant.price);
+        return { ...variant, currentPrice: variantRule ? variantRule.price : variant.price };
+      }),
+    };
+  }
+
+  /**
+   * 獲取分類或商品的供應時段
+   */
+  async getSchedules(target: { categoryId: string } | { productId: string }) {
+    const schedules = await prisma.availabilitySchedule.findMany({
+      where: target,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return schedules.map(schedule => this.formatWindow(schedule));
+  }
+
+  /**
+   * 覆寫分類或商品的供應時段，傳入空陣列表示全天供應
+   */
+  async replaceSchedules(
+    storeId: string,
+    target: { categoryId: string } | { productId: string },
+    windows: TimeWindowInput[]
+  ) {
+    const data = windows.map(window => this.normalizeWindow(window));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.availabilitySchedule.deleteMany({ where: target });
+
+      for (const window of data) {
+        await tx.availabilitySchedule.create({
+          data: { storeId, ...target, ...window },
+        });
+      }
+    });
+
+    return await this.getSchedules(target);
+  }
+
+  /**
+   * 獲取店鋪的價格規則
+   */
+  async listPriceRules(storeId: string) {
+    const rules = await prisma.priceRule.findMany({
+      where: { storeId },
+      include: {
+        category: { select: { id: true, name: true } },
+        product: { select: { id: true, name: true } },
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.map(rule => this.formatWindow(rule));
+  }
+
+  /**
+   * 建立價格規則
+   */
+  async createPriceRule(storeId: string, input: PriceRuleInput) {
+    await this.validatePriceRule(storeId, input);
+
+    const rule = await prisma.priceRule.create({
+      data: {
+        storeId,
+        name: input.name,
+        categoryId: input.productId ? null : input.categoryId || null,
+        productId: input.productId || null,
+        adjustmentType: input.adjustmentType,
+        value: input.value,
+        priority: input.priority ?? 0,
+        validFrom: input.validFrom || null,
+        validUntil: input.validUntil || null,
+        isActive: input.isActive ?? true,
+        ...this.normalizeWindow(input),
+      },
+    });
+
+    return this.formatWindow(rule);
+  }
+
+  /**
+   * 更新價格規則（整筆覆寫）
+   */
+  async updatePriceRule(ruleId: string, input: PriceRuleInput) {
+    const existing = await prisma.priceRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!existing) {
+      throw new AppError('價格規則不存在', 404);
+    }
+
+    await this.validatePriceRule(existing.storeId, input);
+
+    const rule = await prisma.priceRule.update({
+      where: { id: ruleId },
+      data: {
+        name: input.name,
+        categoryId: input.productId ? null : input.categoryId || null,
+        productId: input.productId || null,
+        adjustmentType: input.adjustmentType,
+        value: input.value,
+        priority: input.priority ?? 0,
+        validFrom: input.validFrom || null,
+        validUntil: input.validUntil || null,
+        isActive: input.isActive ?? true,
+        ...this.normalizeWindow(input),
+      },
+    });
+
+    return this.formatWindow(rule);
+  }
+
+  /**
+   * 刪除價格規則，歷史訂單保留規則名稱及折抵金額
+   */
+  async deletePriceRule(ruleId: string) {
+    await prisma.priceRule.delete({
+      where: { id: ruleId },
+    });
+  }
+
+  private adjustPrice(rule: PriceRule, price: number): number {
+    switch (rule.adjustmentType) {
+      case 'PERCENTAGE':
+        return roundAmount(price * (1 - rule.value / 100));
+      case 'FIXED_AMOUNT':
+        return roundAmount(Math.max(0, price - rule.value));
+      case 'FIXED_PRICE':
+        return rule.value;
+      default:
+        return price;
+    }
+  }
+
+  /**
+   * 檢查價格規則設定，套用對象必須屬於同一店鋪
+   */
+  private async validatePriceRule(storeId: string, input: PriceRuleInput): Promise<void> {
+    if (!PRICE_ADJUSTMENT_TYPES.includes(input.adjustmentType)) {
+      throw new AppError(`價格調整類型無效: ${input.adjustmentType}`, 400);
+    }
+
+    if (input.value < 0 || (input.adjustmentType === 'PERCENTAGE' && input.value > 100)) {
+      throw new AppError('價格調整數值無效', 400);
+    }
+
+    if (input.validFrom && input.validUntil && input.validFrom >= input.validUntil) {
+      throw new AppError('規則結束時間必須晚於開始時間', 400);
+    }
+
+    if (input.productId) {
+      const product = await prisma.product.findFirst({
+        where: { id: input.productId, storeId },
+      });
+      if (!product) {
+        throw new AppError('商品不存在', 404);
+      }
+    } else if (input.categoryId) {
+      const category = await prisma.category.findFirst({
+        where: { id: input.categoryId, storeId },
+      });
+      if (!category) {
+        throw new AppError('分類不存在', 404);
+      }
+    }
+  }
+
+  /**
+   * 驗證時段設定並轉為資料庫格式
+   */
+  private normalizeWindow(window: TimeWindowInput): { daysOfWeek: string; startTime: string | null; endTime: string | null } {
+    const days = window.daysOfWeek && window.daysOfWeek.length > 0 ? window.daysOfWeek : ALL_DAYS;
+
+    if (days.some(day => !ALL_DAYS.includes(day))) {
+      throw new AppError('星期設定無效，必須是0(星期日)到6(星期六)', 400);
+    }
+
+    const startTime = window.startTime || null;
+    const endTime = window.endTime || null;
+
+    if (!startTime !== !endTime) {
+      throw new AppError('開始與結束時間必須同時設定', 400);
+    }
+
+    if (startTime && endTime) {
+      if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+        throw new AppError('時間格式必須是HH:mm', 400);
+      }
+      if (startTime === endTime) {
+        throw new AppError('開始與結束時間不能相同', 400);
+      }
+    }
+
+    return {
+      daysOfWeek: [...new Set(days)].sort((a, b) => a - b).join(','),
+      startTime,
+      endTime,
+    };
+  }
+
+  private formatWindow<T extends AvailabilitySchedule | PriceRule>(window: T) {
+    return {
+      ...window,
+      daysOfWeek: parseDays(window.daysOfWeek),
+    };
+  }
+}
\ No newline at end of file
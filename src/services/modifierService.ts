@@ -0,0 +1,105 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export interface ModifierGroupInput {
+  name: string;
+  minSelect: number;
+  maxSelect: number;
+  options: Array<{
+    name: string;
+    priceDelta?: number;
+    isDefault?: boolean;
+    isAvailable?: boolean;
+  }>;
+}
+
+export class ModifierService {
+  /**
+   * 覆寫商品的選項群組
+   * 歷史訂單保存選項名稱與價差，刪除選項不影響既有訂單
+   */
+  async replaceProductModifierGroups(productId: string, groups: ModifierGroupInput[]) {
+    for (const group of groups) {
+      this.validateGroup(group);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.modifierGroup.deleteMany({
+        where: { productId },
+      });
+
+      for (const [groupIndex, group] of groups.entries()) {
+        await tx.modifierGroup.create({
+          data: {
+            productId,
+            name: group.name,
+            minSelect: group.minSelect,
+            maxSelect: group.maxSelect,
+            sortOrder: groupIndex,
+            options: {
+              create: group.options.map((option, optionIndex) => ({
+                name: option.name,
+                priceDelta: option.priceDelta || 0,
+                isDefault: option.isDefault || false,
+                isAvailable: option.isAvailable ?? true,
+                sortOrder: optionIndex,
+              })),
+            },
+          },
+        });
+      }
+
+      return await this.getProductModifierGroups(productId, tx);
+    });
+  }
+
+  /**
+   * 更新單一選項的供應狀態（如某辣度暫停供應）
+   */
+  async setOptionAvailability(optionId: string, isAvailable: boolean) {
+    return await prisma.modifierOption.update({
+      where: { id: optionId },
+      data: { isAvailable },
+    });
+  }
+
+  /**
+   * 獲取商品的選項群組
+   */
+  async getProductModifierGroups(productId: string, client: Prisma.TransactionClient = prisma) {
+    return await client.modifierGroup.findMany({
+      where: { productId },
+      include: {
+        options: {
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+      orderBy: { sortOrder: 'asc' },
+    });
+  }
+
+  /**
+   * 檢查群組的選擇數量設定是否合理
+   */
+  private validateGroup(group: ModifierGroupInput): void {
+    if (group.minSelect < 0 || group.maxSelect < 1 || group.minSelect > group.maxSelect) {
+      throw new AppError(`選項群組數量設定無效: ${group.name}`, 400);
+    }
+
+    if (group.options.length < group.minSelect) {
+      throw new AppError(`選項群組的選項數量不足: ${group.name}`, 400);
+    }
+
+    const defaults = group.options.filter(option => option.isDefault);
+    if (defaults.length > group.maxSelect) {
+      throw new AppError(`預設選項數量超過上限: ${group.name}`, 400);
+    }
+
+    const names = group.options.map(option => option.name);
+    if (new Set(names).size !== names.length) {
+      throw new AppError(`選項名稱重複: ${group.name}`, 400);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,656 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+import { OrderService, OrderItem } from './orderService';
+import { InventoryService, InventoryRequirement } from './inventoryService';
+import { KitchenService } from './kitchenService';
+import { ScheduleService } from './scheduleService';
+import { LinePayService } from './linePayService';
+import { PromotionService, PromotionItem, AppliedPromotion } from './promotionService';
+
+const prisma = new PrismaClient();
+const orderService = new OrderService();
+const inventoryService = new InventoryService();
+const kitchenService = new KitchenService();
+const scheduleService = new ScheduleService();
+const promotionService = new PromotionService();
+
+export const EDITABLE_ORDER_STATUSES = ['PENDING', 'CONFIRMED'];
+
+export interface OrderEditRequest {
+  add?: any[]; // 與建立訂單相同的項目格式
+  update?: Array<{
+    orderItemId: string;
+    quantity?: number;
+    note?: string;
+    modifiers?: Array<{ optionId: string }>;
+    comboSelections?: Array<{ slotId: string; choiceId: string }>;
+  }>;
+  remove?: string[];
+  reason?: string;
+}
+
+export interface OrderItemChangeEntry {
+  action: 'ADD' | 'UPDATE' | 'REMOVE';
+  orderItemId: string;
+  productName: string;
+  before: ItemSnapshot | null;
+  after: ItemSnapshot | null;
+  amountDelta: number;
+}
+
+export interface OrderSettlement {
+  paidAmount: number;
+  balance: number; // 正數為需補收，負數為需退款
+  payment: { id: string; amount: number; method: string; status: string } | null;
+}
+
+interface ItemSnapshot {
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  note?: string | null;
+  modifiers: string[];
+  components: string[];
+}
+
+const editableOrderInclude = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+      addons: true,
+      modifiers: true,
+      components: {
+        include: { product: { select: { name: true } } },
+      },
+    },
+  },
+  payments: true,
+  promotions: true,
+} satisfies Prisma.OrderInclude;
+
+type EditableOrder = Prisma.OrderGetPayload<{ include: typeof editableOrderInclude }>;
+type EditableOrderItem = EditableOrder['items'][number];
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class OrderEditService {
+  /**
+   * 修改已成立的訂單（新增、刪除、修改數量或選項）
+   * 重新計價並驗證優惠券、依差異調整庫存、記錄異動、重新派送廚房並結算差額
+   */
+  async editOrder(orderId: string, request: OrderEditRequest, userId: string) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: editableOrderInclude,
+    });
+
+    if (!order) {
+      throw new AppError('訂單不存在', 404);
+    }
+
+    if (!EDITABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new AppError('只有待確認或已確認的訂單可以修改', 400);
+    }
+
+    const additions = request.add || [];
+    const updates = request.update || [];
+    const removals = request.remove || [];
+
+    if (additions.length + updates.length + removals.length === 0) {
+      throw new AppError('未提供任何修改內容', 400);
+    }
+
+    const itemMap = new Map(order.items.map(item => [item.id, item]));
+    const touchedIds = [...updates.map(update => update.orderItemId), ...removals];
+
+    for (const itemId of touchedIds) {
+      if (!itemMap.has(itemId)) {
+        throw new AppError(`訂單項目不存在: ${itemId}`, 404);
+      }
+    }
+
+    if (new Set(touchedIds).size !== touchedIds.length) {
+      throw new AppError('同一訂單項目不能重複修改', 400);
+    }
+
+    // 重新計價（庫存由調整差異時檢查）
+    // 新增項目以現在時間判斷供應時段及時段價格，修改的項目沿用下單時間；預約訂單皆以取餐時間計算
+    const addedItems = await orderService.validateOrderItems(additions, order.storeId, {
+      checkStock: false,
+      pricedAt: order.scheduledFor ?? new Date(),
+      branchId: order.branchId,
+    });
+    const updatedItems = updates.length > 0
+      ? await orderService.validateOrderItems(
+        await Promise.all(updates.map(update => this.rebuildItem(itemMap.get(update.orderItemId)!, update))),
+        order.storeId,
+        { checkStock: false, pricedAt: order.scheduledFor ?? order.createdAt, branchId: order.branchId }
+      )
+      : [];
+
+    const keptItems = order.items.filter(item => !touchedIds.includes(item.id));
+    if (keptItems.length + updatedItems.length + addedItems.length === 0) {
+      throw new AppError('訂單至少需保留一項商品，如需取消請使用取消訂單', 400);
+    }
+
+    const totalAmount = roundAmount(
+      keptItems.reduce((sum, item) => sum + item.totalPrice, 0) +
+      updatedItems.reduce((sum, item) => sum + item.totalPrice, 0) +
+      addedItems.reduce((sum, item) => sum + item.totalPrice, 0)
+    );
+
+    const { discountAmount, promotions } = await this.recalculateDiscount(
+      order,
+      [...keptItems, ...updatedItems, ...addedItems],
+      totalAmount
+    );
+    // 保留原訂單的其他費用（如外送費）
+    const feeAmount = roundAmount(order.finalAmount - order.totalAmount + order.discountAmount);
+    const finalAmount = roundAmount(totalAmount - discountAmount + feeAmount);
+
+    const productNames = await this.getProductNames(
+      [...updatedItems, ...addedItems].flatMap(item => [
+        item.productId,
+        ...(item.components || []).map(component => component.productId),
+      ])
+    );
+
+    const result = await prisma.$transaction(async (tx) => {
+      // 交易內以狀態為條件鎖定訂單，避免覆蓋同時進行的取消或廚房狀態變更
+      const locked = await tx.order.updateMany({
+        where: { id: orderId, status: { in: EDITABLE_ORDER_STATUSES } },
+        data: { updatedAt: new Date() },
+      });
+
+      if (locked.count === 0) {
+        throw new AppError('訂單狀態已變更，無法修改', 409);
+      }
+
+      const changes: OrderItemChangeEntry[] = [];
+
+      // 依修改前後的項目差異調整庫存
+      await inventoryService.adjustForOrder(
+        tx,
+        orderId,
+        order.items.filter(item => touchedIds.includes(item.id)).map(item => this.toRequirement(item)),
+        [...updatedItems, ...addedItems],
+        `訂單修改: ${order.orderNumber}`,
+        userId
+      );
+
+      // 預約訂單依份數差異調整時段計數器，增加份數時不得超過時段上限
+      if (order.scheduledFor) {
+        const itemCountDelta =
+          [...updatedItems, ...addedItems].reduce((sum, item) => sum + item.quantity, 0) -
+          order.items.filter(item => touchedIds.includes(item.id)).reduce((sum, item) => sum + item.quantity, 0);
+
+        await scheduleService.adjustSlotItems(tx, order.storeId, order.scheduledFor, itemCountDelta);
+      }
+
+      // 移除廚房中被修改或刪除項目的製作項目，稍後重新派送
+      const affectedStationIds = await kitchenService.removeTicketItems(tx, touchedIds);
+
+      for (const itemId of removals) {
+        const item = itemMap.get(itemId)!;
+
+        await tx.orderItemModifier.deleteMany({ where: { orderItemId: itemId } });
+        await tx.orderItemComponent.deleteMany({ where: { orderItemId: itemId } });
+        await tx.orderItemAddon.deleteMany({ where: { orderItemId: itemId } });
+        await tx.paymentItem.deleteMany({ where: { orderItemId: itemId } });
+        await tx.orderItem.delete({ where: { id: itemId } });
+
+        changes.push({
+          action: 'REMOVE',
+          orderItemId: itemId,
+          productName: item.product.name,
+          before: this.snapshotExisting(item),
+          after: null,
+          amountDelta: -item.totalPrice,
+        });
+      }
+
+      for (const [index, update] of updates.entries()) {
+        const item = itemMap.get(update.orderItemId)!;
+        const validated = updatedItems[index];
+
+        await tx.orderItemModifier.deleteMany({ where: { orderItemId: item.id } });
+        await tx.orderItemComponent.deleteMany({ where: { orderItemId: item.id } });
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: {
+            quantity: validated.quantity,
+            unitPrice: validated.unitPrice,
+            totalPrice: validated.totalPrice,
+            note: validated.note,
+            priceRuleId: validated.priceRuleId ?? null,
+            priceRuleName: validated.priceRuleName ?? null,
+            priceRuleDiscount: validated.priceRuleDiscount ?? 0,
+            modifiers: validated.modifiers?.length ? {
+              create: validated.modifiers.map(modifier => ({
+                optionId: modifier.optionId,
+                groupName: modifier.groupName,
+                optionName: modifier.optionName,
+                priceDelta: modifier.priceDelta,
+              })),
+            } : undefined,
+            components: validated.components?.length ? {
+              create: validated.components.map(component => ({
+                slotName: component.slotName,
+                productId: component.productId,
+                variantId: component.variantId,
+                quantity: component.quantity,
+                upcharge: component.upcharge,
+              })),
+            } : undefined,
+          },
+        });
+
+        changes.push({
+          action: 'UPDATE',
+          orderItemId: item.id,
+          productName: item.product.name,
+          before: this.snapshotExisting(item),
+          after: this.snapshotValidated(validated, productNames),
+          amountDelta: roundAmount(validated.totalPrice - item.totalPrice),
+        });
+      }
+
+      const addedIds: string[] = [];
+      for (const item of addedItems) {
+        const created = await tx.orderItem.create({
+          data: {
+            orderId,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            totalPrice: item.totalPrice,
+            note: item.note,
+            priceRuleId: item.priceRuleId,
+            priceRuleName: item.priceRuleName,
+            priceRuleDiscount: item.priceRuleDiscount,
+            addons: item.addons?.length ? {
+              create: item.addons.map(addon => ({
+                addonId: addon.addonId,
+                quantity: addon.quantity,
+                price: addon.price,
+              })),
+            } : undefined,
+            modifiers: item.modifiers?.length ? {
+              create: item.modifiers.map(modifier => ({
+                optionId: modifier.optionId,
+                groupName: modifier.groupName,
+                optionName: modifier.optionName,
+                priceDelta: modifier.priceDelta,
+              })),
+            } : undefined,
+            components: item.components?.length ? {
+              create: item.components.map(component => ({
+                slotName: component.slotName,
+                productId: component.productId,
+                variantId: component.variantId,
+                quantity: component.quantity,
+                upcharge: component.upcharge,
+              })),
+            } : undefined,
+          },
+        });
+        addedIds.push(created.id);
+
+        changes.push({
+          action: 'ADD',
+          orderItemId: created.id,
+          productName: productNames.get(item.productId) || item.productId,
+          before: null,
+          after: this.snapshotValidated(item, productNames),
+          amountDelta: item.totalPrice,
+        });
+      }
+
+      // 重新派送修改及新增的項目（尚未送廚房的預約訂單於送出時再一併派送）
+      const routedStationIds = order.scheduledFor && !order.releasedAt
+        ? []
+        : await kitchenService.routeOrder(
+          tx,
+          orderId,
+          [...updates.map(update => update.orderItemId), ...addedIds]
+        );
+
+      await tx.orderItemChange.createMany({
+        data: changes.map(change => ({
+          orderId,
+          orderItemId: change.orderItemId,
+          action: change.action,
+          productName: change.productName,
+          before: change.before ? JSON.stringify(change.before) : null,
+          after: change.after ? JSON.stringify(change.after) : null,
+          amountDelta: change.amountDelta,
+          reason: request.reason,
+          createdBy: userId,
+        })),
+      });
+
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          totalAmount,
+          discountAmount,
+          finalAmount,
+          updatedAt: new Date(),
+        },
+      });
+
+      await tx.orderPromotion.deleteMany({
+        where: { orderId },
+      });
+      await tx.orderPromotion.createMany({
+        data: promotions.map(promotion => ({
+          orderId,
+          promotionId: promotion.promotionId,
+          name: promotion.name,
+          discountAmount: promotion.discountAmount,
+        })),
+      });
+
+      const settlement = await this.settlePayments(tx, order, finalAmount);
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          status: order.status,
+          note: `訂單已修改: ${this.summarizeChanges(changes)}${request.reason ? ` (${request.reason})` : ''}`,
+          createdBy: userId,
+        },
+      });
+
+      return {
+        changes,
+        settlement,
+        stationIds: [...new Set([...affectedStationIds, ...routedStationIds])],
+      };
+    });
+
+    if (result.settlement.payment && result.settlement.balance < 0) {
+      await this.processRefund(result.settlement.payment.id);
+    }
+
+    logger.info(`訂單修改: ${order.orderNumber} ${this.summarizeChanges(result.changes)}，差額: ${result.settlement.balance}`);
+
+    return {
+      order: await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: editableOrderInclude,
+      }),
+      ...result,
+    };
+  }
+
+  /**
+   * 獲取訂單項目異動紀錄
+   */
+  async getItemChanges(orderId: string) {
+    const changes = await prisma.orderItemChange.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return changes.map(change => ({
+      ...change,
+      before: change.before ? JSON.parse(change.before) : null,
+      after: change.after ? JSON.parse(change.after) : null,
+    }));
+  }
+
+  /**
+   * 依修改內容重建項目，交由 validateOrderItems 重新計價
+   * 未指定的選項及套餐內容沿用原本的選擇
+   */
+  private async rebuildItem(item: EditableOrderItem, update: NonNullable<OrderEditRequest['update']>[number]) {
+    return {
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      quantity: update.quantity ?? item.quantity,
+      note: update.note !== undefined ? update.note : item.note || undefined,
+      addons: item.addons.map(addon => ({
+        addonId: addon.addonId,
+        quantity: addon.quantity,
+      })),
+      modifiers: update.modifiers ?? item.modifiers
+        .filter(modifier => modifier.optionId)
+        .map(modifier => ({ optionId: modifier.optionId! })),
+      comboSelections: update.comboSelections ?? await this.rebuildComboSelections(item),
+    };
+  }
+
+  /**
+   * 由訂單中的套餐內容找回對應的欄位選項
+   */
+  private async rebuildComboSelections(item: EditableOrderItem) {
+    if (item.components.length === 0) {
+      return [];
+    }
+
+    const slots = await prisma.comboSlot.findMany({
+      where: { productId: item.productId },
+      include: { choices: true },
+    });
+
+    const selections: Array<{ slotId: string; choiceId: string }> = [];
+    for (const component of item.components) {
+      const slot = slots.find(s => s.name === component.slotName);
+      const choice = slot?.choices.find(
+        c => c.productId === component.productId && (c.variantId || null) === (component.variantId || null)
+      );
+
+      if (slot && choice) {
+        selections.push({ slotId: slot.id, choiceId: choice.id });
+      }
+    }
+
+    return selections;
+  }
+
+  /**
+   * 依修改後的項目重新套用促銷，並重新驗證優惠券計算折扣
+   * 優惠券的使用次數已在下單時計算，此處只檢查最低消費金額；會員折扣及積分折抵金額不變
+   */
+  private async recalculateDiscount(
+    order: EditableOrder,
+    items: PromotionItem[],
+    totalAmount: number
+  ): Promise<{ discountAmount: number; promotions: AppliedPromotion[] }> {
+    const promotion = await promotionService.evaluate(order.storeId, items, {
+      at: order.scheduledFor ?? order.createdAt,
+      withCoupon: !!order.couponId,
+    });
+    const promotions = promotion.promotions;
+
+    if (!order.couponId) {
+      // 沒有優惠券時，原折扣中扣除促銷的部分視為手動折扣保留
+      const previousPromotionDiscount = order.promotions.reduce((sum, applied) => sum + applied.discountAmount, 0);
+      const manualDiscount = Math.max(0, order.discountAmount - previousPromotionDiscount);
+      return {
+        discountAmount: roundAmount(Math.min(promotion.discountAmount + manualDiscount, totalAmount)),
+        promotions,
+      };
+    }
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id: order.couponId },
+    });
+
+    if (!coupon) {
+      return { discountAmount: Math.min(order.discountAmount, totalAmount), promotions };
+    }
+
+    const amountAfterPromotion = totalAmount - promotion.discountAmount;
+    if (coupon.minOrderAmount && amountAfterPromotion < coupon.minOrderAmount) {
+      throw new AppError(`修改後未達優惠券最低消費金額 ${coupon.minOrderAmount}`, 400);
+    }
+
+    const couponDiscount = orderService.calculateDiscount(coupon, amountAfterPromotion, order.deliveryFee);
+
+    return {
+      discountAmount: roundAmount(Math.min(promotion.discountAmount + couponDiscount + order.tierDiscount + order.pointsDiscount, totalAmount)),
+      promotions,
+    };
+  }
+
+  /**
+   * 依已付款金額結算差額
+   * 尚未完成的請款因金額已變動而作廢；已付款時補收或退還差額
+   */
+  private async settlePayments(
+    tx: Prisma.TransactionClient,
+    order: EditableOrder,
+    finalAmount: number
+  ): Promise<OrderSettlement> {
+    await tx.payment.updateMany({
+      where: {
+        orderId: order.id,
+        status: 'PENDING',
+        amount: { gt: 0 },
+      },
+      data: { status: 'FAILED' },
+    });
+
+    const completed = order.payments.filter(payment => payment.status === 'COMPLETED');
+    const paidAmount = roundAmount(completed.reduce((sum, payment) => sum + payment.amount, 0));
+    const balance = roundAmount(finalAmount - paidAmount);
+
+    if (completed.length === 0 || balance === 0) {
+      return { paidAmount, balance, payment: null };
+    }
+
+    const lastPayment = completed[completed.length - 1];
+    const isCash = lastPayment.method === 'CASH';
+
+    const payment = balance > 0
+      // 補收差額
+      ? await tx.payment.create({
+        data: {
+          orderId: order.id,
+          amount: balance,
+          method: lastPayment.method,
+          status: 'PENDING',
+        },
+      })
+      // 退還差額，現金當場退還，其他方式待退款完成
+      : await tx.payment.create({
+        data: {
+          orderId: order.id,
+          amount: balance,
+          method: lastPayment.method,
+          status: isCash ? 'COMPLETED' : 'PENDING',
+          transactionId: lastPayment.transactionId,
+          paidAt: isCash ? new Date() : null,
+        },
+      });
+
+    if (balance > 0) {
+      await tx.order.update({
+        where: { id: order.id },
+        data: { paymentStatus: 'PENDING' },
+      });
+    }
+
+    return {
+      paidAmount,
+      balance,
+      payment: {
+        id: payment.id,
+        amount: payment.amount,
+        method: payment.method,
+        status: payment.status,
+      },
+    };
+  }
+
+  /**
+   * 向金流退還差額（目前支援LINE Pay），失敗時保留待處理的退款紀錄
+   */
+  private async processRefund(paymentId: string): Promise<void> {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    if (payment.status !== 'PENDING' || payment.method !== 'LINE_PAY' || !payment.transactionId) {
+      return;
+    }
+
+    try {
+      const refundResponse = await new LinePayService().refundPayment(payment.transactionId, -payment.amount);
+      if (!refundResponse.success) {
+        throw new Error(refundResponse.error || '退款請求失敗');
+      }
+
+      await prisma.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: 'COMPLETED',
+          paidAt: new Date(),
+        },
+      });
+    } catch (error) {
+      logger.error(`訂單修改退款失敗，待人工處理: ${payment.orderId}`, error);
+    }
+  }
+
+  private toRequirement(item: EditableOrderItem): InventoryRequirement {
+    return {
+      productId: item.productId,
+      quantity: item.quantity,
+      components: item.components.map(component => ({
+        productId: component.productId,
+        quantity: component.quantity,
+      })),
+    };
+  }
+
+  private snapshotExisting(item: EditableOrderItem): ItemSnapshot {
+    return {
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      note: item.note,
+      modifiers: item.modifiers.map(modifier => `${modifier.groupName}: ${modifier.optionName}`),
+      components: item.components.map(component => `${component.slotName}: ${component.product.name}`),
+    };
+  }
+
+  private snapshotValidated(item: OrderItem, productNames: Map<string, string>): ItemSnapshot {
+    return {
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      note: item.note,
+      modifiers: (item.modifiers || []).map(modifier => `${modifier.groupName}: ${modifier.optionName}`),
+      components: (item.components || []).map(
+        component => `${component.slotName}: ${productNames.get(component.productId) || component.productId}`
+      ),
+    };
+  }
+
+  private async getProductNames(productIds: string[]): Promise<Map<string, string>> {
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true },
+    });
+
+    return new Map(products.map(product => [product.id, product.name]));
+  }
+
+  private summarizeChanges(changes: OrderItemChangeEntry[]): string {
+    const actionText = { ADD: '新增', UPDATE: '修改', REMOVE: '刪除' };
+
+    return changes
+      .map(change => {
+        const quantityText = change.before && change.after && change.before.quantity !== change.after.quantity
+          ? ` ${change.before.quantity}→${change.after.quantity}`
+          : ` x${(change.after || change.before)!.quantity}`;
+        return `${actionText[change.action]}${change.productName}${quantityText}`;
+      })
+      .join('、');
+  }
+}
\ No newline at end of file
@@ -1,9 +1,39 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
+import crypto from 'crypto';
 import logger from '../utils/logger';
 import AppError from '../utils/AppError';
+import { IngredientService } from './ingredientService';
+import { WorkflowService } from './workflowService';
+import { PrepTimeService } from './prepTimeService';
+import { MenuScheduleService } from './menuScheduleService';
+import { BranchMenuService } from './branchMenuService';
+import { DeliveryService, DeliveryQuote, GeoPoint } from './deliveryService';
+import { CouponService } from './couponService';
+import { PromotionService, AppliedPromotion } from './promotionService';
+import { LoyaltyService } from './loyaltyService';
+import { LoyaltyTierService } from './loyaltyTierService';
+import { InventoryService } from './inventoryService';
+import { ScheduleService } from './scheduleService';
+import { getBusinessDate } from '../utils/businessDay';
 
 const prisma = new PrismaClient();
 
+// 訂單號碼的店鋪代碼只用字母，與後面的營業日數字容易區分（排除易混淆的 I/L/O）
+const STORE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const STORE_CODE_LENGTH = 4;
+const ingredientService = new IngredientService();
+const workflowService = new WorkflowService();
+const prepTimeService = new PrepTimeService();
+const menuScheduleService = new MenuScheduleService();
+const branchMenuService = new BranchMenuService();
+const deliveryService = new DeliveryService();
+const couponService = new CouponService();
+const promotionService = new PromotionService();
+const loyaltyService = new LoyaltyService();
+const loyaltyTierService = new LoyaltyTierService();
+const inventoryService = new InventoryService();
+const scheduleService = new ScheduleService();
+
 export interface OrderItem {
   productId: string;
   variantId?: string;
@@ -11,19 +41,80 @@ export interface OrderItem {
   unitPrice: number;
   totalPrice: number;
   note?: string;
+  priceRuleId?: string;
+  priceRuleName?: string;
+  priceRuleDiscount?: number; // 時段價格規則每份折抵金額
   addons?: Array<{
     addonId: string;
     quantity: number;
     price: number;
   }>;
+  modifiers?: Array<{
+    optionId: string;
+    groupName: string;
+    optionName: string;
+    priceDelta: number;
+  }>;
+  components?: Array<{
+    slotName: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    upcharge: number;
+  }>;
+}
+
+export interface OrderQuote {
+  items: Array<OrderItem & { discountAmount: number }>;
+  totalAmount: number;
+  discountAmount: number; // 促銷、優惠券、會員折扣及積分折抵合計
+  promotions: AppliedPromotion[];
+  couponDiscountAmount: number;
+  tierDiscount: number;
+  pointsRedeemed: number;
+  pointsDiscount: number;
+  fees: Array<{
+    type: string;
+    name: string;
+    amount: number;
+  }>;
+  feeAmount: number;
+  finalAmount: number;
+  pointsEarnable: number;
+  estimatedTime: number;
+  coupon: any | null;
+  delivery: DeliveryQuote | null;
+}
+
+export interface ItemValidationOptions {
+  checkStock?: boolean; // false 時略過商品庫存預檢（修改訂單時由 InventoryService 依差異扣減）
+  pricedAt?: Date; // 判斷供應時段及時段價格的時間（預約訂單以取餐時間計算）
+  branchId?: string | null; // 套用分店售價、售完狀態及分店限定商品
+}
+
+export interface QuoteOptions extends Omit<ItemValidationOptions, 'checkStock'> {
+  delivery?: GeoPoint; // 外送訂單的送達位置，用於計算外送費
+  customerId?: string; // 下單顧客，用於檢查優惠券使用資格
+  pointsToRedeem?: number; // 折抵使用的會員積分
+}
+
+export interface OrderNumberAllocation {
+  orderNumber: string;
+  pickupNumber: string;
+  businessDate: string;
+  sequence: number;
 }
 
 export class OrderService {
   /**
    * 驗證訂單項目並計算價格
+   * 價格依序套用分店售價、時段價格規則，再加上加購、選項及套餐升級差價
    */
-  async validateOrderItems(items: any[], storeId: string): Promise<OrderItem[]> {
+  async validateOrderItems(items: any[], storeId: string, options: ItemValidationOptions = {}): Promise<OrderItem[]> {
+    const { checkStock = true, pricedAt = new Date(), branchId } = options;
     const validatedItems: OrderItem[] = [];
+    const menuContext = await menuScheduleService.getContext(storeId, pricedAt);
+    const branchMenu = await branchMenuService.getBranchMenu(storeId, branchId);
 
     for (const item of items) {
       // 查詢商品資訊
@@ -36,20 +127,43 @@ export class OrderService {
         include: {
           variants: true,
           addons: true,
+          modifierGroups: {
+            include: { options: true },
+          },
+          comboSlots: {
+            include: {
+              choices: {
+                include: {
+                  product: {
+                    select: { name: true, isAvailable: true },
+                  },
+                },
+              },
+            },
+            orderBy: { sortOrder: 'asc' },
+          },
           inventory: true,
         },
       });
 
-      if (!product) {
+      if (!product || !branchMenuService.isOffered(branchMenu, product)) {
         throw new AppError(`商品不存在或已下架: ${item.productId}`, 400);
       }
 
+      if (branchMenuService.isSoldOut(branchMenu, product.id)) {
+        throw new AppError(`商品在此分店已售完: ${product.name}`, 400);
+      }
+
+      if (!menuScheduleService.isAvailable(menuContext, product)) {
+        throw new AppError(`商品目前不在供應時段: ${product.name}`, 400);
+      }
+
       // 檢查庫存
-      if (product.inventory && product.inventory.quantity < item.quantity) {
+      if (checkStock && product.inventory && product.inventory.quantity < item.quantity) {
         throw new AppError(`商品庫存不足: ${product.name}`, 400);
       }
 
-      let unitPrice = parseFloat(product.basePrice.toString());
+      let unitPrice = branchMenuService.getPrice(branchMenu, product);
 
       // 處理規格變化
       if (item.variantId) {
@@ -57,7 +171,13 @@ export class OrderService {
         if (!variant) {
           throw new AppError(`商品規格不存在: ${item.variantId}`, 400);
         }
-        unitPrice = parseFloat(variant.price.toString());
+        unitPrice = branchMenuService.getPrice(branchMenu, product, variant);
+      }
+
+      // 套用時段價格規則
+      const priceRule = menuScheduleService.applyPriceRule(menuContext, product, unitPrice);
+      if (priceRule) {
+        unitPrice = priceRule.price;
       }
 
       // 處理加購項目
@@ -90,6 +210,20 @@ export class OrderService {
         }
       }
 
+      // 處理選項群組
+      const validatedModifiers = this.validateModifiers(product, item.modifiers || []);
+      for (const modifier of validatedModifiers) {
+        unitPrice += modifier.priceDelta;
+      }
+
+      // 處理套餐內容，套餐以套餐價計算，僅加收升級差價
+      const validatedComponents = product.isCombo
+        ? this.validateComboSelections(product, item.comboSelections || [])
+        : [];
+      for (const component of validatedComponents) {
+        unitPrice += component.upcharge;
+      }
+
       const totalPrice = unitPrice * item.quantity;
 
       validatedItems.push({
@@ -99,17 +233,281 @@ export class OrderService {
         unitPrice,
         totalPrice,
         note: item.note,
+        priceRuleId: priceRule?.priceRuleId,
+        priceRuleName: priceRule?.priceRuleName,
+        priceRuleDiscount: priceRule?.discount,
         addons: validatedAddons.length > 0 ? validatedAddons : undefined,
+        modifiers: validatedModifiers.length > 0 ? validatedModifiers : undefined,
+        components: validatedComponents.length > 0 ? validatedComponents : undefined,
       });
     }
 
+    // 依配方檢查原料庫存
+    await ingredientService.assertAvailable(validatedItems, storeId);
+
     return validatedItems;
   }
 
   /**
-   * 驗證優惠券
+   * 試算訂單金額（不寫入資料庫）
+   * 建立訂單與報價共用此流程，確保顯示金額與實際扣款一致
+   */
+  async quoteOrder(
+    items: any[],
+    storeId: string,
+    couponCode?: string,
+    options: QuoteOptions = {}
+  ): Promise<OrderQuote> {
+    const validatedItems = await this.validateOrderItems(items, storeId, options);
+    const totalAmount = validatedItems.reduce((sum, item) => sum + item.totalPrice, 0);
+
+    const fees: OrderQuote['fees'] = [];
+    let delivery: DeliveryQuote | null = null;
+    if (options.delivery) {
+      delivery = await deliveryService.quoteDelivery(storeId, options.delivery, totalAmount);
+      fees.push({ type: 'DELIVERY', name: `外送費 (${delivery.zoneName})`, amount: delivery.fee });
+    }
+
+    // 先套用自動促銷，優惠券以促銷後的金額計算折扣
+    const promotion = await promotionService.evaluate(storeId, validatedItems, {
+      at: options.pricedAt,
+      withCoupon: !!couponCode,
+    });
+
+    let couponDiscountAmount = 0;
+    let coupon = null;
+    if (couponCode) {
+      // 最低消費與折扣都以促銷後的金額計算
+      const amountAfterPromotion = totalAmount - promotion.discountAmount;
+      coupon = await this.validateCoupon(couponCode, storeId, amountAfterPromotion, options.customerId);
+      couponDiscountAmount = this.calculateDiscount(coupon, amountAfterPromotion, delivery?.fee ?? 0);
+    }
+
+    // 免運券折抵的是外送費，不分攤到商品項目
+    const couponItemDiscount = coupon?.type === 'FREE_SHIPPING' ? 0 : couponDiscountAmount;
+
+    // 會員等級折扣以扣除促銷及優惠券後的商品金額計算
+    const tier = options.customerId ? await loyaltyTierService.getCustomerTier(options.customerId) : null;
+    const tierDiscount = tier?.discountPercent
+      ? this.calculateTierDiscount(tier.discountPercent, totalAmount - promotion.discountAmount - couponItemDiscount)
+      : 0;
+
+    // 積分最後折抵，上限以扣除其他折扣後的金額計算
+    let pointsDiscount = 0;
+    if (options.pointsToRedeem) {
+      if (!options.customerId) {
+        throw new AppError('使用積分折抵需登入會員', 400);
+      }
+      const redemption = await loyaltyService.quoteRedemption(
+        options.customerId,
+        options.pointsToRedeem,
+        totalAmount - promotion.discountAmount - couponItemDiscount - tierDiscount
+      );
+      pointsDiscount = redemption.discount;
+    }
+
+    const discountAmount = Math.round((promotion.discountAmount + couponDiscountAmount + tierDiscount + pointsDiscount) * 100) / 100;
+    const feeAmount = fees.reduce((sum, fee) => sum + fee.amount, 0);
+    const finalAmount = totalAmount - discountAmount + feeAmount;
+
+    const itemDiscount = couponItemDiscount + tierDiscount + pointsDiscount;
+    const loyaltyConfig = await loyaltyService.getStoreConfig(storeId);
+
+    return {
+      items: this.allocateDiscount(validatedItems, itemDiscount, promotion.itemDiscounts),
+      totalAmount,
+      discountAmount,
+      promotions: promotion.promotions,
+      couponDiscountAmount,
+      tierDiscount,
+      pointsRedeemed: pointsDiscount > 0 ? options.pointsToRedeem! : 0,
+      pointsDiscount,
+      fees,
+      feeAmount,
+      finalAmount,
+      // 積分以商品實付金額計算，不含外送費（免運券折抵的外送費不從商品金額扣除）
+      pointsEarnable: loyaltyService.calculateEarnedPoints(
+        loyaltyConfig,
+        finalAmount - feeAmount + (couponDiscountAmount - couponItemDiscount),
+        tier?.pointsMultiplier
+      ),
+      estimatedTime: await prepTimeService.estimateNewOrder(storeId, validatedItems),
+      coupon,
+      delivery,
+    };
+  }
+
+  /**
+   * 計算會員等級折扣金額
    */
-  async validateCoupon(couponCode: string, storeId: string, orderAmount: number) {
+  calculateTierDiscount(discountPercent: number, amount: number): number {
+    return Math.max(0, Math.round(amount * discountPercent) / 100);
+  }
+
+  /**
+   * 依各項目金額比例分攤整單折扣，尾差計入最後一項
+   * 促銷已計算到各項目的折抵直接計入，整單折扣依扣除促銷後的金額分攤
+   */
+  private allocateDiscount(
+    items: OrderItem[],
+    discountAmount: number,
+    itemDiscounts: number[] = []
+  ): Array<OrderItem & { discountAmount: number }> {
+    const amounts = items.map((item, index) => item.totalPrice - (itemDiscounts[index] ?? 0));
+    const totalAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+    let allocated = 0;
+
+    return items.map((item, index) => {
+      let itemDiscount = 0;
+      if (totalAmount > 0) {
+        itemDiscount = index === items.length - 1
+          ? Math.round((discountAmount - allocated) * 100) / 100
+          : Math.round((discountAmount * amounts[index] / totalAmount) * 100) / 100;
+      }
+      allocated += itemDiscount;
+      return { ...item, discountAmount: Math.round((itemDiscount + (itemDiscounts[index] ?? 0)) * 100) / 100 };
+    });
+  }
+
+  /**
+   * 驗證選項群組的選擇數量
+   * 未選擇任何選項的群組會套用預設選項
+   */
+  private validateModifiers(
+    product: {
+      name: string;
+      modifierGroups: Array<{
+        id: string;
+        name: string;
+        minSelect: number;
+        maxSelect: number;
+        options: Array<{
+          id: string;
+          name: string;
+          priceDelta: number;
+          isDefault: boolean;
+          isAvailable: boolean;
+        }>;
+      }>;
+    },
+    selections: Array<{ optionId: string }>
+  ): NonNullable<OrderItem['modifiers']> {
+    const selectedIds = selections.map(selection => selection.optionId);
+
+    if (new Set(selectedIds).size !== selectedIds.length) {
+      throw new AppError(`選項重複: ${product.name}`, 400);
+    }
+
+    for (const optionId of selectedIds) {
+      const exists = product.modifierGroups.some(group => group.options.some(option => option.id === optionId));
+      if (!exists) {
+        throw new AppError(`商品選項不存在: ${optionId}`, 400);
+      }
+    }
+
+    const modifiers: NonNullable<OrderItem['modifiers']> = [];
+
+    for (const group of product.modifierGroups) {
+      let selected = group.options.filter(option => selectedIds.includes(option.id));
+
+      if (selected.length === 0) {
+        selected = group.options.filter(option => option.isDefault && option.isAvailable);
+      }
+
+      const unavailable = selected.find(option => !option.isAvailable);
+      if (unavailable) {
+        throw new AppError(`商品選項已售完: ${group.name} ${unavailable.name}`, 400);
+      }
+
+      if (selected.length < group.minSelect) {
+        throw new AppError(`${product.name}「${group.name}」至少需選擇${group.minSelect}項`, 400);
+      }
+
+      if (selected.length > group.maxSelect) {
+        throw new AppError(`${product.name}「${group.name}」最多只能選擇${group.maxSelect}項`, 400);
+      }
+
+      for (const option of selected) {
+        modifiers.push({
+          optionId: option.id,
+          groupName: group.name,
+          optionName: option.name,
+          priceDelta: option.priceDelta,
+        });
+      }
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * 驗證套餐各欄位的選擇
+   * 未選擇的欄位使用預設選項，每個欄位必須有且只有一項
+   */
+  private validateComboSelections(
+    product: {
+      name: string;
+      comboSlots: Array<{
+        id: string;
+        name: string;
+        quantity: number;
+        choices: Array<{
+          id: string;
+          productId: string;
+          variantId: string | null;
+          upcharge: number;
+          isDefault: boolean;
+          product: { name: string; isAvailable: boolean };
+        }>;
+      }>;
+    },
+    selections: Array<{ slotId: string; choiceId: string }>
+  ): NonNullable<OrderItem['components']> {
+    for (const selection of selections) {
+      if (!product.comboSlots.some(slot => slot.id === selection.slotId)) {
+        throw new AppError(`套餐欄位不存在: ${selection.slotId}`, 400);
+      }
+    }
+
+    if (new Set(selections.map(selection => selection.slotId)).size !== selections.length) {
+      throw new AppError(`套餐欄位重複選擇: ${product.name}`, 400);
+    }
+
+    const components: NonNullable<OrderItem['components']> = [];
+
+    for (const slot of product.comboSlots) {
+      const selection = selections.find(s => s.slotId === slot.id);
+      const choice = selection
+        ? slot.choices.find(c => c.id === selection.choiceId)
+        : slot.choices.find(c => c.isDefault);
+
+      if (!choice) {
+        throw new AppError(
+          selection ? `套餐選項不存在: ${selection.choiceId}` : `請選擇套餐內容: ${product.name}「${slot.name}」`,
+          400
+        );
+      }
+
+      if (!choice.product.isAvailable) {
+        throw new AppError(`套餐選項已售完: ${choice.product.name}`, 400);
+      }
+
+      components.push({
+        slotName: slot.name,
+        productId: choice.productId,
+        variantId: choice.variantId || undefined,
+        quantity: slot.quantity,
+        upcharge: choice.upcharge,
+      });
+    }
+
+    return components;
+  }
+
+  /**
+   * 驗證優惠券，提供顧客時一併檢查使用資格
+   */
+  async validateCoupon(couponCode: string, storeId: string, orderAmount: number, customerId?: string) {
     const coupon = await prisma.coupon.findFirst({
       where: {
         code: couponCode,
@@ -134,13 +532,18 @@ export class OrderService {
       throw new AppError(`最低消費金額為 ${coupon.minOrderAmount}`, 400);
     }
 
+    if (customerId) {
+      await couponService.assertEligible(coupon, customerId);
+    }
+
     return coupon;
   }
 
   /**
    * 計算折扣金額
+   * 免運券折抵外送費，其他優惠券折抵商品金額
    */
-  calculateDiscount(coupon: any, orderAmount: number): number {
+  calculateDiscount(coupon: any, orderAmount: number, deliveryFee = 0): number {
     let discount = 0;
 
     switch (coupon.type) {
@@ -151,8 +554,7 @@ export class OrderService {
         discount = parseFloat(coupon.value.toString());
         break;
       case 'FREE_SHIPPING':
-        // 這裡可以根據實際配送費計算
-        discount = 0;
+        discount = deliveryFee;
         break;
     }
 
@@ -161,36 +563,119 @@ export class OrderService {
       discount = parseFloat(coupon.maxDiscount.toString());
     }
 
-    return Math.min(discount, orderAmount);
+    return Math.min(discount, coupon.type === 'FREE_SHIPPING' ? deliveryFee : orderAmount);
   }
 
   /**
    * 生成訂單號碼
    */
   async generateOrderNumber(storeId: string): Promise<string> {
-    const today = new Date();
-    const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
-    
-    // 獲取今日訂單數量
-    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
-    
-    const todayOrderCount = await prisma.order.count({
-      where: {
-        storeId,
-        createdAt: {
-          gte: startOfDay,
-          lt: endOfDay,
-        },
+    const { orderNumber } = await this.allocateOrderNumber(storeId);
+    return orderNumber;
+  }
+
+  /**
+   * 分配訂單號碼與取餐號碼
+   * 以每店每營業日的計數器原子遞增，併發下不會取得重複序號；
+   * 訂單號碼全域唯一，前面加上店鋪代碼避免不同店鋪同一營業日撞號
+   */
+  async allocateOrderNumber(storeId: string, now: Date = new Date()): Promise<OrderNumberAllocation> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: {
+        timezone: true,
+        businessDayCutoff: true,
+        pickupPrefix: true,
+        orderCode: true,
       },
     });
 
-    const sequence = (todayOrderCount + 1).toString().padStart(4, '0');
-    return `${dateStr}${sequence}`;
+    if (!store) {
+      throw new AppError('店鋪不存在', 404);
+    }
+
+    const storeCode = store.orderCode || await this.assignStoreOrderCode(storeId);
+
+    const businessDate = getBusinessDate(now, {
+      timezone: store.timezone,
+      cutoff: store.businessDayCutoff,
+    });
+
+    const sequence = await this.incrementSequence(storeId, businessDate);
+
+    // 取餐號碼只顯示三位數，超過999後重新從1開始
+    const pickupSequence = ((sequence - 1) % 999) + 1;
+
+    return {
+      orderNumber: `${storeCode}${businessDate}${sequence.toString().padStart(4, '0')}`,
+      pickupNumber: `${store.pickupPrefix}${pickupSequence.toString().padStart(3, '0')}`,
+      businessDate,
+      sequence,
+    };
+  }
+
+  /**
+   * 為尚未有代碼的店鋪產生訂單號碼代碼
+   * 代碼撞到其他店鋪時重新產生；併發下由第一個寫入者決定，其餘沿用已寫入的代碼
+   */
+  private async assignStoreOrderCode(storeId: string, retries = 5): Promise<string> {
+    let code = '';
+    for (let i = 0; i < STORE_CODE_LENGTH; i++) {
+      code += STORE_CODE_ALPHABET[crypto.randomInt(STORE_CODE_ALPHABET.length)];
+    }
+
+    try {
+      await prisma.store.updateMany({
+        where: { id: storeId, orderCode: null },
+        data: { orderCode: code },
+      });
+    } catch (error) {
+      if (retries > 0 && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return await this.assignStoreOrderCode(storeId, retries - 1);
+      }
+      throw error;
+    }
+
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { orderCode: true },
+    });
+
+    return store!.orderCode!;
+  }
+
+  /**
+   * 遞增營業日流水號
+   * 當天第一筆訂單同時建立計數器時可能撞到唯一鍵，重試即可取得遞增後的值
+   */
+  private async incrementSequence(storeId: string, businessDate: string, retries = 3): Promise<number> {
+    try {
+      const counter = await prisma.orderSequence.upsert({
+        where: {
+          storeId_businessDate: { storeId, businessDate },
+        },
+        create: {
+          storeId,
+          businessDate,
+          lastValue: 1,
+        },
+        update: {
+          lastValue: { increment: 1 },
+        },
+      });
+
+      return counter.lastValue;
+    } catch (error) {
+      if (retries > 0 && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return await this.incrementSequence(storeId, businessDate, retries - 1);
+      }
+      throw error;
+    }
   }
 
   /**
-   * 計算預估準備時間
+   * 計算預估準備時間（不考慮排隊狀況的簡易估算）
+   * 建立訂單請使用 PrepTimeService.estimateNewOrder
    */
   calculateEstimatedTime(items: OrderItem[]): number {
     // 基礎時間：10分鐘
@@ -208,19 +693,13 @@ export class OrderService {
   }
 
   /**
-   * 驗證訂單狀態轉換是否合法
+   * 驗證訂單狀態轉換是否合法（依系統預設流程）
+   * 店鋪自訂流程及角色限制請使用 WorkflowService.assertTransition
    */
-  validateStatusTransition(currentStatus: string, newStatus: string): boolean {
-    const validTransitions: Record<string, string[]> = {
-      PENDING: ['CONFIRMED', 'CANCELLED'],
-      CONFIRMED: ['PREPARING', 'CANCELLED'],
-      PREPARING: ['READY', 'CANCELLED'],
-      READY: ['COMPLETED'],
-      COMPLETED: [], // 已完成的訂單不能再轉換
-      CANCELLED: [], // 已取消的訂單不能再轉換
-    };
-
-    return validTransitions[currentStatus]?.includes(newStatus) || false;
+  validateStatusTransition(currentStatus: string, newStatus: string, orderType = 'DINE_IN'): boolean {
+    return workflowService
+      .getDefaultWorkflow(orderType)
+      .transitions.some(transition => transition.from === currentStatus && transition.to === newStatus);
   }
 
   /**
@@ -232,6 +711,7 @@ export class OrderService {
       CONFIRMED: '訂單已確認',
       PREPARING: '製作中',
       READY: '製作完成，請取餐',
+      OUT_FOR_DELIVERY: '外送中',
       COMPLETED: '訂單已完成',
       CANCELLED: '訂單已取消',
     };
@@ -260,11 +740,15 @@ export class OrderService {
    */
   async handleOrderCompletion(order: any): Promise<void> {
     try {
-      // 更新會員積分
-      await this.updateMemberPoints(order.customerId, order.finalAmount);
+      // 依配方扣減原料
+      await ingredientService.consumeForOrder(order.id);
+
+      // 依會員等級的積分倍數發放積分
+      const tier = await loyaltyTierService.getCustomerTier(order.customerId);
+      await loyaltyService.earnForOrder(order, tier?.pointsMultiplier);
       
-      // 更新商品銷量統計
-      await this.updateProductSalesStats(order.items);
+      // 更新商品銷量統計（狀態更新未帶出明細時略過）
+      await this.updateProductSalesStats(order.items || []);
       
       // 更新客戶消費記錄
       await this.updateCustomerSpending(order.customerId, order.finalAmount);
@@ -276,19 +760,52 @@ export class OrderService {
   }
 
   /**
-   * 更新會員積分
+   * 訂單取消的共用後續處理，必須在將訂單改為取消的交易中呼叫
+   * 歸還預留庫存、預約時段名額、優惠券使用次數及折抵的積分，並收回已發放的積分及累計消費
    */
-  private async updateMemberPoints(customerId: string, orderAmount: number): Promise<void> {
-    const points = Math.floor(parseFloat(orderAmount.toString()) / 10); // 每10元1積分
-    
-    if (points > 0) {
-      await prisma.memberPoint.create({
-        data: {
-          userId: customerId,
-          points,
-          type: 'EARN',
-          description: `訂單消費獲得積分`,
-        },
+  async releaseCancelledOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    reason: string,
+    userId?: string
+  ): Promise<void> {
+    await inventoryService.releaseForOrder(tx, orderId, reason, userId);
+    await scheduleService.releaseSlot(tx, orderId);
+    await couponService.releaseForOrder(tx, orderId);
+    await loyaltyService.reverseForOrder(tx, orderId);
+    await this.reverseCustomerSpending(tx, orderId);
+  }
+
+  /**
+   * 已完成後退款的訂單扣回累計消費（累計消費只在訂單完成時增加）
+   * 呼叫端已先將訂單改為取消，因此以狀態歷史判斷訂單是否曾完成
+   */
+  private async reverseCustomerSpending(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const completed = await tx.orderStatusHistory.findFirst({
+      where: { orderId, status: 'COMPLETED' },
+    });
+
+    if (!completed) {
+      return;
+    }
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { customerId: true, finalAmount: true },
+    });
+
+    const result = await tx.customerProfile.updateMany({
+      where: { userId: order.customerId, totalSpent: { gte: order.finalAmount } },
+      data: {
+        totalSpent: { decrement: order.finalAmount },
+      },
+    });
+
+    // 累計消費少於訂單金額時（例如累計消費功能上線前的訂單）歸零，避免出現負數
+    if (result.count === 0) {
+      await tx.customerProfile.updateMany({
+        where: { userId: order.customerId },
+        data: { totalSpent: 0 },
       });
     }
   }
@@ -317,32 +834,8 @@ export class OrderService {
       },
     });
 
-    // 檢查是否需要升級會員等級
-    const customerProfile = await prisma.customerProfile.findFirst({
-      where: { userId: customerId },
-    });
-
-    if (customerProfile) {
-      const newTier = this.calculateLoyaltyTier(parseFloat(customerProfile.totalSpent.toString()));
-      if (newTier !== customerProfile.loyaltyTier) {
-        await prisma.customerProfile.update({
-          where: { userId: customerId },
-          data: { loyaltyTier: newTier },
-        });
-        
-        logger.info(`客戶會員等級升級: ${customerId} -> ${newTier}`);
-      }
-    }
-  }
-
-  /**
-   * 計算會員等級
-   */
-  private calculateLoyaltyTier(totalSpent: number): string {
-    if (totalSpent >= 10000) return 'PLATINUM';
-    if (totalSpent >= 5000) return 'GOLD';
-    if (totalSpent >= 1000) return 'SILVER';
-    return 'BRONZE';
+    // 達到門檻立即升級，降級由會員等級排程處理
+    await loyaltyTierService.evaluateCustomer(customerId, { allowDowngrade: false });
   }
 
   /**
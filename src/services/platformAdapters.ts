@@ -0,0 +1,227 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import AppError from '../utils/AppError';
+
+export const DELIVERY_PLATFORMS = ['UBER_EATS', 'FOODPANDA'];
+
+// 回傳給平台的訂單狀態
+export type PlatformOrderStatus = 'ACCEPTED' | 'READY' | 'CANCELLED';
+
+export interface PlatformOrderItem {
+  externalItemId: string;
+  quantity: number;
+  note?: string;
+}
+
+/**
+ * 各平台webhook轉換後的統一格式
+ */
+export interface PlatformOrderEvent {
+  type: 'ORDER_CREATED' | 'ORDER_CANCELLED';
+  externalStoreId: string;
+  externalOrderId: string;
+  displayId?: string;
+  items: PlatformOrderItem[];
+  note?: string;
+  customerName?: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  cancelReason?: string;
+}
+
+export interface PlatformCredentials {
+  apiBaseUrl: string;
+  apiKey: string;
+}
+
+export interface DeliveryPlatformAdapter {
+  platform: string;
+  displayName: string;
+  signatureHeader: string;
+  parseWebhook(payload: any): PlatformOrderEvent;
+  pushStatus(credentials: PlatformCredentials, externalOrderId: string, status: PlatformOrderStatus, reason?: string): Promise<void>;
+}
+
+/**
+ * 計算webhook簽章（HMAC-SHA256，十六進位）
+ */
+export const signPlatformPayload = (body: Buffer | string, secret: string): string => {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+};
+
+/**
+ * 驗證webhook簽章
+ */
+export const verifyPlatformSignature = (
+  adapter: DeliveryPlatformAdapter,
+  rawBody: Buffer | string,
+  headers: IncomingHttpHeaders,
+  secret: string
+): boolean => {
+  const signature = headers[adapter.signatureHeader];
+  if (typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(signPlatformPayload(rawBody, secret));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const invalidPayload = () => new AppError('平台訂單格式無效', 400);
+
+const postToPlatform = async (credentials: PlatformCredentials, path: string, data: object) => {
+  await axios.post(`${credentials.apiBaseUrl}${path}`, data, {
+    timeout: 10000,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${credentials.apiKey}`,
+    },
+  });
+};
+
+/**
+ * Uber Eats
+ * webhook: { event_type: 'orders.notification' | 'orders.cancel', meta: { resource_id, user_id }, order, reason }
+ */
+export class UberEatsAdapter implements DeliveryPlatformAdapter {
+  platform = 'UBER_EATS';
+  displayName = 'Uber Eats';
+  signatureHeader = 'x-uber-signature';
+
+  parseWebhook(payload: any): PlatformOrderEvent {
+    const externalOrderId = payload?.meta?.resource_id;
+    const externalStoreId = payload?.meta?.user_id;
+
+    if (typeof externalOrderId !== 'string' || typeof externalStoreId !== 'string') {
+      throw invalidPayload();
+    }
+
+    if (payload.event_type === 'orders.cancel') {
+      return {
+        type: 'ORDER_CANCELLED',
+        externalStoreId,
+        externalOrderId,
+        items: [],
+        cancelReason: payload.reason,
+      };
+    }
+
+    const items = payload.order?.cart?.items;
+    if (payload.event_type !== 'orders.notification' || !Array.isArray(items) || items.length === 0) {
+      throw invalidPayload();
+    }
+
+    return {
+      type: 'ORDER_CREATED',
+      externalStoreId,
+      externalOrderId,
+      displayId: payload.order.display_id,
+      items: items.map((item: any) => ({
+        externalItemId: String(item.id),
+        quantity: Number(item.quantity),
+        note: item.special_instructions || undefined,
+      })),
+      note: payload.order.cart.special_instructions || undefined,
+      customerName: payload.order.eater?.first_name,
+      customerPhone: payload.order.eater?.phone,
+      deliveryAddress: payload.order.delivery?.location?.address,
+    };
+  }
+
+  async pushStatus(credentials: PlatformCredentials, externalOrderId: string, status: PlatformOrderStatus, reason?: string) {
+    const paths: Record<PlatformOrderStatus, string> = {
+      ACCEPTED: 'accept_pos_order',
+      READY: 'ready_for_pickup',
+      CANCELLED: 'cancel',
+    };
+
+    await postToPlatform(credentials, `/v1/eats/orders/${externalOrderId}/${paths[status]}`, {
+      reason: reason || status.toLowerCase(),
+    });
+  }
+}
+
+/**
+ * foodpanda
+ * webhook: { event: 'order.created' | 'order.cancelled', token, code, platformRestaurant: { id }, products, reason }
+ */
+export class FoodpandaAdapter implements DeliveryPlatformAdapter {
+  platform = 'FOODPANDA';
+  displayName = 'foodpanda';
+  signatureHeader = 'x-foodpanda-signature';
+
+  parseWebhook(payload: any): PlatformOrderEvent {
+    const externalOrderId = payload?.token;
+    const externalStoreId = payload?.platformRestaurant?.id;
+
+    if (typeof externalOrderId !== 'string' || typeof externalStoreId !== 'string') {
+      throw invalidPayload();
+    }
+
+    if (payload.event === 'order.cancelled') {
+      return {
+        type: 'ORDER_CANCELLED',
+        externalStoreId,
+        externalOrderId,
+        items: [],
+        cancelReason: payload.reason,
+      };
+    }
+
+    if (payload.event !== 'order.created' || !Array.isArray(payload.products) || payload.products.length === 0) {
+      throw invalidPayload();
+    }
+
+    const address = payload.delivery?.address;
+
+    return {
+      type: 'ORDER_CREATED',
+      externalStoreId,
+      externalOrderId,
+      displayId: payload.code,
+      items: payload.products.map((product: any) => ({
+        externalItemId: String(product.remoteCode),
+        quantity: Number(product.quantity),
+        note: product.comment || undefined,
+      })),
+      note: payload.comments?.customerComment || undefined,
+      customerName: payload.customer?.firstName,
+      customerPhone: payload.customer?.mobilePhone,
+      deliveryAddress: address ? [address.city, address.street, address.number].filter(Boolean).join('') : undefined,
+    };
+  }
+
+  async pushStatus(credentials: PlatformCredentials, externalOrderId: string, status: PlatformOrderStatus, reason?: string) {
+    const statuses: Record<PlatformOrderStatus, string> = {
+      ACCEPTED: 'order_accepted',
+      READY: 'order_prepared',
+      CANCELLED: 'order_cancelled',
+    };
+
+    await postToPlatform(credentials, `/v2/orders/${externalOrderId}/status`, {
+      status: statuses[status],
+      reason,
+    });
+  }
+}
+
+const adapters: Record<string, DeliveryPlatformAdapter> = {
+  UBER_EATS: new UberEatsAdapter(),
+  FOODPANDA: new FoodpandaAdapter(),
+};
+
+/**
+ * 依平台代碼取得轉接器
+ */
+export const getPlatformAdapter = (platform: string): DeliveryPlatformAdapter => {
+  const adapter = adapters[platform];
+
+  if (!adapter) {
+    throw new AppError(`不支援的外送平台: ${platform}`, 404);
+  }
+
+  return adapter;
+};
\ No newline at end of file
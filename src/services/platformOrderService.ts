@@ -0,0 +1,565 @@
+import { PrismaClient, Prisma, PlatformIntegration } from '@prisma/client';
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { OrderService } from './orderService';
+import { InventoryService } from './inventoryService';
+import { KitchenService } from './kitchenService';
+import {
+  DELIVERY_PLATFORMS,
+  PlatformOrderEvent,
+  PlatformOrderStatus,
+  getPlatformAdapter,
+  verifyPlatformSignature,
+} from './platformAdapters';
+
+const prisma = new PrismaClient();
+const orderService = new OrderService();
+const inventoryService = new InventoryService();
+const kitchenService = new KitchenService();
+
+export interface PlatformIntegrationInput {
+  platform: string;
+  externalStoreId: string;
+  branchId?: string | null;
+  apiBaseUrl: string;
+  apiKey: string;
+  webhookSecret: string;
+  autoAccept?: boolean;
+  isActive?: boolean;
+}
+
+export interface PlatformMenuMappingInput {
+  externalItemId: string;
+  productId: string;
+  variantId?: string | null;
+}
+
+// 本系統訂單狀態對應回傳給平台的狀態
+const STATUS_TO_PLATFORM: Record<string, PlatformOrderStatus> = {
+  CONFIRMED: 'ACCEPTED',
+  READY: 'READY',
+  CANCELLED: 'CANCELLED',
+};
+
+const orderInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          name: true,
+        },
+      },
+      variant: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  customer: {
+    select: {
+      displayName: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+type PlatformOrder = Prisma.OrderGetPayload<{ include: typeof orderInclude }>;
+
+export interface PlatformWebhookResult {
+  event: PlatformOrderEvent;
+  order: PlatformOrder;
+  stationIds: string[];
+  created: boolean;   // 新建立的訂單
+  cancelled: boolean; // 本次由平台取消
+}
+
+export class PlatformOrderService {
+  /**
+   * 處理平台webhook：驗證簽章後建立或取消訂單
+   * 同一平台訂單重複通知時回傳既有訂單
+   */
+  async handleWebhook(
+    platform: string,
+    rawBody: Buffer | string,
+    headers: IncomingHttpHeaders,
+    payload: any
+  ): Promise<PlatformWebhookResult> {
+    const adapter = getPlatformAdapter(platform);
+    const event = adapter.parseWebhook(payload);
+
+    const integration = await prisma.platformIntegration.findUnique({
+      where: {
+        platform_externalStoreId: { platform, externalStoreId: event.externalStoreId },
+      },
+    });
+
+    if (!integration || !integration.isActive) {
+      throw new AppError('平台店家尚未串接', 404);
+    }
+
+    if (!verifyPlatformSignature(adapter, rawBody, headers, integration.webhookSecret)) {
+      throw new AppError('平台簽章驗證失敗', 401);
+    }
+
+    if (event.type === 'ORDER_CANCELLED') {
+      return await this.cancelPlatformOrder(integration, event);
+    }
+
+    return await this.createPlatformOrder(integration, event);
+  }
+
+  /**
+   * 訂單狀態變更時回傳給平台（接單、備餐完成、取消）
+   * 回傳失敗不影響本系統的操作，只記錄錯誤
+   */
+  async syncOrderStatus(
+    order: { id: string; storeId: string; orderNumber: string; externalPlatform: string | null; externalOrderId: string | null },
+    status: string,
+    reason?: string
+  ): Promise<void> {
+    const platformStatus = STATUS_TO_PLATFORM[status];
+
+    if (!order.externalPlatform || !order.externalOrderId || !platformStatus) {
+      return;
+    }
+
+    try {
+      const integration = await prisma.platformIntegration.findUnique({
+        where: {
+          storeId_platform: { storeId: order.storeId, platform: order.externalPlatform },
+        },
+      });
+
+      if (!integration) {
+        logger.warn(`平台串接設定不存在，無法回傳訂單狀態: ${order.orderNumber}`);
+        return;
+      }
+
+      await getPlatformAdapter(order.externalPlatform).pushStatus(
+        integration,
+        order.externalOrderId,
+        platformStatus,
+        reason
+      );
+
+      logger.info(`回傳平台訂單狀態: ${order.orderNumber} -> ${platformStatus} (${order.externalPlatform})`);
+    } catch (error) {
+      logger.error(`回傳平台訂單狀態失敗 (訂單: ${order.orderNumber}):`, error);
+    }
+  }
+
+  /**
+   * 獲取店鋪的平台串接設定（不回傳憑證）
+   */
+  async listIntegrations(storeId: string) {
+    const integrations = await prisma.platformIntegration.findMany({
+      where: { storeId },
+      include: {
+        _count: {
+          select: { menuMappings: true },
+        },
+      },
+      orderBy: { platform: 'asc' },
+    });
+
+    return integrations.map(integration => this.formatIntegration(integration));
+  }
+
+  /**
+   * 建立或更新店鋪的平台串接設定
+   */
+  async saveIntegration(storeId: string, input: PlatformIntegrationInput) {
+    if (!DELIVERY_PLATFORMS.includes(input.platform)) {
+      throw new AppError(`不支援的外送平台: ${input.platform}`, 400);
+    }
+
+    if (input.branchId) {
+      const branch = await prisma.storeBranch.findFirst({
+        where: { id: input.branchId, storeId },
+      });
+
+      if (!branch) {
+        throw new AppError('分店不存在', 404);
+      }
+    }
+
+    const duplicate = await prisma.platformIntegration.findUnique({
+      where: {
+        platform_externalStoreId: { platform: input.platform, externalStoreId: input.externalStoreId },
+      },
+    });
+
+    if (duplicate && duplicate.storeId !== storeId) {
+      throw new AppError('此平台店家編號已串接其他店鋪', 400);
+    }
+
+    const data = {
+      externalStoreId: input.externalStoreId,
+      branchId: input.branchId || null,
+      apiBaseUrl: input.apiBaseUrl.replace(/\/+$/, ''),
+      apiKey: input.apiKey,
+      webhookSecret: input.webhookSecret,
+      autoAccept: input.autoAccept ?? true,
+      isActive: input.isActive ?? true,
+    };
+
+    const integration = await prisma.platformIntegration.upsert({
+      where: {
+        storeId_platform: { storeId, platform: input.platform },
+      },
+      create: {
+        storeId,
+        platform: input.platform,
+        ...data,
+      },
+      update: data,
+    });
+
+    return this.formatIntegration(integration);
+  }
+
+  /**
+   * 刪除平台串接設定及菜單對應
+   */
+  async deleteIntegration(integrationId: string): Promise<void> {
+    await prisma.platformIntegration.delete({
+      where: { id: integrationId },
+    });
+  }
+
+  /**
+   * 獲取平台菜單對應
+   */
+  async getMenuMappings(integrationId: string) {
+    return await prisma.platformMenuMapping.findMany({
+      where: { integrationId },
+      include: {
+        product: {
+          select: { id: true, name: true, basePrice: true },
+        },
+      },
+      orderBy: { externalItemId: 'asc' },
+    });
+  }
+
+  /**
+   * 覆寫平台菜單對應
+   */
+  async replaceMenuMappings(integrationId: string, mappings: PlatformMenuMappingInput[]) {
+    const integration = await prisma.platformIntegration.findUniqueOrThrow({
+      where: { id: integrationId },
+    });
+
+    const externalItemIds = mappings.map(mapping => mapping.externalItemId);
+    if (new Set(externalItemIds).size !== externalItemIds.length) {
+      throw new AppError('平台品項編號不能重複', 400);
+    }
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: mappings.map(mapping => mapping.productId) },
+        storeId: integration.storeId,
+      },
+      include: { variants: true },
+    });
+
+    for (const mapping of mappings) {
+      const product = products.find(p => p.id === mapping.productId);
+
+      if (!product) {
+        throw new AppError(`商品不存在: ${mapping.productId}`, 400);
+      }
+
+      if (mapping.variantId && !product.variants.some(variant => variant.id === mapping.variantId)) {
+        throw new AppError(`商品規格不存在: ${mapping.variantId}`, 400);
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.platformMenuMapping.deleteMany({
+        where: { integrationId },
+      });
+
+      await tx.platformMenuMapping.createMany({
+        data: mappings.map(mapping => ({
+          integrationId,
+          externalItemId: mapping.externalItemId,
+          productId: mapping.productId,
+          variantId: mapping.variantId || null,
+        })),
+      });
+    });
+
+    return await this.getMenuMappings(integrationId);
+  }
+
+  /**
+   * 依菜單對應建立訂單，走與一般訂單相同的驗證、扣庫存及廚房派單流程
+   * 無法接單時（未對應品項、售完等）回傳取消給平台
+   */
+  private async createPlatformOrder(
+    integration: PlatformIntegration,
+    event: PlatformOrderEvent
+  ): Promise<PlatformWebhookResult> {
+    const existing = await this.findPlatformOrder(integration.platform, event.externalOrderId);
+    if (existing) {
+      return { event, order: existing, stationIds: [], created: false, cancelled: false };
+    }
+
+    const adapter = getPlatformAdapter(integration.platform);
+    let quote;
+
+    try {
+      const items = await this.mapItems(integration.id, event);
+      quote = await orderService.quoteOrder(items, integration.storeId, undefined, {
+        branchId: integration.branchId ?? undefined,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        await adapter.pushStatus(integration, event.externalOrderId, 'CANCELLED', error.message)
+          .catch(pushError => logger.error(`回傳平台拒單失敗 (${event.externalOrderId}):`, pushError));
+      }
+      throw error;
+    }
+
+    const store = await prisma.store.findUniqueOrThrow({
+      where: { id: integration.storeId },
+    });
+    const customer = await this.getPlatformCustomer(store.tenantId, integration.platform, adapter.displayName);
+    const { orderNumber, pickupNumber, businessDate } = await orderService.allocateOrderNumber(integration.storeId);
+    const status = integration.autoAccept ? 'CONFIRMED' : 'PENDING';
+    const validatedItems = quote.items;
+
+    let result: { order: PlatformOrder; stationIds: string[] };
+
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const createdOrder = await tx.order.create({
+          data: {
+            orderNumber,
+            pickupNumber,
+            businessDate,
+            storeId: integration.storeId,
+            branchId: integration.branchId,
+            customerId: customer.id,
+            orderType: integration.platform,
+            status,
+            totalAmount: quote.totalAmount,
+            discountAmount: quote.discountAmount,
+            finalAmount: quote.finalAmount,
+            paymentStatus: 'COMPLETED', // 顧客已於平台付款
+            note: this.buildNote(event),
+            deliveryAddress: event.deliveryAddress,
+            externalPlatform: integration.platform,
+            externalOrderId: event.externalOrderId,
+            externalDisplayId: event.displayId,
+            estimatedTime: quote.estimatedTime,
+            promotions: quote.promotions.length ? {
+              create: quote.promotions.map(promotion => ({
+                promotionId: promotion.promotionId,
+                name: promotion.name,
+                discountAmount: promotion.discountAmount,
+              })),
+            } : undefined,
+            items: {
+              create: validatedItems.map(item => ({
+                productId: item.productId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+                note: item.note,
+                priceRuleId: item.priceRuleId,
+                priceRuleName: item.priceRuleName,
+                priceRuleDiscount: item.priceRuleDiscount,
+              })),
+            },
+          },
+          include: orderInclude,
+        });
+
+        await inventoryService.reserveForOrder(tx, createdOrder.id, validatedItems, customer.id);
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: createdOrder.id,
+            status: 'PENDING',
+            note: `${adapter.displayName}訂單已接收 (${event.displayId || event.externalOrderId})`,
+          },
+        });
+
+        if (status === 'CONFIRMED') {
+          await tx.orderStatusHistory.create({
+            data: {
+              orderId: createdOrder.id,
+              status,
+              note: '平台訂單自動接單',
+            },
+          });
+        }
+
+        const stationIds = await kitchenService.routeOrder(tx, createdOrder.id);
+
+        return { order: createdOrder, stationIds };
+      });
+    } catch (error) {
+      // 平台同時重送時由唯一索引擋下，回傳先建立的訂單
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const order = await this.findPlatformOrder(integration.platform, event.externalOrderId);
+        if (order) {
+          return { event, order, stationIds: [], created: false, cancelled: false };
+        }
+      }
+      throw error;
+    }
+
+    logger.info(`平台訂單建立: ${result.order.orderNumber} (${adapter.displayName} ${event.externalOrderId})`);
+
+    if (status === 'CONFIRMED') {
+      await this.syncOrderStatus(result.order, status);
+    }
+
+    return { event, ...result, created: true, cancelled: false };
+  }
+
+  /**
+   * 平台取消訂單，歸還庫存（已完成或已取消的訂單不處理）
+   */
+  private async cancelPlatformOrder(
+    integration: PlatformIntegration,
+    event: PlatformOrderEvent
+  ): Promise<PlatformWebhookResult> {
+    const order = await this.findPlatformOrder(integration.platform, event.externalOrderId);
+
+    if (!order) {
+      throw new AppError('平台訂單不存在', 404);
+    }
+
+    if (['COMPLETED', 'CANCELLED'].includes(order.status)) {
+      return { event, order, stationIds: [], created: false, cancelled: false };
+    }
+
+    const reason = `平台取消訂單${event.cancelReason ? `: ${event.cancelReason}` : ''}`;
+
+    const cancelledOrder = await prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id: order.id },
+        data: {
+          status: 'CANCELLED',
+          updatedAt: new Date(),
+        },
+        include: orderInclude,
+      });
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          status: 'CANCELLED',
+          note: reason,
+        },
+      });
+
+      await orderService.releaseCancelledOrder(tx, order.id, reason);
+
+      return updated;
+    });
+
+    logger.info(`平台訂單取消: ${order.orderNumber} (${integration.platform} ${event.externalOrderId})`);
+
+    return { event, order: cancelledOrder, stationIds: [], created: false, cancelled: true };
+  }
+
+  /**
+   * 平台品項轉換為本系統的訂單項目
+   */
+  private async mapItems(integrationId: string, event: PlatformOrderEvent) {
+    const mappings = await prisma.platformMenuMapping.findMany({
+      where: {
+        integrationId,
+        externalItemId: { in: event.items.map(item => item.externalItemId) },
+      },
+    });
+
+    const unmapped = event.items
+      .filter(item => !mappings.some(mapping => mapping.externalItemId === item.externalItemId))
+      .map(item => item.externalItemId);
+
+    if (unmapped.length > 0) {
+      throw new AppError(`未對應的平台商品: ${unmapped.join(', ')}`, 422);
+    }
+
+    return event.items.map(item => {
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        throw new AppError('平台訂單格式無效', 400);
+      }
+
+      const mapping = mappings.find(m => m.externalItemId === item.externalItemId)!;
+
+      return {
+        productId: mapping.productId,
+        variantId: mapping.variantId ?? undefined,
+        quantity: item.quantity,
+        note: item.note,
+      };
+    });
+  }
+
+  private async findPlatformOrder(platform: string, externalOrderId: string) {
+    return await prisma.order.findUnique({
+      where: {
+        externalPlatform_externalOrderId: { externalPlatform: platform, externalOrderId },
+      },
+      include: orderInclude,
+    });
+  }
+
+  /**
+   * 平台訂單的顧客帳號（每個租戶每個平台一個，不能登入）
+   */
+  private async getPlatformCustomer(tenantId: string, platform: string, displayName: string) {
+    const email = `${platform.toLowerCase()}@platform.local`;
+
+    const existing = await prisma.user.findUnique({
+      where: { tenantId_email: { tenantId, email } },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return await prisma.user.create({
+      data: {
+        tenantId,
+        email,
+        password: crypto.randomBytes(32).toString('hex'),
+        displayName,
+        status: 'ACTIVE',
+      },
+    });
+  }
+
+  /**
+   * 平台顧客資料及備註合併為訂單備註
+   */
+  private buildNote(event: PlatformOrderEvent): string | undefined {
+    const parts = [
+      event.customerName ? `顧客: ${event.customerName}` : null,
+      event.customerPhone ? `電話: ${event.customerPhone}` : null,
+      event.note || null,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(' / ').slice(0, 500) : undefined;
+  }
+
+  private formatIntegration<T extends PlatformIntegration>(integration: T) {
+    const { apiKey, webhookSecret, ...rest } = integration;
+
+    return {
+      ...rest,
+      hasApiKey: !!apiKey,
+      hasWebhookSecret: !!webhookSecret,
+    };
+  }
+}
\ No newline at end of file
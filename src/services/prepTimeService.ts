@@ -0,0 +1,364 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import { OrderItem } from './orderService';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PREP_MINUTES = 2; // 商品未設定製作時間時，每份預設分鐘數
+const HANDLING_MINUTES = 5; // 包裝、交付等固定時間
+const VIRTUAL_STATION = 'default'; // 未設定工作站的店鋪視為單一工作站
+const HISTORY_DAYS = 14;
+const HISTORY_SAMPLES = 50;
+const MIN_HISTORY_SAMPLES = 5;
+const ACTIVE_STATUSES = ['CONFIRMED', 'PREPARING'];
+
+interface PrepProduct {
+  categoryId: string;
+  prepTime: number | null;
+}
+
+interface StationInfo {
+  id: string;
+  capacity: number;
+  isDefault: boolean;
+  categoryIds: string[];
+}
+
+// 各工作站的工作量（分鐘）
+type StationLoad = Map<string, number>;
+
+export interface QueueEstimate {
+  id: string;
+  storeId: string;
+  customerId: string;
+  orderNumber: string;
+  pickupNumber: string | null;
+  status: string;
+  estimatedTime: number;
+  createdAt: Date;
+}
+
+const prepProductSelect = {
+  categoryId: true,
+  prepTime: true,
+} satisfies Prisma.ProductSelect;
+
+export class PrepTimeService {
+  /**
+   * 預估新訂單的製作時間（分鐘）
+   * 依目前排隊中的訂單、商品製作時間、工作站產能及歷史實際製作時間校正計算
+   */
+  async estimateNewOrder(
+    storeId: string,
+    items: OrderItem[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const stations = await this.getStations(storeId, client);
+    const factor = await this.calculateCalibrationFactor(storeId, stations, client);
+    const queueLoad = this.sumLoads(
+      (await this.loadQueue(storeId, stations, client)).map(entry => entry.load)
+    );
+
+    const productIds = [
+      ...new Set(items.flatMap(item => [item.productId, ...(item.components || []).map(c => c.productId)])),
+    ];
+    const products = await client.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, ...prepProductSelect },
+    });
+    const productMap = new Map(products.map(product => [product.id, product]));
+
+    const ownLoad: StationLoad = new Map();
+    for (const item of items) {
+      const lines = item.components && item.components.length > 0
+        ? item.components.map(c => ({ productId: c.productId, quantity: c.quantity * item.quantity }))
+        : [{ productId: item.productId, quantity: item.quantity }];
+
+      for (const line of lines) {
+        const product = productMap.get(line.productId);
+        if (product) {
+          this.addWork(ownLoad, stations, product, line.quantity);
+        }
+      }
+    }
+
+    return this.toMinutes(ownLoad, queueLoad, stations, factor);
+  }
+
+  /**
+   * 重新計算店鋪排隊中訂單的預估時間
+   * 依建立順序累計各工作站工作量，回傳預估時間有變動的訂單
+   */
+  async recalculateQueue(storeId: string, now: Date = new Date()): Promise<QueueEstimate[]> {
+    const stations = await this.getStations(storeId);
+    const factor = await this.calculateCalibrationFactor(storeId, stations);
+    const queue = await this.loadQueue(storeId, stations);
+
+    const changed: QueueEstimate[] = [];
+    const cumulative: StationLoad = new Map();
+
+    for (const { order, load } of queue) {
+      const remaining = this.toMinutes(load, cumulative, stations, factor);
+      for (const [stationId, minutes] of load) {
+        cumulative.set(stationId, (cumulative.get(stationId) || 0) + minutes);
+      }
+
+      // estimatedTime 以建立時間起算
+      const elapsed = Math.max(0, Math.floor((now.getTime() - order.createdAt.getTime()) / (60 * 1000)));
+      const estimatedTime = elapsed + remaining;
+
+      if (estimatedTime === order.estimatedTime) {
+        continue;
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { estimatedTime },
+      });
+
+      changed.push({
+        id: order.id,
+        storeId: order.storeId,
+        customerId: order.customerId,
+        orderNumber: order.orderNumber,
+        pickupNumber: order.pickupNumber,
+        status: order.status,
+        estimatedTime,
+        createdAt: order.createdAt,
+      });
+    }
+
+    if (changed.length > 0) {
+      logger.info(`重新計算預估時間: 店鋪 ${storeId} 共 ${changed.length} 筆訂單更新`);
+    }
+
+    return changed;
+  }
+
+  /**
+   * 依歷史實際製作時間計算校正係數
+   * 以近期訂單從開始製作(PREPARING)到完成(READY)的實際分鐘數，對比商品製作時間推算的分鐘數
+   */
+  async getCalibrationFactor(storeId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+    return await this.calculateCalibrationFactor(storeId, await this.getStations(storeId, client), client);
+  }
+
+  private async calculateCalibrationFactor(
+    storeId: string,
+    stations: StationInfo[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    const orders = await client.order.findMany({
+      where: {
+        storeId,
+        createdAt: { gte: since },
+        statusHistory: { some: { status: 'READY' } },
+      },
+      include: {
+        statusHistory: {
+          where: { status: { in: ['PREPARING', 'READY'] } },
+          orderBy: { createdAt: 'asc' },
+        },
+        items: {
+          include: {
+            product: { select: prepProductSelect },
+            components: {
+              include: { product: { select: prepProductSelect } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_SAMPLES,
+    });
+
+    let actualTotal = 0;
+    let expectedTotal = 0;
+    let samples = 0;
+
+    for (const order of orders) {
+      const started = order.statusHistory.find(entry => entry.status === 'PREPARING');
+      const ready = order.statusHistory.find(entry => entry.status === 'READY');
+      if (!started || !ready) {
+        continue;
+      }
+
+      const actual = (ready.createdAt.getTime() - started.createdAt.getTime()) / (60 * 1000);
+      // 同時寫入的狀態（如廚房全部出餐自動轉換）無法反映實際製作時間
+      if (actual <= 0) {
+        continue;
+      }
+
+      const load: StationLoad = new Map();
+      for (const item of order.items) {
+        this.addItemWork(load, stations, item);
+      }
+
+      const expected = this.maxStationMinutes(load, new Map(), stations);
+      if (expected <= 0) {
+        continue;
+      }
+
+      actualTotal += actual;
+      expectedTotal += expected;
+      samples++;
+    }
+
+    if (samples < MIN_HISTORY_SAMPLES) {
+      return 1;
+    }
+
+    // 限制校正幅度，避免少數異常訂單影響過大
+    return Math.min(3, Math.max(0.5, actualTotal / expectedTotal));
+  }
+
+  /**
+   * 讀取排隊中訂單及其尚未完成的工作量
+   * 已派送到工作站的訂單只計算尚未出餐的項目
+   */
+  private async loadQueue(
+    storeId: string,
+    stations: StationInfo[],
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const orders = await client.order.findMany({
+      where: {
+        storeId,
+        status: { in: ACTIVE_STATUSES },
+        // 尚未送到廚房的預約訂單不佔用目前產能
+        OR: [{ scheduledFor: null }, { releasedAt: { not: null } }],
+      },
+      include: {
+        items: {
+          include: {
+            product: { select: prepProductSelect },
+            components: {
+              include: { product: { select: prepProductSelect } },
+            },
+          },
+        },
+        kitchenItems: {
+          include: {
+            orderItem: {
+              include: { product: { select: prepProductSelect } },
+            },
+            component: {
+              include: { product: { select: prepProductSelect } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return orders.map(order => {
+      const load: StationLoad = new Map();
+
+      if (order.kitchenItems.length > 0) {
+        for (const ticketItem of order.kitchenItems) {
+          if (ticketItem.status !== 'PENDING') {
+            continue;
+          }
+          const product = ticketItem.component ? ticketItem.component.product : ticketItem.orderItem.product;
+          const minutes = (product.prepTime ?? DEFAULT_PREP_MINUTES) * ticketItem.quantity;
+          load.set(ticketItem.stationId, (load.get(ticketItem.stationId) || 0) + minutes);
+        }
+      } else {
+        for (const item of order.items) {
+          this.addItemWork(load, stations, item);
+        }
+      }
+
+      return { order, load };
+    });
+  }
+
+  private async getStations(
+    storeId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<StationInfo[]> {
+    const stations = await client.kitchenStation.findMany({
+      where: {
+        storeId,
+        isActive: true,
+      },
+      include: { categories: true },
+    });
+
+    return stations.map(station => ({
+      id: station.id,
+      capacity: Math.max(1, station.capacity),
+      isDefault: station.isDefault,
+      categoryIds: station.categories.map(c => c.categoryId),
+    }));
+  }
+
+  /**
+   * 累加訂單項目的工作量，套餐依組成項目計算
+   */
+  private addItemWork(
+    load: StationLoad,
+    stations: StationInfo[],
+    item: {
+      quantity: number;
+      product: PrepProduct;
+      components: Array<{ quantity: number; product: PrepProduct }>;
+    }
+  ): void {
+    if (item.components.length > 0) {
+      for (const component of item.components) {
+        this.addWork(load, stations, component.product, component.quantity * item.quantity);
+      }
+      return;
+    }
+
+    this.addWork(load, stations, item.product, item.quantity);
+  }
+
+  /**
+   * 依商品分類將工作量分配到工作站（與廚房派送規則一致）
+   */
+  private addWork(load: StationLoad, stations: StationInfo[], product: PrepProduct, quantity: number): void {
+    const minutes = (product.prepTime ?? DEFAULT_PREP_MINUTES) * quantity;
+
+    let stationIds = stations.filter(station => station.categoryIds.includes(product.categoryId)).map(s => s.id);
+    if (stationIds.length === 0) {
+      stationIds = stations.filter(station => station.isDefault).map(s => s.id);
+    }
+    if (stationIds.length === 0) {
+      stationIds = [VIRTUAL_STATION];
+    }
+
+    for (const stationId of stationIds) {
+      load.set(stationId, (load.get(stationId) || 0) + minutes);
+    }
+  }
+
+  private sumLoads(loads: StationLoad[]): StationLoad {
+    const total: StationLoad = new Map();
+    for (const load of loads) {
+      for (const [stationId, minutes] of load) {
+        total.set(stationId, (total.get(stationId) || 0) + minutes);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * 計算訂單在各工作站完成所需的最長時間（含前方排隊工作量）
+   */
+  private maxStationMinutes(load: StationLoad, ahead: StationLoad, stations: StationInfo[]): number {
+    let longest = 0;
+    for (const [stationId, minutes] of load) {
+      const capacity = stations.find(station => station.id === stationId)?.capacity || 1;
+      longest = Math.max(longest, ((ahead.get(stationId) || 0) + minutes) / capacity);
+    }
+    return longest;
+  }
+
+  private toMinutes(load: StationLoad, ahead: StationLoad, stations: StationInfo[], factor: number): number {
+    return HANDLING_MINUTES + Math.ceil(this.maxStationMinutes(load, ahead, stations) * factor);
+  }
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import axios from 'axios';
 import logger from '../utils/logger';
 import AppError from '../utils/AppError';
+import { OrderItemChangeEntry } from './orderEditService';
 
 const prisma = new PrismaClient();
 
@@ -192,11 +193,23 @@ export class PrintService {
     lines.push('================================');
     lines.push('');
     
+    // 取餐號碼
+    if (order.pickupNumber) {
+      lines.push(`      取餐號碼: ${order.pickupNumber}`);
+      lines.push('');
+    }
+
     // 訂單資訊
     lines.push(`訂單號碼: ${order.orderNumber}`);
     lines.push(`日期時間: ${new Date(order.createdAt).toLocaleString('zh-TW')}`);
     lines.push(`顧客: ${order.customer.displayName || order.customer.email}`);
     lines.push(`類型: ${this.getOrderTypeText(order.orderType)}`);
+    if (order.externalDisplayId) {
+      lines.push(`平台單號: ${order.externalDisplayId}`);
+    }
+    if (order.deliveryAddress) {
+      lines.push(`外送地址: ${order.deliveryAddress}`);
+    }
     lines.push('--------------------------------');
     
     // 商品清單
@@ -205,6 +218,25 @@ export class PrintService {
       if (item.variant) {
         lines.push(`  規格: ${item.variant.name}`);
       }
+      // 商品選項
+      if (item.modifiers && item.modifiers.length > 0) {
+        for (const modifier of item.modifiers) {
+          const delta = modifier.priceDelta ? ` ($${modifier.priceDelta > 0 ? '+' : ''}${modifier.priceDelta})` : '';
+          lines.push(`  ${modifier.groupName}: ${modifier.optionName}${delta}`);
+        }
+      }
+      // 套餐內容
+      if (item.components && item.components.length > 0) {
+        for (const component of item.components) {
+          const variantText = component.variant ? `(${component.variant.name})` : '';
+          const upchargeText = component.upcharge ? ` (+$${component.upcharge})` : '';
+          lines.push(`  ${component.slotName}: ${component.product.name}${variantText} x${component.quantity}${upchargeText}`);
+        }
+      }
+      // 時段價格規則
+      if (item.priceRuleName) {
+        lines.push(`  優惠: ${item.priceRuleName} (-$${item.priceRuleDiscount}/份)`);
+      }
       lines.push(`  數量: ${item.quantity} x $${item.unitPrice}`);
       lines.push(`  小計: $${item.totalPrice}`);
       
@@ -223,8 +255,24 @@ export class PrintService {
     
     lines.push('--------------------------------');
     lines.push(`小計: $${order.totalAmount}`);
-    if (order.discountAmount > 0) {
-      lines.push(`折扣: -$${order.discountAmount}`);
+    if (order.deliveryFee > 0) {
+      lines.push(`外送費: $${order.deliveryFee}`);
+    }
+    // 逐筆列出促銷、會員折扣及積分折抵，其餘折扣為優惠券
+    const promotions: any[] = order.promotions || [];
+    for (const promotion of promotions) {
+      lines.push(`${promotion.name}: -$${promotion.discountAmount}`);
+    }
+    if (order.tierDiscount > 0) {
+      lines.push(`會員折扣: -$${order.tierDiscount}`);
+    }
+    if (order.pointsDiscount > 0) {
+      lines.push(`積分折抵(${order.pointsRedeemed}點): -$${order.pointsDiscount}`);
+    }
+    const otherDiscount = Math.round((order.discountAmount - (order.tierDiscount || 0) - (order.pointsDiscount || 0) -
+      promotions.reduce((sum, promotion) => sum + promotion.discountAmount, 0)) * 100) / 100;
+    if (otherDiscount > 0) {
+      lines.push(`折扣: -$${otherDiscount}`);
     }
     lines.push(`總計: $${order.finalAmount}`);
     lines.push('--------------------------------');
@@ -247,24 +295,104 @@ export class PrintService {
     return lines.join('\\n');
   }
 
+  /**
+   * 生成分開付款的個人收據內容
+   * 依項目付款時列出該付款人負擔的項目，依金額付款時只列出分攤金額
+   */
+  generatePayerReceiptContent(order: any, payment: any, outstanding: number): string {
+    const lines: string[] = [];
+
+    lines.push('================================');
+    lines.push(`       ${order.store.name}`);
+    lines.push(`   ${order.store.address}`);
+    lines.push(`   電話: ${order.store.phone}`);
+    lines.push('================================');
+    lines.push('');
+
+    if (order.pickupNumber) {
+      lines.push(`      取餐號碼: ${order.pickupNumber}`);
+      lines.push('');
+    }
+
+    lines.push(`訂單號碼: ${order.orderNumber}`);
+    lines.push(`付款人: ${payment.payerName || '分開付款'}`);
+    lines.push(`日期時間: ${new Date(payment.paidAt || payment.createdAt).toLocaleString('zh-TW')}`);
+    lines.push('--------------------------------');
+
+    if (payment.items && payment.items.length > 0) {
+      for (const paymentItem of payment.items) {
+        lines.push(`${paymentItem.orderItem.product.name}`);
+        lines.push(`  數量: ${paymentItem.quantity}  金額: $${paymentItem.amount}`);
+      }
+    } else {
+      lines.push(`分攤金額 (訂單總計 $${order.finalAmount})`);
+    }
+
+    lines.push('--------------------------------');
+    lines.push(`本次付款: $${payment.amount}`);
+    lines.push(`付款方式: ${this.getPaymentMethodText(payment.method)}`);
+    lines.push(`訂單未付餘額: $${outstanding}`);
+    lines.push('');
+    lines.push('謝謝您的光臨！');
+    lines.push('================================');
+
+    return lines.join('\\n');
+  }
+
   /**
    * 生成廚房單內容
    */
-  generateKitchenContent(order: any): string {
+  generateKitchenContent(order: any, changes?: OrderItemChangeEntry[]): string {
     const lines: string[] = [];
     
-    lines.push('*** 廚房工作單 ***');
+    lines.push(changes ? '*** 廚房工作單 (MODIFIED) ***' : '*** 廚房工作單 ***');
     lines.push('');
+    if (order.pickupNumber) {
+      lines.push(`取餐號碼: ${order.pickupNumber}`);
+    }
     lines.push(`訂單: ${order.orderNumber}`);
     lines.push(`時間: ${new Date(order.createdAt).toLocaleString('zh-TW')}`);
     lines.push(`類型: ${this.getOrderTypeText(order.orderType)}`);
+    if (order.externalDisplayId) {
+      lines.push(`平台單號: ${order.externalDisplayId}`);
+    }
     lines.push('========================');
+
+    // 修改單先列出異動內容，再列出修改後的完整內容
+    if (changes) {
+      lines.push('修改內容:');
+      for (const change of changes) {
+        if (change.action === 'ADD') {
+          lines.push(`  + 新增 【${change.after!.quantity}】${change.productName}`);
+        } else if (change.action === 'REMOVE') {
+          lines.push(`  - 刪除 【${change.before!.quantity}】${change.productName}`);
+        } else {
+          lines.push(`  ~ 修改 ${change.productName} 【${change.before!.quantity}】->【${change.after!.quantity}】`);
+        }
+      }
+      lines.push('========================');
+    }
     
     for (const item of order.items) {
       lines.push(`【${item.quantity}】${item.product.name}`);
       if (item.variant) {
         lines.push(`   規格: ${item.variant.name}`);
       }
+
+      // 套餐展開為實際要製作的品項與總數量
+      if (item.components && item.components.length > 0) {
+        for (const component of item.components) {
+          const variantText = component.variant ? `(${component.variant.name})` : '';
+          lines.push(`   > ${component.product.name}${variantText} x${component.quantity * item.quantity}`);
+        }
+      }
+
+      // 同群組選項合併成一行，方便廚房辨識
+      if (item.modifiers && item.modifiers.length > 0) {
+        for (const [groupName, optionNames] of this.groupModifiers(item.modifiers)) {
+          lines.push(`   ◎ ${groupName}: ${optionNames.join('、')}`);
+        }
+      }
       
       if (item.addons && item.addons.length > 0) {
         for (const addon of item.addons) {
@@ -295,28 +423,7 @@ export class PrintService {
     try {
       const order = await prisma.order.findUnique({
         where: { id: orderId },
-        include: {
-          items: {
-            include: {
-              product: true,
-              variant: true,
-              addons: {
-                include: {
-                  addon: true,
-                },
-              },
-            },
-          },
-          store: {
-            include: {
-              printers: {
-                where: { isActive: true },
-              },
-            },
-          },
-          customer: true,
-          payments: true,
-        },
+        include: this.printableOrderInclude(),
       });
 
       if (!order) {
@@ -351,6 +458,93 @@ export class PrintService {
     }
   }
 
+  /**
+   * 打印訂單修改後的廚房單（標示MODIFIED）
+   */
+  async printModifiedKitchenTicket(orderId: string, changes: OrderItemChangeEntry[]): Promise<void> {
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: this.printableOrderInclude(),
+      });
+
+      if (!order) {
+        throw new AppError('訂單不存在', 404);
+      }
+
+      const kitchenPrinter = order.store.printers.find((p: any) => p.location === '廚房');
+      if (kitchenPrinter) {
+        await this.sendPrintJob(kitchenPrinter.id, {
+          orderId,
+          type: 'KITCHEN',
+          content: this.generateKitchenContent(order, changes),
+        });
+      }
+
+      logger.info(`訂單修改廚房單打印完成: ${order.orderNumber}`);
+    } catch (error) {
+      logger.error(`訂單修改廚房單打印失敗: ${orderId}`, error);
+    }
+  }
+
+  /**
+   * 打印分開付款的個人收據（每位付款人一張）
+   */
+  async printPayerReceipts(orderId: string, paymentIds: string[]): Promise<void> {
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: this.printableOrderInclude(),
+      });
+
+      if (!order) {
+        throw new AppError('訂單不存在', 404);
+      }
+
+      const receiptPrinter = order.store.printers.find((p: any) => p.location === '櫃台');
+      if (!receiptPrinter) {
+        return;
+      }
+
+      const payments = await prisma.payment.findMany({
+        where: {
+          id: { in: paymentIds },
+        },
+        include: {
+          items: {
+            include: {
+              orderItem: {
+                include: {
+                  product: { select: { name: true } },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      // 依付款順序計算每張收據列印當下的未付餘額
+      const paidBefore = order.payments
+        .filter((p: any) => p.status === 'COMPLETED' && !paymentIds.includes(p.id))
+        .reduce((sum: number, p: any) => sum + p.amount, 0);
+      let outstanding = Math.round((order.finalAmount - paidBefore) * 100) / 100;
+
+      for (const payment of payments) {
+        outstanding = Math.round((outstanding - payment.amount) * 100) / 100;
+        await this.sendPrintJob(receiptPrinter.id, {
+          orderId,
+          type: 'RECEIPT',
+          content: this.generatePayerReceiptContent(order, payment, outstanding),
+        });
+      }
+
+      logger.info(`分開付款收據打印完成: ${order.orderNumber} (${payments.length}張)`);
+    } catch (error) {
+      logger.error(`分開付款收據打印失敗: ${orderId}`, error);
+    }
+  }
+
   /**
    * 測試打印機連接
    */
@@ -396,6 +590,7 @@ export class PrintService {
       TAKEOUT: '外帶',
       DELIVERY: '外送',
       UBER_EATS: 'Uber Eats',
+      FOODPANDA: 'foodpanda',
     };
     return typeMap[orderType] || orderType;
   }
@@ -419,6 +614,7 @@ export class PrintService {
   private getPaymentStatusText(status: string): string {
     const statusMap: Record<string, string> = {
       PENDING: '待付款',
+      PARTIAL: '部分付款',
       COMPLETED: '已付款',
       FAILED: '付款失敗',
       REFUNDED: '已退款',
@@ -427,34 +623,57 @@ export class PrintService {
   }
 
   /**
-   * 重新打印訂單
+   * 依群組彙整商品選項名稱
    */
-  async reprintOrder(orderId: string, printType: 'RECEIPT' | 'KITCHEN'): Promise<boolean> {
-    try {
-      const order = await prisma.order.findUnique({
-        where: { id: orderId },
+  private groupModifiers(modifiers: Array<{ groupName: string; optionName: string }>): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const modifier of modifiers) {
+      groups.set(modifier.groupName, [...(groups.get(modifier.groupName) || []), modifier.optionName]);
+    }
+    return groups;
+  }
+
+  private printableOrderInclude() {
+    return {
+      items: {
         include: {
-          items: {
+          product: true,
+          variant: true,
+          modifiers: true,
+          components: {
             include: {
               product: true,
               variant: true,
-              addons: {
-                include: {
-                  addon: true,
-                },
-              },
             },
           },
-          store: {
+          addons: {
             include: {
-              printers: {
-                where: { isActive: true },
-              },
+              addon: true,
             },
           },
-          customer: true,
-          payments: true,
         },
+      },
+      store: {
+        include: {
+          printers: {
+            where: { isActive: true },
+          },
+        },
+      },
+      customer: true,
+      payments: true,
+      promotions: true,
+    } satisfies Prisma.OrderInclude;
+  }
+
+  /**
+   * 重新打印訂單
+   */
+  async reprintOrder(orderId: string, printType: 'RECEIPT' | 'KITCHEN'): Promise<boolean> {
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: this.printableOrderInclude(),
       });
 
       if (!order) {
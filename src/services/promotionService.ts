@@ -0,0 +1,391 @@
+import { PrismaClient, Prisma, Promotion } from '@prisma/client';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export const PROMOTION_ACTION_TYPES = ['FREE_ITEM', 'PERCENTAGE_OFF', 'FIXED_OFF', 'BUNDLE_PRICE'];
+
+/**
+ * 促銷條件，商品及分類皆未設定時以整筆訂單計算
+ * minQuantity 同時是每組的件數（含贈品），可重複套用時以此分組
+ */
+export interface PromotionConditions {
+  productIds?: string[];
+  categoryIds?: string[];
+  minQuantity?: number;
+  minSpend?: number;
+}
+
+export interface PromotionInput {
+  name: string;
+  description?: string | null;
+  conditions: PromotionConditions;
+  actionType: string;
+  actionValue?: number;
+  rewardProductId?: string | null;
+  rewardQuantity?: number | null;
+  maxApplications?: number | null;
+  priority?: number;
+  stackable?: boolean;
+  combinableWithCoupons?: boolean;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  isActive?: boolean;
+}
+
+// 試算所需的訂單項目欄位
+export interface PromotionItem {
+  productId: string;
+  quantity: number;
+  totalPrice: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  discountAmount: number;
+}
+
+export interface PromotionResult {
+  promotions: AppliedPromotion[];
+  discountAmount: number;
+  itemDiscounts: number[]; // 各項目的促銷折抵，順序同傳入的項目
+}
+
+export interface PromotionEvaluationOptions {
+  at?: Date;
+  withCoupon?: boolean; // 訂單使用優惠券時略過不可併用的促銷
+}
+
+interface PromotionUnit {
+  index: number;
+  price: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PromotionService {
+  /**
+   * 計算訂單可套用的促銷
+   * 依優先度由高到低套用，每項商品的折抵不超過其剩餘金額
+   */
+  async evaluate(
+    storeId: string,
+    items: PromotionItem[],
+    options: PromotionEvaluationOptions = {}
+  ): Promise<PromotionResult> {
+    const at = options.at ?? new Date();
+    const itemDiscounts = items.map(() => 0);
+
+    const promotions = await prisma.promotion.findMany({
+      where: {
+        storeId,
+        isActive: true,
+        AND: [
+          { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+          { OR: [{ validUntil: null }, { validUntil: { gte: at } }] },
+        ],
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    if (promotions.length === 0 || items.length === 0) {
+      return { promotions: [], discountAmount: 0, itemDiscounts };
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: [...new Set(items.map(item => item.productId))] } },
+      select: { id: true, categoryId: true },
+    });
+    const categoryMap = new Map(products.map(product => [product.id, product.categoryId]));
+
+    const applied: AppliedPromotion[] = [];
+    const remaining = items.map(item => item.totalPrice);
+
+    for (const promotion of promotions) {
+      if (options.withCoupon && !promotion.combinableWithCoupons) {
+        continue;
+      }
+
+      if (applied.length > 0 && !promotion.stackable) {
+        continue;
+      }
+
+      const discounts = this.applyPromotion(promotion, items, categoryMap, remaining);
+      const discountAmount = roundAmount(discounts.reduce((sum, discount) => sum + discount, 0));
+
+      if (discountAmount <= 0) {
+        continue;
+      }
+
+      discounts.forEach((discount, index) => {
+        remaining[index] = roundAmount(remaining[index] - discount);
+        itemDiscounts[index] = roundAmount(itemDiscounts[index] + discount);
+      });
+
+      applied.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        discountAmount,
+      });
+
+      // 不可併用的促銷套用後不再套用其他促銷
+      if (!promotion.stackable) {
+        break;
+      }
+    }
+
+    return {
+      promotions: applied,
+      discountAmount: roundAmount(applied.reduce((sum, promotion) => sum + promotion.discountAmount, 0)),
+      itemDiscounts,
+    };
+  }
+
+  /**
+   * 獲取店鋪的促銷活動
+   */
+  async listPromotions(storeId: string) {
+    const promotions = await prisma.promotion.findMany({
+      where: { storeId },
+      include: {
+        rewardProduct: { select: { id: true, name: true } },
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return promotions.map(promotion => this.formatPromotion(promotion));
+  }
+
+  /**
+   * 建立促銷活動
+   */
+  async createPromotion(storeId: string, input: PromotionInput) {
+    await this.validatePromotion(storeId, input);
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        storeId,
+        ...this.toPromotionData(input),
+      },
+    });
+
+    return this.formatPromotion(promotion);
+  }
+
+  /**
+   * 更新促銷活動（整筆覆寫）
+   */
+  async updatePromotion(promotionId: string, input: PromotionInput) {
+    const existing = await prisma.promotion.findUnique({
+      where: { id: promotionId },
+    });
+
+    if (!existing) {
+      throw new AppError('促銷活動不存在', 404);
+    }
+
+    await this.validatePromotion(existing.storeId, input);
+
+    const promotion = await prisma.promotion.update({
+      where: { id: promotionId },
+      data: this.toPromotionData(input),
+    });
+
+    return this.formatPromotion(promotion);
+  }
+
+  /**
+   * 刪除促銷活動，歷史訂單保留促銷名稱及折抵金額
+   */
+  async deletePromotion(promotionId: string) {
+    await prisma.promotion.delete({
+      where: { id: promotionId },
+    });
+  }
+
+  /**
+   * 計算單一促銷對各項目的折抵，不符合條件時全為0
+   */
+  private applyPromotion(
+    promotion: Promotion,
+    items: PromotionItem[],
+    categoryMap: Map<string, string>,
+    remaining: number[]
+  ): number[] {
+    const discounts = items.map(() => 0);
+    const conditions: PromotionConditions = JSON.parse(promotion.conditions);
+    const productIds = conditions.productIds || [];
+    const categoryIds = conditions.categoryIds || [];
+
+    const scope = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => {
+        if (productIds.length === 0 && categoryIds.length === 0) {
+          return true;
+        }
+        return productIds.includes(item.productId) ||
+          categoryIds.includes(categoryMap.get(item.productId) ?? '');
+      })
+      .map(({ index }) => index);
+
+    const quantity = scope.reduce((sum, index) => sum + items[index].quantity, 0);
+    const spend = scope.reduce((sum, index) => sum + items[index].totalPrice, 0);
+
+    if (quantity === 0 ||
+        (conditions.minQuantity && quantity < conditions.minQuantity) ||
+        (conditions.minSpend && spend < conditions.minSpend)) {
+      return discounts;
+    }
+
+    let sets = conditions.minQuantity ? Math.floor(quantity / conditions.minQuantity) : 1;
+    if (promotion.maxApplications) {
+      sets = Math.min(sets, promotion.maxApplications);
+    }
+
+    const toUnits = (indexes: number[]): PromotionUnit[] => indexes.flatMap(index =>
+      Array.from({ length: items[index].quantity }, () => ({
+        index,
+        price: remaining[index] / items[index].quantity,
+      }))
+    );
+
+    // 贈品或指定件數折扣：每組折扣最便宜的件數
+    if (promotion.actionType === 'FREE_ITEM' ||
+        (promotion.actionType === 'PERCENTAGE_OFF' && promotion.rewardQuantity)) {
+      const rewardIndexes = promotion.rewardProductId
+        ? items.map((item, index) => ({ item, index }))
+          .filter(({ item }) => item.productId === promotion.rewardProductId)
+          .map(({ index }) => index)
+        : scope;
+      const rate = promotion.actionType === 'FREE_ITEM' ? 1 : promotion.actionValue / 100;
+      const count = sets * (promotion.rewardQuantity ?? 1);
+
+      const units = toUnits(rewardIndexes).sort((a, b) => a.price - b.price).slice(0, count);
+      for (const unit of units) {
+        discounts[unit.index] += unit.price * rate;
+      }
+      return discounts.map(roundAmount);
+    }
+
+    switch (promotion.actionType) {
+      case 'PERCENTAGE_OFF':
+        for (const index of scope) {
+          discounts[index] = remaining[index] * promotion.actionValue / 100;
+        }
+        break;
+
+      case 'FIXED_OFF': {
+        const scopeRemaining = scope.reduce((sum, index) => sum + remaining[index], 0);
+        const amount = Math.min(promotion.actionValue * sets, scopeRemaining);
+        if (scopeRemaining > 0) {
+          for (const index of scope) {
+            discounts[index] = amount * remaining[index] / scopeRemaining;
+          }
+        }
+        break;
+      }
+
+      case 'BUNDLE_PRICE': {
+        // 由高價商品開始組合，對顧客最有利
+        const size = conditions.minQuantity || 1;
+        const units = toUnits(scope).sort((a, b) => b.price - a.price);
+        for (let set = 0; set < sets; set++) {
+          const bundle = units.slice(set * size, (set + 1) * size);
+          const bundleTotal = bundle.reduce((sum, unit) => sum + unit.price, 0);
+          const saving = bundleTotal - promotion.actionValue;
+          if (saving <= 0) {
+            break;
+          }
+          for (const unit of bundle) {
+            discounts[unit.index] += saving * unit.price / bundleTotal;
+          }
+        }
+        break;
+      }
+    }
+
+    return discounts.map(roundAmount);
+  }
+
+  /**
+   * 檢查促銷設定，商品及分類必須屬於同一店鋪
+   */
+  private async validatePromotion(storeId: string, input: PromotionInput): Promise<void> {
+    const value = input.actionValue ?? 0;
+    const conditions = input.conditions;
+
+    if (!PROMOTION_ACTION_TYPES.includes(input.actionType)) {
+      throw new AppError(`促銷類型無效: ${input.actionType}`, 400);
+    }
+
+    if (input.actionType === 'PERCENTAGE_OFF' && (value <= 0 || value > 100)) {
+      throw new AppError('折扣百分比必須在0-100之間', 400);
+    }
+
+    if (input.actionType === 'FIXED_OFF' && value <= 0) {
+      throw new AppError('折抵金額必須大於0', 400);
+    }
+
+    if (input.actionType === 'BUNDLE_PRICE' && (!conditions.minQuantity || conditions.minQuantity < 2 || value < 0)) {
+      throw new AppError('組合價需設定至少2件的組合數量及組合價格', 400);
+    }
+
+    if (input.validFrom && input.validUntil && input.validFrom >= input.validUntil) {
+      throw new AppError('促銷結束時間必須晚於開始時間', 400);
+    }
+
+    const productIds = [...new Set([...(conditions.productIds || []), ...(input.rewardProductId ? [input.rewardProductId] : [])])];
+    if (productIds.length > 0) {
+      const found = await prisma.product.count({
+        where: { id: { in: productIds }, storeId },
+      });
+      if (found !== productIds.length) {
+        throw new AppError('商品不存在', 404);
+      }
+    }
+
+    const categoryIds = [...new Set(conditions.categoryIds || [])];
+    if (categoryIds.length > 0) {
+      const found = await prisma.category.count({
+        where: { id: { in: categoryIds }, storeId },
+      });
+      if (found !== categoryIds.length) {
+        throw new AppError('分類不存在', 404);
+      }
+    }
+  }
+
+  private toPromotionData(input: PromotionInput) {
+    const conditions: PromotionConditions = {
+      productIds: input.conditions.productIds?.length ? input.conditions.productIds : undefined,
+      categoryIds: input.conditions.categoryIds?.length ? input.conditions.categoryIds : undefined,
+      minQuantity: input.conditions.minQuantity || undefined,
+      minSpend: input.conditions.minSpend || undefined,
+    };
+
+    return {
+      name: input.name,
+      description: input.description ?? null,
+      conditions: JSON.stringify(conditions),
+      actionType: input.actionType,
+      actionValue: input.actionValue ?? 0,
+      rewardProductId: input.rewardProductId || null,
+      rewardQuantity: input.rewardQuantity ?? null,
+      maxApplications: input.maxApplications ?? null,
+      priority: input.priority ?? 0,
+      stackable: input.stackable ?? true,
+      combinableWithCoupons: input.combinableWithCoupons ?? true,
+      validFrom: input.validFrom || null,
+      validUntil: input.validUntil || null,
+      isActive: input.isActive ?? true,
+    } satisfies Omit<Prisma.PromotionUncheckedCreateInput, 'storeId'>;
+  }
+
+  private formatPromotion<T extends Promotion>(promotion: T) {
+    return {
+      ...promotion,
+      conditions: JSON.parse(promotion.conditions) as PromotionConditions,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,434 @@
+import { PrismaClient, Prisma, PickupSlotConfig } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+import { KitchenService } from './kitchenService';
+import { getZonedDate, zonedTimeToUtc } from '../utils/businessDay';
+
+const prisma = new PrismaClient();
+const kitchenService = new KitchenService();
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// 排程每次只檢查24小時內取餐的預約訂單
+const RELEASE_LOOKAHEAD_MINUTES = 24 * 60;
+
+export interface PickupSlot {
+  start: Date;
+  end: Date;
+  orderCount: number;
+  itemCount: number;
+  remainingOrders: number | null; // null表示不限制
+  remainingItems: number | null;
+  available: boolean;
+}
+
+export interface ReleasedOrder {
+  order: {
+    id: string;
+    storeId: string;
+    customerId: string;
+    orderNumber: string;
+    pickupNumber: string | null;
+    orderType: string;
+    scheduledFor: Date | null;
+    createdAt: Date;
+  };
+  stationIds: string[];
+}
+
+interface SlotStore {
+  id: string;
+  timezone: string;
+  businessHours: string | null;
+}
+
+const parseMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export class ScheduleService {
+  /**
+   * 獲取店鋪預約設定，未開放預約時拋出錯誤
+   */
+  async getConfig(storeId: string, client: Prisma.TransactionClient = prisma): Promise<PickupSlotConfig> {
+    const config = await client.pickupSlotConfig.findUnique({
+      where: { storeId },
+    });
+
+    if (!config || !config.isEnabled) {
+      throw new AppError('店鋪未開放預約訂單', 400);
+    }
+
+    return config;
+  }
+
+  /**
+   * 查詢指定日期的預約時段及剩餘名額
+   * @param date 店鋪當地日期 YYYY-MM-DD
+   */
+  async getAvailableSlots(storeId: string, date: string, now: Date = new Date()): Promise<PickupSlot[]> {
+    const config = await this.getConfig(storeId);
+    const store = await this.getStore(prisma, storeId);
+
+    return await this.buildSlots(prisma, store, config, date, now);
+  }
+
+  /**
+   * 驗證並佔用預約時段名額
+   * 必須在建立訂單的交易中呼叫；預約時間必須是時段的開始時間。
+   * 名額以時段計數器條件式遞增，併發下不會超過上限
+   */
+  async reserveSlot(
+    tx: Prisma.TransactionClient,
+    storeId: string,
+    scheduledFor: Date,
+    itemCount: number,
+    now: Date = new Date()
+  ): Promise<void> {
+    const config = await this.getConfig(storeId, tx);
+    const store = await this.getStore(tx, storeId);
+
+    const minutesAhead = (scheduledFor.getTime() - now.getTime()) / (60 * 1000);
+
+    if (minutesAhead < config.minAdvanceMinutes) {
+      throw new AppError(`預約時間至少需提前${config.minAdvanceMinutes}分鐘`, 400);
+    }
+
+    if (minutesAhead > config.maxAdvanceDays * 24 * 60) {
+      throw new AppError(`最多只能預約${config.maxAdvanceDays}天內的時段`, 400);
+    }
+
+    const slots = await this.buildSlots(tx, store, config, getZonedDate(scheduledFor, store.timezone), now);
+    const slot = slots.find(s => s.start.getTime() === scheduledFor.getTime());
+
+    if (!slot) {
+      throw new AppError('預約時間不在可預約的時段內', 400);
+    }
+
+    // 第一次預約時以現有訂單建立計數器
+    await tx.pickupSlotUsage.upsert({
+      where: {
+        storeId_slotStart: { storeId, slotStart: slot.start },
+      },
+      create: {
+        storeId,
+        slotStart: slot.start,
+        orderCount: slot.orderCount,
+        itemCount: slot.itemCount,
+      },
+      update: {},
+    });
+
+    const result = await tx.pickupSlotUsage.updateMany({
+      where: {
+        storeId,
+        slotStart: slot.start,
+        orderCount: config.maxOrders !== null ? { lt: config.maxOrders } : undefined,
+        itemCount: config.maxItems !== null ? { lte: config.maxItems - itemCount } : undefined,
+      },
+      data: {
+        orderCount: { increment: 1 },
+        itemCount: { increment: itemCount },
+      },
+    });
+
+    if (result.count === 0) {
+      const usage = await tx.pickupSlotUsage.findUnique({
+        where: {
+          storeId_slotStart: { storeId, slotStart: slot.start },
+        },
+      });
+
+      if (config.maxOrders !== null && usage!.orderCount >= config.maxOrders) {
+        throw new AppError('該時段已額滿，請選擇其他時段', 409);
+      }
+
+      throw new AppError(`該時段剩餘可預約${Math.max(0, config.maxItems! - usage!.itemCount)}份，請選擇其他時段`, 409);
+    }
+  }
+
+  /**
+   * 歸還預約訂單佔用的時段名額（訂單取消時在同一交易中呼叫）
+   */
+  async releaseSlot(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        storeId: true,
+        scheduledFor: true,
+        items: { select: { quantity: true } },
+      },
+    });
+
+    if (!order || !order.scheduledFor) {
+      return;
+    }
+
+    const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+    const result = await tx.pickupSlotUsage.updateMany({
+      where: {
+        storeId: order.storeId,
+        slotStart: order.scheduledFor,
+        orderCount: { gt: 0 },
+        itemCount: { gte: itemCount },
+      },
+      data: {
+        orderCount: { decrement: 1 },
+        itemCount: { decrement: itemCount },
+      },
+    });
+
+    // 計數器份數少於訂單份數時（例如計數器建立前的訂單）歸零，避免出現負數
+    if (result.count === 0) {
+      await tx.pickupSlotUsage.updateMany({
+        where: {
+          storeId: order.storeId,
+          slotStart: order.scheduledFor,
+          orderCount: { gt: 0 },
+        },
+        data: {
+          orderCount: { decrement: 1 },
+          itemCount: 0,
+        },
+      });
+    }
+  }
+
+  /**
+   * 依預約訂單修改前後的份數差異調整時段計數器（訂單修改時在同一交易中呼叫）
+   * 增加份數時與預約相同以條件更新檢查時段上限
+   */
+  async adjustSlotItems(
+    tx: Prisma.TransactionClient,
+    storeId: string,
+    slotStart: Date,
+    itemCountDelta: number
+  ): Promise<void> {
+    if (itemCountDelta === 0) {
+      return;
+    }
+
+    if (itemCountDelta < 0) {
+      const result = await tx.pickupSlotUsage.updateMany({
+        where: { storeId, slotStart, itemCount: { gte: -itemCountDelta } },
+        data: { itemCount: { decrement: -itemCountDelta } },
+      });
+
+      if (result.count === 0) {
+        await tx.pickupSlotUsage.updateMany({
+          where: { storeId, slotStart },
+          data: { itemCount: 0 },
+        });
+      }
+      return;
+    }
+
+    // 已停用預約的店鋪仍需能修改既有的預約訂單，因此不透過getConfig檢查是否開放
+    const config = await tx.pickupSlotConfig.findUnique({
+      where: { storeId },
+    });
+    const maxItems = config?.maxItems ?? null;
+
+    const result = await tx.pickupSlotUsage.updateMany({
+      where: {
+        storeId,
+        slotStart,
+        itemCount: maxItems !== null ? { lte: maxItems - itemCountDelta } : undefined,
+      },
+      data: {
+        itemCount: { increment: itemCountDelta },
+      },
+    });
+
+    if (result.count === 0) {
+      const usage = await tx.pickupSlotUsage.findUnique({
+        where: {
+          storeId_slotStart: { storeId, slotStart },
+        },
+      });
+
+      // 沒有計數器的時段（計數器建立前的預約）不需調整
+      if (!usage) {
+        return;
+      }
+
+      throw new AppError(`該時段剩餘可預約${Math.max(0, maxItems! - usage.itemCount)}份，無法增加餐點`, 409);
+    }
+  }
+
+  /**
+   * 送出到達備餐時間的預約訂單
+   * 送出時間為取餐時間減去準備時間（店鋪設定與預估製作時間取較長者）
+   */
+  async releaseDueOrders(now: Date = new Date()): Promise<ReleasedOrder[]> {
+    const candidates = await prisma.order.findMany({
+      where: {
+        scheduledFor: {
+          not: null,
+          lte: new Date(now.getTime() + RELEASE_LOOKAHEAD_MINUTES * 60 * 1000),
+        },
+        releasedAt: null,
+        status: { notIn: ['COMPLETED', 'CANCELLED'] },
+      },
+      include: {
+        store: {
+          select: { pickupSlotConfig: true },
+        },
+      },
+      orderBy: { scheduledFor: 'asc' },
+    });
+
+    const released: ReleasedOrder[] = [];
+
+    for (const order of candidates) {
+      if (this.getReleaseTime(order).getTime() > now.getTime()) {
+        continue;
+      }
+
+      try {
+        const stationIds = await prisma.$transaction(async (tx) => {
+          // 以releasedAt為空作條件，避免多個排程同時送出同一張訂單
+          const { count } = await tx.order.updateMany({
+            where: { id: order.id, releasedAt: null },
+            data: { releasedAt: now },
+          });
+
+          if (count === 0) {
+            return null;
+          }
+
+          return await kitchenService.routeOrder(tx, order.id);
+        });
+
+        if (stationIds) {
+          const { store, ...releasedOrder } = order;
+          released.push({ order: releasedOrder, stationIds });
+          logger.info(`預約訂單已送出: ${order.orderNumber} (取餐時間: ${order.scheduledFor!.toISOString()})`);
+        }
+      } catch (error) {
+        logger.error(`預約訂單送出失敗: ${order.orderNumber}`, error);
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * 計算預約訂單送到廚房的時間
+   */
+  getReleaseTime(order: {
+    scheduledFor: Date | null;
+    estimatedTime: number | null;
+    store: { pickupSlotConfig: PickupSlotConfig | null };
+  }): Date {
+    const leadMinutes = Math.max(order.store.pickupSlotConfig?.leadMinutes ?? 20, order.estimatedTime ?? 0);
+
+    return new Date(order.scheduledFor!.getTime() - leadMinutes * 60 * 1000);
+  }
+
+  private async getStore(client: Prisma.TransactionClient, storeId: string): Promise<SlotStore> {
+    const store = await client.store.findUnique({
+      where: { id: storeId },
+      select: { id: true, timezone: true, businessHours: true },
+    });
+
+    if (!store) {
+      throw new AppError('店鋪不存在', 404);
+    }
+
+    return store;
+  }
+
+  /**
+   * 依營業時間切分時段，並統計各時段已預約的訂單數及份數
+   */
+  private async buildSlots(
+    client: Prisma.TransactionClient,
+    store: SlotStore,
+    config: PickupSlotConfig,
+    date: string,
+    now: Date
+  ): Promise<PickupSlot[]> {
+    const hours = this.getBusinessHours(store, date);
+    if (!hours) {
+      return [];
+    }
+
+    const starts: number[] = [];
+    for (let minute = hours.open; minute + config.slotMinutes <= hours.close; minute += config.slotMinutes) {
+      starts.push(minute);
+    }
+
+    if (starts.length === 0) {
+      return [];
+    }
+
+    const dayStart = zonedTimeToUtc(date, starts[0], store.timezone);
+    const dayEnd = zonedTimeToUtc(date, hours.close, store.timezone);
+
+    const bookedOrders = await client.order.findMany({
+      where: {
+        storeId: store.id,
+        scheduledFor: { gte: dayStart, lt: dayEnd },
+        status: { not: 'CANCELLED' },
+      },
+      select: {
+        scheduledFor: true,
+        items: { select: { quantity: true } },
+      },
+    });
+
+    const earliest = now.getTime() + config.minAdvanceMinutes * 60 * 1000;
+    const latest = now.getTime() + config.maxAdvanceDays * 24 * 60 * 60 * 1000;
+
+    return starts.map(minute => {
+      const start = zonedTimeToUtc(date, minute, store.timezone);
+      const end = new Date(start.getTime() + config.slotMinutes * 60 * 1000);
+
+      const inSlot = bookedOrders.filter(order => order.scheduledFor!.getTime() === start.getTime());
+      const orderCount = inSlot.length;
+      const itemCount = inSlot.reduce(
+        (sum, order) => sum + order.items.reduce((itemSum, item) => itemSum + item.quantity, 0),
+        0
+      );
+
+      const remainingOrders = config.maxOrders !== null ? Math.max(0, config.maxOrders - orderCount) : null;
+      const remainingItems = config.maxItems !== null ? Math.max(0, config.maxItems - itemCount) : null;
+
+      return {
+        start,
+        end,
+        orderCount,
+        itemCount,
+        remainingOrders,
+        remainingItems,
+        available: start.getTime() >= earliest
+          && start.getTime() <= latest
+          && remainingOrders !== 0
+          && remainingItems !== 0,
+      };
+    });
+  }
+
+  /**
+   * 解析店鋪當天的營業時間（分鐘），公休日回傳null
+   */
+  private getBusinessHours(store: SlotStore, date: string): { open: number; close: number } | null {
+    if (!store.businessHours) {
+      return null;
+    }
+
+    const businessHours = JSON.parse(store.businessHours) as Record<string, { open: string; close: string } | undefined>;
+    const [year, month, day] = date.split('-').map(value => parseInt(value, 10));
+    const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    const hours = businessHours[weekday];
+
+    if (!hours || !hours.open || !hours.close) {
+      return null;
+    }
+
+    return { open: parseMinutes(hours.open), close: parseMinutes(hours.close) };
+  }
+}
\ No newline at end of file
@@ -2,11 +2,22 @@ import { Server } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import jwt from 'jsonwebtoken';
 import logger from '../utils/logger';
+import { WorkflowService } from './workflowService';
+import { PrepTimeService } from './prepTimeService';
+import { TableService } from './tableService';
+import { OrderService } from './orderService';
+import { PlatformOrderService } from './platformOrderService';
+import AppError from '../utils/AppError';
 
 const prisma = new PrismaClient();
 
 export class SocketManager {
   private io: Server;
+  private workflowService = new WorkflowService();
+  private prepTimeService = new PrepTimeService();
+  private tableService = new TableService();
+  private orderService = new OrderService();
+  private platformOrderService = new PlatformOrderService();
 
   constructor(io: Server) {
     this.io = io;
@@ -24,6 +35,11 @@ export class SocketManager {
         }
 
         const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+        // 桌邊點餐訪客令牌只限點餐路由，不能訂閱店鋪及訂單的即時通知
+        if (decoded.scope) {
+          throw new Error('限定範圍的令牌無法連線');
+        }
         
         const user = await prisma.user.findUnique({
           where: { id: decoded.userId },
@@ -109,6 +125,47 @@ export class SocketManager {
       logger.info(`用戶 ${user.displayName} 離開店鋪房間: ${storeId}`);
     });
 
+    // 加入廚房工作站房間
+    socket.on('join-station', async (stationId: string) => {
+      try {
+        // 工作站房間只開放店家員工，與KDS路由相同
+        if (!user.roles.some((role: any) => ['TENANT_ADMIN', 'STORE_MANAGER', 'STAFF'].includes(role))) {
+          socket.emit('error', { message: '權限不足' });
+          return;
+        }
+
+        const station = await prisma.kitchenStation.findFirst({
+          where: {
+            id: stationId,
+            store: {
+              tenantId: user.tenantId,
+            },
+          },
+        });
+
+        if (!station) {
+          socket.emit('error', { message: '無權限訪問該工作站' });
+          return;
+        }
+
+        socket.join(`station:${stationId}`);
+        logger.info(`用戶 ${user.displayName} 加入工作站房間: ${station.name}`);
+
+        socket.emit('station-joined', {
+          stationId,
+          stationName: station.name,
+        });
+      } catch (error) {
+        logger.error('Socket加入工作站失敗:', error);
+        socket.emit('error', { message: '加入工作站失敗' });
+      }
+    });
+
+    // 離開廚房工作站房間
+    socket.on('leave-station', (stationId: string) => {
+      socket.leave(`station:${stationId}`);
+    });
+
     // 設置用戶狀態
     socket.on('set-status', (status: 'online' | 'busy' | 'away') => {
       socket.data.status = status;
@@ -141,36 +198,63 @@ export class SocketManager {
 
         const { orderId, status, note } = data;
 
-        // 更新訂單狀態
-        const order = await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            status,
-            updatedAt: new Date(),
-          },
-          include: {
-            customer: {
-              select: {
-                displayName: true,
-              },
+        const existingOrder = await prisma.order.findFirst({
+          where: {
+            id: orderId,
+            store: {
+              tenantId: user.tenantId,
             },
           },
         });
 
-        // 記錄狀態變更歷史
-        await prisma.orderStatusHistory.create({
-          data: {
-            orderId,
-            status,
-            note: note || `狀態更新為${status}`,
-            createdBy: user.id,
-          },
+        if (!existingOrder) {
+          socket.emit('error', { message: '訂單不存在' });
+          return;
+        }
+
+        // 依店鋪流程驗證狀態轉換及操作者角色
+        await this.workflowService.assertTransition(existingOrder, status, user.roles);
+
+        // 更新訂單狀態
+        const order = await prisma.$transaction(async (tx) => {
+          const result = await tx.order.update({
+            where: { id: orderId },
+            data: {
+              status,
+              updatedAt: new Date(),
+            },
+            include: {
+              customer: {
+                select: {
+                  displayName: true,
+                },
+              },
+            },
+          });
+
+          // 記錄狀態變更歷史
+          await tx.orderStatusHistory.create({
+            data: {
+              orderId,
+              status,
+              note: note || `狀態更新為${status}`,
+              createdBy: user.id,
+            },
+          });
+
+          // 取消訂單時歸還庫存、時段名額、優惠券及積分
+          if (status === 'CANCELLED') {
+            await this.orderService.releaseCancelledOrder(tx, orderId, note || '訂單取消', user.id);
+          }
+
+          return result;
         });
 
         // 廣播訂單狀態更新
         this.io.to(`store:${order.storeId}`).emit('order-status-updated', {
           orderId,
           orderNumber: order.orderNumber,
+          pickupNumber: order.pickupNumber,
           status,
           customerName: order.customer.displayName,
           updatedBy: user.displayName,
@@ -181,15 +265,26 @@ export class SocketManager {
         this.io.to(`user:${order.customerId}`).emit('your-order-updated', {
           orderId,
           orderNumber: order.orderNumber,
+          pickupNumber: order.pickupNumber,
           status,
           message: this.getStatusMessage(status),
         });
 
+        // 外送平台訂單回傳接單、備餐完成或取消
+        await this.platformOrderService.syncOrderStatus(order, status, note);
+
         logger.info(`訂單狀態通過Socket更新: ${order.orderNumber} -> ${status}`);
+
+        // 訂單完成後續處理（扣減原料、發放積分、更新消費記錄）
+        if (status === 'COMPLETED') {
+          await this.orderService.handleOrderCompletion(order);
+        }
+
+        await this.refreshQueueEstimates(order.storeId);
       } catch (error) {
         logger.error('Socket訂單狀態更新失敗:', error);
         socket.emit('error', {
-          message: '訂單狀態更新失敗',
+          message: error instanceof AppError ? error.message : '訂單狀態更新失敗',
         });
       }
     });
@@ -224,6 +319,7 @@ export class SocketManager {
         socket.emit('order-tracking-info', {
           orderId: order.id,
           orderNumber: order.orderNumber,
+          pickupNumber: order.pickupNumber,
           status: order.status,
           estimatedTime: order.estimatedTime,
           statusHistory: order.statusHistory,
@@ -294,6 +390,30 @@ export class SocketManager {
       }
     });
 
+    // 獲取桌位平面圖狀態（POS連線時載入，之後由floor-status-updated推送）
+    socket.on('get-floor-status', async (storeId: string) => {
+      try {
+        const hasAccess = await this.verifyStoreAccess(user.tenantId, storeId);
+        if (!hasAccess) {
+          socket.emit('error', { message: '無權限訪問該店鋪' });
+          return;
+        }
+
+        const tables = await this.tableService.getFloorPlan(storeId);
+
+        socket.emit('floor-status-updated', {
+          storeId,
+          tables,
+          updatedAt: new Date(),
+        });
+      } catch (error) {
+        logger.error('Socket桌位狀態查詢失敗:', error);
+        socket.emit('error', {
+          message: '桌位狀態查詢失敗',
+        });
+      }
+    });
+
     // 店鋪營業狀態變更
     socket.on('update-store-status', async (data: {
       storeId: string;
@@ -394,6 +514,7 @@ export class SocketManager {
     this.io.to(`store:${order.storeId}`).emit('new-order', {
       orderId: order.id,
       orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
       orderType: order.orderType,
       totalAmount: order.totalAmount,
       itemCount: order.items?.length || 0,
@@ -416,8 +537,10 @@ export class SocketManager {
     this.io.to(`store:${order.storeId}`).emit('order-status-updated', {
       orderId: order.id,
       orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
       status: newStatus,
       customerName: order.customer?.displayName,
+      estimatedTime: order.estimatedTime,
       updatedAt: new Date(),
     });
 
@@ -425,12 +548,163 @@ export class SocketManager {
     this.io.to(`user:${order.customerId}`).emit('your-order-updated', {
       orderId: order.id,
       orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
       status: newStatus,
       message: this.getStatusMessage(newStatus),
       estimatedTime: order.estimatedTime,
     });
   }
 
+  /**
+   * 通知外送員有新的外送單
+   */
+  sendDeliveryJobAssigned(job: any) {
+    this.io.to(`user:${job.driverId}`).emit('delivery-job-assigned', {
+      jobId: job.id,
+      orderId: job.orderId,
+      orderNumber: job.order?.orderNumber,
+      pickupNumber: job.order?.pickupNumber,
+      storeName: job.order?.store?.name,
+      deliveryAddress: job.order?.deliveryAddress,
+      assignedAt: job.assignedAt,
+    });
+  }
+
+  /**
+   * 推送外送員位置及預估送達時間
+   */
+  sendDeliveryUpdate(job: any) {
+    const payload = {
+      orderId: job.orderId,
+      orderNumber: job.order?.orderNumber,
+      status: job.status,
+      driverName: job.driver?.displayName,
+      latitude: job.lastLatitude,
+      longitude: job.lastLongitude,
+      etaMinutes: job.etaMinutes,
+      updatedAt: job.lastLocationAt || job.updatedAt,
+    };
+
+    // 通知店鋪
+    this.io.to(`store:${job.storeId}`).emit('delivery-updated', {
+      ...payload,
+      jobId: job.id,
+      driverId: job.driverId,
+    });
+
+    // 通知顧客
+    this.io.to(`user:${job.order?.customerId}`).emit('your-delivery-updated', payload);
+  }
+
+  /**
+   * 重新計算店鋪排隊中訂單的預估時間，並推送有變動的訂單
+   * 計算失敗不影響原本的操作，只記錄錯誤
+   */
+  async refreshQueueEstimates(storeId: string) {
+    try {
+      const orders = await this.prepTimeService.recalculateQueue(storeId);
+
+      for (const order of orders) {
+        this.sendOrderStatusUpdate(order, order.status);
+      }
+    } catch (error) {
+      logger.error(`重新計算預估時間失敗 (店鋪ID: ${storeId}):`, error);
+    }
+  }
+
+  /**
+   * 推送店鋪最新的桌位狀態
+   * 查詢失敗不影響原本的操作，只記錄錯誤
+   */
+  async refreshFloorStatus(storeId: string) {
+    try {
+      const tables = await this.tableService.getFloorPlan(storeId);
+
+      this.io.to(`store:${storeId}`).emit('floor-status-updated', {
+        storeId,
+        tables,
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      logger.error(`推送桌位狀態失敗 (店鋪ID: ${storeId}):`, error);
+    }
+  }
+
+  /**
+   * 通知工作站有新的待製作項目
+   */
+  sendStationTickets(stationIds: string[], order: any) {
+    for (const stationId of stationIds) {
+      this.io.to(`station:${stationId}`).emit('station-new-ticket', {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        pickupNumber: order.pickupNumber,
+        orderType: order.orderType,
+        createdAt: order.createdAt,
+      });
+    }
+  }
+
+  /**
+   * 通知店家及工作站預約訂單開始備餐
+   */
+  sendScheduledOrderReleased(order: any, stationIds: string[]) {
+    this.sendStationTickets(stationIds, order);
+
+    this.io.to(`store:${order.storeId}`).emit('scheduled-order-released', {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
+      orderType: order.orderType,
+      scheduledFor: order.scheduledFor,
+    });
+  }
+
+  /**
+   * 發送訂單修改通知
+   * 工作站收到標示為MODIFIED的更新工作單
+   */
+  sendOrderModified(order: any, changes: any[], stationIds: string[]) {
+    this.io.to(`store:${order.storeId}`).emit('order-modified', {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
+      finalAmount: order.finalAmount,
+      changes,
+      updatedAt: new Date(),
+    });
+
+    for (const stationId of stationIds) {
+      this.io.to(`station:${stationId}`).emit('station-ticket-modified', {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        pickupNumber: order.pickupNumber,
+        ticketStatus: 'MODIFIED',
+        changes,
+      });
+    }
+
+    this.io.to(`user:${order.customerId}`).emit('your-order-modified', {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      finalAmount: order.finalAmount,
+      changes,
+    });
+  }
+
+  /**
+   * 通知工作站項目出餐或召回
+   */
+  sendStationItemUpdate(item: any) {
+    this.io.to(`station:${item.stationId}`).emit('station-item-updated', {
+      itemId: item.id,
+      orderId: item.orderId,
+      pickupNumber: item.order?.pickupNumber,
+      status: item.status,
+      bumpedAt: item.bumpedAt,
+    });
+  }
+
   /**
    * 發送支付完成通知
    */
@@ -438,6 +712,7 @@ export class SocketManager {
     this.io.to(`store:${order.storeId}`).emit('payment-completed', {
       orderId: order.id,
       orderNumber: order.orderNumber,
+      pickupNumber: order.pickupNumber,
       amount: order.finalAmount,
       customerName: order.customer?.displayName,
       paidAt: new Date(),
@@ -449,6 +724,21 @@ export class SocketManager {
     });
   }
 
+  /**
+   * 通知顧客會員等級升級或降級
+   */
+  sendLoyaltyTierChanged(change: any) {
+    this.io.to(`user:${change.userId}`).emit('your-tier-changed', {
+      fromTier: change.fromTier,
+      toTier: change.toTier,
+      fromName: change.fromName,
+      toName: change.toName,
+      upgraded: change.upgraded,
+      qualifyingSpend: change.qualifyingSpend,
+      changedAt: change.createdAt,
+    });
+  }
+
   /**
    * 獲取在線用戶統計
    */
@@ -490,6 +780,7 @@ export class SocketManager {
       CONFIRMED: '訂單已確認，準備中',
       PREPARING: '製作中，請稍候',
       READY: '製作完成，請取餐',
+      OUT_FOR_DELIVERY: '外送中，請留意來電',
       COMPLETED: '訂單已完成',
       CANCELLED: '訂單已取消',
     };
@@ -0,0 +1,302 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+import { WorkflowService } from './workflowService';
+
+const prisma = new PrismaClient();
+const workflowService = new WorkflowService();
+
+export const TENDER_METHODS = ['CASH', 'CARD', 'LINE_PAY'] as const;
+export const PAYMENT_STATUSES = ['PENDING', 'PARTIAL', 'COMPLETED', 'FAILED', 'REFUNDED'];
+
+export interface Tender {
+  method: string;
+  amount: number;
+  payerName?: string;
+}
+
+export interface ItemTender {
+  method: string;
+  payerName?: string;
+  items: Array<{
+    orderItemId: string;
+    quantity: number;
+  }>;
+}
+
+export interface PaymentResult {
+  payments: Array<{ id: string; amount: number; method: string; payerName: string | null }>;
+  paidAmount: number;
+  outstanding: number;
+  paymentStatus: string;
+  orderStatus: string;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const balanceInclude = {
+  items: {
+    include: {
+      product: { select: { name: true } },
+      paymentItems: {
+        where: { payment: { status: 'COMPLETED' } },
+      },
+    },
+  },
+  payments: {
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.OrderInclude;
+
+type BalanceOrder = Prisma.OrderGetPayload<{ include: typeof balanceInclude }>;
+
+export class SplitBillService {
+  /**
+   * 獲取訂單付款狀況
+   * 包含已付金額、未付餘額及各項目尚未分攤的數量
+   */
+  async getBalance(orderId: string, client: Prisma.TransactionClient = prisma) {
+    const order = await client.order.findUnique({
+      where: { id: orderId },
+      include: balanceInclude,
+    });
+
+    if (!order) {
+      throw new AppError('訂單不存在', 404);
+    }
+
+    const paidAmount = this.getPaidAmount(order);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      finalAmount: order.finalAmount,
+      paidAmount,
+      outstanding: roundAmount(order.finalAmount - paidAmount),
+      paymentStatus: order.paymentStatus,
+      payments: order.payments,
+      items: order.items.map(item => {
+        const paidQuantity = item.paymentItems.reduce((sum, paymentItem) => sum + paymentItem.quantity, 0);
+
+        return {
+          orderItemId: item.id,
+          productName: item.product.name,
+          quantity: item.quantity,
+          paidQuantity,
+          unitAmount: this.getUnitAmount(order, item),
+        };
+      }),
+    };
+  }
+
+  /**
+   * 平均分攤未付餘額
+   * 無法整除的零頭由第一位付款人負擔
+   */
+  splitEvenly(outstanding: number, parts: number): number[] {
+    if (parts < 1) {
+      throw new AppError('分攤人數必須大於0', 400);
+    }
+
+    const share = Math.floor((outstanding / parts) * 100) / 100;
+    const remainder = roundAmount(outstanding - share * parts);
+
+    return Array.from({ length: parts }, (_, index) => (index === 0 ? roundAmount(share + remainder) : share));
+  }
+
+  /**
+   * 依金額記錄付款（多種付款方式或平均分攤）
+   * 必須在交易中呼叫；店員確認收款後才記錄，因此付款直接為完成狀態
+   */
+  async recordPayments(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    tenders: Tender[],
+    userId?: string
+  ): Promise<PaymentResult> {
+    const order = await this.getPayableOrder(tx, orderId);
+    let outstanding = roundAmount(order.finalAmount - this.getPaidAmount(order));
+
+    const payments: PaymentResult['payments'] = [];
+
+    for (const tender of tenders) {
+      const amount = roundAmount(tender.amount);
+
+      if (amount <= 0) {
+        throw new AppError('付款金額必須大於0', 400);
+      }
+
+      if (amount > outstanding) {
+        throw new AppError(`付款金額超過未付餘額 ${outstanding}`, 400);
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          orderId,
+          amount,
+          method: tender.method,
+          status: 'COMPLETED',
+          payerName: tender.payerName,
+          paidAt: new Date(),
+        },
+      });
+
+      outstanding = roundAmount(outstanding - amount);
+      payments.push({ id: payment.id, amount, method: payment.method, payerName: payment.payerName });
+    }
+
+    return await this.updatePaymentStatus(tx, order, payments, outstanding, userId);
+  }
+
+  /**
+   * 依項目記錄付款（各自付自己點的品項）
+   * 項目金額依訂單折扣比例分攤；付清所有項目時以餘額計算，避免尾差
+   */
+  async recordItemPayment(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    tender: ItemTender,
+    userId?: string
+  ): Promise<PaymentResult> {
+    const order = await this.getPayableOrder(tx, orderId);
+    const outstanding = roundAmount(order.finalAmount - this.getPaidAmount(order));
+
+    if (tender.items.length === 0) {
+      throw new AppError('請選擇要付款的項目', 400);
+    }
+
+    let amount = 0;
+    const paymentItems: Array<{ orderItemId: string; quantity: number; amount: number }> = [];
+
+    for (const selection of tender.items) {
+      const item = order.items.find(i => i.id === selection.orderItemId);
+      if (!item) {
+        throw new AppError(`訂單項目不存在: ${selection.orderItemId}`, 404);
+      }
+
+      const paidQuantity = item.paymentItems.reduce((sum, paymentItem) => sum + paymentItem.quantity, 0)
+        + paymentItems.filter(p => p.orderItemId === item.id).reduce((sum, p) => sum + p.quantity, 0);
+
+      if (selection.quantity < 1 || paidQuantity + selection.quantity > item.quantity) {
+        throw new AppError(`${item.product.name} 可付款數量剩餘 ${item.quantity - paidQuantity}`, 400);
+      }
+
+      const itemAmount = roundAmount(this.getUnitAmount(order, item) * selection.quantity);
+      paymentItems.push({ orderItemId: item.id, quantity: selection.quantity, amount: itemAmount });
+      amount = roundAmount(amount + itemAmount);
+    }
+
+    // 所有項目都已分攤時，最後一位付清餘額
+    const allItemsPaid = order.items.every(item => {
+      const paid = item.paymentItems.reduce((sum, paymentItem) => sum + paymentItem.quantity, 0)
+        + paymentItems.filter(p => p.orderItemId === item.id).reduce((sum, p) => sum + p.quantity, 0);
+      return paid >= item.quantity;
+    });
+
+    if (allItemsPaid || amount > outstanding) {
+      amount = outstanding;
+    }
+
+    if (amount <= 0) {
+      throw new AppError('訂單已付清', 400);
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        orderId,
+        amount,
+        method: tender.method,
+        status: 'COMPLETED',
+        payerName: tender.payerName,
+        paidAt: new Date(),
+        items: {
+          create: paymentItems,
+        },
+      },
+    });
+
+    return await this.updatePaymentStatus(
+      tx,
+      order,
+      [{ id: payment.id, amount, method: payment.method, payerName: payment.payerName }],
+      roundAmount(outstanding - amount),
+      userId
+    );
+  }
+
+  /**
+   * 查詢可付款的訂單
+   */
+  private async getPayableOrder(tx: Prisma.TransactionClient, orderId: string): Promise<BalanceOrder> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: balanceInclude,
+    });
+
+    if (!order) {
+      throw new AppError('訂單不存在', 404);
+    }
+
+    if (order.status === 'CANCELLED') {
+      throw new AppError('訂單已取消', 400);
+    }
+
+    if (this.getPaidAmount(order) >= order.finalAmount) {
+      throw new AppError('訂單已付清', 400);
+    }
+
+    return order;
+  }
+
+  /**
+   * 依餘額更新付款狀態，付清時依店鋪流程自動轉換訂單狀態
+   */
+  private async updatePaymentStatus(
+    tx: Prisma.TransactionClient,
+    order: BalanceOrder,
+    payments: PaymentResult['payments'],
+    outstanding: number,
+    userId?: string
+  ): Promise<PaymentResult> {
+    const paymentStatus = outstanding <= 0 ? 'COMPLETED' : 'PARTIAL';
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        paymentStatus,
+        updatedAt: new Date(),
+      },
+    });
+
+    let orderStatus = order.status;
+    if (paymentStatus === 'COMPLETED') {
+      orderStatus = await workflowService.applyAutoTransitions(tx, order, 'PAYMENT_COMPLETED', '分開付款已付清', userId);
+    }
+
+    logger.info(`訂單付款: ${order.orderNumber} 共${payments.length}筆，未付餘額: ${outstanding}`);
+
+    return {
+      payments,
+      paidAmount: roundAmount(order.finalAmount - outstanding),
+      outstanding,
+      paymentStatus,
+      orderStatus,
+    };
+  }
+
+  private getPaidAmount(order: BalanceOrder): number {
+    return roundAmount(
+      order.payments
+        .filter(payment => payment.status === 'COMPLETED')
+        .reduce((sum, payment) => sum + payment.amount, 0)
+    );
+  }
+
+  /**
+   * 計算項目每份的應付金額（依訂單折扣及費用比例分攤）
+   */
+  private getUnitAmount(order: BalanceOrder, item: BalanceOrder['items'][number]): number {
+    const ratio = order.totalAmount > 0 ? order.finalAmount / order.totalAmount : 0;
+    return roundAmount((item.totalPrice / item.quantity) * ratio);
+  }
+}
\ No newline at end of file
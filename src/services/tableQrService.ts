@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+// 桌邊點餐訪客令牌的權限範圍
+export const TABLE_GUEST_SCOPE = 'TABLE_ORDER';
+
+// 訪客令牌有效時間：4小時（一般用餐時間內有效）
+const GUEST_TOKEN_EXPIRES_IN = '4h';
+
+export interface TableGuestScope {
+  storeId: string;
+  tableId: string;
+  tableName: string;
+  branchId: string | null;
+}
+
+interface TableQrPayload {
+  type: 'TABLE_QR';
+  tableId: string;
+  storeId: string;
+  version: number;
+}
+
+/**
+ * QR Code與訪客令牌使用不同密鑰，避免QR Code被當作登入令牌使用
+ */
+const getQrSecret = () => process.env.TABLE_QR_SECRET || `${process.env.JWT_SECRET}:table-qr`;
+
+export class TableQrService {
+  /**
+   * 產生桌位QR Code令牌
+   * 令牌本身不過期，重新產生（qrVersion遞增）後舊令牌失效
+   */
+  generateToken(table: { id: string; storeId: string; qrVersion: number }): string {
+    const payload: TableQrPayload = {
+      type: 'TABLE_QR',
+      tableId: table.id,
+      storeId: table.storeId,
+      version: table.qrVersion,
+    };
+
+    return jwt.sign(payload, getQrSecret());
+  }
+
+  /**
+   * QR Code掃描後開啟的點餐網址
+   */
+  getOrderUrl(token: string): string {
+    return `${process.env.FRONTEND_URL}/table-order?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * 重新產生桌位QR Code，舊的QR Code及已發出的訪客令牌立即失效
+   */
+  async rotateToken(tableId: string): Promise<string> {
+    const table = await prisma.table.update({
+      where: { id: tableId },
+      data: { qrVersion: { increment: 1 } },
+    });
+
+    logger.info(`桌位QR Code已重新產生: ${table.name} (版本: ${table.qrVersion})`);
+
+    return this.generateToken(table);
+  }
+
+  /**
+   * 以QR Code開啟桌邊點餐
+   * 同一桌次共用一個匿名訪客並發出限定該店鋪及桌位的令牌，顧客不需註冊即可點餐
+   */
+  async openGuestSession(token: string) {
+    let payload: TableQrPayload;
+    try {
+      payload = jwt.verify(token, getQrSecret()) as TableQrPayload;
+    } catch (error) {
+      throw new AppError('QR Code無效', 401);
+    }
+
+    if (payload.type !== 'TABLE_QR') {
+      throw new AppError('QR Code無效', 401);
+    }
+
+    const table = await this.getScopedTable(payload.tableId, payload.version);
+
+    const store = await prisma.store.findUnique({
+      where: { id: table.storeId },
+    });
+
+    if (!store || store.status !== 'ACTIVE') {
+      throw new AppError('店鋪目前未營業', 400);
+    }
+
+    const guest = await prisma.$transaction(async (tx) => {
+      // 空桌掃碼即開桌，之後同桌其他人掃碼沿用同一桌次
+      // 交易內重新讀取桌位，並以空桌為條件寫入桌次，避免同時掃碼各自開出一個桌次
+      const current = await tx.table.findUniqueOrThrow({
+        where: { id: table.id },
+      });
+
+      let sessionId = current.sessionId;
+      if (!sessionId) {
+        const session = await tx.tableSession.create({
+          data: {
+            storeId: table.storeId,
+            tableId: table.id,
+          },
+        });
+
+        const opened = await tx.table.updateMany({
+          where: { id: table.id, sessionId: null },
+          data: { sessionId: session.id },
+        });
+
+        if (opened.count === 0) {
+          // 其他掃碼已先開桌，改為沿用該桌次
+          await tx.tableSession.delete({ where: { id: session.id } });
+
+          const occupied = await tx.table.findUniqueOrThrow({
+            where: { id: table.id },
+          });
+
+          if (!occupied.sessionId) {
+            throw new AppError('開桌失敗，請重新掃描', 409);
+          }
+
+          sessionId = occupied.sessionId;
+        } else {
+          sessionId = session.id;
+        }
+      }
+
+      const user = await tx.user.upsert({
+        where: {
+          tenantId_email: {
+            tenantId: store.tenantId,
+            email: `table_${table.id}_${sessionId}@temp.com`,
+          },
+        },
+        create: {
+          tenantId: store.tenantId,
+          email: `table_${table.id}_${sessionId}@temp.com`,
+          password: crypto.randomBytes(32).toString('hex'), // 訪客不能以密碼登入
+          displayName: `${table.name} 桌邊點餐`,
+          status: 'ACTIVE',
+        },
+        update: {},
+      });
+
+      return { ...user, sessionId };
+    });
+
+    const accessToken = jwt.sign(
+      {
+        userId: guest.id,
+        tenantId: guest.tenantId,
+        email: guest.email,
+        scope: TABLE_GUEST_SCOPE,
+        tableId: table.id,
+        qrVersion: table.qrVersion,
+        sessionId: guest.sessionId,
+      },
+      process.env.JWT_SECRET!,
+      { expiresIn: GUEST_TOKEN_EXPIRES_IN }
+    );
+
+    logger.info(`桌邊點餐開始: ${store.name} ${table.name}`);
+
+    return {
+      accessToken,
+      expiresIn: GUEST_TOKEN_EXPIRES_IN,
+      store: {
+        id: store.id,
+        name: store.name,
+      },
+      table: {
+        id: table.id,
+        name: table.name,
+        area: table.area,
+      },
+    };
+  }
+
+  /**
+   * 驗證訪客令牌的桌位範圍（桌位停用、QR Code已重新產生或桌次已結束時失效）
+   */
+  async verifyGuestScope(tableId: string, qrVersion: number, sessionId: string): Promise<TableGuestScope> {
+    const table = await this.getScopedTable(tableId, qrVersion);
+
+    // 令牌綁定發出時的桌次，結帳翻桌後前一組客人的令牌不能再點到下一組客人的桌次
+    const session = table.sessionId === sessionId
+      ? await prisma.tableSession.findUnique({ where: { id: sessionId } })
+      : null;
+
+    if (!session || session.status === 'CLOSED' || session.status === 'MERGED') {
+      throw new AppError('桌次已結束，請重新掃描桌上的QR Code', 401);
+    }
+
+    return {
+      storeId: table.storeId,
+      tableId: table.id,
+      tableName: table.name,
+      branchId: table.branchId,
+    };
+  }
+
+  private async getScopedTable(tableId: string, version: number) {
+    const table = await prisma.table.findUnique({
+      where: { id: tableId },
+    });
+
+    if (!table || !table.isActive) {
+      throw new AppError('桌位不存在或已停用', 404);
+    }
+
+    if (table.qrVersion !== version) {
+      throw new AppError('QR Code已失效，請重新掃描桌上的QR Code', 401);
+    }
+
+    return table;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,408 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+import { SplitBillService, PaymentResult } from './splitBillService';
+
+const prisma = new PrismaClient();
+const splitBillService = new SplitBillService();
+
+export type TableStatus = 'FREE' | 'OCCUPIED' | 'AWAITING_PAYMENT';
+
+export interface SessionCheckoutResult {
+  sessionId: string;
+  payments: PaymentResult['payments'];
+  completedOrderIds: string[]; // 因付清而完成的訂單，需要後續處理
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const sessionInclude = {
+  tables: {
+    select: { id: true, name: true, area: true, seats: true },
+  },
+  orders: {
+    where: { status: { not: 'CANCELLED' } },
+    include: {
+      items: {
+        include: {
+          product: { select: { name: true } },
+        },
+      },
+      payments: {
+        where: { status: 'COMPLETED' },
+        select: { amount: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.TableSessionInclude;
+
+type SessionWithOrders = Prisma.TableSessionGetPayload<{ include: typeof sessionInclude }>;
+
+export class TableService {
+  /**
+   * 獲取店鋪桌位平面圖及各桌狀態（空桌 / 用餐中 / 待結帳）
+   */
+  async getFloorPlan(storeId: string, client: Prisma.TransactionClient = prisma) {
+    const tables = await client.table.findMany({
+      where: {
+        storeId,
+        isActive: true,
+      },
+      include: {
+        session: {
+          include: sessionInclude,
+        },
+      },
+      orderBy: [{ area: 'asc' }, { sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    return tables.map(({ session, ...table }) => ({
+      ...table,
+      status: this.getTableStatus(session),
+      session: session ? this.summarizeSession(session) : null,
+    }));
+  }
+
+  /**
+   * 獲取桌次明細（含所有訂單及應付金額）
+   */
+  async getSession(sessionId: string, client: Prisma.TransactionClient = prisma) {
+    const session = await client.tableSession.findUnique({
+      where: { id: sessionId },
+      include: sessionInclude,
+    });
+
+    if (!session) {
+      throw new AppError('桌次不存在', 404);
+    }
+
+    return {
+      ...this.summarizeSession(session),
+      orders: session.orders,
+    };
+  }
+
+  /**
+   * 開桌
+   */
+  async openSession(tableId: string, guestCount: number, userId: string) {
+    return await prisma.$transaction(async (tx) => {
+      const table = await this.getActiveTable(tx, tableId);
+
+      if (table.sessionId) {
+        throw new AppError(`${table.name} 桌位使用中`, 400);
+      }
+
+      const session = await tx.tableSession.create({
+        data: {
+          storeId: table.storeId,
+          tableId: table.id,
+          guestCount,
+          openedBy: userId,
+        },
+      });
+
+      await tx.table.update({
+        where: { id: table.id },
+        data: { sessionId: session.id },
+      });
+
+      logger.info(`開桌: ${table.name} (${guestCount}人)`);
+
+      return session;
+    });
+  }
+
+  /**
+   * 將內用訂單加入桌位目前的桌次，空桌時自動開桌
+   * 必須在建立訂單的交易中呼叫；待結帳時加點會重新開放桌次
+   */
+  async attachOrder(tx: Prisma.TransactionClient, storeId: string, tableId: string, userId?: string) {
+    const table = await this.getActiveTable(tx, tableId);
+
+    if (table.storeId !== storeId) {
+      throw new AppError('桌位不屬於該店鋪', 400);
+    }
+
+    if (!table.session) {
+      const session = await tx.tableSession.create({
+        data: {
+          storeId,
+          tableId: table.id,
+          openedBy: userId,
+        },
+      });
+
+      await tx.table.update({
+        where: { id: table.id },
+        data: { sessionId: session.id },
+      });
+
+      return { sessionId: session.id, tableName: table.name };
+    }
+
+    if (table.session.status === 'AWAITING_PAYMENT') {
+      await tx.tableSession.update({
+        where: { id: table.session.id },
+        data: { status: 'OPEN' },
+      });
+    }
+
+    return { sessionId: table.session.id, tableName: table.name };
+  }
+
+  /**
+   * 請求結帳，桌位狀態改為待結帳
+   */
+  async requestBill(sessionId: string) {
+    const session = await this.getOpenSession(prisma, sessionId);
+
+    if (session.orders.length === 0) {
+      throw new AppError('桌次尚未點餐', 400);
+    }
+
+    await prisma.tableSession.update({
+      where: { id: sessionId },
+      data: { status: 'AWAITING_PAYMENT' },
+    });
+
+    return await this.getSession(sessionId);
+  }
+
+  /**
+   * 桌次結帳：以同一付款方式付清所有訂單的未付餘額，並釋放桌位
+   * 已個別付款（包括分開付款）的訂單不會重複收款
+   */
+  async checkout(sessionId: string, method: string, userId: string): Promise<SessionCheckoutResult> {
+    return await prisma.$transaction(async (tx) => {
+      const session = await this.getOpenSession(tx, sessionId);
+
+      const payments: PaymentResult['payments'] = [];
+      const completedOrderIds: string[] = [];
+
+      for (const order of session.orders) {
+        const outstanding = this.getOutstanding(order);
+        if (outstanding <= 0) {
+          continue;
+        }
+
+        const result = await splitBillService.recordPayments(tx, order.id, [{ method, amount: outstanding }], userId);
+        payments.push(...result.payments);
+
+        if (result.orderStatus === 'COMPLETED' && order.status !== 'COMPLETED') {
+          completedOrderIds.push(order.id);
+        }
+      }
+
+      await tx.table.updateMany({
+        where: { sessionId },
+        data: { sessionId: null },
+      });
+
+      await tx.tableSession.update({
+        where: { id: sessionId },
+        data: {
+          status: 'CLOSED',
+          closedBy: userId,
+          closedAt: new Date(),
+        },
+      });
+
+      logger.info(`桌次結帳: ${sessionId} 共${session.orders.length}張訂單`);
+
+      return { sessionId, payments, completedOrderIds };
+    });
+  }
+
+  /**
+   * 換桌：將桌次移到空桌
+   * 併桌後的桌次需指定要換出的桌位
+   */
+  async transferSession(sessionId: string, toTableId: string, fromTableId?: string) {
+    return await prisma.$transaction(async (tx) => {
+      const session = await this.getOpenSession(tx, sessionId);
+
+      const fromTable = fromTableId
+        ? session.tables.find(table => table.id === fromTableId)
+        : session.tables.length === 1 ? session.tables[0] : undefined;
+
+      if (!fromTable) {
+        throw new AppError(fromTableId ? '桌位不屬於該桌次' : '併桌中請指定要換出的桌位', 400);
+      }
+
+      const toTable = await this.getActiveTable(tx, toTableId);
+
+      if (toTable.storeId !== session.storeId) {
+        throw new AppError('桌位不屬於該店鋪', 400);
+      }
+
+      if (toTable.sessionId) {
+        throw new AppError(`${toTable.name} 桌位使用中`, 400);
+      }
+
+      await tx.table.update({
+        where: { id: fromTable.id },
+        data: { sessionId: null },
+      });
+
+      await tx.table.update({
+        where: { id: toTable.id },
+        data: { sessionId },
+      });
+
+      if (session.tableId === fromTable.id) {
+        await tx.tableSession.update({
+          where: { id: sessionId },
+          data: { tableId: toTable.id },
+        });
+      }
+
+      // 尚未完成的訂單改為新桌號，出餐時送到正確桌位
+      await tx.order.updateMany({
+        where: {
+          tableSessionId: sessionId,
+          tableNumber: fromTable.name,
+          status: { notIn: ['COMPLETED', 'CANCELLED'] },
+        },
+        data: { tableNumber: toTable.name },
+      });
+
+      logger.info(`換桌: ${fromTable.name} → ${toTable.name}`);
+
+      return await this.getSession(sessionId, tx);
+    });
+  }
+
+  /**
+   * 併桌：將來源桌位併入目標桌位的桌次
+   * 來源桌位若已有桌次，其訂單及人數一併移入，原桌次標記為已合併
+   */
+  async mergeTables(targetTableId: string, sourceTableId: string) {
+    if (targetTableId === sourceTableId) {
+      throw new AppError('不能與同一桌位併桌', 400);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const target = await this.getActiveTable(tx, targetTableId);
+      const source = await this.getActiveTable(tx, sourceTableId);
+
+      if (target.storeId !== source.storeId) {
+        throw new AppError('只能合併同一店鋪的桌位', 400);
+      }
+
+      if (!target.session) {
+        throw new AppError(`${target.name} 沒有使用中的桌次`, 400);
+      }
+
+      const targetSessionId = target.session.id;
+
+      if (source.session) {
+        if (source.session.id === targetSessionId) {
+          throw new AppError('桌位已在同一桌次', 400);
+        }
+
+        await tx.order.updateMany({
+          where: { tableSessionId: source.session.id },
+          data: { tableSessionId: targetSessionId },
+        });
+
+        // 來源桌次的所有桌位（可能已併過桌）一併移入
+        await tx.table.updateMany({
+          where: { sessionId: source.session.id },
+          data: { sessionId: targetSessionId },
+        });
+
+        await tx.tableSession.update({
+          where: { id: targetSessionId },
+          data: {
+            guestCount: { increment: source.session.guestCount },
+            status: 'OPEN',
+          },
+        });
+
+        await tx.tableSession.update({
+          where: { id: source.session.id },
+          data: {
+            status: 'MERGED',
+            mergedIntoId: targetSessionId,
+            closedAt: new Date(),
+          },
+        });
+      } else {
+        await tx.table.update({
+          where: { id: source.id },
+          data: { sessionId: targetSessionId },
+        });
+      }
+
+      logger.info(`併桌: ${source.name} → ${target.name}`);
+
+      return await this.getSession(targetSessionId, tx);
+    });
+  }
+
+  /**
+   * 桌位狀態由目前桌次決定
+   */
+  getTableStatus(session: { status: string } | null): TableStatus {
+    if (!session) {
+      return 'FREE';
+    }
+
+    return session.status === 'AWAITING_PAYMENT' ? 'AWAITING_PAYMENT' : 'OCCUPIED';
+  }
+
+  private async getActiveTable(tx: Prisma.TransactionClient, tableId: string) {
+    const table = await tx.table.findUnique({
+      where: { id: tableId },
+      include: { session: true },
+    });
+
+    if (!table || !table.isActive) {
+      throw new AppError('桌位不存在或已停用', 404);
+    }
+
+    return table;
+  }
+
+  private async getOpenSession(tx: Prisma.TransactionClient, sessionId: string): Promise<SessionWithOrders> {
+    const session = await tx.tableSession.findUnique({
+      where: { id: sessionId },
+      include: sessionInclude,
+    });
+
+    if (!session) {
+      throw new AppError('桌次不存在', 404);
+    }
+
+    if (session.status !== 'OPEN' && session.status !== 'AWAITING_PAYMENT') {
+      throw new AppError('桌次已結束', 400);
+    }
+
+    return session;
+  }
+
+  private summarizeSession(session: SessionWithOrders) {
+    const totalAmount = roundAmount(session.orders.reduce((sum, order) => sum + order.finalAmount, 0));
+    const outstanding = roundAmount(session.orders.reduce((sum, order) => sum + this.getOutstanding(order), 0));
+
+    return {
+      id: session.id,
+      status: session.status,
+      tableStatus: this.getTableStatus(session),
+      guestCount: session.guestCount,
+      openedAt: session.openedAt,
+      tables: session.tables,
+      orderCount: session.orders.length,
+      totalAmount,
+      paidAmount: roundAmount(totalAmount - outstanding),
+      outstanding,
+    };
+  }
+
+  private getOutstanding(order: SessionWithOrders['orders'][number]): number {
+    const paid = order.payments.reduce((sum, payment) => sum + payment.amount, 0);
+    return Math.max(0, roundAmount(order.finalAmount - paid));
+  }
+}
\ No newline at end of file
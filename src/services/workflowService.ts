@@ -0,0 +1,245 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import AppError from '../utils/AppError';
+
+const prisma = new PrismaClient();
+
+export const ORDER_STATUSES = [
+  'PENDING',
+  'CONFIRMED',
+  'PREPARING',
+  'READY',
+  'OUT_FOR_DELIVERY',
+  'COMPLETED',
+  'CANCELLED',
+] as const;
+
+export const ORDER_TYPES = ['DINE_IN', 'TAKEOUT', 'DELIVERY', 'UBER_EATS', 'FOODPANDA'] as const;
+
+export type WorkflowEvent = 'PAYMENT_COMPLETED';
+
+export interface WorkflowDefinition {
+  states: string[];
+  transitions: Array<{
+    from: string;
+    to: string;
+    roles?: string[]; // 未設定時所有可更新訂單狀態的角色皆可執行
+  }>;
+  autoTransitions?: Array<{
+    event: WorkflowEvent;
+    from: string;
+    to: string;
+  }>;
+}
+
+interface WorkflowOrder {
+  id: string;
+  storeId: string;
+  orderType: string;
+  status: string;
+}
+
+export class WorkflowService {
+  /**
+   * 獲取系統預設流程
+   * 外送訂單在製作完成後多一個外送中狀態
+   */
+  getDefaultWorkflow(orderType: string): WorkflowDefinition {
+    const isDelivery = orderType === 'DELIVERY';
+
+    const transitions: WorkflowDefinition['transitions'] = [
+      { from: 'PENDING', to: 'CONFIRMED' },
+      { from: 'PENDING', to: 'CANCELLED' },
+      { from: 'CONFIRMED', to: 'PREPARING' },
+      { from: 'CONFIRMED', to: 'CANCELLED' },
+      { from: 'PREPARING', to: 'READY' },
+      { from: 'PREPARING', to: 'CANCELLED' },
+    ];
+
+    if (isDelivery) {
+      transitions.push(
+        { from: 'READY', to: 'OUT_FOR_DELIVERY' },
+        { from: 'OUT_FOR_DELIVERY', to: 'COMPLETED' }
+      );
+    } else {
+      transitions.push({ from: 'READY', to: 'COMPLETED' });
+    }
+
+    return {
+      states: ORDER_STATUSES.filter(status => isDelivery || status !== 'OUT_FOR_DELIVERY'),
+      transitions,
+      autoTransitions: [
+        { event: 'PAYMENT_COMPLETED', from: 'PENDING', to: 'CONFIRMED' },
+      ],
+    };
+  }
+
+  /**
+   * 獲取店鋪的訂單流程，未自訂時使用預設流程
+   */
+  async getWorkflow(
+    storeId: string,
+    orderType: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<WorkflowDefinition> {
+    const workflow = await client.orderWorkflow.findUnique({
+      where: {
+        storeId_orderType: { storeId, orderType },
+      },
+    });
+
+    if (!workflow) {
+      return this.getDefaultWorkflow(orderType);
+    }
+
+    return JSON.parse(workflow.definition) as WorkflowDefinition;
+  }
+
+  /**
+   * 檢查訂單狀態轉換是否符合流程及操作者角色
+   */
+  async assertTransition(
+    order: WorkflowOrder,
+    newStatus: string,
+    roles: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const workflow = await this.getWorkflow(order.storeId, order.orderType, client);
+    const transition = workflow.transitions.find(t => t.from === order.status && t.to === newStatus);
+
+    if (!transition) {
+      throw new AppError(`無法從${order.status}轉換為${newStatus}`, 400);
+    }
+
+    if (transition.roles && transition.roles.length > 0 && !transition.roles.some(role => roles.includes(role))) {
+      throw new AppError(`權限不足，無法將訂單轉換為${newStatus}`, 403);
+    }
+  }
+
+  /**
+   * 依事件執行自動狀態轉換（如付款完成自動確認）
+   * 可連續轉換多步，回傳最終狀態
+   */
+  async applyAutoTransitions(
+    tx: Prisma.TransactionClient,
+    order: WorkflowOrder,
+    event: WorkflowEvent,
+    note: string,
+    createdBy?: string
+  ): Promise<string> {
+    const workflow = await this.getWorkflow(order.storeId, order.orderType, tx);
+    const visited = new Set<string>([order.status]);
+    let status = order.status;
+
+    for (;;) {
+      const next = (workflow.autoTransitions || []).find(t => t.event === event && t.from === status);
+      if (!next || visited.has(next.to)) {
+        break;
+      }
+
+      await tx.order.update({
+        where: { id: order.id },
+        data: {
+          status: next.to,
+          updatedAt: new Date(),
+        },
+      });
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          status: next.to,
+          note,
+          createdBy,
+        },
+      });
+
+      logger.info(`訂單自動轉換狀態: ${order.id} ${status} -> ${next.to} (事件: ${event})`);
+
+      visited.add(next.to);
+      status = next.to;
+    }
+
+    return status;
+  }
+
+  /**
+   * 儲存店鋪自訂流程
+   */
+  async saveWorkflow(storeId: string, orderType: string, definition: WorkflowDefinition) {
+    this.validateDefinition(definition);
+
+    const data = {
+      states: definition.states,
+      transitions: definition.transitions.map(t => ({
+        from: t.from,
+        to: t.to,
+        ...(t.roles && t.roles.length > 0 ? { roles: t.roles } : {}),
+      })),
+      autoTransitions: (definition.autoTransitions || []).map(t => ({
+        event: t.event,
+        from: t.from,
+        to: t.to,
+      })),
+    };
+
+    await prisma.orderWorkflow.upsert({
+      where: {
+        storeId_orderType: { storeId, orderType },
+      },
+      create: {
+        storeId,
+        orderType,
+        definition: JSON.stringify(data),
+      },
+      update: {
+        definition: JSON.stringify(data),
+      },
+    });
+
+    return data;
+  }
+
+  /**
+   * 刪除店鋪自訂流程，恢復為預設流程
+   */
+  async resetWorkflow(storeId: string, orderType: string): Promise<WorkflowDefinition> {
+    await prisma.orderWorkflow.deleteMany({
+      where: { storeId, orderType },
+    });
+
+    return this.getDefaultWorkflow(orderType);
+  }
+
+  /**
+   * 檢查流程定義是否完整
+   */
+  private validateDefinition(definition: WorkflowDefinition): void {
+    for (const state of definition.states) {
+      if (!(ORDER_STATUSES as readonly string[]).includes(state)) {
+        throw new AppError(`訂單狀態無效: ${state}`, 400);
+      }
+    }
+
+    // 訂單建立時為待確認或已確認，且必須能夠完成
+    for (const required of ['PENDING', 'CONFIRMED', 'COMPLETED']) {
+      if (!definition.states.includes(required)) {
+        throw new AppError(`流程必須包含狀態: ${required}`, 400);
+      }
+    }
+
+    const allTransitions = [...definition.transitions, ...(definition.autoTransitions || [])];
+    for (const transition of allTransitions) {
+      if (!definition.states.includes(transition.from) || !definition.states.includes(transition.to)) {
+        throw new AppError(`流程轉換包含未定義的狀態: ${transition.from} -> ${transition.to}`, 400);
+      }
+      if (['COMPLETED', 'CANCELLED'].includes(transition.from)) {
+        throw new AppError(`已結束的訂單不能再轉換: ${transition.from}`, 400);
+      }
+    }
+
+    if (!definition.transitions.some(t => t.to === 'COMPLETED')) {
+      throw new AppError('流程必須能夠轉換為COMPLETED', 400);
+    }
+  }
+}
\ No newline at end of file
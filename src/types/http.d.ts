@@ -0,0 +1,8 @@
+import 'http';
+
+// express.json 的 verify 會保留外送平台webhook的原始內容，供驗證簽章使用
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+// node-cron 未附型別定義，只宣告本專案使用到的部分
+declare module 'node-cron' {
+  export interface ScheduledTask {
+    start(): void;
+    stop(): void;
+  }
+
+  export interface ScheduleOptions {
+    scheduled?: boolean;
+    timezone?: string;
+  }
+
+  export function schedule(expression: string, func: () => void | Promise<void>, options?: ScheduleOptions): ScheduledTask;
+  export function validate(expression: string): boolean;
+
+  const cron: {
+    schedule: typeof schedule;
+    validate: typeof validate;
+  };
+
+  export default cron;
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * 營業日工具
+ * 營業日以店鋪時區計算，且在切換時間（如凌晨4點）之前的時間算作前一營業日
+ */
+
+export interface BusinessDayOptions {
+  timezone: string;
+  cutoff: string; // HH:mm
+}
+
+const parseCutoffMinutes = (cutoff: string): number => {
+  const [hours, minutes] = cutoff.split(':').map(value => parseInt(value, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * 取得指定時間在某時區的日期時間欄位
+ */
+const getZonedParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)!.value, 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * 計算時區與UTC的差距（毫秒）
+ */
+const getTimezoneOffset = (date: Date, timezone: string): number => {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * 取得營業日（YYYYMMDD）
+ */
+export const getBusinessDate = (date: Date, options: BusinessDayOptions): string => {
+  const shifted = new Date(date.getTime() - parseCutoffMinutes(options.cutoff) * 60 * 1000);
+  const parts = getZonedParts(shifted, options.timezone);
+
+  return `${parts.year}${String(parts.month).padStart(2, '0')}${String(parts.day).padStart(2, '0')}`;
+};
+
+/**
+ * 取得營業日的起訖時間（UTC）
+ */
+export const getBusinessDayRange = (businessDate: string, options: BusinessDayOptions): { start: Date; end: Date } => {
+  const year = parseInt(businessDate.slice(0, 4), 10);
+  const month = parseInt(businessDate.slice(4, 6), 10);
+  const day = parseInt(businessDate.slice(6, 8), 10);
+  const cutoffMinutes = parseCutoffMinutes(options.cutoff);
+
+  const localStart = Date.UTC(year, month - 1, day, 0, cutoffMinutes);
+  const start = new Date(localStart - getTimezoneOffset(new Date(localStart), options.timezone));
+  const localEnd = Date.UTC(year, month - 1, day + 1, 0, cutoffMinutes);
+  const end = new Date(localEnd - getTimezoneOffset(new Date(localEnd), options.timezone));
+
+  return { start, end };
+};
+
+/**
+ * 將店鋪時區的當地日期時間轉為UTC時間
+ * @param localDate 當地日期 YYYY-MM-DD
+ * @param minutes 當天0點起算的分鐘數
+ */
+export const zonedTimeToUtc = (localDate: string, minutes: number, timezone: string): Date => {
+  const [year, month, day] = localDate.split('-').map(value => parseInt(value, 10));
+  const local = Date.UTC(year, month - 1, day, 0, minutes);
+
+  return new Date(local - getTimezoneOffset(new Date(local), timezone));
+};
+
+/**
+ * 取得指定時間在某時區的當地日期（YYYY-MM-DD）
+ */
+export const getZonedDate = (date: Date, timezone: string): string => {
+  const parts = getZonedParts(date, timezone);
+
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+/**
+ * 取得指定時間在某時區的星期（0=星期日）及當天0點起算的分鐘數
+ */
+export const getZonedClock = (date: Date, timezone: string): { weekday: number; minutes: number } => {
+  const parts = getZonedParts(date, timezone);
+
+  return {
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+    minutes: parts.hour * 60 + parts.minute,
+  };
+};
\ No newline at end of file
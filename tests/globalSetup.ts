@@ -33,6 +33,7 @@ async function seedTestData() {
     { name: 'STORE_MANAGER', description: '店鋪管理員', permissions: {} },
     { name: 'STAFF', description: '員工', permissions: {} },
     { name: 'CUSTOMER', description: '顧客', permissions: {} },
+    { name: 'DRIVER', description: '外送員', permissions: {} },
   ];
 
   for (const role of roles) {
@@ -107,6 +108,20 @@ async function seedTestData() {
     },
   });
 
+  const testDriver = await prisma.user.upsert({
+    where: { id: 'test-driver-id' },
+    update: {},
+    create: {
+      id: 'test-driver-id',
+      tenantId: testTenant.id,
+      email: 'driver@test.com',
+      password: hashedPassword,
+      displayName: '測試外送員',
+      phone: '0987654321',
+      status: 'ACTIVE',
+    },
+  });
+
   // 分配角色
   const adminRole = await prisma.role.findFirst({ where: { name: 'TENANT_ADMIN' } });
   const customerRole = await prisma.role.findFirst({ where: { name: 'CUSTOMER' } });
@@ -143,6 +158,24 @@ async function seedTestData() {
     });
   }
 
+  const driverRole = await prisma.role.findFirst({ where: { name: 'DRIVER' } });
+
+  if (driverRole) {
+    await prisma.userRole.upsert({
+      where: {
+        userId_roleId: {
+          userId: testDriver.id,
+          roleId: driverRole.id,
+        }
+      },
+      update: {},
+      create: {
+        userId: testDriver.id,
+        roleId: driverRole.id,
+      },
+    });
+  }
+
   // 創建顧客資料
   await prisma.customerProfile.upsert({
     where: { userId: testCustomer.id },
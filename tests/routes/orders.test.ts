@@ -106,6 +106,105 @@ describe('Order Routes', () => {
 
       expect(response.body.error).toBe('未提供認證令牌');
     });
+
+    it('should return the original order when retried with the same Idempotency-Key', async () => {
+      const orderData = {
+        storeId: 'test-store-id',
+        orderType: 'TAKEOUT',
+        items: [{ productId: 'test-product-id', quantity: 1 }],
+      };
+
+      const first = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('Idempotency-Key', 'retry-key-1')
+        .send(orderData)
+        .expect(201);
+
+      const retry = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('Idempotency-Key', 'retry-key-1')
+        .send(orderData)
+        .expect(201);
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.order.id).toBe(first.body.data.order.id);
+
+      const orderCount = await global.testUtils.prisma.order.count();
+      expect(orderCount).toBe(1);
+    });
+
+    it('should reject reusing an Idempotency-Key with a different body', async () => {
+      await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('Idempotency-Key', 'retry-key-2')
+        .send({
+          storeId: 'test-store-id',
+          orderType: 'TAKEOUT',
+          items: [{ productId: 'test-product-id', quantity: 1 }],
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('Idempotency-Key', 'retry-key-2')
+        .send({
+          storeId: 'test-store-id',
+          orderType: 'TAKEOUT',
+          items: [{ productId: 'test-product-id', quantity: 2 }],
+        })
+        .expect(409);
+
+      expect(response.body.error).toBe('Idempotency-Key 已用於不同的請求內容');
+    });
+  });
+
+  describe('POST /api/orders/quote', () => {
+    it('should return totals without creating an order', async () => {
+      const quoteData = {
+        storeId: 'test-store-id',
+        orderType: 'TAKEOUT',
+        items: [
+          {
+            productId: 'test-product-id',
+            quantity: 2,
+          },
+        ],
+      };
+
+      const response = await request(app)
+        .post('/api/orders/quote')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .send(quoteData)
+        .expect(200);
+
+      const { quote } = response.body.data;
+      expect(response.body.message).toBe('訂單試算成功');
+      expect(quote.items).toHaveLength(1);
+      expect(quote.finalAmount).toBe(quote.totalAmount - quote.discountAmount + quote.feeAmount);
+      expect(quote.pointsEarnable).toBe(Math.floor(quote.finalAmount / 10));
+      expect(quote.estimatedTime).toBeGreaterThan(0);
+
+      const orderCount = await global.testUtils.prisma.order.count();
+      expect(orderCount).toBe(0);
+    });
+
+    it('should reject invalid coupon codes', async () => {
+      const response = await request(app)
+        .post('/api/orders/quote')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .send({
+          storeId: 'test-store-id',
+          items: [{ productId: 'test-product-id', quantity: 1 }],
+          couponCode: 'NOT-A-COUPON',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('優惠券不存在或已過期');
+    });
   });
 
   describe('GET /api/orders', () => {
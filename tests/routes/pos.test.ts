@@ -0,0 +1,131 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { app } from '../../src/server';
+import { PromotionService } from '../../src/services/promotionService';
+
+const prisma = new PrismaClient();
+const promotionService = new PromotionService();
+
+describe('POS Routes', () => {
+  let staffToken: string;
+  let productId: string;
+
+  beforeAll(async () => {
+    staffToken = global.testUtils.generateTestToken('test-admin-id', 'test-tenant-id');
+  });
+
+  beforeEach(async () => {
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+    const product = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排', basePrice: 100 },
+    });
+    productId = product.id;
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('POST /api/pos/orders', () => {
+    it('should confirm cash orders through the payment auto-transition', async () => {
+      const response = await request(app)
+        .post('/api/pos/orders')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({
+          storeId: 'test-store-id',
+          orderType: 'TAKEOUT',
+          items: [{ productId, quantity: 1 }],
+          paymentMethod: 'CASH',
+        })
+        .expect(201);
+
+      const order = response.body.data.order;
+      const history = await prisma.orderStatusHistory.findMany({
+        where: { orderId: order.id },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      expect(order.status).toBe('CONFIRMED');
+      expect(history.map(entry => entry.status)).toEqual(['PENDING', 'CONFIRMED']);
+    });
+
+    it('should apply automatic promotions and record them on the order', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '滿200折30',
+        conditions: { minSpend: 200 },
+        actionType: 'FIXED_OFF',
+        actionValue: 30,
+      });
+
+      const response = await request(app)
+        .post('/api/pos/orders')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({
+          storeId: 'test-store-id',
+          orderType: 'TAKEOUT',
+          items: [{ productId, quantity: 2 }],
+          paymentMethod: 'CASH',
+        })
+        .expect(201);
+
+      const order = response.body.data.order;
+      const payment = await prisma.payment.findFirst({ where: { orderId: order.id } });
+
+      expect(order.discountAmount).toBe(30);
+      expect(order.finalAmount).toBe(170);
+      expect(order.promotions).toEqual([
+        expect.objectContaining({ name: '滿200折30', discountAmount: 30 }),
+      ]);
+      expect(payment!.amount).toBe(170);
+    });
+
+    it('should reject branches from another store', async () => {
+      const otherStore = await prisma.store.create({
+        data: {
+          tenantId: 'test-tenant-id',
+          name: '第二分店',
+          address: '台北市信義區',
+          phone: '0222222222',
+        },
+      });
+      const branch = await prisma.storeBranch.create({
+        data: { storeId: otherStore.id, name: '信義門市', address: '台北市信義區', phone: '0222222222' },
+      });
+
+      try {
+        await request(app)
+          .post('/api/pos/orders')
+          .set('Authorization', `Bearer ${staffToken}`)
+          .send({
+            storeId: 'test-store-id',
+            branchId: branch.id,
+            orderType: 'TAKEOUT',
+            items: [{ productId, quantity: 1 }],
+            paymentMethod: 'CASH',
+          })
+          .expect(404);
+      } finally {
+        await prisma.storeBranch.delete({ where: { id: branch.id } });
+        await prisma.store.delete({ where: { id: otherStore.id } });
+      }
+    });
+
+    it('should keep unpaid orders pending', async () => {
+      const response = await request(app)
+        .post('/api/pos/orders')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({
+          storeId: 'test-store-id',
+          orderType: 'TAKEOUT',
+          items: [{ productId, quantity: 1 }],
+          paymentMethod: 'CARD',
+        })
+        .expect(201);
+
+      expect(response.body.data.order.status).toBe('PENDING');
+      expect(response.body.data.order.paymentStatus).toBe('PENDING');
+    });
+  });
+});
\ No newline at end of file
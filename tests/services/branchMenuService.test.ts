@@ -0,0 +1,123 @@
+import { BranchMenuService } from '../../src/services/branchMenuService';
+import { OrderService } from '../../src/services/orderService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const branchMenuService = new BranchMenuService();
+const orderService = new OrderService();
+
+describe('BranchMenuService', () => {
+  let branch: any;
+  let chicken: any;
+  let tea: any;
+  let exclusive: any;
+
+  beforeEach(async () => {
+    branch = await prisma.storeBranch.create({
+      data: { storeId: 'test-store-id', name: '信義分店', address: '台北市信義區', phone: '0227200000' },
+    });
+
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+
+    chicken = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排', basePrice: 80 },
+    });
+    tea = await prisma.product.create({
+      data: {
+        storeId: 'test-store-id',
+        categoryId: category.id,
+        name: '紅茶',
+        basePrice: 30,
+        variants: { create: [{ name: '大杯', price: 40 }] },
+      },
+      include: { variants: true },
+    });
+    exclusive = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, branchId: branch.id, name: '信義限定雞翅', basePrice: 60 },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+    await prisma.storeBranch.deleteMany({ where: { id: branch.id } });
+  });
+
+  describe('getBranchMenu', () => {
+    it('should layer branch prices over the master menu', async () => {
+      await branchMenuService.upsertOverride(branch.id, tea.id, {
+        price: 35,
+        variantPrices: { [tea.variants[0].id]: 45 },
+      });
+
+      const menu = await branchMenuService.getBranchMenu('test-store-id', branch.id);
+      const branchTea = branchMenuService.applyToProduct(menu, tea);
+
+      expect(branchTea.masterPrice).toBe(30);
+      expect(branchTea.basePrice).toBe(35);
+      expect(branchTea.variants![0].price).toBe(45);
+      expect(branchMenuService.getPrice(menu, chicken)).toBe(80);
+    });
+
+    it('should only offer branch-exclusive items at their branch', async () => {
+      const master = await branchMenuService.getBranchMenu('test-store-id');
+      const branchMenu = await branchMenuService.getBranchMenu('test-store-id', branch.id);
+
+      const masterProducts = await prisma.product.findMany({
+        where: { storeId: 'test-store-id', ...branchMenuService.productWhere(master) },
+      });
+      const branchProducts = await prisma.product.findMany({
+        where: { storeId: 'test-store-id', ...branchMenuService.productWhere(branchMenu) },
+      });
+
+      expect(masterProducts.map(product => product.name).sort()).toEqual(['紅茶', '雞排']);
+      expect(branchProducts).toHaveLength(3);
+    });
+
+    it('should exclude sold-out items from available listings', async () => {
+      await branchMenuService.setSoldOut(branch.id, [chicken.id], true);
+
+      const menu = await branchMenuService.getBranchMenu('test-store-id', branch.id);
+      const available = await prisma.product.findMany({
+        where: { storeId: 'test-store-id', ...branchMenuService.productWhere(menu, true) },
+      });
+
+      expect(available.map(product => product.id)).not.toContain(chicken.id);
+      expect(branchMenuService.isSoldOut(menu, chicken.id)).toBe(true);
+    });
+  });
+
+  describe('validateOrderItems', () => {
+    it('should price items with branch overrides', async () => {
+      await branchMenuService.upsertOverride(branch.id, chicken.id, { price: 90 });
+
+      const [item] = await orderService.validateOrderItems(
+        [{ productId: chicken.id, quantity: 2 }],
+        'test-store-id',
+        { checkStock: false, branchId: branch.id }
+      );
+
+      expect(item.unitPrice).toBe(90);
+      expect(item.totalPrice).toBe(180);
+    });
+
+    it('should reject items sold out at the branch', async () => {
+      await branchMenuService.setSoldOut(branch.id, [chicken.id], true);
+
+      await expect(
+        orderService.validateOrderItems([{ productId: chicken.id, quantity: 1 }], 'test-store-id', { branchId: branch.id })
+      ).rejects.toThrow('商品在此分店已售完: 雞排');
+
+      // 其他分店及主菜單不受影響
+      const [item] = await orderService.validateOrderItems([{ productId: chicken.id, quantity: 1 }], 'test-store-id');
+      expect(item.unitPrice).toBe(80);
+    });
+
+    it('should reject branch-exclusive items elsewhere', async () => {
+      await expect(
+        orderService.validateOrderItems([{ productId: exclusive.id, quantity: 1 }], 'test-store-id')
+      ).rejects.toThrow('商品不存在或已下架');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { CouponService } from '../../src/services/couponService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const couponService = new CouponService();
+
+describe('CouponService', () => {
+  const terms = {
+    name: '開幕傳單九折',
+    type: 'PERCENTAGE',
+    value: 10,
+    minOrderAmount: 100,
+    validFrom: new Date('2026-01-01T00:00:00Z'),
+    validUntil: new Date('2026-12-31T23:59:59Z'),
+  };
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('createCoupon', () => {
+    it('should reject duplicate codes', async () => {
+      await couponService.createCoupon('test-store-id', { ...terms, code: 'OPEN10' });
+
+      await expect(
+        couponService.createCoupon('test-store-id', { ...terms, code: 'OPEN10' })
+      ).rejects.toThrow('優惠券代碼已存在');
+    });
+
+    it('should reject invalid percentages', async () => {
+      await expect(
+        couponService.createCoupon('test-store-id', { ...terms, code: 'BAD', value: 150 })
+      ).rejects.toThrow('折扣百分比必須在0-100之間');
+    });
+  });
+
+  describe('campaigns', () => {
+    it('should generate unique single-use codes', async () => {
+      const campaign = await couponService.createCampaign('test-store-id', terms);
+
+      const generated = await couponService.generateCodes(campaign.id, { count: 1500, prefix: 'fly', length: 6 });
+      expect(generated).toBe(1500);
+
+      const coupons = await prisma.coupon.findMany({ where: { campaignId: campaign.id } });
+      expect(coupons).toHaveLength(1500);
+      expect(new Set(coupons.map(coupon => coupon.code)).size).toBe(1500);
+      expect(coupons.every(coupon => /^FLY[A-Z2-9]{6}$/.test(coupon.code))).toBe(true);
+      expect(coupons.every(coupon => coupon.usageLimit === 1 && coupon.name === terms.name)).toBe(true);
+
+      const [listed] = await couponService.listCampaigns('test-store-id');
+      expect(listed.codeCount).toBe(1500);
+    });
+
+    it('should propagate campaign changes to its codes', async () => {
+      const campaign = await couponService.createCampaign('test-store-id', terms);
+      await couponService.generateCodes(campaign.id, { count: 5 });
+
+      await couponService.updateCampaign(campaign.id, { ...terms, value: 20 });
+      await couponService.setCampaignActive(campaign.id, false);
+
+      const coupons = await prisma.coupon.findMany({ where: { campaignId: campaign.id } });
+      expect(coupons.every(coupon => coupon.value === 20 && !coupon.isActive)).toBe(true);
+    });
+
+    it('should export codes as CSV', async () => {
+      const campaign = await couponService.createCampaign('test-store-id', terms);
+      await couponService.generateCodes(campaign.id, { count: 3 });
+
+      const csv = await couponService.exportCampaignCsv(campaign.id);
+      const lines = csv.trim().split('\r\n');
+
+      expect(lines[0]).toBe('code,name,type,value,minOrderAmount,validFrom,validUntil,used');
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toContain(',開幕傳單九折,PERCENTAGE,10,100,2026-01-01T00:00:00.000Z,');
+      expect(lines[1].endsWith(',N')).toBe(true);
+    });
+  });
+
+  describe('redemptions', () => {
+    const redeem = async (coupon: any, orderId: string) => {
+      await prisma.$transaction(tx =>
+        couponService.redeemForOrder(tx, coupon, orderId, 'test-customer-id', 10)
+      );
+    };
+
+    it('should enforce per-customer limits and roll back on cancel', async () => {
+      const coupon = await couponService.createCoupon('test-store-id', { ...terms, code: 'ONCE', perCustomerLimit: 1 });
+      const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      await redeem(coupon, order.id);
+      await expect(couponService.assertEligible(coupon, 'test-customer-id'))
+        .rejects.toThrow('您已達此優惠券的使用次數上限');
+      await expect(couponService.assertEligible(coupon, 'test-admin-id')).resolves.toBeUndefined();
+
+      await prisma.$transaction(tx => couponService.releaseForOrder(tx, order.id));
+      // 重複退回不應再扣減次數
+      await prisma.$transaction(tx => couponService.releaseForOrder(tx, order.id));
+
+      await expect(couponService.assertEligible(coupon, 'test-customer-id')).resolves.toBeUndefined();
+      const refreshed = await prisma.coupon.findUniqueOrThrow({ where: { id: coupon.id } });
+      expect(refreshed.usedCount).toBe(0);
+
+      const redemption = await prisma.couponRedemption.findUniqueOrThrow({ where: { orderId: order.id } });
+      expect(redemption.reversedAt).not.toBeNull();
+    });
+
+    it('should reject redemptions beyond the usage limit', async () => {
+      const coupon = await couponService.createCoupon('test-store-id', { ...terms, code: 'SINGLE', usageLimit: 1 });
+      const first = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+      await redeem(coupon, first.id);
+
+      const second = await prisma.order.create({
+        data: { ...first, id: undefined, orderNumber: `${first.orderNumber}-2` },
+      });
+      await expect(redeem(coupon, second.id)).rejects.toThrow('優惠券使用次數已達上限');
+    });
+
+    it('should restrict coupons to new customers', async () => {
+      const coupon = await couponService.createCoupon('test-store-id', { ...terms, code: 'WELCOME', newCustomersOnly: true });
+      await expect(couponService.assertEligible(coupon, 'test-customer-id')).resolves.toBeUndefined();
+
+      await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+      await expect(couponService.assertEligible(coupon, 'test-customer-id'))
+        .rejects.toThrow('此優惠券限首次消費的新顧客使用');
+    });
+
+    it('should restrict coupons to loyalty tiers', async () => {
+      const coupon = await couponService.createCoupon('test-store-id', { ...terms, code: 'GOLDONLY', eligibleTiers: ['GOLD', 'PLATINUM'] });
+
+      await expect(couponService.assertEligible(coupon, 'test-customer-id'))
+        .rejects.toThrow('此優惠券限GOLD、PLATINUM會員使用');
+    });
+
+    it('should restrict coupons to specific customers', async () => {
+      const coupon = await couponService.createCoupon('test-store-id', { ...terms, code: 'VIP', customerIds: ['test-admin-id'] });
+
+      await expect(couponService.assertEligible(coupon, 'test-customer-id'))
+        .rejects.toThrow('此優惠券不適用於您的帳號');
+      await expect(couponService.assertEligible(coupon, 'test-admin-id')).resolves.toBeUndefined();
+
+      const targets = await couponService.getCouponTargets(coupon.id);
+      expect(targets.map(target => target.userId)).toEqual(['test-admin-id']);
+    });
+  });
+
+  describe('stats', () => {
+    it('should sum coupon discounts and revenue of active redemptions', async () => {
+      const campaign = await couponService.createCampaign('test-store-id', terms);
+      await couponService.generateCodes(campaign.id, { count: 4 });
+      const [first, second, third, fourth] = await prisma.coupon.findMany({ where: { campaignId: campaign.id } });
+
+      // 訂單另有10元促銷折扣，不應算進優惠券折抵金額
+      const redeem = async (couponId: string, discountAmount: number, status = 'COMPLETED') => {
+        const order = await prisma.order.create({
+          data: {
+            orderNumber: `CPN-${couponId}`,
+            storeId: 'test-store-id',
+            customerId: 'test-customer-id',
+            orderType: 'TAKEOUT',
+            status,
+            couponId,
+            totalAmount: 200,
+            discountAmount: discountAmount + 10,
+            finalAmount: 190 - discountAmount,
+            paymentStatus: 'PAID',
+            estimatedTime: 15,
+          },
+        });
+        await prisma.couponRedemption.create({
+          data: {
+            couponId,
+            userId: 'test-customer-id',
+            orderId: order.id,
+            discountAmount,
+            reversedAt: status === 'CANCELLED' ? new Date() : null,
+          },
+        });
+        await prisma.coupon.update({
+          where: { id: couponId },
+          data: { usedCount: { increment: 1 } },
+        });
+      };
+
+      await redeem(first.id, 20);
+      await redeem(second.id, 15);
+      await redeem(third.id, 30, 'CANCELLED');
+      await redeem(fourth.id, 5, 'PREPARING');
+
+      const couponStats = await couponService.getCouponStats(first.id);
+      expect(couponStats).toEqual({ redemptions: 1, discountGiven: 20, revenue: 170 });
+
+      // 處理中的訂單計入使用次數，但尚未計入營業額
+      const pendingStats = await couponService.getCouponStats(fourth.id);
+      expect(pendingStats).toEqual({ redemptions: 1, discountGiven: 5, revenue: 0 });
+
+      const campaignStats = await couponService.getCampaignStats(campaign.id);
+      expect(campaignStats.redemptions).toBe(3);
+      expect(campaignStats.discountGiven).toBe(40);
+      expect(campaignStats.revenue).toBe(345);
+      expect(campaignStats.totalCodes).toBe(4);
+    });
+  });
+});
\ No newline at end of file
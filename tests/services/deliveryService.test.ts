@@ -0,0 +1,130 @@
+import { DeliveryService } from '../../src/services/deliveryService';
+import { OrderService } from '../../src/services/orderService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const deliveryService = new DeliveryService();
+const orderService = new OrderService();
+
+describe('DeliveryService', () => {
+  // 店鋪位於台北101，緯度每0.018度約2公里
+  const near = { latitude: 25.052, longitude: 121.5645 };
+  const middle = { latitude: 25.07, longitude: 121.5645 };
+  const far = { latitude: 25.1, longitude: 121.5645 };
+
+  beforeEach(async () => {
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: { latitude: 25.034, longitude: 121.5645 },
+    });
+
+    await deliveryService.createZone('test-store-id', {
+      name: '5公里內',
+      type: 'RADIUS',
+      radiusKm: 5,
+      minOrderAmount: 100,
+      feeTiers: [
+        { maxDistanceKm: 2.5, fee: 30 },
+        { maxDistanceKm: 5, fee: 50 },
+      ],
+    });
+
+    await deliveryService.createZone('test-store-id', {
+      name: '士林特約區',
+      type: 'POLYGON',
+      polygon: [[25.09, 121.55], [25.09, 121.58], [25.11, 121.58], [25.11, 121.55]],
+      baseFee: 80,
+      sortOrder: 1,
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: { latitude: null, longitude: null },
+    });
+  });
+
+  describe('quoteDelivery', () => {
+    it('should charge the fee tier matching the distance', async () => {
+      const nearQuote = await deliveryService.quoteDelivery('test-store-id', near, 200);
+      expect(nearQuote.zoneName).toBe('5公里內');
+      expect(nearQuote.distanceKm).toBeCloseTo(2, 1);
+      expect(nearQuote.fee).toBe(30);
+
+      const middleQuote = await deliveryService.quoteDelivery('test-store-id', middle, 200);
+      expect(middleQuote.fee).toBe(50);
+    });
+
+    it('should match polygon zones outside the radius', async () => {
+      const quote = await deliveryService.quoteDelivery('test-store-id', far, 200);
+
+      expect(quote.zoneName).toBe('士林特約區');
+      expect(quote.fee).toBe(80);
+    });
+
+    it('should reject addresses outside every zone', async () => {
+      await expect(
+        deliveryService.quoteDelivery('test-store-id', { latitude: 25.2, longitude: 121.5645 }, 200)
+      ).rejects.toThrow('外送地址不在配送範圍內');
+    });
+
+    it('should enforce the zone minimum order amount', async () => {
+      await expect(
+        deliveryService.quoteDelivery('test-store-id', near, 80)
+      ).rejects.toThrow('此外送區域最低消費金額為 100');
+    });
+  });
+
+  describe('quoteOrder', () => {
+    let product: any;
+
+    beforeEach(async () => {
+      const category = await prisma.category.create({
+        data: { storeId: 'test-store-id', name: '炸物' },
+      });
+      product = await prisma.product.create({
+        data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排便當', basePrice: 150 },
+      });
+    });
+
+    it('should add the delivery fee to the quote', async () => {
+      const quote = await orderService.quoteOrder(
+        [{ productId: product.id, quantity: 1 }],
+        'test-store-id',
+        undefined,
+        { delivery: near }
+      );
+
+      expect(quote.fees).toEqual([{ type: 'DELIVERY', name: '外送費 (5公里內)', amount: 30 }]);
+      expect(quote.finalAmount).toBe(180);
+    });
+
+    it('should waive the delivery fee with a FREE_SHIPPING coupon', async () => {
+      await prisma.coupon.create({
+        data: {
+          storeId: 'test-store-id',
+          name: '免運券',
+          code: 'FREESHIP',
+          type: 'FREE_SHIPPING',
+          value: 0,
+          validFrom: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        },
+      });
+
+      const quote = await orderService.quoteOrder(
+        [{ productId: product.id, quantity: 1 }],
+        'test-store-id',
+        'FREESHIP',
+        { delivery: middle }
+      );
+
+      expect(quote.feeAmount).toBe(50);
+      expect(quote.discountAmount).toBe(50);
+      expect(quote.finalAmount).toBe(150);
+      expect(quote.items[0].discountAmount).toBe(0);
+    });
+  });
+});
\ No newline at end of file
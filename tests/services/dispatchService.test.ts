@@ -0,0 +1,131 @@
+import { DispatchService } from '../../src/services/dispatchService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const dispatchService = new DispatchService();
+
+describe('DispatchService', () => {
+  let order: any;
+
+  beforeEach(async () => {
+    // 店鋪位於台北101，顧客在北方約2公里
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: { latitude: 25.034, longitude: 121.5645 },
+    });
+
+    order = await prisma.order.create({
+      data: {
+        orderNumber: `DELIVERY${Date.now()}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'DELIVERY',
+        status: 'READY',
+        totalAmount: 200,
+        discountAmount: 0,
+        finalAmount: 230,
+        paymentStatus: 'COMPLETED',
+        deliveryAddress: '台北市信義區測試路456號',
+        deliveryLatitude: 25.052,
+        deliveryLongitude: 121.5645,
+        deliveryDistanceKm: 2,
+        deliveryFee: 30,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: { latitude: null, longitude: null },
+    });
+  });
+
+  describe('assignDriver', () => {
+    it('should only assign users with the driver role', async () => {
+      await expect(
+        dispatchService.assignDriver(order.id, 'test-customer-id', 'test-tenant-id', 'test-admin-id')
+      ).rejects.toThrow('外送員不存在或已停用');
+
+      const job = await dispatchService.assignDriver(order.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id');
+
+      expect(job.status).toBe('ASSIGNED');
+      expect(job.driver.displayName).toBe('測試外送員');
+    });
+
+    it('should reject orders that are not delivery orders', async () => {
+      const takeout = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      await expect(
+        dispatchService.assignDriver(takeout.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id')
+      ).rejects.toThrow('只有外送訂單可以指派外送員');
+    });
+  });
+
+  describe('delivery flow', () => {
+    it('should move the order through pickup and delivery', async () => {
+      const job = await dispatchService.assignDriver(order.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id');
+
+      await expect(
+        dispatchService.pickUpJob(job.id, 'test-driver-id', ['DRIVER'])
+      ).rejects.toThrow('請先接單再取餐');
+
+      await dispatchService.acceptJob(job.id, 'test-driver-id');
+
+      const pickedUp = await dispatchService.pickUpJob(job.id, 'test-driver-id', ['DRIVER']);
+      expect(pickedUp.status).toBe('PICKED_UP');
+      expect(pickedUp.order.status).toBe('OUT_FOR_DELIVERY');
+      expect(pickedUp.etaMinutes).toBe(6);
+
+      const { job: delivered, order: completed } = await dispatchService.completeJob(
+        job.id,
+        'test-driver-id',
+        ['DRIVER']
+      );
+      expect(delivered.status).toBe('DELIVERED');
+      expect(completed.status).toBe('COMPLETED');
+
+      const history = await prisma.orderStatusHistory.findMany({
+        where: { orderId: order.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(history.map(h => h.status)).toEqual(['OUT_FOR_DELIVERY', 'COMPLETED']);
+    });
+
+    it('should not let other drivers operate the job', async () => {
+      const job = await dispatchService.assignDriver(order.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id');
+
+      await expect(
+        dispatchService.acceptJob(job.id, 'test-customer-id')
+      ).rejects.toThrow('外送單不存在');
+    });
+  });
+
+  describe('recordLocation', () => {
+    it('should update the position and ETA of active jobs', async () => {
+      const job = await dispatchService.assignDriver(order.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id');
+      await dispatchService.acceptJob(job.id, 'test-driver-id');
+      await dispatchService.pickUpJob(job.id, 'test-driver-id', ['DRIVER']);
+
+      // 距離顧客不到1公里
+      const [updated] = await dispatchService.recordLocation('test-driver-id', { latitude: 25.0435, longitude: 121.5645 });
+
+      expect(updated.lastLatitude).toBe(25.0435);
+      expect(updated.etaMinutes).toBe(3);
+
+      const tracking = await dispatchService.getTracking(order.id);
+      expect(tracking).toMatchObject({ status: 'PICKED_UP', etaMinutes: 3, latitude: 25.0435 });
+    });
+
+    it('should include the trip back to the store before pickup', async () => {
+      const job = await dispatchService.assignDriver(order.id, 'test-driver-id', 'test-tenant-id', 'test-admin-id');
+      await dispatchService.acceptJob(job.id, 'test-driver-id');
+
+      // 在店鋪南方不到1公里，需先回店取餐再送2公里
+      const [updated] = await dispatchService.recordLocation('test-driver-id', { latitude: 25.0255, longitude: 121.5645 });
+
+      expect(updated.etaMinutes).toBe(9);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { IngredientService } from '../../src/services/ingredientService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const ingredientService = new IngredientService();
+
+describe('IngredientService', () => {
+  let cutlet: any;
+  let cheese: any;
+
+  beforeEach(async () => {
+    cutlet = await prisma.ingredient.create({
+      data: { storeId: 'test-store-id', name: '雞排肉', unit: '片', quantity: 10 },
+    });
+    cheese = await prisma.ingredient.create({
+      data: { storeId: 'test-store-id', name: '起司', unit: 'g', quantity: 100 },
+    });
+
+    await ingredientService.replaceProductRecipe('test-product-id', [
+      { ingredientId: cutlet.id, quantity: 1 },
+      { ingredientId: cutlet.id, quantity: 1.5, variantId: 'test-variant-id' },
+      { ingredientId: cheese.id, quantity: 20, addonId: 'test-addon-id' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await prisma.recipeItem.deleteMany();
+    await prisma.ingredientMovement.deleteMany();
+    await prisma.ingredient.deleteMany();
+    await global.testUtils.cleanup();
+  });
+
+  describe('calculateRequirements', () => {
+    it('should apply variant overrides and addon recipes', async () => {
+      const requirements = await ingredientService.calculateRequirements([
+        { productId: 'test-product-id', quantity: 2 },
+        {
+          productId: 'test-product-id',
+          variantId: 'test-variant-id',
+          quantity: 2,
+          addons: [{ addonId: 'test-addon-id', quantity: 1 }],
+        },
+      ]);
+
+      expect(requirements.get(cutlet.id)).toBe(5);
+      expect(requirements.get(cheese.id)).toBe(40);
+    });
+  });
+
+  describe('assertAvailable', () => {
+    it('should throw when ingredients are insufficient', async () => {
+      await expect(
+        ingredientService.assertAvailable([{ productId: 'test-product-id', quantity: 11 }], 'test-store-id')
+      ).rejects.toThrow('原料不足: 雞排肉');
+    });
+  });
+});
\ No newline at end of file
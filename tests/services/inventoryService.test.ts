@@ -0,0 +1,116 @@
+import { InventoryService } from '../../src/services/inventoryService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const inventoryService = new InventoryService();
+
+describe('InventoryService', () => {
+  let testOrder: any;
+
+  beforeEach(async () => {
+    await prisma.inventory.update({
+      where: { productId: 'test-product-id' },
+      data: { quantity: 10 },
+    });
+
+    testOrder = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('reserveForOrder', () => {
+    it('should deduct inventory and record a movement', async () => {
+      await prisma.$transaction(async (tx) => {
+        await inventoryService.reserveForOrder(tx, testOrder.id, [
+          { productId: 'test-product-id', quantity: 2 },
+          { productId: 'test-product-id', quantity: 1 },
+        ]);
+      });
+
+      const inventory = await prisma.inventory.findUnique({
+        where: { productId: 'test-product-id' },
+      });
+      const movements = await prisma.inventoryMovement.findMany({
+        where: { orderId: testOrder.id },
+      });
+
+      expect(inventory!.quantity).toBe(7);
+      expect(movements).toHaveLength(1);
+      expect(movements[0].type).toBe('RESERVE');
+      expect(movements[0].quantity).toBe(-3);
+      expect(movements[0].balance).toBe(7);
+    });
+
+    it('should reject when stock is insufficient and keep inventory unchanged', async () => {
+      await expect(
+        prisma.$transaction(async (tx) => {
+          await inventoryService.reserveForOrder(tx, testOrder.id, [
+            { productId: 'test-product-id', quantity: 11 },
+          ]);
+        })
+      ).rejects.toThrow('商品庫存不足');
+
+      const inventory = await prisma.inventory.findUnique({
+        where: { productId: 'test-product-id' },
+      });
+
+      expect(inventory!.quantity).toBe(10);
+    });
+
+    it('should expand combo components into component inventory', async () => {
+      await prisma.$transaction(async (tx) => {
+        await inventoryService.reserveForOrder(tx, testOrder.id, [
+          {
+            productId: 'test-combo-product-id',
+            quantity: 2,
+            components: [{ productId: 'test-product-id', quantity: 2 }],
+          },
+        ]);
+      });
+
+      const inventory = await prisma.inventory.findUnique({
+        where: { productId: 'test-product-id' },
+      });
+
+      expect(inventory!.quantity).toBe(6);
+    });
+  });
+
+  describe('releaseForOrder', () => {
+    it('should restore reserved stock only once', async () => {
+      await prisma.$transaction(async (tx) => {
+        await inventoryService.reserveForOrder(tx, testOrder.id, [
+          { productId: 'test-product-id', quantity: 4 },
+        ]);
+      });
+
+      await prisma.$transaction(async (tx) => {
+        await inventoryService.releaseForOrder(tx, testOrder.id, '訂單取消');
+      });
+      await prisma.$transaction(async (tx) => {
+        await inventoryService.releaseForOrder(tx, testOrder.id, '訂單取消');
+      });
+
+      const inventory = await prisma.inventory.findUnique({
+        where: { productId: 'test-product-id' },
+      });
+      const releases = await prisma.inventoryMovement.findMany({
+        where: { orderId: testOrder.id, type: 'RELEASE' },
+      });
+
+      expect(inventory!.quantity).toBe(10);
+      expect(releases).toHaveLength(1);
+      expect(releases[0].quantity).toBe(4);
+    });
+  });
+
+  describe('adjustStock', () => {
+    it('should not allow stock to go negative', async () => {
+      await expect(
+        inventoryService.adjustStock('test-product-id', -20, 'ADJUST', '盤點')
+      ).rejects.toThrow('調整後庫存不可小於0');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { KitchenService } from '../../src/services/kitchenService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const kitchenService = new KitchenService();
+
+describe('KitchenService', () => {
+  let fryerStation: any;
+  let drinkStation: any;
+  let chicken: any;
+  let drink: any;
+  let side: any;
+
+  beforeEach(async () => {
+    const friedCategory = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+    const drinkCategory = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '飲料' },
+    });
+    const sideCategory = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '小菜' },
+    });
+
+    chicken = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: friedCategory.id, name: '雞排', basePrice: 80 },
+    });
+    drink = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: drinkCategory.id, name: '紅茶', basePrice: 30 },
+    });
+    side = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: sideCategory.id, name: '泡菜', basePrice: 20 },
+    });
+
+    fryerStation = await prisma.kitchenStation.create({
+      data: {
+        storeId: 'test-store-id',
+        name: '炸台',
+        isDefault: true,
+        categories: { create: [{ categoryId: friedCategory.id }] },
+      },
+    });
+    drinkStation = await prisma.kitchenStation.create({
+      data: {
+        storeId: 'test-store-id',
+        name: '飲料台',
+        categories: { create: [{ categoryId: drinkCategory.id }] },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  const createOrderWithItems = async (status: string) => {
+    const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+    await prisma.order.update({ where: { id: order.id }, data: { status } });
+
+    for (const [product, quantity] of [[chicken, 2], [drink, 1], [side, 1]]) {
+      await prisma.orderItem.create({
+        data: {
+          orderId: order.id,
+          productId: product.id,
+          quantity,
+          unitPrice: product.basePrice,
+          totalPrice: product.basePrice * quantity,
+        },
+      });
+    }
+
+    return order;
+  };
+
+  describe('routeOrder', () => {
+    it('should route items by category and fall back to the default station', async () => {
+      const order = await createOrderWithItems('CONFIRMED');
+
+      const stationIds = await prisma.$transaction(async (tx) => kitchenService.routeOrder(tx, order.id));
+
+      expect(stationIds.sort()).toEqual([fryerStation.id, drinkStation.id].sort());
+
+      const fryerQueue = await kitchenService.getStationQueue(fryerStation.id);
+      expect(fryerQueue.map(item => item.orderItem.product.name).sort()).toEqual(['泡菜', '雞排']);
+
+      const drinkQueue = await kitchenService.getStationQueue(drinkStation.id);
+      expect(drinkQueue).toHaveLength(1);
+      expect(drinkQueue[0].quantity).toBe(1);
+    });
+
+    it('should not create tickets when the store has no stations', async () => {
+      await prisma.kitchenStation.deleteMany();
+      const order = await createOrderWithItems('CONFIRMED');
+
+      const stationIds = await prisma.$transaction(async (tx) => kitchenService.routeOrder(tx, order.id));
+
+      expect(stationIds).toEqual([]);
+      expect(await prisma.kitchenTicketItem.count({ where: { orderId: order.id } })).toBe(0);
+    });
+  });
+
+  describe('bumpItem', () => {
+    it('should mark the order READY once every item is bumped', async () => {
+      const order = await createOrderWithItems('CONFIRMED');
+      await prisma.$transaction(async (tx) => kitchenService.routeOrder(tx, order.id));
+
+      const items = await prisma.kitchenTicketItem.findMany({ where: { orderId: order.id } });
+
+      const first = await kitchenService.bumpItem(items[0].id, 'test-staff-id');
+      expect(first.item.status).toBe('BUMPED');
+      expect(first.orderStatus).toBeNull();
+
+      await kitchenService.bumpItem(items[1].id, 'test-staff-id');
+      const last = await kitchenService.bumpItem(items[2].id, 'test-staff-id');
+      expect(last.orderStatus).toBe('READY');
+
+      const history = await prisma.orderStatusHistory.findMany({
+        where: { orderId: order.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(history.map(entry => entry.status)).toEqual(['PREPARING', 'READY']);
+    });
+
+    it('should reject bumping an item twice and allow recall', async () => {
+      const order = await createOrderWithItems('PREPARING');
+      await prisma.$transaction(async (tx) => kitchenService.routeOrder(tx, order.id));
+
+      const [item] = await kitchenService.getStationQueue(drinkStation.id);
+
+      await kitchenService.bumpItem(item.id, 'test-staff-id');
+      await expect(kitchenService.bumpItem(item.id, 'test-staff-id')).rejects.toThrow('此項目已出餐');
+
+      const recalled = await kitchenService.recallItem(item.id);
+      expect(recalled.status).toBe('PENDING');
+      expect(recalled.bumpedAt).toBeNull();
+    });
+  });
+});
\ No newline at end of file
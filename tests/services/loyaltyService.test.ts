@@ -0,0 +1,161 @@
+import { LoyaltyService } from '../../src/services/loyaltyService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const loyaltyService = new LoyaltyService();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('LoyaltyService', () => {
+  let sequence = 0;
+
+  const createOrder = async (finalAmount: number, deliveryFee = 0) => {
+    sequence += 1;
+    return await prisma.order.create({
+      data: {
+        orderNumber: `LOYALTY${Date.now()}${sequence}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'TAKEOUT',
+        status: 'COMPLETED',
+        totalAmount: finalAmount,
+        finalAmount,
+        deliveryFee,
+        paymentStatus: 'COMPLETED',
+      },
+    });
+  };
+
+  const createLot = async (amount: number, expiresAt: Date | null) => {
+    return await prisma.memberPoint.create({
+      data: {
+        userId: 'test-customer-id',
+        type: 'ADMIN_ADJUST',
+        amount,
+        remaining: amount,
+        description: '測試積分',
+        expiresAt,
+      },
+    });
+  };
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('earnForOrder', () => {
+    it('should award points once per order using the tenant earn rate', async () => {
+      await loyaltyService.updateConfig('test-tenant-id', { earnRate: 20, redeemValue: 1, pointsValidDays: 30 });
+      const order = await createOrder(250);
+
+      expect(await loyaltyService.earnForOrder(order)).toBe(12);
+      expect(await loyaltyService.earnForOrder(order)).toBe(0);
+
+      const { balance, expiring } = await loyaltyService.getBalance('test-customer-id');
+      expect(balance).toBe(12);
+      expect(expiring).toHaveLength(1);
+      expect(expiring[0].expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * DAY);
+    });
+
+    it('should not award points for the delivery fee', async () => {
+      await loyaltyService.updateConfig('test-tenant-id', { earnRate: 20, redeemValue: 1 });
+      const order = await createOrder(310, 60);
+
+      expect(await loyaltyService.earnForOrder(order)).toBe(12);
+    });
+  });
+
+  describe('redeemForOrder', () => {
+    it('should consume the lots expiring first', async () => {
+      const later = await createLot(50, new Date(Date.now() + 60 * DAY));
+      const sooner = await createLot(30, new Date(Date.now() + 10 * DAY));
+      const permanent = await createLot(40, null);
+      const order = await createOrder(100);
+
+      await prisma.$transaction(async (tx) => {
+        await loyaltyService.redeemForOrder(tx, 'test-customer-id', order.id, 60);
+      });
+
+      const lots = await prisma.memberPoint.findMany({
+        where: { id: { in: [later.id, sooner.id, permanent.id] } },
+      });
+      const remaining = Object.fromEntries(lots.map(lot => [lot.id, lot.remaining]));
+      expect(remaining[sooner.id]).toBe(0);
+      expect(remaining[later.id]).toBe(20);
+      expect(remaining[permanent.id]).toBe(40);
+
+      const { balance } = await loyaltyService.getBalance('test-customer-id');
+      expect(balance).toBe(60);
+    });
+  });
+
+  describe('quoteRedemption', () => {
+    it('should enforce the balance and configured caps', async () => {
+      await loyaltyService.updateConfig('test-tenant-id', {
+        earnRate: 10,
+        redeemValue: 1,
+        minRedeemPoints: 10,
+        maxRedeemPercent: 30,
+      });
+      await createLot(100, null);
+
+      await expect(loyaltyService.quoteRedemption('test-customer-id', 5, 200))
+        .rejects.toThrow('每筆訂單至少需使用10點');
+      await expect(loyaltyService.quoteRedemption('test-customer-id', 120, 1000))
+        .rejects.toThrow('積分餘額不足');
+      await expect(loyaltyService.quoteRedemption('test-customer-id', 80, 200))
+        .rejects.toThrow('積分最多折抵訂單金額的30%');
+
+      expect(await loyaltyService.quoteRedemption('test-customer-id', 60, 200)).toEqual({ points: 60, discount: 60 });
+    });
+  });
+
+  describe('reverseForOrder', () => {
+    it('should return redeemed points and claw back earned points once', async () => {
+      const lot = await createLot(100, null);
+      const order = await createOrder(200);
+
+      await prisma.$transaction(async (tx) => {
+        await loyaltyService.redeemForOrder(tx, 'test-customer-id', order.id, 40);
+      });
+      await loyaltyService.earnForOrder(order);
+      expect((await loyaltyService.getBalance('test-customer-id')).balance).toBe(80);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await prisma.$transaction(async (tx) => {
+          await loyaltyService.reverseForOrder(tx, order.id);
+        });
+      }
+
+      expect((await loyaltyService.getBalance('test-customer-id')).balance).toBe(100);
+      const restored = await prisma.memberPoint.findUniqueOrThrow({ where: { id: lot.id } });
+      expect(restored.remaining).toBe(100);
+    });
+  });
+
+  describe('expirePoints', () => {
+    it('should expire the remaining points of past-due lots', async () => {
+      const expired = await createLot(30, new Date(Date.now() - DAY));
+      await createLot(20, null);
+
+      expect(await loyaltyService.expirePoints()).toBe(30);
+      expect(await loyaltyService.expirePoints()).toBe(0);
+
+      const lot = await prisma.memberPoint.findUniqueOrThrow({ where: { id: expired.id } });
+      expect(lot.remaining).toBe(0);
+      expect((await loyaltyService.getBalance('test-customer-id')).balance).toBe(20);
+    });
+
+    it('should leave past-due lots untouched when only reading the balance', async () => {
+      const expired = await createLot(30, new Date(Date.now() - DAY));
+      await createLot(20, null);
+
+      expect((await loyaltyService.getBalance('test-customer-id')).balance).toBe(20);
+      await expect(loyaltyService.quoteRedemption('test-customer-id', 30, 1000)).rejects.toThrow('積分餘額不足');
+
+      const lot = await prisma.memberPoint.findUniqueOrThrow({ where: { id: expired.id } });
+      expect(lot.remaining).toBe(30);
+      expect(await prisma.memberPoint.count({ where: { type: 'EXPIRE' } })).toBe(0);
+    });
+  });
+});
\ No newline at end of file
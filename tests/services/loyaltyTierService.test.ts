@@ -0,0 +1,134 @@
+import { LoyaltyTierService } from '../../src/services/loyaltyTierService';
+import { LoyaltyService } from '../../src/services/loyaltyService';
+import { OrderService } from '../../src/services/orderService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const loyaltyTierService = new LoyaltyTierService();
+const loyaltyService = new LoyaltyService();
+const orderService = new OrderService();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('LoyaltyTierService', () => {
+  let sequence = 0;
+
+  const tiers = [
+    { code: 'MEMBER', name: '一般會員', minSpend: 0 },
+    { code: 'VIP', name: 'VIP會員', minSpend: 500, pointsMultiplier: 2, discountPercent: 5, birthdayGiftPoints: 100 },
+  ];
+
+  const createOrder = async (finalAmount: number, createdAt: Date) => {
+    sequence += 1;
+    return await prisma.order.create({
+      data: {
+        orderNumber: `TIER${Date.now()}${sequence}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'TAKEOUT',
+        status: 'COMPLETED',
+        totalAmount: finalAmount,
+        finalAmount,
+        paymentStatus: 'COMPLETED',
+        createdAt,
+      },
+    });
+  };
+
+  beforeEach(async () => {
+    await loyaltyTierService.replaceTiers('test-tenant-id', tiers);
+    await loyaltyService.updateConfig('test-tenant-id', { earnRate: 10, redeemValue: 1, tierWindowMonths: 12 });
+    await prisma.customerProfile.update({
+      where: { userId: 'test-customer-id' },
+      data: { loyaltyTier: 'MEMBER' },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+    await prisma.customerProfile.update({
+      where: { userId: 'test-customer-id' },
+      data: { loyaltyTier: 'BRONZE', totalSpent: 0, birthday: null, birthdayGiftYear: null, tierUpdatedAt: null },
+    });
+  });
+
+  describe('replaceTiers', () => {
+    it('should require a base tier', async () => {
+      await expect(loyaltyTierService.replaceTiers('test-tenant-id', [
+        { code: 'VIP', name: 'VIP會員', minSpend: 500 },
+      ])).rejects.toThrow('需有一個消費門檻為0的基本等級');
+    });
+  });
+
+  describe('evaluateCustomer', () => {
+    it('should only count spend within the rolling window', async () => {
+      await createOrder(400, new Date(Date.now() - 400 * DAY));
+      await createOrder(300, new Date(Date.now() - 30 * DAY));
+
+      expect(await loyaltyTierService.evaluateCustomer('test-customer-id')).toBeNull();
+
+      await createOrder(250, new Date());
+      const change = await loyaltyTierService.evaluateCustomer('test-customer-id');
+
+      expect(change).toEqual(expect.objectContaining({ fromTier: 'MEMBER', toTier: 'VIP', qualifyingSpend: 550 }));
+    });
+
+    it('should downgrade only when allowed', async () => {
+      await prisma.customerProfile.update({
+        where: { userId: 'test-customer-id' },
+        data: { loyaltyTier: 'VIP' },
+      });
+
+      expect(await loyaltyTierService.evaluateCustomer('test-customer-id', { allowDowngrade: false })).toBeNull();
+
+      const changes = await loyaltyTierService.evaluateAll();
+      expect(changes.filter(change => change.userId === 'test-customer-id')).toEqual([
+        expect.objectContaining({ fromTier: 'VIP', toTier: 'MEMBER' }),
+      ]);
+
+      const pending = (await loyaltyTierService.getPendingChanges())
+        .find(change => change.userId === 'test-customer-id');
+      expect(pending).toEqual(expect.objectContaining({ fromName: 'VIP會員', toName: '一般會員', upgraded: false }));
+    });
+  });
+
+  describe('benefits', () => {
+    it('should apply the tier discount and points multiplier to quotes', async () => {
+      const category = await prisma.category.create({
+        data: { storeId: 'test-store-id', name: '炸物' },
+      });
+      const product = await prisma.product.create({
+        data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排', basePrice: 100 },
+      });
+      await prisma.customerProfile.update({
+        where: { userId: 'test-customer-id' },
+        data: { loyaltyTier: 'VIP' },
+      });
+
+      const quote = await orderService.quoteOrder(
+        [{ productId: product.id, quantity: 2 }],
+        'test-store-id',
+        undefined,
+        { customerId: 'test-customer-id' }
+      );
+
+      expect(quote.tierDiscount).toBe(10);
+      expect(quote.finalAmount).toBe(190);
+      expect(quote.pointsEarnable).toBe(38);
+    });
+
+    it('should grant the birthday gift once a year', async () => {
+      const now = new Date();
+      await prisma.customerProfile.update({
+        where: { userId: 'test-customer-id' },
+        data: { loyaltyTier: 'VIP', birthday: new Date(1990, now.getMonth(), 15) },
+      });
+
+      expect(await loyaltyTierService.grantBirthdayGifts(now)).toBe(1);
+      expect(await loyaltyTierService.grantBirthdayGifts(now)).toBe(0);
+
+      const { balance } = await loyaltyService.getBalance('test-customer-id');
+      expect(balance).toBe(100);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { MenuScheduleService } from '../../src/services/menuScheduleService';
+import { OrderService } from '../../src/services/orderService';
+import { zonedTimeToUtc } from '../../src/utils/businessDay';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const menuScheduleService = new MenuScheduleService();
+const orderService = new OrderService();
+
+describe('MenuScheduleService', () => {
+  // 2026-10-20 為星期二，2026-10-24 為星期六（台北時間）
+  const at = (date: string, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return zonedTimeToUtc(date, hours * 60 + minutes, 'Asia/Taipei');
+  };
+
+  let breakfastCategory: any;
+  let drinkCategory: any;
+  let sandwich: any;
+  let special: any;
+  let tea: any;
+
+  beforeEach(async () => {
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: { timezone: 'Asia/Taipei' },
+    });
+
+    breakfastCategory = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '早餐' },
+    });
+    drinkCategory = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '飲料' },
+    });
+
+    sandwich = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: breakfastCategory.id, name: '燻雞三明治', basePrice: 60 },
+    });
+    special = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: drinkCategory.id, name: '假日特調', basePrice: 80 },
+    });
+    tea = await prisma.product.create({
+      data: {
+        storeId: 'test-store-id',
+        categoryId: drinkCategory.id,
+        name: '紅茶',
+        basePrice: 30,
+        variants: { create: [{ name: '大杯', price: 40 }] },
+      },
+      include: { variants: true },
+    });
+
+    await menuScheduleService.replaceSchedules('test-store-id', { categoryId: breakfastCategory.id }, [
+      { startTime: '06:00', endTime: '10:30' },
+    ]);
+    await menuScheduleService.replaceSchedules('test-store-id', { productId: special.id }, [
+      { daysOfWeek: [0, 6] },
+    ]);
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('getContext', () => {
+    it('should close categories and products outside their schedules', async () => {
+      const morning = await menuScheduleService.getContext('test-store-id', at('2026-10-20', '10:29'));
+      expect(menuScheduleService.isAvailable(morning, sandwich)).toBe(true);
+      expect(menuScheduleService.isAvailable(morning, special)).toBe(false);
+      expect(menuScheduleService.isAvailable(morning, tea)).toBe(true);
+
+      const weekendNoon = await menuScheduleService.getContext('test-store-id', at('2026-10-24', '10:30'));
+      expect(menuScheduleService.isAvailable(weekendNoon, sandwich)).toBe(false);
+      expect(menuScheduleService.isAvailable(weekendNoon, special)).toBe(true);
+    });
+
+    it('should exclude closed products from listings', async () => {
+      const context = await menuScheduleService.getContext('test-store-id', at('2026-10-20', '12:00'));
+
+      const products = await prisma.product.findMany({
+        where: { storeId: 'test-store-id', ...menuScheduleService.availableWhere(context) },
+      });
+
+      expect(products.map(product => product.name).sort()).toEqual(['紅茶']);
+    });
+  });
+
+  describe('applyPriceRule', () => {
+    beforeEach(async () => {
+      await menuScheduleService.createPriceRule('test-store-id', {
+        name: '下午茶飲料8折',
+        categoryId: drinkCategory.id,
+        adjustmentType: 'PERCENTAGE',
+        value: 20,
+        startTime: '14:00',
+        endTime: '17:00',
+      });
+    });
+
+    it('should apply time-window price rules to products and variants', async () => {
+      const afternoon = await menuScheduleService.getContext('test-store-id', at('2026-10-20', '15:00'));
+
+      const decorated = menuScheduleService.decorateProduct(afternoon, tea);
+      expect(decorated.currentPrice).toBe(24);
+      expect(decorated.priceRule?.name).toBe('下午茶飲料8折');
+      expect(decorated.variants![0].currentPrice).toBe(32);
+
+      const evening = await menuScheduleService.getContext('test-store-id', at('2026-10-20', '17:00'));
+      expect(menuScheduleService.applyPriceRule(evening, tea, 30)).toBeNull();
+    });
+
+    it('should prefer higher priority rules', async () => {
+      await menuScheduleService.createPriceRule('test-store-id', {
+        name: '紅茶特價',
+        productId: tea.id,
+        adjustmentType: 'FIXED_PRICE',
+        value: 28,
+        priority: 10,
+      });
+
+      const afternoon = await menuScheduleService.getContext('test-store-id', at('2026-10-20', '15:00'));
+
+      expect(menuScheduleService.applyPriceRule(afternoon, tea, 30)).toEqual({
+        priceRuleId: expect.any(String),
+        priceRuleName: '紅茶特價',
+        originalPrice: 30,
+        price: 28,
+        discount: 2,
+      });
+    });
+  });
+
+  describe('validateOrderItems', () => {
+    it('should reject products outside their schedules', async () => {
+      await expect(
+        orderService.validateOrderItems(
+          [{ productId: sandwich.id, quantity: 1 }],
+          'test-store-id',
+          { pricedAt: at('2026-10-20', '11:00') }
+        )
+      ).rejects.toThrow('商品目前不在供應時段: 燻雞三明治');
+    });
+
+    it('should price items with the applied rule', async () => {
+      await menuScheduleService.createPriceRule('test-store-id', {
+        name: '下午茶飲料折10元',
+        categoryId: drinkCategory.id,
+        adjustmentType: 'FIXED_AMOUNT',
+        value: 10,
+        startTime: '14:00',
+        endTime: '17:00',
+      });
+
+      const [item] = await orderService.validateOrderItems(
+        [{ productId: tea.id, variantId: tea.variants[0].id, quantity: 2 }],
+        'test-store-id',
+        { pricedAt: at('2026-10-20', '14:30') }
+      );
+
+      expect(item.unitPrice).toBe(30);
+      expect(item.totalPrice).toBe(60);
+      expect(item.priceRuleName).toBe('下午茶飲料折10元');
+      expect(item.priceRuleDiscount).toBe(10);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { OrderEditService } from '../../src/services/orderEditService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const orderEditService = new OrderEditService();
+
+describe('OrderEditService', () => {
+  let chicken: any;
+  let drink: any;
+
+  beforeEach(async () => {
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+
+    chicken = await prisma.product.create({
+      data: {
+        storeId: 'test-store-id',
+        categoryId: category.id,
+        name: '雞排',
+        basePrice: 80,
+        inventory: { create: { quantity: 10, minQuantity: 0, unit: '片' } },
+      },
+    });
+    drink = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '紅茶', basePrice: 30 },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.pickupSlotConfig.deleteMany();
+    await global.testUtils.cleanup();
+  });
+
+  const createOrder = async (data: Record<string, any> = {}) => {
+    return await prisma.order.create({
+      data: {
+        orderNumber: `EDIT${Date.now()}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'TAKEOUT',
+        status: 'CONFIRMED',
+        totalAmount: 160,
+        discountAmount: 0,
+        finalAmount: 160,
+        paymentStatus: 'PENDING',
+        items: {
+          create: [{ productId: chicken.id, quantity: 2, unitPrice: 80, totalPrice: 160 }],
+        },
+        ...data,
+      },
+      include: { items: true },
+    });
+  };
+
+  describe('editOrder', () => {
+    it('should reprice the order and record item changes', async () => {
+      const order = await createOrder();
+
+      const result = await orderEditService.editOrder(order.id, {
+        add: [{ productId: drink.id, quantity: 1 }],
+        update: [{ orderItemId: order.items[0].id, quantity: 3 }],
+        reason: '顧客加點',
+      }, 'test-staff-id');
+
+      expect(result.order.totalAmount).toBe(270);
+      expect(result.order.finalAmount).toBe(270);
+      expect(result.changes.map(change => change.action).sort()).toEqual(['ADD', 'UPDATE']);
+
+      const changes = await orderEditService.getItemChanges(order.id);
+      const update = changes.find(change => change.action === 'UPDATE')!;
+      expect(update.before.quantity).toBe(2);
+      expect(update.after.quantity).toBe(3);
+      expect(update.amountDelta).toBe(80);
+      expect(update.reason).toBe('顧客加點');
+    });
+
+    it('should adjust inventory by the difference only', async () => {
+      const order = await createOrder();
+      await prisma.inventory.update({ where: { productId: chicken.id }, data: { quantity: 8 } });
+
+      await orderEditService.editOrder(order.id, {
+        update: [{ orderItemId: order.items[0].id, quantity: 1 }],
+      }, 'test-staff-id');
+
+      const inventory = await prisma.inventory.findUnique({ where: { productId: chicken.id } });
+      expect(inventory!.quantity).toBe(9);
+    });
+
+    it('should refund the difference for paid cash orders', async () => {
+      const order = await createOrder({
+        paymentStatus: 'COMPLETED',
+        payments: {
+          create: [{ amount: 160, method: 'CASH', status: 'COMPLETED', paidAt: new Date() }],
+        },
+        items: {
+          create: [
+            { productId: chicken.id, quantity: 1, unitPrice: 80, totalPrice: 80 },
+            { productId: chicken.id, quantity: 1, unitPrice: 80, totalPrice: 80 },
+          ],
+        },
+      });
+
+      const result = await orderEditService.editOrder(order.id, {
+        remove: [order.items[1].id],
+      }, 'test-staff-id');
+
+      expect(result.settlement.paidAmount).toBe(160);
+      expect(result.settlement.balance).toBe(-80);
+      expect(result.settlement.payment).toMatchObject({ amount: -80, method: 'CASH', status: 'COMPLETED' });
+    });
+
+    it('should reject edits that fall below the coupon minimum', async () => {
+      const coupon = await prisma.coupon.create({
+        data: {
+          storeId: 'test-store-id',
+          name: '滿150折20',
+          code: `EDIT${Date.now()}`,
+          type: 'FIXED_AMOUNT',
+          value: 20,
+          minOrderAmount: 150,
+          validFrom: new Date(Date.now() - 86400000),
+          validUntil: new Date(Date.now() + 86400000),
+        },
+      });
+      const order = await createOrder({ couponId: coupon.id, discountAmount: 20, finalAmount: 140 });
+
+      await expect(
+        orderEditService.editOrder(order.id, {
+          update: [{ orderItemId: order.items[0].id, quantity: 1 }],
+        }, 'test-staff-id')
+      ).rejects.toThrow('修改後未達優惠券最低消費金額');
+    });
+
+    it('should keep scheduled edits within the pickup slot item limit', async () => {
+      const slotStart = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await prisma.pickupSlotConfig.create({
+        data: { storeId: 'test-store-id', slotMinutes: 15, maxItems: 3 },
+      });
+      await prisma.pickupSlotUsage.create({
+        data: { storeId: 'test-store-id', slotStart, orderCount: 1, itemCount: 2 },
+      });
+      const order = await createOrder({ scheduledFor: slotStart });
+
+      await expect(
+        orderEditService.editOrder(order.id, {
+          update: [{ orderItemId: order.items[0].id, quantity: 4 }],
+        }, 'test-staff-id')
+      ).rejects.toThrow('該時段剩餘可預約1份');
+
+      await orderEditService.editOrder(order.id, {
+        update: [{ orderItemId: order.items[0].id, quantity: 3 }],
+      }, 'test-staff-id');
+
+      const usage = await prisma.pickupSlotUsage.findUnique({
+        where: { storeId_slotStart: { storeId: 'test-store-id', slotStart } },
+      });
+      expect(usage!.itemCount).toBe(3);
+    });
+
+    it('should not allow editing orders that are already being prepared', async () => {
+      const order = await createOrder({ status: 'PREPARING' });
+
+      await expect(
+        orderEditService.editOrder(order.id, { remove: [order.items[0].id] }, 'test-staff-id')
+      ).rejects.toThrow('只有待確認或已確認的訂單可以修改');
+    });
+  });
+});
\ No newline at end of file
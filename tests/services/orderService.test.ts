@@ -1,8 +1,12 @@
 import { OrderService } from '../../src/services/orderService';
+import { CouponService } from '../../src/services/couponService';
+import { LoyaltyService } from '../../src/services/loyaltyService';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 const orderService = new OrderService();
+const couponService = new CouponService();
+const loyaltyService = new LoyaltyService();
 
 describe('OrderService', () => {
   afterEach(async () => {
@@ -65,6 +69,222 @@ describe('OrderService', () => {
         orderService.validateOrderItems(items, 'test-store-id')
       ).rejects.toThrow('商品庫存不足');
     });
+
+    describe('modifier groups', () => {
+      let mildOptionId: string;
+      let hotOptionId: string;
+      let garlicOptionId: string;
+
+      beforeEach(async () => {
+        const spiceGroup = await prisma.modifierGroup.create({
+          data: {
+            productId: 'test-product-id',
+            name: '辣度',
+            minSelect: 1,
+            maxSelect: 1,
+            options: {
+              create: [
+                { name: '小辣', isDefault: true, sortOrder: 0 },
+                { name: '大辣', priceDelta: 5, sortOrder: 1 },
+              ],
+            },
+          },
+          include: { options: true },
+        });
+
+        const extraGroup = await prisma.modifierGroup.create({
+          data: {
+            productId: 'test-product-id',
+            name: '調味',
+            minSelect: 0,
+            maxSelect: 2,
+            sortOrder: 1,
+            options: {
+              create: [{ name: '加蒜', priceDelta: 10 }],
+            },
+          },
+          include: { options: true },
+        });
+
+        mildOptionId = spiceGroup.options.find(option => option.name === '小辣')!.id;
+        hotOptionId = spiceGroup.options.find(option => option.name === '大辣')!.id;
+        garlicOptionId = extraGroup.options[0].id;
+      });
+
+      it('should apply default options when group is not selected', async () => {
+        const validatedItems = await orderService.validateOrderItems(
+          [{ productId: 'test-product-id', quantity: 1 }],
+          'test-store-id'
+        );
+
+        expect(validatedItems[0].modifiers).toEqual([
+          expect.objectContaining({ optionId: mildOptionId, groupName: '辣度', optionName: '小辣' }),
+        ]);
+      });
+
+      it('should add option price deltas to unit price', async () => {
+        const [plain] = await orderService.validateOrderItems(
+          [{ productId: 'test-product-id', quantity: 1 }],
+          'test-store-id'
+        );
+        const [modified] = await orderService.validateOrderItems(
+          [{
+            productId: 'test-product-id',
+            quantity: 2,
+            modifiers: [{ optionId: hotOptionId }, { optionId: garlicOptionId }],
+          }],
+          'test-store-id'
+        );
+
+        expect(modified.unitPrice).toBe(plain.unitPrice + 15);
+        expect(modified.totalPrice).toBe(modified.unitPrice * 2);
+        expect(modified.modifiers).toHaveLength(2);
+      });
+
+      it('should reject selections above the group maximum', async () => {
+        await expect(
+          orderService.validateOrderItems(
+            [{
+              productId: 'test-product-id',
+              quantity: 1,
+              modifiers: [{ optionId: mildOptionId }, { optionId: hotOptionId }],
+            }],
+            'test-store-id'
+          )
+        ).rejects.toThrow('最多只能選擇1項');
+      });
+
+      it('should reject missing required selections', async () => {
+        await prisma.modifierOption.updateMany({
+          where: { id: mildOptionId },
+          data: { isDefault: false },
+        });
+
+        await expect(
+          orderService.validateOrderItems(
+            [{ productId: 'test-product-id', quantity: 1 }],
+            'test-store-id'
+          )
+        ).rejects.toThrow('至少需選擇1項');
+      });
+
+      it('should reject options from other products', async () => {
+        await expect(
+          orderService.validateOrderItems(
+            [{
+              productId: 'test-product-id',
+              quantity: 1,
+              modifiers: [{ optionId: 'unknown-option-id' }],
+            }],
+            'test-store-id'
+          )
+        ).rejects.toThrow('商品選項不存在');
+      });
+    });
+
+    describe('combo products', () => {
+      let comboProduct: any;
+      let drinkSlotId: string;
+      let premiumChoiceId: string;
+
+      beforeEach(async () => {
+        const drink = await prisma.product.create({
+          data: {
+            storeId: 'test-store-id',
+            categoryId: 'test-category-id',
+            name: '紅茶',
+            basePrice: 30,
+          },
+        });
+        const premiumDrink = await prisma.product.create({
+          data: {
+            storeId: 'test-store-id',
+            categoryId: 'test-category-id',
+            name: '珍珠奶茶',
+            basePrice: 55,
+          },
+        });
+
+        comboProduct = await prisma.product.create({
+          data: {
+            storeId: 'test-store-id',
+            categoryId: 'test-category-id',
+            name: '雞排套餐',
+            basePrice: 120,
+            isCombo: true,
+            comboSlots: {
+              create: [
+                {
+                  name: '主餐',
+                  sortOrder: 0,
+                  choices: {
+                    create: [{ productId: 'test-product-id', isDefault: true }],
+                  },
+                },
+                {
+                  name: '飲料',
+                  sortOrder: 1,
+                  choices: {
+                    create: [
+                      { productId: drink.id, isDefault: true },
+                      { productId: premiumDrink.id, upcharge: 15 },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+          include: {
+            comboSlots: {
+              include: { choices: true },
+            },
+          },
+        });
+
+        const drinkSlot = comboProduct.comboSlots.find((slot: any) => slot.name === '飲料');
+        drinkSlotId = drinkSlot.id;
+        premiumChoiceId = drinkSlot.choices.find((choice: any) => choice.upcharge === 15).id;
+      });
+
+      it('should price by combo and expand default components', async () => {
+        const [item] = await orderService.validateOrderItems(
+          [{ productId: comboProduct.id, quantity: 1 }],
+          'test-store-id'
+        );
+
+        expect(item.unitPrice).toBe(120);
+        expect(item.components).toHaveLength(2);
+        expect(item.components![0]).toEqual(expect.objectContaining({ slotName: '主餐', productId: 'test-product-id' }));
+      });
+
+      it('should add upcharge for premium choices', async () => {
+        const [item] = await orderService.validateOrderItems(
+          [{
+            productId: comboProduct.id,
+            quantity: 2,
+            comboSelections: [{ slotId: drinkSlotId, choiceId: premiumChoiceId }],
+          }],
+          'test-store-id'
+        );
+
+        expect(item.unitPrice).toBe(135);
+        expect(item.totalPrice).toBe(270);
+        expect(item.components![1].upcharge).toBe(15);
+      });
+
+      it('should reject choices outside the slot', async () => {
+        await expect(
+          orderService.validateOrderItems(
+            [{
+              productId: comboProduct.id,
+              quantity: 1,
+              comboSelections: [{ slotId: drinkSlotId, choiceId: 'unknown-choice-id' }],
+            }],
+            'test-store-id'
+          )
+        ).rejects.toThrow('套餐選項不存在');
+      });
+    });
   });
 
   describe('generateOrderNumber', () => {
@@ -75,7 +295,57 @@ describe('OrderService', () => {
       expect(orderNumber1).toBeDefined();
       expect(orderNumber2).toBeDefined();
       expect(orderNumber1).not.toBe(orderNumber2);
-      expect(orderNumber1).toMatch(/^\d{8}\d{4}$/); // YYYYMMDD + 4位序號
+      expect(orderNumber1).toMatch(/^[A-Z]{4}\d{8}\d{4}$/); // 店鋪代碼 + YYYYMMDD + 4位序號
+    });
+
+    it('should not issue duplicate numbers under concurrent requests', async () => {
+      const orderNumbers = await Promise.all(
+        Array.from({ length: 10 }, () => orderService.generateOrderNumber('test-store-id'))
+      );
+
+      expect(new Set(orderNumbers).size).toBe(10);
+    });
+  });
+
+  describe('allocateOrderNumber', () => {
+    it('should use the store timezone and business-day cutoff', async () => {
+      // 台北時間 10/20 01:30，營業日切換時間前仍屬 10/19
+      const allocation = await orderService.allocateOrderNumber('test-store-id', new Date('2026-10-19T17:30:00Z'));
+
+      expect(allocation.businessDate).toBe('20261019');
+      expect(allocation.orderNumber).toMatch(/^[A-Z]{4}202610190001$/);
+    });
+
+    it('should not collide across stores on the same business day', async () => {
+      const otherStore = await prisma.store.create({
+        data: {
+          tenantId: 'test-tenant-id',
+          name: '第二分店',
+          address: '台北市信義區',
+          phone: '0222222222',
+        },
+      });
+
+      try {
+        const now = new Date('2026-10-19T05:00:00Z');
+        const first = await orderService.allocateOrderNumber('test-store-id', now);
+        const second = await orderService.allocateOrderNumber(otherStore.id, now);
+
+        expect(first.sequence).toBe(1);
+        expect(second.sequence).toBe(1);
+        expect(first.orderNumber).not.toBe(second.orderNumber);
+      } finally {
+        await prisma.orderSequence.deleteMany({ where: { storeId: otherStore.id } });
+        await prisma.store.delete({ where: { id: otherStore.id } });
+      }
+    });
+
+    it('should issue short pickup numbers', async () => {
+      const first = await orderService.allocateOrderNumber('test-store-id', new Date('2026-10-20T02:00:00Z'));
+      const second = await orderService.allocateOrderNumber('test-store-id', new Date('2026-10-20T02:01:00Z'));
+
+      expect(first.pickupNumber).toBe('A001');
+      expect(second.pickupNumber).toBe('A002');
     });
   });
 
@@ -156,6 +426,12 @@ describe('OrderService', () => {
       expect(orderService.validateStatusTransition('CONFIRMED', 'CANCELLED')).toBe(true);
       expect(orderService.validateStatusTransition('PREPARING', 'CANCELLED')).toBe(true);
     });
+
+    it('should require OUT_FOR_DELIVERY for delivery orders', () => {
+      expect(orderService.validateStatusTransition('READY', 'OUT_FOR_DELIVERY', 'DELIVERY')).toBe(true);
+      expect(orderService.validateStatusTransition('OUT_FOR_DELIVERY', 'COMPLETED', 'DELIVERY')).toBe(true);
+      expect(orderService.validateStatusTransition('READY', 'COMPLETED', 'DELIVERY')).toBe(false);
+    });
   });
 
   describe('getStatusMessage', () => {
@@ -234,6 +510,73 @@ describe('OrderService', () => {
     });
   });
 
+  describe('releaseCancelledOrder', () => {
+    it('should return the coupon used by the order', async () => {
+      const coupon = await prisma.coupon.create({
+        data: {
+          storeId: 'test-store-id',
+          code: 'CANCEL10',
+          name: '取消測試',
+          type: 'FIXED_AMOUNT',
+          value: 10,
+          validFrom: new Date('2026-01-01T00:00:00Z'),
+          validUntil: new Date('2026-12-31T23:59:59Z'),
+        },
+      });
+      const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      await prisma.$transaction(tx => couponService.redeemForOrder(tx, coupon, order.id, 'test-customer-id', 10));
+      await prisma.$transaction(tx => orderService.releaseCancelledOrder(tx, order.id, '訂單取消'));
+
+      const updated = await prisma.coupon.findUnique({ where: { id: coupon.id } });
+      expect(updated!.usedCount).toBe(0);
+    });
+
+    it('should return the points redeemed on the order', async () => {
+      await prisma.memberPoint.create({
+        data: {
+          userId: 'test-customer-id',
+          type: 'ADMIN_ADJUST',
+          amount: 100,
+          remaining: 100,
+          description: '測試積分',
+        },
+      });
+      const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      await prisma.$transaction(tx => loyaltyService.redeemForOrder(tx, 'test-customer-id', order.id, 40));
+      await prisma.$transaction(tx => orderService.releaseCancelledOrder(tx, order.id, '訂單取消'));
+
+      const { balance } = await loyaltyService.getBalance('test-customer-id');
+      expect(balance).toBe(100);
+    });
+
+    it('should take back the spending of orders refunded after completion', async () => {
+      await prisma.customerProfile.update({
+        where: { userId: 'test-customer-id' },
+        data: { totalSpent: 500 },
+      });
+      const pending = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+      const completed = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+      await prisma.orderStatusHistory.create({
+        data: { orderId: completed.id, status: 'COMPLETED' },
+      });
+
+      try {
+        await prisma.$transaction(tx => orderService.releaseCancelledOrder(tx, pending.id, '訂單取消'));
+        await prisma.$transaction(tx => orderService.releaseCancelledOrder(tx, completed.id, '退款'));
+
+        const profile = await prisma.customerProfile.findUnique({ where: { userId: 'test-customer-id' } });
+        expect(profile!.totalSpent).toBe(500 - completed.finalAmount);
+      } finally {
+        await prisma.customerProfile.update({
+          where: { userId: 'test-customer-id' },
+          data: { totalSpent: 0 },
+        });
+      }
+    });
+  });
+
   describe('getOrderStats', () => {
     beforeEach(async () => {
       // 創建一些測試訂單
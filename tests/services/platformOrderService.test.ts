@@ -0,0 +1,190 @@
+import http from 'http';
+import { PlatformOrderService } from '../../src/services/platformOrderService';
+import { PromotionService } from '../../src/services/promotionService';
+import {
+  createFakeDeliveryPlatform,
+  buildPlatformOrderPayload,
+  buildPlatformCancelPayload,
+  signPlatformWebhook,
+} from '../../src/dev/fakeDeliveryPlatform';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const platformOrderService = new PlatformOrderService();
+const promotionService = new PromotionService();
+
+const WEBHOOK_SECRET = 'test-webhook-secret-123';
+
+describe('PlatformOrderService', () => {
+  const fakePlatform = createFakeDeliveryPlatform({ apiKey: 'test-api-key', webhookSecret: WEBHOOK_SECRET });
+  let server: http.Server;
+  let baseUrl: string;
+  let product: any;
+
+  beforeAll(async () => {
+    ({ server, baseUrl } = await fakePlatform.listen());
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    fakePlatform.pushes.length = 0;
+
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+    product = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '香雞排', basePrice: 80 },
+    });
+
+    for (const platform of ['UBER_EATS', 'FOODPANDA']) {
+      const integration = await platformOrderService.saveIntegration('test-store-id', {
+        platform,
+        externalStoreId: `${platform}-store-1`,
+        apiBaseUrl: baseUrl,
+        apiKey: 'test-api-key',
+        webhookSecret: WEBHOOK_SECRET,
+      });
+      await platformOrderService.replaceMenuMappings(integration.id, [
+        { externalItemId: 'chicken-cutlet', productId: product.id },
+      ]);
+    }
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+    await prisma.user.deleteMany({ where: { email: { endsWith: '@platform.local' } } });
+  });
+
+  const sendWebhook = (platform: string, payload: object, secret = WEBHOOK_SECRET) => {
+    const { rawBody, headers } = signPlatformWebhook(platform, payload, secret);
+    return platformOrderService.handleWebhook(platform, rawBody, headers, JSON.parse(rawBody));
+  };
+
+  describe('handleWebhook', () => {
+    it('should create a confirmed order from mapped items and accept it on the platform', async () => {
+      const payload = buildPlatformOrderPayload('UBER_EATS', {
+        externalStoreId: 'UBER_EATS-store-1',
+        externalOrderId: 'uber-order-1',
+        displayId: 'A1B2C',
+        items: [{ id: 'chicken-cutlet', quantity: 2, note: '不要辣' }],
+        customerName: '王小明',
+      });
+
+      const result = await sendWebhook('UBER_EATS', payload);
+
+      expect(result.created).toBe(true);
+      expect(result.order.orderType).toBe('UBER_EATS');
+      expect(result.order.status).toBe('CONFIRMED');
+      expect(result.order.paymentStatus).toBe('COMPLETED');
+      expect(result.order.externalDisplayId).toBe('A1B2C');
+      expect(result.order.finalAmount).toBe(160);
+      expect(result.order.items[0]).toMatchObject({ productId: product.id, quantity: 2, note: '不要辣' });
+
+      expect(fakePlatform.pushes).toEqual([
+        expect.objectContaining({ platform: 'UBER_EATS', externalOrderId: 'uber-order-1', status: 'ACCEPTED', authorized: true }),
+      ]);
+    });
+
+    it('should record the promotions applied to the platform order', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '滿150折20',
+        conditions: { minSpend: 150 },
+        actionType: 'FIXED_OFF',
+        actionValue: 20,
+      });
+
+      const payload = buildPlatformOrderPayload('UBER_EATS', {
+        externalStoreId: 'UBER_EATS-store-1',
+        externalOrderId: 'uber-order-promo',
+        items: [{ id: 'chicken-cutlet', quantity: 2 }],
+      });
+
+      const result = await sendWebhook('UBER_EATS', payload);
+      const promotions = await prisma.orderPromotion.findMany({ where: { orderId: result.order.id } });
+
+      expect(result.order.discountAmount).toBe(20);
+      expect(result.order.finalAmount).toBe(140);
+      expect(promotions).toEqual([
+        expect.objectContaining({ name: '滿150折20', discountAmount: 20 }),
+      ]);
+    });
+
+    it('should return the existing order when the webhook is delivered twice', async () => {
+      const payload = buildPlatformOrderPayload('FOODPANDA', {
+        externalStoreId: 'FOODPANDA-store-1',
+        externalOrderId: 'fp-order-1',
+        items: [{ id: 'chicken-cutlet', quantity: 1 }],
+      });
+
+      const first = await sendWebhook('FOODPANDA', payload);
+      const second = await sendWebhook('FOODPANDA', payload);
+
+      expect(second.created).toBe(false);
+      expect(second.order.id).toBe(first.order.id);
+      expect(await prisma.order.count({ where: { externalOrderId: 'fp-order-1' } })).toBe(1);
+    });
+
+    it('should reject webhooks with an invalid signature', async () => {
+      const payload = buildPlatformOrderPayload('UBER_EATS', {
+        externalStoreId: 'UBER_EATS-store-1',
+        items: [{ id: 'chicken-cutlet', quantity: 1 }],
+      });
+
+      await expect(sendWebhook('UBER_EATS', payload, 'wrong-secret-value')).rejects.toThrow('平台簽章驗證失敗');
+    });
+
+    it('should reject unmapped items and cancel the order on the platform', async () => {
+      const payload = buildPlatformOrderPayload('UBER_EATS', {
+        externalStoreId: 'UBER_EATS-store-1',
+        externalOrderId: 'uber-order-2',
+        items: [{ id: 'bubble-tea', quantity: 1 }],
+      });
+
+      await expect(sendWebhook('UBER_EATS', payload)).rejects.toThrow('未對應的平台商品: bubble-tea');
+
+      expect(fakePlatform.pushes).toEqual([
+        expect.objectContaining({ externalOrderId: 'uber-order-2', status: 'CANCELLED' }),
+      ]);
+    });
+
+    it('should cancel the order when the platform cancels it', async () => {
+      await sendWebhook('FOODPANDA', buildPlatformOrderPayload('FOODPANDA', {
+        externalStoreId: 'FOODPANDA-store-1',
+        externalOrderId: 'fp-order-2',
+        items: [{ id: 'chicken-cutlet', quantity: 1 }],
+      }));
+
+      const result = await sendWebhook(
+        'FOODPANDA',
+        buildPlatformCancelPayload('FOODPANDA', 'FOODPANDA-store-1', 'fp-order-2', '顧客取消')
+      );
+
+      expect(result.cancelled).toBe(true);
+      expect(result.order.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('syncOrderStatus', () => {
+    it('should push ready status for platform orders only', async () => {
+      const { order } = await sendWebhook('FOODPANDA', buildPlatformOrderPayload('FOODPANDA', {
+        externalStoreId: 'FOODPANDA-store-1',
+        externalOrderId: 'fp-order-3',
+        items: [{ id: 'chicken-cutlet', quantity: 1 }],
+      }));
+      fakePlatform.pushes.length = 0;
+
+      await platformOrderService.syncOrderStatus(order, 'PREPARING');
+      await platformOrderService.syncOrderStatus(order, 'READY');
+
+      const local = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+      await platformOrderService.syncOrderStatus(local, 'READY');
+
+      expect(fakePlatform.pushes).toEqual([
+        expect.objectContaining({ platform: 'FOODPANDA', externalOrderId: 'fp-order-3', status: 'READY' }),
+      ]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { PrepTimeService } from '../../src/services/prepTimeService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const prepTimeService = new PrepTimeService();
+
+describe('PrepTimeService', () => {
+  let chicken: any;
+
+  beforeEach(async () => {
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+
+    chicken = await prisma.product.create({
+      data: {
+        storeId: 'test-store-id',
+        categoryId: category.id,
+        name: '雞排',
+        basePrice: 80,
+        prepTime: 6,
+      },
+    });
+
+    await prisma.kitchenStation.create({
+      data: {
+        storeId: 'test-store-id',
+        name: '炸台',
+        isDefault: true,
+        capacity: 2,
+        categories: { create: [{ categoryId: category.id }] },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  const createQueuedOrder = async (quantity: number, createdAt: Date) => {
+    const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+    return await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        status: 'CONFIRMED',
+        createdAt,
+        items: {
+          create: [{
+            productId: chicken.id,
+            quantity,
+            unitPrice: 80,
+            totalPrice: 80 * quantity,
+          }],
+        },
+      },
+    });
+  };
+
+  const newOrderItems = (quantity: number) => [{
+    productId: chicken.id,
+    quantity,
+    unitPrice: 80,
+    totalPrice: 80 * quantity,
+  }];
+
+  describe('estimateNewOrder', () => {
+    it('should use product prep time and station capacity', async () => {
+      // 2份 x 6分鐘 / 產能2 = 6分鐘 + 5分鐘包裝
+      const estimatedTime = await prepTimeService.estimateNewOrder('test-store-id', newOrderItems(2));
+
+      expect(estimatedTime).toBe(11);
+    });
+
+    it('should include orders already in the queue', async () => {
+      const idle = await prepTimeService.estimateNewOrder('test-store-id', newOrderItems(2));
+
+      await createQueuedOrder(4, new Date());
+
+      const busy = await prepTimeService.estimateNewOrder('test-store-id', newOrderItems(2));
+
+      expect(busy).toBe(idle + 12);
+    });
+  });
+
+  describe('recalculateQueue', () => {
+    it('should stack estimates in queue order and report changed orders', async () => {
+      const now = new Date();
+      const first = await createQueuedOrder(2, new Date(now.getTime() - 10 * 60 * 1000));
+      const second = await createQueuedOrder(2, now);
+
+      const changed = await prepTimeService.recalculateQueue('test-store-id', now);
+
+      const estimates = Object.fromEntries(changed.map(order => [order.id, order.estimatedTime]));
+      expect(estimates[first.id]).toBe(10 + 11);
+      expect(estimates[second.id]).toBe(5 + 12);
+
+      // 沒有變動時不重複推送
+      expect(await prepTimeService.recalculateQueue('test-store-id', now)).toEqual([]);
+    });
+  });
+
+  describe('getCalibrationFactor', () => {
+    it('should fall back to 1 without enough history', async () => {
+      expect(await prepTimeService.getCalibrationFactor('test-store-id')).toBe(1);
+    });
+
+    it('should scale estimates by actual preparation durations', async () => {
+      for (let i = 0; i < 5; i++) {
+        const order = await createQueuedOrder(2, new Date());
+        const started = new Date(Date.now() - 60 * 60 * 1000);
+
+        await prisma.orderStatusHistory.createMany({
+          data: [
+            { orderId: order.id, status: 'PREPARING', createdAt: started },
+            // 預估6分鐘，實際12分鐘
+            { orderId: order.id, status: 'READY', createdAt: new Date(started.getTime() + 12 * 60 * 1000) },
+          ],
+        });
+        await prisma.order.update({ where: { id: order.id }, data: { status: 'COMPLETED' } });
+      }
+
+      expect(await prepTimeService.getCalibrationFactor('test-store-id')).toBe(2);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,234 @@
+import { PromotionService } from '../../src/services/promotionService';
+import { OrderService } from '../../src/services/orderService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const promotionService = new PromotionService();
+const orderService = new OrderService();
+
+describe('PromotionService', () => {
+  let category: any;
+  let cutlet: any;
+  let wings: any;
+  let tea: any;
+
+  beforeEach(async () => {
+    category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+    const drinks = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '飲料' },
+    });
+
+    cutlet = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排', basePrice: 80 },
+    });
+    wings = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '雞翅', basePrice: 60 },
+    });
+    tea = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: drinks.id, name: '紅茶', basePrice: 30 },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('evaluate', () => {
+    it('should give a free item for every qualifying set', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '買兩份雞排送紅茶',
+        conditions: { productIds: [cutlet.id], minQuantity: 2 },
+        actionType: 'FREE_ITEM',
+        rewardProductId: tea.id,
+      });
+
+      const result = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 5, totalPrice: 400 },
+        { productId: tea.id, quantity: 3, totalPrice: 90 },
+      ]);
+
+      // 5份雞排可套用2組，送2杯紅茶
+      expect(result.discountAmount).toBe(60);
+      expect(result.itemDiscounts).toEqual([0, 60]);
+      expect(result.promotions).toEqual([
+        expect.objectContaining({ name: '買兩份雞排送紅茶', discountAmount: 60 }),
+      ]);
+    });
+
+    it('should discount the cheaper item for second-item-half-price', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '炸物第二件半價',
+        conditions: { categoryIds: [category.id], minQuantity: 2 },
+        actionType: 'PERCENTAGE_OFF',
+        actionValue: 50,
+        rewardQuantity: 1,
+      });
+
+      const result = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 1, totalPrice: 80 },
+        { productId: wings.id, quantity: 1, totalPrice: 60 },
+        { productId: tea.id, quantity: 1, totalPrice: 30 },
+      ]);
+
+      expect(result.itemDiscounts).toEqual([0, 30, 0]);
+    });
+
+    it('should apply spend thresholds and bundle prices', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '滿300折30',
+        conditions: { minSpend: 300 },
+        actionType: 'FIXED_OFF',
+        actionValue: 30,
+      });
+      await promotionService.createPromotion('test-store-id', {
+        name: '雞排兩份140',
+        conditions: { productIds: [cutlet.id], minQuantity: 2 },
+        actionType: 'BUNDLE_PRICE',
+        actionValue: 140,
+        priority: 10,
+      });
+
+      const result = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 3, totalPrice: 240 },
+        { productId: tea.id, quantity: 2, totalPrice: 60 },
+      ]);
+
+      // 組合價優先，折20後剩280，滿額折30依原價300判斷
+      expect(result.promotions.map(promotion => promotion.name)).toEqual(['雞排兩份140', '滿300折30']);
+      expect(result.discountAmount).toBe(50);
+    });
+
+    it('should honour stacking and coupon combination rules', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '全品項9折',
+        conditions: {},
+        actionType: 'PERCENTAGE_OFF',
+        actionValue: 10,
+        priority: 10,
+        stackable: false,
+        combinableWithCoupons: false,
+      });
+      await promotionService.createPromotion('test-store-id', {
+        name: '滿100折10',
+        conditions: { minSpend: 100 },
+        actionType: 'FIXED_OFF',
+        actionValue: 10,
+      });
+
+      const result = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 2, totalPrice: 160 },
+      ]);
+
+      expect(result.promotions.map(promotion => promotion.name)).toEqual(['全品項9折']);
+      expect(result.discountAmount).toBe(16);
+
+      const withCoupon = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 2, totalPrice: 160 },
+      ], { withCoupon: true });
+      expect(withCoupon.promotions.map(promotion => promotion.name)).toEqual(['滿100折10']);
+    });
+
+    it('should ignore inactive and expired promotions', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '已結束',
+        conditions: {},
+        actionType: 'FIXED_OFF',
+        actionValue: 10,
+        validFrom: new Date('2020-01-01'),
+        validUntil: new Date('2020-12-31'),
+      });
+      await promotionService.createPromotion('test-store-id', {
+        name: '已停用',
+        conditions: {},
+        actionType: 'FIXED_OFF',
+        actionValue: 10,
+        isActive: false,
+      });
+
+      const result = await promotionService.evaluate('test-store-id', [
+        { productId: cutlet.id, quantity: 1, totalPrice: 80 },
+      ]);
+
+      expect(result.promotions).toHaveLength(0);
+    });
+  });
+
+  describe('createPromotion', () => {
+    it('should require a bundle size for bundle prices', async () => {
+      await expect(promotionService.createPromotion('test-store-id', {
+        name: '組合價',
+        conditions: { productIds: [cutlet.id] },
+        actionType: 'BUNDLE_PRICE',
+        actionValue: 100,
+      })).rejects.toThrow('組合價需設定至少2件的組合數量及組合價格');
+    });
+  });
+
+  describe('quoteOrder', () => {
+    it('should itemize promotions and apply coupons to the remaining amount', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '買兩份雞排送紅茶',
+        conditions: { productIds: [cutlet.id], minQuantity: 2 },
+        actionType: 'FREE_ITEM',
+        rewardProductId: tea.id,
+      });
+      await prisma.coupon.create({
+        data: {
+          storeId: 'test-store-id',
+          name: '九折券',
+          code: 'TEN',
+          type: 'PERCENTAGE',
+          value: 10,
+          validFrom: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        },
+      });
+
+      const quote = await orderService.quoteOrder(
+        [{ productId: cutlet.id, quantity: 2 }, { productId: tea.id, quantity: 1 }],
+        'test-store-id',
+        'TEN'
+      );
+
+      expect(quote.totalAmount).toBe(190);
+      expect(quote.promotions).toEqual([
+        expect.objectContaining({ name: '買兩份雞排送紅茶', discountAmount: 30 }),
+      ]);
+      expect(quote.couponDiscountAmount).toBe(16);
+      expect(quote.discountAmount).toBe(46);
+      expect(quote.finalAmount).toBe(144);
+      expect(quote.items[0].discountAmount).toBe(16);
+      expect(quote.items[1].discountAmount).toBe(30);
+    });
+
+    it('should check the coupon minimum against the promoted amount', async () => {
+      await promotionService.createPromotion('test-store-id', {
+        name: '買兩份雞排送紅茶',
+        conditions: { productIds: [cutlet.id], minQuantity: 2 },
+        actionType: 'FREE_ITEM',
+        rewardProductId: tea.id,
+      });
+      await prisma.coupon.create({
+        data: {
+          storeId: 'test-store-id',
+          name: '滿180折20',
+          code: 'MIN180',
+          type: 'FIXED_AMOUNT',
+          value: 20,
+          minOrderAmount: 180,
+          validFrom: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        },
+      });
+
+      // 原價190，促銷後160未達門檻
+      await expect(orderService.quoteOrder(
+        [{ productId: cutlet.id, quantity: 2 }, { productId: tea.id, quantity: 1 }],
+        'test-store-id',
+        'MIN180'
+      )).rejects.toThrow('最低消費金額為 180');
+    });
+  });
+});
\ No newline at end of file
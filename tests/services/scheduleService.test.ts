@@ -0,0 +1,151 @@
+import { ScheduleService } from '../../src/services/scheduleService';
+import { zonedTimeToUtc } from '../../src/utils/businessDay';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const scheduleService = new ScheduleService();
+
+describe('ScheduleService', () => {
+  // 2026-10-20 (星期二) 台北時間 09:00
+  const now = zonedTimeToUtc('2026-10-20', 9 * 60, 'Asia/Taipei');
+  const at = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return zonedTimeToUtc('2026-10-20', hours * 60 + minutes, 'Asia/Taipei');
+  };
+
+  beforeEach(async () => {
+    await prisma.store.update({
+      where: { id: 'test-store-id' },
+      data: {
+        timezone: 'Asia/Taipei',
+        businessHours: JSON.stringify({ tuesday: { open: '10:00', close: '14:00' } }),
+      },
+    });
+
+    await prisma.pickupSlotConfig.create({
+      data: { storeId: 'test-store-id', slotMinutes: 15, maxOrders: 2, maxItems: 10, leadMinutes: 20 },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.pickupSlotConfig.deleteMany();
+    await global.testUtils.cleanup();
+  });
+
+  const createScheduledOrder = async (scheduledFor: Date, data: Record<string, any> = {}) => {
+    return await prisma.order.create({
+      data: {
+        orderNumber: `SCHED${Date.now()}${Math.random()}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'TAKEOUT',
+        status: 'CONFIRMED',
+        totalAmount: 100,
+        discountAmount: 0,
+        finalAmount: 100,
+        paymentStatus: 'PENDING',
+        scheduledFor,
+        ...data,
+      },
+    });
+  };
+
+  describe('getAvailableSlots', () => {
+    it('should split business hours into slots with remaining capacity', async () => {
+      await createScheduledOrder(at('12:15'));
+
+      const slots = await scheduleService.getAvailableSlots('test-store-id', '2026-10-20', now);
+
+      expect(slots).toHaveLength(16);
+      expect(slots[0].start).toEqual(at('10:00'));
+      expect(slots[0].end).toEqual(at('10:15'));
+
+      const lunch = slots.find(slot => slot.start.getTime() === at('12:15').getTime())!;
+      expect(lunch.orderCount).toBe(1);
+      expect(lunch.remainingOrders).toBe(1);
+      expect(lunch.available).toBe(true);
+    });
+
+    it('should return no slots on closed days', async () => {
+      const slots = await scheduleService.getAvailableSlots('test-store-id', '2026-10-21', now);
+
+      expect(slots).toEqual([]);
+    });
+  });
+
+  describe('reserveSlot', () => {
+    it('should reject full slots', async () => {
+      await createScheduledOrder(at('12:15'));
+      await createScheduledOrder(at('12:15'));
+
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:15'), 1, now))
+      ).rejects.toThrow('該時段已額滿');
+    });
+
+    it('should count reservations against the slot limits', async () => {
+      await prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:30'), 6, now));
+
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:30'), 5, now))
+      ).rejects.toThrow('該時段剩餘可預約4份');
+
+      await prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:30'), 4, now));
+
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:30'), 1, now))
+      ).rejects.toThrow('該時段已額滿');
+    });
+
+    it('should return capacity when a scheduled order is cancelled', async () => {
+      await createScheduledOrder(at('12:15'));
+      const order = await createScheduledOrder(at('12:15'));
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:15'), 1, now))
+      ).rejects.toThrow('該時段已額滿');
+
+      await prisma.$transaction(tx => scheduleService.releaseSlot(tx, order.id));
+
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:15'), 1, now))
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject times that are not slot boundaries or too soon', async () => {
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('12:20'), 1, now))
+      ).rejects.toThrow('預約時間不在可預約的時段內');
+
+      await expect(
+        prisma.$transaction(tx => scheduleService.reserveSlot(tx, 'test-store-id', at('09:15'), 1, now))
+      ).rejects.toThrow('預約時間至少需提前30分鐘');
+    });
+  });
+
+  describe('releaseDueOrders', () => {
+    it('should release orders once their lead time is reached', async () => {
+      const due = await createScheduledOrder(at('12:15'), { estimatedTime: 10 });
+      const later = await createScheduledOrder(at('13:00'), { estimatedTime: 10 });
+
+      // 取餐前20分鐘送出
+      const released = await scheduleService.releaseDueOrders(at('11:55'));
+
+      expect(released.map(r => r.order.id)).toEqual([due.id]);
+
+      const orders = await prisma.order.findMany({ where: { id: { in: [due.id, later.id] } } });
+      expect(orders.find(order => order.id === due.id)!.releasedAt).not.toBeNull();
+      expect(orders.find(order => order.id === later.id)!.releasedAt).toBeNull();
+
+      // 已送出的訂單不會重複送出
+      expect(await scheduleService.releaseDueOrders(at('11:56'))).toEqual([]);
+    });
+
+    it('should release earlier when the estimated preparation time is longer', async () => {
+      const order = await createScheduledOrder(at('12:15'), { estimatedTime: 45 });
+
+      const released = await scheduleService.releaseDueOrders(at('11:30'));
+
+      expect(released.map(r => r.order.id)).toEqual([order.id]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { SplitBillService } from '../../src/services/splitBillService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const splitBillService = new SplitBillService();
+
+describe('SplitBillService', () => {
+  let chicken: any;
+  let drink: any;
+
+  beforeEach(async () => {
+    const category = await prisma.category.create({
+      data: { storeId: 'test-store-id', name: '炸物' },
+    });
+
+    chicken = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '雞排', basePrice: 80 },
+    });
+    drink = await prisma.product.create({
+      data: { storeId: 'test-store-id', categoryId: category.id, name: '紅茶', basePrice: 30 },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  const createOrder = async (data: Record<string, any> = {}) => {
+    return await prisma.order.create({
+      data: {
+        orderNumber: `SPLIT${Date.now()}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'DINE_IN',
+        status: 'CONFIRMED',
+        totalAmount: 220,
+        discountAmount: 0,
+        finalAmount: 220,
+        paymentStatus: 'PENDING',
+        items: {
+          create: [
+            { productId: chicken.id, quantity: 2, unitPrice: 80, totalPrice: 160 },
+            { productId: drink.id, quantity: 2, unitPrice: 30, totalPrice: 60 },
+          ],
+        },
+        ...data,
+      },
+      include: { items: true },
+    });
+  };
+
+  describe('recordPayments', () => {
+    it('should mark the order partially paid until the balance is settled', async () => {
+      const order = await createOrder();
+
+      const first = await prisma.$transaction(tx =>
+        splitBillService.recordPayments(tx, order.id, [
+          { method: 'CASH', amount: 100, payerName: '小明' },
+          { method: 'CARD', amount: 50, payerName: '小華' },
+        ])
+      );
+
+      expect(first.paymentStatus).toBe('PARTIAL');
+      expect(first.outstanding).toBe(70);
+      expect(first.payments).toHaveLength(2);
+
+      const second = await prisma.$transaction(tx =>
+        splitBillService.recordPayments(tx, order.id, [{ method: 'LINE_PAY', amount: 70 }])
+      );
+
+      expect(second.paymentStatus).toBe('COMPLETED');
+      expect(second.paidAmount).toBe(220);
+      expect(second.outstanding).toBe(0);
+    });
+
+    it('should reject payments above the outstanding balance', async () => {
+      const order = await createOrder();
+
+      await expect(
+        prisma.$transaction(tx =>
+          splitBillService.recordPayments(tx, order.id, [
+            { method: 'CASH', amount: 200 },
+            { method: 'CARD', amount: 50 },
+          ])
+        )
+      ).rejects.toThrow('付款金額超過未付餘額 20');
+
+      const payments = await prisma.payment.count({ where: { orderId: order.id } });
+      expect(payments).toBe(0);
+    });
+  });
+
+  describe('recordItemPayment', () => {
+    it('should charge each payer for their own items and track remaining quantities', async () => {
+      const order = await createOrder({ discountAmount: 22, finalAmount: 198 });
+      const [chickenItem, drinkItem] = order.items;
+
+      const first = await prisma.$transaction(tx =>
+        splitBillService.recordItemPayment(tx, order.id, {
+          method: 'CASH',
+          payerName: '小明',
+          items: [
+            { orderItemId: chickenItem.id, quantity: 1 },
+            { orderItemId: drinkItem.id, quantity: 1 },
+          ],
+        })
+      );
+
+      // (80 + 30) x 九折
+      expect(first.payments[0].amount).toBe(99);
+      expect(first.paymentStatus).toBe('PARTIAL');
+
+      const balance = await splitBillService.getBalance(order.id);
+      expect(balance.items.find(item => item.orderItemId === chickenItem.id)!.paidQuantity).toBe(1);
+
+      await expect(
+        prisma.$transaction(tx =>
+          splitBillService.recordItemPayment(tx, order.id, {
+            method: 'CARD',
+            items: [{ orderItemId: chickenItem.id, quantity: 2 }],
+          })
+        )
+      ).rejects.toThrow('雞排 可付款數量剩餘 1');
+
+      const last = await prisma.$transaction(tx =>
+        splitBillService.recordItemPayment(tx, order.id, {
+          method: 'CARD',
+          payerName: '小華',
+          items: [
+            { orderItemId: chickenItem.id, quantity: 1 },
+            { orderItemId: drinkItem.id, quantity: 1 },
+          ],
+        })
+      );
+
+      expect(last.payments[0].amount).toBe(99);
+      expect(last.paymentStatus).toBe('COMPLETED');
+    });
+  });
+
+  describe('splitEvenly', () => {
+    it('should give the rounding remainder to the first payer', () => {
+      expect(splitBillService.splitEvenly(100, 3)).toEqual([33.34, 33.33, 33.33]);
+      expect(splitBillService.splitEvenly(220, 2)).toEqual([110, 110]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,109 @@
+import jwt from 'jsonwebtoken';
+import { TableQrService, TABLE_GUEST_SCOPE } from '../../src/services/tableQrService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const tableQrService = new TableQrService();
+
+describe('TableQrService', () => {
+  let table: any;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+  });
+
+  beforeEach(async () => {
+    table = await prisma.table.create({
+      data: { storeId: 'test-store-id', name: 'B3', seats: 4 },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.user.deleteMany({ where: { email: { startsWith: 'table_' } } });
+    await global.testUtils.cleanup();
+  });
+
+  describe('openGuestSession', () => {
+    it('should issue a guest token scoped to the store and table', async () => {
+      const token = tableQrService.generateToken(table);
+
+      const session = await tableQrService.openGuestSession(token);
+
+      expect(session.table.name).toBe('B3');
+      expect(session.store.id).toBe('test-store-id');
+
+      const decoded = jwt.verify(session.accessToken, process.env.JWT_SECRET!) as any;
+      expect(decoded.scope).toBe(TABLE_GUEST_SCOPE);
+      expect(decoded.tableId).toBe(table.id);
+
+      const scope = await tableQrService.verifyGuestScope(decoded.tableId, decoded.qrVersion, decoded.sessionId);
+      expect(scope).toEqual({ storeId: 'test-store-id', tableId: table.id, tableName: 'B3', branchId: null });
+    });
+
+    it('should share one guest per table session', async () => {
+      const token = tableQrService.generateToken(table);
+
+      const first = jwt.decode((await tableQrService.openGuestSession(token)).accessToken) as any;
+      const second = jwt.decode((await tableQrService.openGuestSession(token)).accessToken) as any;
+
+      expect(second.userId).toBe(first.userId);
+
+      const updated = await prisma.table.findUnique({ where: { id: table.id } });
+      expect(updated!.sessionId).not.toBeNull();
+    });
+
+    it('should reject guest tokens from a session that has been checked out', async () => {
+      const token = tableQrService.generateToken(table);
+      const previous = jwt.decode((await tableQrService.openGuestSession(token)).accessToken) as any;
+
+      await prisma.tableSession.update({
+        where: { id: previous.sessionId },
+        data: { status: 'CLOSED', closedAt: new Date() },
+      });
+      await prisma.table.update({ where: { id: table.id }, data: { sessionId: null } });
+
+      await expect(
+        tableQrService.verifyGuestScope(previous.tableId, previous.qrVersion, previous.sessionId)
+      ).rejects.toThrow('桌次已結束');
+
+      const next = jwt.decode((await tableQrService.openGuestSession(token)).accessToken) as any;
+      expect(next.sessionId).not.toBe(previous.sessionId);
+      await expect(
+        tableQrService.verifyGuestScope(next.tableId, next.qrVersion, next.sessionId)
+      ).resolves.toEqual(expect.objectContaining({ tableId: table.id }));
+    });
+
+    it('should reject tampered tokens', async () => {
+      const token = jwt.sign(
+        { type: 'TABLE_QR', tableId: table.id, storeId: 'test-store-id', version: 1 },
+        'wrong-secret'
+      );
+
+      await expect(tableQrService.openGuestSession(token)).rejects.toThrow('QR Code無效');
+    });
+
+    it('should not accept a login token as a QR code', async () => {
+      const token = jwt.sign({ userId: 'test-customer-id', tenantId: 'test-tenant-id' }, process.env.JWT_SECRET!);
+
+      await expect(tableQrService.openGuestSession(token)).rejects.toThrow('QR Code無效');
+    });
+  });
+
+  describe('rotateToken', () => {
+    it('should invalidate previously printed QR codes and guest sessions', async () => {
+      const oldToken = tableQrService.generateToken(table);
+      const guest = await tableQrService.openGuestSession(oldToken);
+      const decoded = jwt.decode(guest.accessToken) as any;
+
+      const newToken = await tableQrService.rotateToken(table.id);
+
+      await expect(tableQrService.openGuestSession(oldToken)).rejects.toThrow('QR Code已失效');
+      await expect(
+        tableQrService.verifyGuestScope(decoded.tableId, decoded.qrVersion, decoded.sessionId)
+      ).rejects.toThrow('QR Code已失效');
+
+      const session = await tableQrService.openGuestSession(newToken);
+      expect(session.table.id).toBe(table.id);
+    });
+  });
+});
\ No newline at end of file
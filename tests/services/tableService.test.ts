@@ -0,0 +1,123 @@
+import { TableService } from '../../src/services/tableService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const tableService = new TableService();
+
+describe('TableService', () => {
+  let tableA: any;
+  let tableB: any;
+
+  beforeEach(async () => {
+    tableA = await prisma.table.create({
+      data: { storeId: 'test-store-id', name: 'A1', area: '一樓', seats: 4 },
+    });
+    tableB = await prisma.table.create({
+      data: { storeId: 'test-store-id', name: 'A2', area: '一樓', seats: 2 },
+    });
+  });
+
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  const placeOrder = async (tableId: string, finalAmount: number) => {
+    const { sessionId, tableName } = await prisma.$transaction(tx =>
+      tableService.attachOrder(tx, 'test-store-id', tableId, 'test-staff-id')
+    );
+
+    return await prisma.order.create({
+      data: {
+        orderNumber: `TABLE${Date.now()}${Math.random()}`,
+        storeId: 'test-store-id',
+        customerId: 'test-customer-id',
+        orderType: 'DINE_IN',
+        status: 'CONFIRMED',
+        totalAmount: finalAmount,
+        discountAmount: 0,
+        finalAmount,
+        paymentStatus: 'PENDING',
+        tableNumber: tableName,
+        tableSessionId: sessionId,
+      },
+    });
+  };
+
+  const statusOf = async (tableId: string) => {
+    const tables = await tableService.getFloorPlan('test-store-id');
+    return tables.find(table => table.id === tableId)!.status;
+  };
+
+  describe('attachOrder', () => {
+    it('should open a session on a free table and accumulate later orders', async () => {
+      const first = await placeOrder(tableA.id, 200);
+      const second = await placeOrder(tableA.id, 80);
+
+      expect(second.tableSessionId).toBe(first.tableSessionId);
+      expect(await statusOf(tableA.id)).toBe('OCCUPIED');
+      expect(await statusOf(tableB.id)).toBe('FREE');
+
+      const session = await tableService.getSession(first.tableSessionId!);
+      expect(session.orderCount).toBe(2);
+      expect(session.outstanding).toBe(280);
+    });
+  });
+
+  describe('checkout', () => {
+    it('should settle every order in the session and free the table', async () => {
+      const order = await placeOrder(tableA.id, 200);
+      await placeOrder(tableA.id, 80);
+
+      await tableService.requestBill(order.tableSessionId!);
+      expect(await statusOf(tableA.id)).toBe('AWAITING_PAYMENT');
+
+      const result = await tableService.checkout(order.tableSessionId!, 'CASH', 'test-staff-id');
+
+      expect(result.payments.map(payment => payment.amount).sort((a, b) => a - b)).toEqual([80, 200]);
+      expect(await statusOf(tableA.id)).toBe('FREE');
+
+      const session = await prisma.tableSession.findUnique({ where: { id: order.tableSessionId! } });
+      expect(session!.status).toBe('CLOSED');
+    });
+  });
+
+  describe('transferSession', () => {
+    it('should move the session and open orders to a free table', async () => {
+      const order = await placeOrder(tableA.id, 120);
+
+      await tableService.transferSession(order.tableSessionId!, tableB.id);
+
+      expect(await statusOf(tableA.id)).toBe('FREE');
+      expect(await statusOf(tableB.id)).toBe('OCCUPIED');
+
+      const moved = await prisma.order.findUnique({ where: { id: order.id } });
+      expect(moved!.tableNumber).toBe('A2');
+    });
+
+    it('should reject transfers to an occupied table', async () => {
+      const order = await placeOrder(tableA.id, 120);
+      await placeOrder(tableB.id, 60);
+
+      await expect(
+        tableService.transferSession(order.tableSessionId!, tableB.id)
+      ).rejects.toThrow('A2 桌位使用中');
+    });
+  });
+
+  describe('mergeTables', () => {
+    it('should move the source session orders into the target session', async () => {
+      const target = await placeOrder(tableA.id, 120);
+      const source = await placeOrder(tableB.id, 60);
+
+      const session = await tableService.mergeTables(tableA.id, tableB.id);
+
+      expect(session.id).toBe(target.tableSessionId);
+      expect(session.orderCount).toBe(2);
+      expect(session.tables.map(table => table.name).sort()).toEqual(['A1', 'A2']);
+
+      const merged = await prisma.tableSession.findUnique({ where: { id: source.tableSessionId! } });
+      expect(merged!.status).toBe('MERGED');
+      expect(merged!.mergedIntoId).toBe(target.tableSessionId);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { WorkflowService } from '../../src/services/workflowService';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const workflowService = new WorkflowService();
+
+describe('WorkflowService', () => {
+  afterEach(async () => {
+    await global.testUtils.cleanup();
+  });
+
+  describe('getDefaultWorkflow', () => {
+    it('should route delivery orders through OUT_FOR_DELIVERY', () => {
+      const workflow = workflowService.getDefaultWorkflow('DELIVERY');
+
+      expect(workflow.transitions).toContainEqual({ from: 'READY', to: 'OUT_FOR_DELIVERY' });
+      expect(workflow.transitions).not.toContainEqual({ from: 'READY', to: 'COMPLETED' });
+    });
+
+    it('should keep the original flow for takeout orders', () => {
+      const workflow = workflowService.getDefaultWorkflow('TAKEOUT');
+
+      expect(workflow.states).not.toContain('OUT_FOR_DELIVERY');
+      expect(workflow.transitions).toContainEqual({ from: 'READY', to: 'COMPLETED' });
+    });
+  });
+
+  describe('assertTransition', () => {
+    const order = {
+      id: 'test-order-id',
+      storeId: 'test-store-id',
+      orderType: 'TAKEOUT',
+      status: 'CONFIRMED',
+    };
+
+    it('should reject transitions outside the workflow', async () => {
+      await expect(
+        workflowService.assertTransition(order, 'COMPLETED', ['STAFF'])
+      ).rejects.toThrow('無法從CONFIRMED轉換為COMPLETED');
+    });
+
+    it('should use the store workflow and enforce roles', async () => {
+      await workflowService.saveWorkflow('test-store-id', 'TAKEOUT', {
+        states: ['PENDING', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+        transitions: [
+          { from: 'PENDING', to: 'CONFIRMED' },
+          { from: 'CONFIRMED', to: 'COMPLETED' },
+          { from: 'CONFIRMED', to: 'CANCELLED', roles: ['STORE_MANAGER'] },
+        ],
+      });
+
+      await expect(workflowService.assertTransition(order, 'COMPLETED', ['STAFF'])).resolves.toBeUndefined();
+      await expect(
+        workflowService.assertTransition(order, 'CANCELLED', ['STAFF'])
+      ).rejects.toThrow('權限不足');
+    });
+
+    it('should reject workflows with unknown states', async () => {
+      await expect(
+        workflowService.saveWorkflow('test-store-id', 'TAKEOUT', {
+          states: ['PENDING', 'CONFIRMED', 'COMPLETED'],
+          transitions: [
+            { from: 'PENDING', to: 'CONFIRMED' },
+            { from: 'CONFIRMED', to: 'READY' },
+          ],
+        })
+      ).rejects.toThrow('流程轉換包含未定義的狀態');
+    });
+  });
+
+  describe('applyAutoTransitions', () => {
+    it('should confirm pending orders on payment by default', async () => {
+      const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      const status = await prisma.$transaction(async (tx) =>
+        workflowService.applyAutoTransitions(tx, order, 'PAYMENT_COMPLETED', '付款完成')
+      );
+
+      const updated = await prisma.order.findUnique({ where: { id: order.id } });
+      expect(status).toBe('CONFIRMED');
+      expect(updated!.status).toBe('CONFIRMED');
+    });
+
+    it('should chain auto transitions for cash sales', async () => {
+      await workflowService.saveWorkflow('test-store-id', 'TAKEOUT', {
+        states: ['PENDING', 'CONFIRMED', 'COMPLETED', 'CANCELLED'],
+        transitions: [
+          { from: 'PENDING', to: 'CONFIRMED' },
+          { from: 'CONFIRMED', to: 'COMPLETED' },
+        ],
+        autoTransitions: [
+          { event: 'PAYMENT_COMPLETED', from: 'PENDING', to: 'CONFIRMED' },
+          { event: 'PAYMENT_COMPLETED', from: 'CONFIRMED', to: 'COMPLETED' },
+        ],
+      });
+      const order = await global.testUtils.createTestOrder('test-customer-id', 'test-store-id');
+
+      const status = await prisma.$transaction(async (tx) =>
+        workflowService.applyAutoTransitions(tx, order, 'PAYMENT_COMPLETED', '現金付款完成')
+      );
+
+      const history = await prisma.orderStatusHistory.findMany({ where: { orderId: order.id } });
+      expect(status).toBe('COMPLETED');
+      expect(history.map(entry => entry.status)).toEqual(['CONFIRMED', 'COMPLETED']);
+    });
+  });
+});
\ No newline at end of file
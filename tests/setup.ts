@@ -60,8 +60,45 @@ global.testUtils = {
 
   // 清理測試數據
   cleanup: async () => {
+    await prisma.idempotencyKey.deleteMany();
+    await prisma.inventoryMovement.deleteMany();
+    await prisma.inventory.deleteMany();
+    await prisma.kitchenTicketItem.deleteMany();
+    await prisma.paymentItem.deleteMany();
+    await prisma.orderItemModifier.deleteMany();
+    await prisma.orderItemComponent.deleteMany();
     await prisma.orderItem.deleteMany();
+    await prisma.orderStatusHistory.deleteMany();
+    await prisma.orderItemChange.deleteMany();
+    await prisma.payment.deleteMany();
+    await prisma.deliveryJob.deleteMany();
+    await prisma.driverLocation.deleteMany();
+    await prisma.couponRedemption.deleteMany();
+    await prisma.orderPromotion.deleteMany();
+    await prisma.memberPointUsage.deleteMany();
+    await prisma.memberPoint.deleteMany();
     await prisma.order.deleteMany();
+    await prisma.table.updateMany({ data: { sessionId: null } });
+    await prisma.tableSession.deleteMany();
+    await prisma.table.deleteMany();
+    await prisma.couponTarget.deleteMany();
+    await prisma.coupon.deleteMany();
+    await prisma.couponCampaign.deleteMany();
+    await prisma.promotion.deleteMany();
+    await prisma.loyaltyConfig.deleteMany();
+    await prisma.loyaltyTier.deleteMany();
+    await prisma.loyaltyTierChange.deleteMany();
+    await prisma.deliveryZone.deleteMany();
+    await prisma.platformIntegration.deleteMany();
+    await prisma.orderSequence.deleteMany();
+    await prisma.pickupSlotUsage.deleteMany();
+    await prisma.orderWorkflow.deleteMany();
+    await prisma.modifierGroup.deleteMany();
+    await prisma.comboSlot.deleteMany();
+    await prisma.kitchenStation.deleteMany();
+    await prisma.availabilitySchedule.deleteMany();
+    await prisma.priceRule.deleteMany();
+    await prisma.branchProductOverride.deleteMany();
     await prisma.product.deleteMany();
     await prisma.category.deleteMany();
   },